@@ -0,0 +1,603 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  applyAutomationPasses,
+  applyMixDesign,
+  applyProjectSettings,
+  applyTrackBlueprint,
+  captureSessionSnapshot,
+  insertSampleAsClip,
+  LIVE_ENVELOPES_UNSUPPORTED,
+  listAvailableDevices,
+  listDeviceParameters,
+  readClipNotes,
+  removeTrackByName,
+  renderArrangement,
+  setDeviceEnabled,
+  setDeviceParameterValues,
+  setSessionBackend,
+} from "../abletonClient";
+import { createMockBackend, type MockDevice, type MockSessionBackend } from "../mockSession";
+import type { MixDesign } from "../workflow/types";
+
+describe("abletonClient (mock backend)", () => {
+  let backend: MockSessionBackend;
+
+  beforeEach(() => {
+    backend = createMockBackend();
+    setSessionBackend(backend);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setSessionBackend(null);
+    vi.restoreAllMocks();
+  });
+
+  describe("applyProjectSettings", () => {
+    it("should set tempo, signature and transport", async () => {
+      await applyProjectSettings({ tempo: 174, timeSignature: "7/8", metronome: true, play: true });
+
+      expect(backend.liveSet.tempo).toBe(174);
+      expect(backend.liveSet.signatureNumerator).toBe(7);
+      expect(backend.liveSet.signatureDenominator).toBe(8);
+      expect(backend.liveSet.metronome).toBe(true);
+      expect(backend.liveSet.isPlaying).toBe(true);
+    });
+  });
+
+  describe("applyTrackBlueprint", () => {
+    it("should create a MIDI track with a named clip and notes", async () => {
+      const type = await applyTrackBlueprint(
+        {
+          name: "Bass",
+          type: "MIDI",
+          colorIndex: 12,
+          clips: [
+            {
+              name: "Bass A",
+              length: "2 bars",
+              notes: [
+                { pitch: 36, time: 0, duration: 1, velocity: 110 },
+                { pitch: 43, time: "1 bar", duration: "1/2" },
+              ],
+            },
+          ],
+        },
+        4,
+      );
+
+      expect(type).toBe("MIDI");
+      const track = backend.liveSet.tracks[0]!;
+      expect(track.name).toBe("Bass");
+      expect(track.colorIndex).toBe(12);
+
+      const clip = track.clipSlots[0]!;
+      expect(clip.name).toBe("Bass A");
+      expect(clip.loopEnd).toBe(8);
+      expect(clip.notes).toEqual([
+        { pitch: 36, time: 0, duration: 1, velocity: 110, muted: false },
+        { pitch: 43, time: 4, duration: 0.5, velocity: 100, muted: false },
+      ]);
+    });
+
+    it("should update an existing track instead of creating a duplicate", async () => {
+      await applyTrackBlueprint({ name: "Keys", clips: [{ name: "Loop", notes: [{ pitch: 60 }] }] }, 4);
+      await applyTrackBlueprint({ name: "keys", mute: true, clips: [{ name: "Loop", notes: [{ pitch: 64 }] }] }, 4);
+
+      expect(backend.liveSet.tracks).toHaveLength(1);
+      const track = backend.liveSet.tracks[0]!;
+      expect(track.mute).toBe(true);
+      expect(track.clipSlots.filter(Boolean)).toHaveLength(1);
+      expect(track.clipSlots[0]!.notes.map((n) => n.pitch)).toEqual([64]);
+    });
+
+    it("should add a scene when every clip slot is full", async () => {
+      backend.liveSet.sceneCount = 1;
+      const clips = [{ name: "One", notes: [{ pitch: 60 }] }, { name: "Two", notes: [{ pitch: 62 }] }];
+
+      await applyTrackBlueprint({ name: "Lead", clips }, 4);
+
+      expect(backend.liveSet.sceneCount).toBe(2);
+      expect(backend.liveSet.tracks[0]!.clipSlots.map((c) => c?.name)).toEqual(["One", "Two"]);
+    });
+
+    it("should load the requested device from the browser", async () => {
+      await applyTrackBlueprint({ name: "Drums", type: "MIDI", device: "drum rack" }, 4);
+
+      const devices = backend.liveSet.tracks[0]!.devices;
+      expect(devices.map((d) => d.name)).toEqual(["Drum Rack"]);
+    });
+
+    it("should create return tracks", async () => {
+      const type = await applyTrackBlueprint({ name: "Verb", type: "Return", device: "Reverb" }, 4);
+
+      expect(type).toBe("Return");
+      expect(backend.liveSet.returnTracks.map((t) => t.name)).toEqual(["Verb"]);
+    });
+  });
+
+  describe("removeTrackByName", () => {
+    it("should delete tracks and return tracks", async () => {
+      await applyTrackBlueprint({ name: "Pad" }, 4);
+      await applyTrackBlueprint({ name: "Delay", type: "Return" }, 4);
+
+      await removeTrackByName("pad");
+      await removeTrackByName("Delay");
+
+      expect(backend.liveSet.tracks).toHaveLength(0);
+      expect(backend.liveSet.returnTracks).toHaveLength(0);
+    });
+
+    it("should throw for unknown tracks", async () => {
+      await expect(removeTrackByName("Nope")).rejects.toThrow('Track "Nope" was not found');
+    });
+  });
+
+  describe("renderArrangement", () => {
+    const blueprint = {
+      tracks: [
+        {
+          name: "Bass",
+          device: "Analog",
+          clips: [
+            { name: "Bass-Intro", length: "4 bars", startBar: 0, notes: [{ pitch: 36, time: 0 }] },
+            { name: "Bass-Drop", length: "8 bars", startBar: 4, notes: [{ pitch: 38, time: 0 }] },
+          ],
+        },
+      ],
+      locators: [
+        { name: "Intro", startBar: 0, lengthBars: 4 },
+        { name: "Drop", startBar: 4, lengthBars: 8 },
+      ],
+    };
+
+    it("should place clips at section starts and name locators", async () => {
+      const result = await renderArrangement(blueprint, 4);
+
+      const track = backend.liveSet.tracks[0]!;
+      expect(track.arrangementClips.map((c) => [c.name, c.startTime, c.loopEnd])).toEqual([
+        ["Bass-Intro", 0, 16],
+        ["Bass-Drop", 16, 32],
+      ]);
+      expect(track.arrangementClips[1]!.notes.map((n) => n.pitch)).toEqual([38]);
+      expect(backend.liveSet.cuePoints).toEqual([
+        { name: "Intro", time: 0 },
+        { name: "Drop", time: 16 },
+      ]);
+      expect(result).toMatchObject({ clipsPlaced: 2, loop: { startBeat: 0, lengthBeats: 48 } });
+      expect(backend.liveSet).toMatchObject({ loop: true, loopStart: 0, loopLength: 48 });
+    });
+
+    it("should replace instead of stacking when rendered twice", async () => {
+      backend.liveSet.songTime = 10;
+
+      await renderArrangement(blueprint, 4);
+      await renderArrangement({ ...blueprint, loop: false }, 4);
+
+      expect(backend.liveSet.tracks[0]!.arrangementClips).toHaveLength(2);
+      expect(backend.liveSet.cuePoints).toHaveLength(2);
+      expect(backend.liveSet.songTime).toBe(10);
+    });
+
+    it("should place bars by each segment's meter and write tempo and signature changes", async () => {
+      const result = await renderArrangement(
+        {
+          ...blueprint,
+          tempoMap: [
+            { startBar: 0, lengthBars: 4, tempo: 140, endTempo: 150, timeSignature: "3/4" },
+            { startBar: 4, lengthBars: 8, tempo: 70, timeSignature: "4/4" },
+          ],
+        },
+        4,
+      );
+
+      const track = backend.liveSet.tracks[0]!;
+      expect(track.arrangementClips.map((c) => [c.name, c.startTime, c.loopEnd])).toEqual([
+        ["Bass-Intro", 0, 12],
+        ["Bass-Drop", 12, 32],
+      ]);
+      expect(backend.liveSet.cuePoints.map((c) => c.time)).toEqual([0, 12]);
+      expect(backend.liveSet).toMatchObject({ tempo: 140, signatureNumerator: 3, loopLength: 44 });
+      expect(backend.liveSet.tempoAutomation).toEqual([
+        { time: 0, tempo: 140 },
+        { time: 12, tempo: 150 },
+        { time: 12, tempo: 70 },
+        { time: 44, tempo: 70 },
+      ]);
+      expect(backend.liveSet.timeSignatureChanges).toEqual([
+        { time: 0, numerator: 3, denominator: 4 },
+        { time: 12, numerator: 4, denominator: 4 },
+      ]);
+      expect(result).toMatchObject({ tempoPoints: 4, timeSignatureChanges: 2, unresolved: [] });
+    });
+
+    it("should report tempo map writes the backend rejects", async () => {
+      const result = await renderArrangement(
+        {
+          ...blueprint,
+          tempoMap: [
+            { startBar: 0, lengthBars: 4, tempo: 120, timeSignature: "4/4" },
+            { startBar: 4, lengthBars: 8, tempo: 1200, timeSignature: "4/4" },
+          ],
+        },
+        4,
+      );
+
+      expect(result.tempoPoints).toBe(0);
+      expect(result.unresolved).toEqual(["Tempo automation: Tempo out of range: 1200"]);
+      expect(backend.liveSet.timeSignatureChanges).toEqual([]);
+    });
+
+    it("should place bars on the first segment's meter when signature changes can't be written", async () => {
+      vi.spyOn(backend.song, "writeTimeSignatureChanges").mockRejectedValue(new Error("Not supported."));
+
+      const result = await renderArrangement(
+        {
+          ...blueprint,
+          tempoMap: [
+            { startBar: 0, lengthBars: 2, tempo: 120, timeSignature: "4/4" },
+            { startBar: 2, lengthBars: 2, tempo: 120, timeSignature: "3/4" },
+            { startBar: 4, lengthBars: 8, tempo: 120, timeSignature: "4/4" },
+          ],
+        },
+        4,
+      );
+
+      const track = backend.liveSet.tracks[0]!;
+      expect(track.arrangementClips.map((c) => [c.name, c.startTime])).toEqual([
+        ["Bass-Intro", 0],
+        ["Bass-Drop", 16],
+      ]);
+      expect(backend.liveSet.cuePoints.map((c) => c.time)).toEqual([0, 16]);
+      expect(result.timeSignatureChanges).toBe(0);
+      expect(result.unresolved).toEqual([
+        "Time signature changes: Not supported. Clips and locators were placed on 4/4 bars instead.",
+      ]);
+    });
+  });
+
+  describe("applyMixDesign", () => {
+    const mixDesign: MixDesign = {
+      leveling: {
+        tracks: [
+          { trackName: "Kick", stemGroup: "drums", targetDb: 0, pan: 0 },
+          { trackName: "Pad", stemGroup: "pads", targetDb: -14, pan: -50 },
+          { trackName: "Ghost", stemGroup: "fx", targetDb: -18, pan: 30 },
+        ],
+      },
+      eqCompSuggestions: [
+        {
+          stemGroup: "drums",
+          eq: [
+            { frequency: 30, gain: 0, q: 0.7, type: "highpass" },
+            { frequency: 60, gain: 2, q: 1.5, type: "peak" },
+          ],
+          compression: { threshold: -12, ratio: 4, attack: 10, release: 100 },
+          saturation: { drive: 10, mix: 30 },
+        },
+      ],
+      spatialScene: {
+        depthLayers: [
+          {
+            name: "Hall",
+            reverbType: "hall",
+            decayTime: 2.5,
+            predelay: 40,
+            wetLevel: 30,
+            assignedTracks: ["Pad"],
+            character: "wide",
+          },
+        ],
+        delays: [{ name: "Dotted", type: "dotted", time: "1/4d", feedback: 25, assignedTracks: ["Pad"] }],
+        widthProcessing: [],
+      },
+      automationPasses: [],
+      masterChain: [
+        { order: 2, device: "Limiter", purpose: "ceiling", settings: { ceiling: -0.3 } },
+        { order: 1, device: "Glue Compressor", purpose: "glue", settings: { threshold: -10, ratio: 2 } },
+      ],
+    };
+
+    const parameterValue = (device: MockDevice | undefined, name: string) =>
+      device?.parameters.find((p) => p.name === name)?.value;
+
+    beforeEach(async () => {
+      await applyTrackBlueprint({ name: "Kick", type: "Audio" }, 4);
+      await applyTrackBlueprint({ name: "Pad", type: "Audio" }, 4);
+    });
+
+    it("should set faders and pans and report missing tracks", async () => {
+      const result = await applyMixDesign(mixDesign);
+
+      const [kick, pad] = backend.liveSet.tracks;
+      expect(kick!.mixer.volume.value).toBeCloseTo(0.85);
+      expect(pad!.mixer.volume.value).toBeCloseTo(0.5);
+      expect(pad!.mixer.panning.value).toBe(-0.5);
+      expect(result.tracks).toEqual(["Kick", "Pad"]);
+      expect(result.unresolved).toContain('Track "Ghost" was not found');
+    });
+
+    it("should insert EQ Eight, Compressor and Saturator on the stem group's tracks", async () => {
+      await applyMixDesign(mixDesign);
+
+      const [kick, pad] = backend.liveSet.tracks;
+      expect(kick!.devices.map((d) => d.name)).toEqual(["EQ Eight", "Compressor", "Saturator"]);
+      expect(pad!.devices).toHaveLength(0);
+
+      const eq = kick!.devices[0];
+      expect(parameterValue(eq, "1 Filter Type A")).toBe(0);
+      expect(parameterValue(eq, "2 Frequency A")).toBe(60);
+      expect(parameterValue(eq, "2 Gain A")).toBe(2);
+      expect(parameterValue(eq, "3 Filter On A")).toBe(0);
+      expect(parameterValue(kick!.devices[1], "Threshold")).toBe(-12);
+      expect(parameterValue(kick!.devices[2], "Dry/Wet")).toBeCloseTo(0.3);
+    });
+
+    it("should create returns with sends from the assigned tracks", async () => {
+      const result = await applyMixDesign(mixDesign);
+
+      const [hall, dotted] = backend.liveSet.returnTracks;
+      expect(result.returns).toEqual(["Hall", "Dotted"]);
+      expect(parameterValue(hall!.devices[0], "Decay Time")).toBe(2500);
+      expect(parameterValue(hall!.devices[0], "Dry/Wet")).toBe(1);
+      // A dotted quarter is six 16ths
+      expect(parameterValue(dotted!.devices[0], "L Sync Enum")).toBe(5);
+
+      const pad = backend.liveSet.tracks[1]!;
+      expect(pad.mixer.sends.map((send) => send.value)).toEqual([0.3, 0.25]);
+      expect(backend.liveSet.tracks[0]!.mixer.sends.map((send) => send.value)).toEqual([0, 0]);
+    });
+
+    it("should build the master chain in order", async () => {
+      await applyMixDesign(mixDesign);
+
+      const master = backend.liveSet.masterTrack;
+      expect(master.devices.map((d) => d.name)).toEqual(["Glue Compressor", "Limiter"]);
+      expect(parameterValue(master.devices[0], "Threshold")).toBe(-10);
+      expect(parameterValue(master.devices[1], "Ceiling")).toBe(-0.3);
+    });
+
+    it("should update devices in place when applied twice", async () => {
+      await applyMixDesign(mixDesign);
+      await applyMixDesign(mixDesign);
+
+      expect(backend.liveSet.tracks[0]!.devices).toHaveLength(3);
+      expect(backend.liveSet.returnTracks).toHaveLength(2);
+      expect(backend.liveSet.masterTrack.devices).toHaveLength(2);
+    });
+  });
+
+  describe("applyAutomationPasses", () => {
+    const passes = [
+      {
+        parameter: "filter_cutoff",
+        trackName: "Lead",
+        keyframes: [
+          { bar: 0, value: 0 },
+          { bar: 2, value: 1 },
+        ],
+        purpose: "filter_sweep",
+      },
+      { parameter: "volume", trackName: "Lead", keyframes: [{ bar: 0, value: 0.5 }], purpose: "level" },
+      { parameter: "shimmer_amount", trackName: "Lead", keyframes: [{ bar: 0, value: 1 }], purpose: "fx" },
+      { parameter: "volume", trackName: "Nope", keyframes: [{ bar: 0, value: 1 }], purpose: "level" },
+    ];
+
+    beforeEach(async () => {
+      await renderArrangement(
+        {
+          tracks: [
+            {
+              name: "Lead",
+              device: "Wavetable",
+              clips: [{ name: "Lead-A", length: "2 bars", startBar: 1, notes: [{ pitch: 60 }] }],
+            },
+          ],
+          locators: [],
+        },
+        4,
+      );
+    });
+
+    it("should report resolution without writing in a dry run", async () => {
+      const result = await applyAutomationPasses(passes, 4, { dryRun: true });
+
+      expect(result.resolved.map((r) => r.target)).toEqual(["Wavetable: Filter 1 Freq", "Mixer: Volume"]);
+      expect(result.unresolved.map((r) => [r.trackName, r.parameter])).toEqual([
+        ["Lead", "shimmer_amount"],
+        ["Nope", "volume"],
+      ]);
+      expect(backend.liveSet.tracks[0]!.arrangementClips[0]!.envelopes).toBeUndefined();
+    });
+
+    it("should write interpolated envelopes relative to each clip", async () => {
+      await applyAutomationPasses(passes, 4);
+
+      const [cutoff, volume] = backend.liveSet.tracks[0]!.arrangementClips[0]!.envelopes!;
+      expect(cutoff!.parameter.name).toBe("Filter 1 Freq");
+      // The clip starts at bar 1, halfway through the 0..1 sweep, and holds after bar 2
+      expect(cutoff!.steps).toHaveLength(8);
+      expect(cutoff!.steps[0]).toEqual({ time: 0, duration: 1, value: 20 + 0.5 * 19980 });
+      expect(cutoff!.steps[7]!.value).toBe(20000);
+      expect(volume!.steps.every((step) => step.value === 0.5)).toBe(true);
+    });
+
+    it("should report every resolved pass as unsupported on Live", async () => {
+      setSessionBackend({ ...backend, kind: "live" });
+
+      const result = await applyAutomationPasses(passes, 4, { dryRun: true });
+
+      expect(result.resolved).toEqual([]);
+      expect(result.unresolved.filter((r) => r.reason === LIVE_ENVELOPES_UNSUPPORTED).map((r) => r.target)).toEqual([
+        "Wavetable: Filter 1 Freq",
+        "Mixer: Volume",
+      ]);
+    });
+  });
+
+  describe("device parameters", () => {
+    beforeEach(async () => {
+      await applyTrackBlueprint({ name: "Vox", type: "Audio", device: "EQ Eight" }, 4);
+    });
+
+    it("should list parameters with ranges and quantized labels", async () => {
+      const list = await listDeviceParameters("Vox", "eq eight");
+
+      expect(list).toMatchObject({ deviceName: "EQ Eight", deviceIndex: 0, isActive: true });
+      expect(list.parameters.find((p) => p.name === "2 Frequency A")).toMatchObject({ min: 10, max: 22000 });
+      expect(list.parameters.find((p) => p.name === "2 Filter Type A")?.valueItems).toContain("Bell");
+    });
+
+    it("should set values by name, label and normalized position", async () => {
+      const result = await setDeviceParameterValues("Vox", 0, { "2 Gain A": 40, "2 Filter Type A": "Notch", Nope: 1 });
+      expect(result.parameters.map((p) => [p.name, p.value])).toEqual([
+        ["2 Filter Type A", 4],
+        ["2 Gain A", 15],
+      ]);
+      expect(result.missing).toEqual(["Nope"]);
+
+      await setDeviceParameterValues("Vox", 0, { "2 Gain A": 0.25 }, { normalized: true });
+      const gain = backend.liveSet.tracks[0]!.devices[0]!.parameters.find((p) => p.name === "2 Gain A");
+      expect(gain?.value).toBe(-7.5);
+    });
+
+    it("should toggle devices on the master track", async () => {
+      await applyMixDesign({
+        leveling: { tracks: [] },
+        eqCompSuggestions: [],
+        spatialScene: { depthLayers: [], delays: [], widthProcessing: [] },
+        automationPasses: [],
+        masterChain: [{ order: 1, device: "Limiter", purpose: "ceiling", settings: {} }],
+      });
+
+      await setDeviceEnabled("Master", "Limiter", false);
+      expect((await listDeviceParameters("master", 0)).isActive).toBe(false);
+    });
+
+    it("should name the available devices when one is missing", async () => {
+      await expect(listDeviceParameters("Vox", "Reverb")).rejects.toThrow("(devices: EQ Eight)");
+    });
+  });
+
+  describe("captureSessionSnapshot", () => {
+    it("should summarise tempo, tracks, clips and devices", async () => {
+      await applyProjectSettings({ tempo: 128, timeSignature: "4/4" });
+      await applyTrackBlueprint(
+        { name: "Chords", colorHex: "#ff0000", clips: [{ name: "Verse", notes: [{ pitch: 60 }] }] },
+        4,
+      );
+      await applyTrackBlueprint({ name: "Vox", type: "Audio", device: "Compressor" }, 4);
+
+      const snapshot = await captureSessionSnapshot();
+
+      expect(snapshot.tempo).toBe(128);
+      expect(snapshot.timeSignature).toBe("4/4");
+      expect(snapshot.tracks).toHaveLength(2);
+      expect(snapshot.tracks[0]).toMatchObject({
+        name: "Chords",
+        colorHex: "#ff0000",
+        type: "MIDI",
+        clipNames: ["Verse"],
+      });
+      expect(snapshot.tracks[1]!.type).toBe("Audio");
+      expect(snapshot.tracks[1]!.devices[0]).toMatchObject({ name: "Compressor", type: "audioEffect" });
+    });
+
+    it("should include clip details and notes for session and arrangement clips", async () => {
+      const notes = [
+        { pitch: 64, time: 1, duration: 0.5, velocity: 90 },
+        { pitch: 60, time: 0, duration: 1, velocity: 100 },
+      ];
+      await renderArrangement(
+        {
+          tracks: [{ name: "Keys", clips: [{ name: "Verse", length: "2 bars", startBar: 4, notes }] }],
+          locators: [],
+          loop: false,
+        },
+        4,
+      );
+
+      const [track] = (await captureSessionSnapshot({ includeNotes: true })).tracks;
+      expect(track!.clipNames).toEqual(["Verse"]);
+      expect(track!.clips).toEqual([
+        expect.objectContaining({ name: "Verse", slotIndex: 0, lengthBeats: 8, loopStart: 0, loopEnd: 8 }),
+        expect.objectContaining({ name: "Verse", slotIndex: null, startTime: 16 }),
+      ]);
+      expect(track!.clips[0]!.notes!.map((n) => [n.pitch, n.time, n.muted])).toEqual([
+        [60, 0, false],
+        [64, 1, false],
+      ]);
+    });
+
+    it("should leave notes out unless asked and cap them per clip", async () => {
+      await applyTrackBlueprint(
+        { name: "Arp", clips: [{ name: "Run", notes: [0, 1, 2, 3].map((time) => ({ pitch: 60, time })) }] },
+        4,
+      );
+
+      const limited = await captureSessionSnapshot({ includeNotes: true, maxNotesPerClip: 2 });
+      expect(limited.tracks[0]!.clips[0]).toMatchObject({ notesTruncated: true });
+      expect(limited.tracks[0]!.clips[0]!.notes).toHaveLength(2);
+
+      const bare = await captureSessionSnapshot();
+      expect(bare.tracks[0]!.clips[0]!.notes).toBeUndefined();
+    });
+  });
+
+  describe("readClipNotes", () => {
+    it("should read a clip's notes and length by name", async () => {
+      await applyProjectSettings({ timeSignature: "3/4" });
+      await applyTrackBlueprint(
+        { name: "Lead", clips: [{ name: "Hook", length: "2 bars", notes: [{ pitch: 67, time: 1 }, { pitch: 64 }] }] },
+        3,
+      );
+
+      const clip = await readClipNotes("lead", "hook");
+      expect(clip).toMatchObject({ name: "Hook", trackName: "lead", slotIndex: 0, lengthBeats: 6, beatsPerBar: 3 });
+      expect(clip.notes.map((n) => n.pitch)).toEqual([64, 67]);
+    });
+
+    it("should count bars of compound meters in quarter-note beats", async () => {
+      await applyProjectSettings({ timeSignature: "6/8" });
+      await applyTrackBlueprint({ name: "Lead", clips: [{ name: "Hook", notes: [{ pitch: 60 }] }] }, 3);
+
+      expect(await readClipNotes("Lead", "Hook")).toMatchObject({ beatsPerBar: 3 });
+    });
+
+    it("should name the available clips when the clip is missing", async () => {
+      await applyTrackBlueprint({ name: "Lead", clips: [{ name: "Hook", notes: [{ pitch: 60 }] }] }, 4);
+      await applyTrackBlueprint({ name: "Vox", type: "Audio" }, 4);
+
+      await expect(readClipNotes("Lead", "Verse")).rejects.toThrow('Clip "Verse" was not found on track "Lead" (clips: Hook)');
+      await expect(readClipNotes("Vox", "Hook")).rejects.toThrow("not a MIDI track");
+    });
+  });
+
+  describe("listAvailableDevices", () => {
+    it("should list browser devices including folder contents", async () => {
+      const instruments = await listAvailableDevices({ category: "instruments" });
+      expect(instruments.some((d) => d.name === "Wavetable" && d.isNative)).toBe(true);
+      expect(instruments.find((d) => d.name === "Sub Bass")?.folder).toBe("Bass");
+
+      const search = await listAvailableDevices({ searchQuery: "eq" });
+      expect(search.map((d) => d.name)).toContain("EQ Eight");
+    });
+  });
+
+  describe("insertSampleAsClip", () => {
+    it("should reject missing files", async () => {
+      await expect(insertSampleAsClip("/definitely/not/here.wav")).rejects.toThrow("Sample file not found");
+    });
+
+    it("should place the sample on a new audio track", async () => {
+      const message = await insertSampleAsClip(__filename, { trackName: "Loops", positionBeats: 8 });
+
+      const track = backend.liveSet.tracks[0]!;
+      expect(track.kind).toBe("audio");
+      expect(track.name).toBe("Loops");
+      expect(track.arrangementClips[0]).toMatchObject({ filePath: __filename, startTime: 8 });
+      expect(message).toContain('on track "Loops" at 8 beats');
+    });
+  });
+});
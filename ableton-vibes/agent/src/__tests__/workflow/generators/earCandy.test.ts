@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  EAR_CANDY_REALIZATIONS,
+  earCandyAutomationPass,
+  earCandyToMidiClip,
+} from "../../../workflow/generators/earCandy";
+import type { EarCandy } from "../../../workflow/types";
+
+const candy = (type: EarCandy["type"], position: number, duration: number): EarCandy => ({
+  id: `ear-candy-${type}-${position}`,
+  type,
+  position,
+  duration,
+});
+
+describe("Ear candy realization", () => {
+  it("should pick a realization for every type", () => {
+    expect(EAR_CANDY_REALIZATIONS.riser.method).toBe("render");
+    expect(EAR_CANDY_REALIZATIONS["vocal-chop"]).toEqual({ method: "sample", sampleQuery: "vocal chop" });
+    expect(EAR_CANDY_REALIZATIONS.stutter.method).toBe("midi");
+  });
+
+  describe("earCandyToMidiClip", () => {
+    it("should hold a riser's notes and open the filter across it", () => {
+      const clip = earCandyToMidiClip(candy("riser", 12, 4));
+
+      expect(clip).toMatchObject({ startBar: 12, lengthBars: 4 });
+      expect(clip.notes.map((n) => [n.pitch, n.time, n.duration])).toEqual([
+        [48, 0, 16],
+        [60, 0, 16],
+      ]);
+      expect(clip.cutoff).toEqual([
+        { bar: 12, value: 0.1 },
+        { bar: 16, value: 1 },
+      ]);
+    });
+
+    it("should retrigger a stutter on 32nds with a crescendo", () => {
+      const clip = earCandyToMidiClip(candy("stutter", 8, 0.5), 3);
+
+      expect(clip.notes).toHaveLength(12);
+      expect(clip.notes[1]!.time).toBe(0.125);
+      expect(clip.notes[0]!.velocity).toBe(70);
+      expect(clip.notes[11]!.velocity).toBe(120);
+    });
+
+    it("should trim the part of an event before bar 0", () => {
+      const clip = earCandyToMidiClip(candy("riser", -2, 4));
+
+      expect(clip).toMatchObject({ startBar: 0, lengthBars: 2 });
+      expect(clip.notes.map((n) => [n.time, n.duration])).toEqual([
+        [0, 8],
+        [0, 8],
+      ]);
+      // Keyframes keep the original span so the filter is half open at bar 0
+      expect(clip.cutoff.map((k) => k.bar)).toEqual([-2, 2]);
+    });
+  });
+
+  describe("earCandyAutomationPass", () => {
+    it("should collect every clip's cutoff keyframes in bar order", () => {
+      const clips = [earCandyToMidiClip(candy("sweep", 20, 2)), earCandyToMidiClip(candy("riser", 12, 4))];
+      const pass = earCandyAutomationPass(clips, "FX Synth");
+
+      expect(pass).toMatchObject({ parameter: "filter_cutoff", trackName: "FX Synth" });
+      expect(pass.keyframes.map((k) => k.bar)).toEqual([12, 16, 20, 21, 22]);
+    });
+  });
+});
@@ -15,6 +15,7 @@ import {
   generateHipHopGroove,
   generateTranceGroove,
   generateGrooveCandidates,
+  fitGrooveToMeter,
   humanizePattern,
   mutateGroove,
 } from "../../../workflow/generators/groove";
@@ -176,6 +177,47 @@ describe("Groove Generators", () => {
 
       expect(candidates.length).toBeGreaterThan(0);
     });
+
+    it("should regenerate identical candidates from the same seed", () => {
+      const stylePrior = createStylePrior({
+        guardrails: { energyProfile: "deep house techno", avoidCliches: [] },
+      });
+
+      const first = generateGrooveCandidates(stylePrior, 5, 42);
+      const second = generateGrooveCandidates(stylePrior, 5, 42);
+      const other = generateGrooveCandidates(stylePrior, 5, 43);
+
+      expect(second).toEqual(first);
+      expect(new Set(first.map((c) => c.seed)).size).toBe(first.length);
+      expect(other.map((c) => c.id)).not.toEqual(first.map((c) => c.id));
+    });
+  });
+
+  describe("fitGrooveToMeter", () => {
+    it("should cut a 4/4 groove to one bar of 6/8 with kicks on its strong pulses", () => {
+      const groove = fitGrooveToMeter(generateHouseGroove(124, 0, 1), "6/8");
+
+      expect(groove.meter).toBe("6/8");
+      expect(groove.steps).toBe(12);
+      expect(groove.kickPattern).toEqual([0, 4, 6, 8]);
+      expect(groove.snarePattern).toEqual([4]);
+      expect(groove.hatPattern).toEqual([0, 2, 4, 6, 8, 10]);
+    });
+
+    it("should repeat patterns to fill a longer bar", () => {
+      const groove = fitGrooveToMeter(generateTranceGroove(138, 1), "5/4");
+
+      expect(groove.steps).toBe(20);
+      expect(groove.kickPattern).toEqual([0, 4, 8, 12, 16]);
+      expect(groove.hatPattern).toEqual([2, 6, 10, 14, 18]);
+    });
+
+    it("should fit every candidate to the requested meter", () => {
+      const candidates = generateGrooveCandidates(createStylePrior(), 3, 42, "7/8");
+
+      expect(candidates.every((g) => g.meter === "7/8" && g.steps === 14)).toBe(true);
+      expect(candidates.every((g) => g.kickPattern.every((step) => step < 14))).toBe(true);
+    });
   });
 
   describe("humanizePattern", () => {
@@ -200,5 +242,12 @@ describe("Groove Generators", () => {
       // The pattern should be different (most of the time)
       // Note: This can occasionally fail if random mutations preserve the pattern
     });
+
+    it("should repeat the same mutation for the same seed", () => {
+      const original = generateHouseGroove(128, 0, 1);
+
+      expect(mutateGroove(original, 0.5, 7)).toEqual(mutateGroove(original, 0.5, 7));
+      expect(mutateGroove(original, 0.5, 7).seed).toBe(7);
+    });
   });
 });
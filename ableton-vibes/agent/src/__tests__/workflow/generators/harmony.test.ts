@@ -2,6 +2,8 @@ import { describe, it, expect } from "vitest";
 import {
   PROGRESSION_TEMPLATES,
   degreeToChord,
+  diatonicChordPitches,
+  progressionTemplatesForScale,
   generateProgressionFromTemplate,
   generateBasicProgression,
   generatePopProgression,
@@ -13,7 +15,20 @@ import {
   generateProgressionCandidates,
   transposeProgression,
   analyzeProgressionMood,
+  voiceLeadChord,
+  realizeBassLine,
+  fitMelodyToHarmony,
+  realizeChordVoice,
+  modalInterchangeOptions,
+  secondaryDominant,
+  tritoneSubstitution,
+  extendChord,
+  invertChord,
+  slashChord,
+  analyzeHarmony,
 } from "../../../workflow/generators/harmony";
+import { chordSymbolToPitches, parseChordSymbol } from "../../../workflow/utils/musicTheory";
+import { createRng } from "../../../workflow/utils/random";
 import type { StylePrior } from "../../../workflow/types";
 
 function createStylePrior(overrides: Partial<StylePrior> = {}): StylePrior {
@@ -65,6 +80,134 @@ describe("Harmony Generators", () => {
       expect(degreeToChord(1, "G", "major")).toBe("Gmaj");
       expect(degreeToChord(1, "F#", "minor")).toBe("F#min");
     });
+
+    it("should take chord qualities from the mode", () => {
+      expect(degreeToChord(1, "D", "dorian")).toBe("Dmin");
+      expect(degreeToChord(4, "D", "dorian")).toBe("Gmaj");
+      expect(degreeToChord(5, "A", "harmonicMinor")).toBe("Emaj");
+      // Pentatonic scales use the chords of their parent scale
+      expect(degreeToChord(1, "A", "pentatonicMinor")).toBe("Amin");
+    });
+
+    it("should stack extended chords from the scale", () => {
+      expect(degreeToChord(5, "C", "major", "seventh")).toBe("G7");
+      expect(degreeToChord(7, "C", "major", "seventh")).toBe("Bm7b5");
+      expect(degreeToChord(2, "C", "major", "ninth")).toBe("Dm9");
+      expect(degreeToChord(1, "C", "major", "thirteenth")).toBe("Cmaj13");
+      expect(degreeToChord(1, "C", "major", "add9")).toBe("Cadd9");
+      // The phrygian b9 doesn't make a named chord, so i9 is written as i7
+      expect(degreeToChord(1, "E", "phrygian", "ninth")).toBe("Em7");
+    });
+  });
+
+  describe("chord symbols", () => {
+    it("should parse extended and slash chords", () => {
+      expect(parseChordSymbol("G13")).toEqual({ root: "G", type: "dominant13" });
+      expect(parseChordSymbol("Bbm7b5/Ab")).toEqual({ root: "Bb", type: "halfDiminished7", bass: "Ab" });
+      expect(parseChordSymbol("Cwhatever")).toBeNull();
+    });
+
+    it("should sound a slash chord's bass below the chord", () => {
+      expect(chordSymbolToPitches("Cmaj/E")).toEqual([52, 60, 67]);
+      expect(chordSymbolToPitches("Fmaj/G")).toEqual([55, 65, 69, 72]);
+    });
+  });
+
+  describe("chord vocabulary", () => {
+    it("should borrow chords from parallel modes", () => {
+      expect(modalInterchangeOptions(4, "C", "major")[0]).toEqual({ chord: "Fmin", mode: "minor" });
+      expect(modalInterchangeOptions(6, "C", "major").map((o) => o.chord)).toContain("G#maj");
+      expect(modalInterchangeOptions(5, "A", "minor")[0]).toEqual({ chord: "Emaj", mode: "harmonicMinor" });
+    });
+
+    it("should build secondary dominants and tritone substitutions", () => {
+      expect(secondaryDominant("Amin")).toBe("E7");
+      expect(secondaryDominant("Gmaj/B", "ninth")).toBe("D9");
+      expect(tritoneSubstitution("G7")).toBe("C#7");
+      expect(tritoneSubstitution("G13")).toBe("C#13");
+      expect(() => secondaryDominant("H7")).toThrow("Unknown chord symbol");
+    });
+
+    it("should extend chords within their quality", () => {
+      expect(extendChord("Dmin", "seventh")).toBe("Dm7");
+      expect(extendChord("G7", "ninth")).toBe("G9");
+      expect(extendChord("Cmaj/E", "add9")).toBe("Cadd9/E");
+      // An eleventh clashes with a major third
+      expect(extendChord("Cmaj", "eleventh")).toBe("Cmaj");
+    });
+
+    it("should write inversions and slash chords", () => {
+      expect(invertChord("Cmaj", 0)).toBe("Cmaj");
+      expect(invertChord("Cmaj", 1)).toBe("Cmaj/E");
+      expect(invertChord("G7", 3)).toBe("G7/F");
+      expect(slashChord("Fmaj", "G")).toBe("Fmaj/G");
+    });
+  });
+
+  describe("analyzeHarmony", () => {
+    const chords = (...symbols: string[]) =>
+      symbols.map((chord, i) => ({ startBeat: i * 4, chord, duration: 4 }));
+
+    it("should label diatonic functions and an authentic cadence", () => {
+      const analysis = analyzeHarmony(chords("Cmaj", "Amin", "Dm7", "G7", "Cmaj"), "C", "major");
+
+      expect(analysis.chords.map((c) => c.roman)).toEqual(["I", "vi", "ii7", "V7", "I"]);
+      expect(analysis.chords.map((c) => c.function)).toEqual(["tonic", "tonic", "predominant", "dominant", "tonic"]);
+      expect(analysis.cadences).toEqual([{ type: "authentic", startBeat: 16, chords: ["G7", "Cmaj"] }]);
+      expect(analysis.diatonicShare).toBe(100);
+    });
+
+    it("should recognise secondary dominants, borrowed chords and tritone substitutions", () => {
+      const analysis = analyzeHarmony(
+        chords("Cmaj", "E7", "Amin", "Fmin", "Cmaj", "C#7", "Cmaj/E"),
+        "C",
+        "major"
+      );
+
+      expect(analysis.chords.map((c) => c.roman)).toEqual(["I", "V7/vi", "vi", "iv", "I", "subV7", "I"]);
+      expect(analysis.chords.map((c) => c.source)).toEqual([
+        "diatonic",
+        "secondaryDominant",
+        "diatonic",
+        "borrowed",
+        "diatonic",
+        "tritoneSubstitution",
+        "diatonic",
+      ]);
+      expect(analysis.chords[3]).toMatchObject({ function: "predominant", borrowedFrom: "minor" });
+      expect(analysis.chords[6]!.inversion).toBe(1);
+      expect(analysis.cadences.map((c) => c.type)).toEqual(["plagal", "authentic"]);
+      expect(analysis.diatonicShare).toBe(57);
+    });
+
+    it("should find half and deceptive cadences", () => {
+      const half = analyzeHarmony(chords("Amin", "Fmaj", "Dmin", "Emaj"), "A", "minor");
+      expect(half.chords[3]).toMatchObject({ roman: "V", borrowedFrom: "harmonicMinor" });
+      expect(half.cadences).toEqual([{ type: "half", startBeat: 12, chords: ["Dmin", "Emaj"] }]);
+
+      const deceptive = analyzeHarmony(chords("Cmaj", "Fmaj", "G7", "Amin"), "C", "major");
+      expect(deceptive.cadences.map((c) => c.type)).toEqual(["deceptive"]);
+    });
+  });
+
+  describe("diatonicChordPitches", () => {
+    it("should stack scale tones on a degree", () => {
+      // G B D F in C major
+      expect(diatonicChordPitches(5, "C", "major", "seventh")).toEqual([55, 59, 62, 65]);
+      // vii in A minor wraps into the next octave: G B D
+      expect(diatonicChordPitches(7, "A", "minor")).toEqual([67, 71, 74]);
+      expect(diatonicChordPitches(1, "C", "major", "sus4")).toEqual([48, 53, 55]);
+    });
+  });
+
+  describe("progressionTemplatesForScale", () => {
+    it("should pick minor templates for minor-third scales", () => {
+      expect(progressionTemplatesForScale("dorian")[0]).toBe("i-VI-III-VII");
+      expect(progressionTemplatesForScale("lydian")[0]).toBe("I-V-vi-IV");
+      for (const name of [...progressionTemplatesForScale("minor"), ...progressionTemplatesForScale("major")]) {
+        expect(PROGRESSION_TEMPLATES[name]).toBeDefined();
+      }
+    });
   });
 
   describe("generateProgressionFromTemplate", () => {
@@ -175,6 +318,13 @@ describe("Harmony Generators", () => {
 
       expect(progression.length).toBe(8);
     });
+
+    it("should follow the same path for the same random source", () => {
+      const first = generateRandomProgression("C", "minor", 8, 4, createRng(5));
+      const second = generateRandomProgression("C", "minor", 8, 4, createRng(5));
+
+      expect(second).toEqual(first);
+    });
   });
 
   describe("extendProgression", () => {
@@ -261,6 +411,18 @@ describe("Harmony Generators", () => {
       expect(transposed[0]!.startBeat).toBe(0);
       expect(transposed[0]!.duration).toBe(4);
     });
+
+    it("should transpose flat roots, extensions and slash basses", () => {
+      const transposed = transposeProgression(
+        [
+          { startBeat: 0, chord: "Bbm9", duration: 4 },
+          { startBeat: 4, chord: "Cmaj/E", duration: 4 },
+        ],
+        2
+      );
+
+      expect(transposed.map((c) => c.chord)).toEqual(["Cm9", "Dmaj/F#"]);
+    });
   });
 
   describe("analyzeProgressionMood", () => {
@@ -298,4 +460,60 @@ describe("Harmony Generators", () => {
       expect(analysis.tension).toBeGreaterThan(0);
     });
   });
+
+  describe("fitting voices to a progression", () => {
+    const progression = [
+      { startBeat: 0, chord: "Amin", duration: 4 },
+      { startBeat: 4, chord: "Fmaj", duration: 4 },
+    ];
+    const note = (pitch: number, time: number, duration = 0.5) => ({ pitch, time, duration, velocity: 100 });
+
+    it("should voice-lead chords with the smallest movement", () => {
+      const first = voiceLeadChord([60, 64, 67]);
+      expect(first).toEqual([55, 60, 64]);
+
+      // Keeps the common tone C and moves E up to F
+      expect(voiceLeadChord([53, 57, 60], first)).toEqual([57, 60, 65]);
+    });
+
+    it("should walk the bass from root to root with a passing tone", () => {
+      const bass = realizeBassLine(
+        [note(40, 0), note(40, 1), note(47, 2), note(45, 3), note(40, 4)],
+        progression,
+        "A",
+        "minor"
+      );
+
+      expect(bass.map((n) => n.pitch)).toEqual([45, 45, 52, 43, 41]);
+      expect(bass.map((n) => n.time)).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it("should move melodies into the key and follow each chord", () => {
+      const melody = fitMelodyToHarmony(
+        [note(72, 0), note(72, 4), note(74, 4.5)],
+        progression,
+        "A",
+        "minor",
+        "C"
+      );
+
+      expect(melody.map((n) => n.pitch)).toEqual([69, 65, 67]);
+    });
+
+    it("should render harmonic motifs as voiced chords cut at the chord change", () => {
+      const chords = realizeChordVoice(
+        [{ ...note(57, 0, 8), velocity: 90 }, note(64, 0, 8), note(60, 4, 2)],
+        progression
+      );
+
+      expect(chords).toEqual([
+        { pitch: 57, time: 0, duration: 4, velocity: 100 },
+        { pitch: 60, time: 0, duration: 4, velocity: 100 },
+        { pitch: 64, time: 0, duration: 4, velocity: 100 },
+        { pitch: 57, time: 4, duration: 2, velocity: 100 },
+        { pitch: 60, time: 4, duration: 2, velocity: 100 },
+        { pitch: 65, time: 4, duration: 2, velocity: 100 },
+      ]);
+    });
+  });
 });
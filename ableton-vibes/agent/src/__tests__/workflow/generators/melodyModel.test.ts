@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  createMelodyModel,
+  generateMelodyFromModel,
+  loadMelodyModel,
+  saveMelodyModel,
+  summarizeMelodyModel,
+  trainMelodyModel,
+  type MelodySource,
+} from "../../../workflow/generators/melodyModel";
+import { generateMotifCandidates } from "../../../workflow/generators/motif";
+import { getPitchClass, getScalePitchClasses } from "../../../workflow/utils/musicTheory";
+import { createRng } from "../../../workflow/utils/random";
+import type { MotifNote, StylePrior } from "../../../workflow/types";
+
+const stylePrior: StylePrior = {
+  bpmSignature: { typical: 124, variance: 4 },
+  swingProfile: { amount: 0, subdivision: "16th" },
+  soundDesignTraits: [],
+  arrangementNorms: {
+    typicalIntroLength: 16,
+    typicalDropLength: 16,
+    typicalBreakdownLength: 8,
+    transitionStyle: ["sweep"],
+  },
+  guardrails: { energyProfile: "melodic house", avoidCliches: [] },
+};
+
+const run = (pitches: number[], step = 0.5): MotifNote[] =>
+  pitches.map((pitch, i) => ({ pitch, time: i * step, duration: step, velocity: 100 }));
+
+// C D E F G in eighths
+const scaleRun: MelodySource = { notes: run([60, 62, 64, 65, 67]), key: "C", scale: "major" };
+
+describe("Melody Model", () => {
+  describe("trainMelodyModel", () => {
+    it("should count interval and rhythm n-grams and add to an existing model", () => {
+      const model = trainMelodyModel([scaleRun], { order: 2 });
+
+      expect(model).toMatchObject({ order: 2, motifs: 1, notes: 5, starts: { "0@0": 1 } });
+      // From the tonic with no history, and from the third after a whole step
+      expect(model.intervals["0|"]).toEqual({ "2": 1 });
+      expect(model.intervals["2|2"]).toEqual({ "1": 1 });
+      expect(model.intervals["*"]).toEqual({ "2": 3, "1": 1 });
+      expect(model.rhythms["*"]).toEqual({ "0.5/0.5": 5 });
+
+      const retrained = trainMelodyModel([scaleRun], { model });
+      expect(retrained.intervals["*"]).toEqual({ "2": 6, "1": 2 });
+      expect(model.motifs).toBe(1);
+    });
+
+    it("should learn the top line of chords and fold wide leaps inside an octave", () => {
+      const notes = [...run([60, 79]), { pitch: 52, time: 0, duration: 0.5, velocity: 90 }];
+      const model = trainMelodyModel([{ notes, key: "C", scale: "major" }]);
+
+      expect(model.notes).toBe(2);
+      expect(model.intervals["*"]).toEqual({ "7": 1 });
+      expect(summarizeMelodyModel(model).commonIntervals).toEqual([{ value: "7", share: 100 }]);
+    });
+  });
+
+  describe("generateMelodyFromModel", () => {
+    it("should replay learned scale-degree moves in another key", () => {
+      const model = trainMelodyModel([scaleRun]);
+      const melody = generateMelodyFromModel(model, "G", "major", 2.5, createRng(1));
+
+      expect(melody.map((n) => n.pitch)).toEqual([67, 69, 71, 72, 74]);
+      expect(melody.map((n) => n.time)).toEqual([0, 0.5, 1, 1.5, 2]);
+    });
+
+    it("should stay in key and inside the requested length", () => {
+      const model = trainMelodyModel([
+        scaleRun,
+        { notes: run([69, 68, 64, 71, 72], 0.25), key: "A", scale: "minor", lengthBeats: 4 },
+      ]);
+      const scale = getScalePitchClasses("D", "dorian");
+
+      for (let seed = 0; seed < 10; seed++) {
+        const melody = generateMelodyFromModel(model, "D", "dorian", 8, createRng(seed));
+        expect(melody.length).toBeGreaterThan(0);
+        expect(melody.every((n) => scale.includes(getPitchClass(n.pitch)))).toBe(true);
+        expect(melody.every((n) => n.time >= 0 && n.time + n.duration <= 8)).toBe(true);
+      }
+    });
+
+    it("should lead melodic candidates with house style melodies", () => {
+      const model = trainMelodyModel([scaleRun]);
+      const candidates = generateMotifCandidates(stylePrior, "melodic", "A", "minor", 3, 9, "4/4", model);
+
+      expect(candidates.map((c) => c.name)).toEqual(["House style melody A", "House style melody B", "Arch melody"]);
+      expect(candidates[0]!.lengthBars).toBe(2);
+      // An untrained model adds nothing
+      expect(generateMotifCandidates(stylePrior, "melodic", "A", "minor", 3, 9, "4/4", createMelodyModel())).toEqual(
+        generateMotifCandidates(stylePrior, "melodic", "A", "minor", 3, 9, "4/4")
+      );
+    });
+  });
+
+  describe("loadMelodyModel / saveMelodyModel", () => {
+    it("should round-trip a model through JSON on disk", async () => {
+      const directory = await mkdtemp(path.join(os.tmpdir(), "melody-model-"));
+      const filePath = path.join(directory, "nested", "model.json");
+      const model = trainMelodyModel([scaleRun]);
+
+      expect(await loadMelodyModel(filePath)).toBeUndefined();
+      expect(await saveMelodyModel(model, filePath)).toBe(filePath);
+      expect(await loadMelodyModel(filePath)).toEqual(model);
+
+      const invalid = path.join(directory, "invalid.json");
+      await writeFile(invalid, JSON.stringify({ version: 2 }));
+      await expect(loadMelodyModel(invalid)).rejects.toThrow("is not a melody model");
+
+      const corrupt = path.join(directory, "corrupt.json");
+      await writeFile(corrupt, "{\"version\": 1,");
+      await expect(loadMelodyModel(corrupt)).rejects.toThrow(`${corrupt} is not a melody model`);
+      await rm(directory, { recursive: true });
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import {
+  findPivotChords,
+  modulationTarget,
+  planModulations,
+  validateModulations,
+} from "../../../workflow/generators/modulation";
+import type { ArrangementSection } from "../../../workflow/types";
+
+const section = (
+  id: string,
+  type: ArrangementSection["type"],
+  startBar: number,
+  overrides: Partial<ArrangementSection> = {}
+): ArrangementSection => ({
+  id,
+  type,
+  name: id,
+  startBar,
+  lengthBars: 8,
+  energyLevel: 50,
+  elements: [],
+  ...overrides,
+});
+
+const A_MINOR = { key: "A", scale: "minor" };
+
+describe("Modulation", () => {
+  describe("modulationTarget", () => {
+    it("should find the relative, parallel, step-up and dominant keys", () => {
+      expect(modulationTarget(A_MINOR, "relative")).toEqual({ key: "C", scale: "major" });
+      expect(modulationTarget({ key: "C", scale: "major" }, "relative")).toEqual(A_MINOR);
+      expect(modulationTarget(A_MINOR, "parallel")).toEqual({ key: "A", scale: "major" });
+      expect(modulationTarget(A_MINOR, "step-up")).toEqual({ key: "B", scale: "minor" });
+      expect(modulationTarget(A_MINOR, "pivot")).toEqual({ key: "E", scale: "minor" });
+    });
+  });
+
+  describe("findPivotChords", () => {
+    it("should list shared triads, pre-dominants of the new key first", () => {
+      expect(findPivotChords(A_MINOR, { key: "B", scale: "minor" })).toEqual(["Emin", "Gmaj"]);
+      expect(findPivotChords(A_MINOR, { key: "C", scale: "major" })[0]).toBe("Fmaj");
+    });
+
+    it("should return nothing for distant keys", () => {
+      expect(findPivotChords({ key: "C", scale: "major" }, { key: "F#", scale: "major" })).toEqual([]);
+    });
+  });
+
+  describe("planModulations", () => {
+    const sections = [
+      section("outro", "outro", 40),
+      section("intro", "intro", 0),
+      section("chorus-1", "chorus", 8),
+      section("breakdown", "breakdown", 16),
+      section("chorus-2", "chorus", 24),
+      section("tag", "verse", 32),
+    ];
+
+    it("should lift the final chorus and contrast the breakdown", () => {
+      const { sections: planned, proposals } = planModulations(sections, A_MINOR);
+      const keys = planned.map((s) => `${s.id}:${s.key} ${s.scale}`);
+
+      expect(keys).toEqual([
+        "intro:A minor",
+        "chorus-1:A minor",
+        "breakdown:C major",
+        "chorus-2:B minor",
+        "tag:B minor",
+        "outro:B minor",
+      ]);
+      expect(proposals.map((p) => [p.sectionId, p.modulation])).toEqual([
+        ["breakdown", { type: "relative", pivotChord: "Fmaj" }],
+        ["chorus-2", { type: "step-up", pivotChord: "Emin" }],
+      ]);
+      expect(validateModulations(planned, A_MINOR)).toEqual([]);
+    });
+
+    it("should return from a contrast and keep explicit keys", () => {
+      const { sections: planned, proposals } = planModulations(
+        [
+          section("intro", "intro", 0),
+          section("bridge", "bridge", 8),
+          section("verse", "verse", 16),
+          section("drop", "drop", 24, { key: "E", scale: "minor" }),
+        ],
+        A_MINOR,
+        { contrast: "parallel" }
+      );
+
+      expect(planned.map((s) => s.key)).toEqual(["A", "A", "A", "E"]);
+      expect(planned[1]?.scale).toBe("major");
+      expect(proposals.map((p) => p.modulation.type)).toEqual(["parallel", "parallel"]);
+      expect(planned[3]?.modulation).toBeUndefined();
+    });
+
+    it("should plan from the triads of a modal home key", () => {
+      const dorian = { key: "D", scale: "dorian" };
+      const { sections: planned, proposals } = planModulations(sections, dorian);
+
+      expect(modulationTarget(dorian, "relative")).toEqual({ key: "C", scale: "major" });
+      expect(modulationTarget({ key: "G", scale: "mixolydian" }, "relative")).toEqual({ key: "A", scale: "minor" });
+      expect(planned.map((s) => `${s.key} ${s.scale}`)).toContain("E dorian");
+      // Pivots hold no F#, which D dorian doesn't have
+      expect(proposals.map((p) => [p.sectionId, p.to.key, p.modulation.pivotChord])).toEqual([
+        ["breakdown", "C", "Fmaj"],
+        ["chorus-2", "E", "Emin"],
+      ]);
+      expect(validateModulations(planned, dorian)).toEqual([]);
+      expect(
+        validateModulations(
+          [section("chorus", "chorus", 8, { key: "A", scale: "major", modulation: { type: "pivot", pivotChord: "Amaj" } })],
+          dorian
+        )
+      ).toEqual(["chorus: pivot chord Amaj is not diatonic in both D dorian and A major"]);
+    });
+
+    it("should stay in the home key when lift and contrast are off", () => {
+      const { sections: planned, proposals } = planModulations(sections, A_MINOR, { lift: "none", contrast: "none" });
+
+      expect(proposals).toEqual([]);
+      expect(planned.every((s) => s.key === "A" && s.scale === "minor")).toBe(true);
+    });
+  });
+
+  describe("validateModulations", () => {
+    it("should flag distant key changes without a pivot chord", () => {
+      const issues = validateModulations([
+        section("verse", "verse", 0, { key: "C", scale: "major" }),
+        section("chorus", "chorus", 8, { key: "F#", scale: "major" }),
+      ]);
+
+      expect(issues).toEqual(["Abrupt modulation into chorus: C major to F# major without a pivot chord"]);
+    });
+
+    it("should allow closely related keys and check pivot chords against both keys", () => {
+      expect(
+        validateModulations([
+          section("verse", "verse", 0, { key: "C", scale: "major" }),
+          section("chorus", "chorus", 8, { key: "G", scale: "major" }),
+        ])
+      ).toEqual([]);
+
+      const issues = validateModulations(
+        [section("chorus", "chorus", 8, { key: "D", scale: "major", modulation: { type: "pivot", pivotChord: "Fmaj" } })],
+        { key: "C", scale: "major" }
+      );
+      expect(issues).toEqual(["chorus: pivot chord Fmaj is not diatonic in both C major and D major"]);
+    });
+  });
+});
@@ -11,7 +11,13 @@ import {
   varyMotif,
   createMotifSeed,
   generateMotifCandidates,
+  classifyMotifNotes,
+  createMotifFromClip,
+  transposeMotif,
+  outOfScaleNotes,
 } from "../../../workflow/generators/motif";
+import { getPitchClass, getScalePitchClasses } from "../../../workflow/utils/musicTheory";
+import { createRng } from "../../../workflow/utils/random";
 import type { StylePrior } from "../../../workflow/types";
 
 function createStylePrior(overrides: Partial<StylePrior> = {}): StylePrior {
@@ -52,7 +58,7 @@ describe("Motif Generators", () => {
 
   describe("generateArpeggioMotif", () => {
     it("should generate ascending arpeggio", () => {
-      const notes = generateArpeggioMotif(60, "up", [0, 4, 7, 12]);
+      const notes = generateArpeggioMotif("C", "major", "up", [1, 3, 5, 8]);
 
       expect(notes.length).toBe(4);
       expect(notes[0]!.pitch).toBe(60);
@@ -62,24 +68,31 @@ describe("Motif Generators", () => {
     });
 
     it("should generate descending arpeggio", () => {
-      const notes = generateArpeggioMotif(60, "down", [0, 4, 7, 12]);
+      const notes = generateArpeggioMotif("C", "major", "down", [1, 3, 5, 8]);
 
       expect(notes[0]!.pitch).toBe(72);
       expect(notes[notes.length - 1]!.pitch).toBe(60);
     });
 
     it("should generate up-down arpeggio", () => {
-      const notes = generateArpeggioMotif(60, "updown", [0, 4, 7]);
+      const notes = generateArpeggioMotif("C", "major", "updown", [1, 3, 5]);
 
       expect(notes.length).toBe(4); // 3 up + 1 back down (middle note)
     });
 
     it("should accent the first note", () => {
-      const notes = generateArpeggioMotif(60, "up");
+      const notes = generateArpeggioMotif("C", "major", "up");
 
       expect(notes[0]!.velocity).toBe(100);
       expect(notes[1]!.velocity).toBe(85);
     });
+
+    it("should take chord tones from the key and scale", () => {
+      const notes = generateArpeggioMotif("F#", "dorian", "up", [1, 3, 5, 7]);
+
+      // F#4 A4 C#5 E5
+      expect(notes.map((n) => n.pitch)).toEqual([66, 69, 73, 76]);
+    });
   });
 
   describe("generateContourMotif", () => {
@@ -120,6 +133,11 @@ describe("Motif Generators", () => {
       expect(notes.every((n) => n.pitch === 60)).toBe(true);
     });
 
+    it("should play the tonic of a key", () => {
+      expect(generateRhythmicMotif("F#", [0, 4]).every((n) => n.pitch === 66)).toBe(true);
+      expect(generateEuclideanMotif("Bb2", 3, 8).every((n) => n.pitch === 46)).toBe(true);
+    });
+
     it("should apply accents correctly", () => {
       const notes = generateRhythmicMotif(60, [0, 2, 4, 6], 0.25, [0, 4]);
 
@@ -140,7 +158,7 @@ describe("Motif Generators", () => {
 
   describe("generateChordMotif", () => {
     it("should generate block chords", () => {
-      const notes = generateChordMotif([48, 53], "major", 1);
+      const notes = generateChordMotif("C", "major", [1, 4], "triad", 1);
 
       // Two chords, 3 notes each (major triad)
       expect(notes.length).toBe(6);
@@ -149,10 +167,19 @@ describe("Motif Generators", () => {
     });
 
     it("should generate seventh chords", () => {
-      const notes = generateChordMotif([48], "seventh", 1);
+      const notes = generateChordMotif("C", "major", [1], "seventh", 1);
 
       // One chord, 4 notes (seventh chord)
       expect(notes.length).toBe(4);
+      expect(notes.map((n) => n.pitch)).toEqual([48, 52, 55, 59]);
+    });
+
+    it("should build each chord's quality from the scale", () => {
+      const notes = generateChordMotif("D", "dorian", [1, 4]);
+
+      // Dorian: minor i (D F A), major IV (G B D)
+      expect(notes.filter((n) => n.time === 0).map((n) => n.pitch)).toEqual([50, 53, 57]);
+      expect(notes.filter((n) => n.time === 1).map((n) => n.pitch)).toEqual([55, 59, 62]);
     });
   });
 
@@ -201,6 +228,16 @@ describe("Motif Generators", () => {
       const times = notes.map((n) => n.time);
       expect(new Set(times).size).toBe(times.length); // All unique times
     });
+
+    it("should follow the progression degrees bar by bar", () => {
+      const notes = generateBassMotif("A", "minor", "root", 3, [1, 6]);
+
+      expect(notes.length).toBe(12);
+      // A, then F (the VI), then back to A
+      expect(notes.filter((n) => n.time < 4).every((n) => getPitchClass(n.pitch) === 9)).toBe(true);
+      expect(notes.filter((n) => n.time >= 4 && n.time < 8).every((n) => getPitchClass(n.pitch) === 5)).toBe(true);
+      expect(notes.filter((n) => n.time >= 8).every((n) => getPitchClass(n.pitch) === 9)).toBe(true);
+    });
   });
 
   describe("varyMotif", () => {
@@ -306,5 +343,136 @@ describe("Motif Generators", () => {
       expect(candidates.length).toBeLessThanOrEqual(5);
       expect(candidates.every((c) => c.type === "textural")).toBe(true);
     });
+
+    it("should keep every candidate in a modal key", () => {
+      const scale = getScalePitchClasses("F#", "dorian");
+      for (const type of ["melodic", "rhythmic", "harmonic", "textural"] as const) {
+        const candidates = generateMotifCandidates(stylePrior, type, "F#", "dorian", 6, 5);
+
+        expect(candidates.length).toBeGreaterThan(0);
+        expect(candidates.every((c) => c.notes.every((n) => scale.includes(getPitchClass(n.pitch))))).toBe(true);
+      }
+    });
+
+    it("should build harmonic candidates from progression templates for the scale", () => {
+      const names = generateMotifCandidates(stylePrior, "harmonic", "A", "minor", 3).map((c) => c.name);
+
+      expect(names).toEqual(["Dark house (i-VI-III-VII)", "Deep house (i-iv-VII-III)", "Seventh chord pad"]);
+    });
+
+    it("should measure rhythms in bars of the given meter", () => {
+      const [quarters, , euclidean] = generateMotifCandidates(stylePrior, "rhythmic", "C", "minor", 5, 7, "3/4");
+
+      expect(quarters!.notes.map((n) => n.time)).toEqual([0, 1, 2]);
+      expect(quarters!.notes.map((n) => n.velocity)).toEqual([100, 70, 70]);
+      expect(quarters!.lengthBars).toBe(1);
+      expect(euclidean!.name).toBe("Euclidean 5/12 rhythm");
+    });
+
+    it("should build a bass line on the roots of a progression template in the meter", () => {
+      const candidates = generateMotifCandidates(stylePrior, "rhythmic", "A", "minor", 5, 7, "3/4");
+      const bass = candidates.find((c) => c.name === "Root bass (i-VI-III-VII)")!;
+
+      expect(bass.lengthBars).toBe(4);
+      expect(bass.notes.map((n) => n.time)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+      // A, F, C, G: the root of each chord for a 3/4 bar
+      expect(bass.notes.map((n) => getPitchClass(n.pitch))).toEqual([9, 9, 9, 5, 5, 5, 0, 0, 0, 7, 7, 7]);
+    });
+
+    it("should regenerate identical candidates from the same seed", () => {
+      for (const type of ["textural", "rhythmic"] as const) {
+        const first = generateMotifCandidates(stylePrior, type, "C", "minor", 5, 1234);
+        const second = generateMotifCandidates(stylePrior, type, "C", "minor", 5, 1234);
+
+        expect(second).toEqual(first);
+        expect(first.every((c) => c.seed !== undefined && c.id.endsWith(c.seed.toString(36)))).toBe(true);
+      }
+    });
+
+    it("should rebuild a single candidate from its recorded seed", () => {
+      const [sparse] = generateMotifCandidates(stylePrior, "textural", "C", "minor", 1, 99);
+      const rebuilt = generateTexturalMotif("C", "minor", "sparse", 4, createRng(sparse!.seed!));
+
+      expect(rebuilt).toEqual(sparse!.notes);
+    });
+  });
+
+  describe("outOfScaleNotes", () => {
+    it("should list the notes outside the motif's key and scale", () => {
+      const notes = [60, 61, 63, 66].map((pitch, i) => ({ pitch, time: i, duration: 1, velocity: 100 }));
+
+      expect(outOfScaleNotes({ notes, key: "C", scale: "minor" }).map((n) => n.pitch)).toEqual([61, 66]);
+      expect(outOfScaleNotes({ notes, key: "C", scale: "chromatic" })).toEqual([]);
+      expect(outOfScaleNotes({ notes, key: "C", scale: "raga" })).toEqual([]);
+    });
+  });
+
+  describe("classifyMotifNotes", () => {
+    const note = (pitch: number, time: number, duration = 0.5) => ({ pitch, time, duration, velocity: 100 });
+
+    it("should read stacked onsets as harmonic", () => {
+      const chords = [0, 4].flatMap((time) => [60, 64, 67].map((pitch) => note(pitch, time, 4)));
+      expect(classifyMotifNotes(chords)).toBe("harmonic");
+    });
+
+    it("should read repeated single pitches as rhythmic", () => {
+      expect(classifyMotifNotes([0, 0.5, 1.5, 2, 3].map((time) => note(36, time, 0.25)))).toBe("rhythmic");
+    });
+
+    it("should read a few held notes as textural and stepwise lines as melodic", () => {
+      expect(classifyMotifNotes([note(48, 0, 8), note(55, 8, 8)])).toBe("textural");
+      expect(classifyMotifNotes([60, 62, 63, 65, 67].map((pitch, i) => note(pitch, i * 0.5)))).toBe("melodic");
+    });
+  });
+
+  describe("createMotifFromClip", () => {
+    const line = [57, 60, 64, 62, 60, 57, 64, 69].map((pitch, i) => ({
+      pitch,
+      time: i,
+      duration: 1,
+      velocity: 100,
+    }));
+
+    it("should detect key, scale and type and size the motif from the clip length", () => {
+      const { motif, detected } = createMotifFromClip(line, { clipName: "Hook", lengthBeats: 16 });
+
+      expect(detected).toMatchObject({ key: "A", scale: "minor", type: "melodic" });
+      expect(motif).toMatchObject({ name: "Hook", type: "melodic", key: "A", scale: "minor", lengthBars: 4 });
+      expect(motif.id).toMatch(/^motif-melodic-live-/);
+      expect(motif.seed).toBeUndefined();
+    });
+
+    it("should honour overrides and keep a stable id per clip name", () => {
+      const first = createMotifFromClip(line, { clipName: "Hook", type: "rhythmic", key: "C", scale: "major" });
+      const again = createMotifFromClip(line.slice(0, 4), { clipName: "Hook", type: "rhythmic" });
+
+      expect(first.motif).toMatchObject({ type: "rhythmic", key: "C", scale: "major", lengthBars: 2 });
+      expect(again.motif.id).toBe(first.motif.id);
+    });
+  });
+
+  describe("transposeMotif", () => {
+    const motif = createMotifSeed(
+      [57, 60, 64].map((pitch, i) => ({ pitch, time: i, duration: 1, velocity: 100 })),
+      "melodic",
+      "A",
+      "minor",
+      "Hook",
+      1
+    );
+
+    it("should move the notes by the shortest interval to the new key", () => {
+      expect(transposeMotif(motif, "B").notes.map((n) => n.pitch)).toEqual([59, 62, 66]);
+      expect(transposeMotif(motif, "F").notes.map((n) => n.pitch)).toEqual([53, 56, 60]);
+      expect(transposeMotif(motif, "B")).toMatchObject({ key: "B", scale: "minor" });
+    });
+
+    it("should snap the notes into a new scale", () => {
+      const major = transposeMotif(motif, "A", "major");
+
+      expect(major.notes.map((n) => n.pitch)).toEqual([57, 61, 64]);
+      expect(major.scale).toBe("major");
+      expect(transposeMotif(motif, "A", "minor")).toBe(motif);
+    });
   });
 });
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { generateMotifCandidates } from "../../../workflow/generators/motif";
+import {
+  crossoverMotifs,
+  evolveMotifs,
+  motifParetoFront,
+  mutateMotif,
+} from "../../../workflow/generators/motifEvolution";
+import { calculateMotifScore } from "../../../workflow/scoring/motif";
+import { getPitchClass, getScalePitchClasses } from "../../../workflow/utils/musicTheory";
+import { createRng } from "../../../workflow/utils/random";
+import type { EvolvedMotif, MotifNote, StylePrior } from "../../../workflow/types";
+
+function createStylePrior(overrides: Partial<StylePrior> = {}): StylePrior {
+  return {
+    bpmSignature: { typical: 128, variance: 5 },
+    swingProfile: { amount: 0, subdivision: "8th" },
+    soundDesignTraits: [],
+    arrangementNorms: {
+      typicalIntroLength: 8,
+      typicalDropLength: 16,
+      typicalBreakdownLength: 8,
+      transitionStyle: ["riser"],
+    },
+    guardrails: { energyProfile: "driving trance", avoidCliches: [] },
+    ...overrides,
+  };
+}
+
+const note = (pitch: number, time: number, duration = 1): MotifNote => ({ pitch, time, duration, velocity: 100 });
+
+describe("Motif Evolution", () => {
+  describe("crossoverMotifs", () => {
+    it("should join the first parent's head to the second parent's tail at a grid cut", () => {
+      const first = [note(60, 0, 2), note(62, 2), note(64, 3)];
+      const second = [note(72, 0), note(74, 1), note(76, 2), note(77, 3)];
+
+      for (let seed = 0; seed < 20; seed++) {
+        const child = crossoverMotifs(first, second, 4, createRng(seed));
+        const cut = child.find((n) => n.pitch >= 72)?.time ?? 4;
+
+        expect(child.filter((n) => n.pitch < 72).every((n) => n.time + n.duration <= cut)).toBe(true);
+        expect(child.filter((n) => n.pitch >= 72)).toEqual(second.filter((n) => n.time >= cut));
+        expect(child.length).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe("mutateMotif", () => {
+    const notes = [note(57, 0, 0.5), note(60, 0.5, 0.5), note(64, 1), note(62, 2, 2)];
+    const context = { key: "A", scale: "minor", lengthBeats: 4 };
+
+    it("should keep point mutations in the key and inside the motif", () => {
+      const scale = getScalePitchClasses("A", "minor");
+      for (let seed = 0; seed < 20; seed++) {
+        for (const mutation of ["pitch", "rhythm", "duration", "split"] as const) {
+          const mutated = mutateMotif(notes, mutation, createRng(seed), context);
+
+          expect(mutated.every((n) => scale.includes(getPitchClass(n.pitch)))).toBe(true);
+          expect(mutated.every((n) => n.time >= 0 && n.time + n.duration <= 4)).toBe(true);
+        }
+      }
+    });
+
+    it("should apply the variation operators to the whole motif", () => {
+      const rng = createRng(1);
+
+      expect(mutateMotif(notes, "retrograde", rng, context).map((n) => n.pitch)).toEqual([62, 64, 60, 57]);
+      expect(mutateMotif(notes, "invert", rng, context).map((n) => n.pitch)).toEqual([57, 54, 50, 52]);
+      expect(mutateMotif(notes, "drop", rng, context)).toHaveLength(3);
+    });
+  });
+
+  describe("motifParetoFront", () => {
+    it("should keep only motifs no other motif beats on every objective", () => {
+      const base = calculateMotifScore(
+        generateMotifCandidates(createStylePrior(), "melodic", "A", "minor", 1, 1)[0]!,
+        createStylePrior()
+      );
+      const entry = (id: string, memorability: number, novelty: number, fitness: number): EvolvedMotif => ({
+        motif: { id, type: "melodic", name: id, notes: [], lengthBars: 1, key: "A", scale: "minor" },
+        score: { ...base, motifId: id, memorability, novelty },
+        fitness,
+        generation: 0,
+      });
+
+      const front = motifParetoFront([entry("a", 90, 20, 60), entry("b", 50, 80, 70), entry("c", 50, 20, 40)]);
+      expect(front.map((e) => e.motif.id)).toEqual(["b", "a"]);
+    });
+  });
+
+  describe("evolveMotifs", () => {
+    const stylePrior = createStylePrior();
+    const seeds = generateMotifCandidates(stylePrior, "melodic", "A", "minor", 5, 42);
+
+    it("should improve fitness over the seed population and never lose the best motif", () => {
+      const evolution = evolveMotifs(seeds, stylePrior, { generations: 10, populationSize: 12, seed: 7 });
+
+      expect(evolution.history).toHaveLength(11);
+      expect(evolution.history.map((h) => h.generation)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+      for (let i = 1; i < evolution.history.length; i++) {
+        expect(evolution.history[i]!.bestFitness).toBeGreaterThanOrEqual(evolution.history[i - 1]!.bestFitness);
+      }
+      expect(evolution.history[10]!.bestFitness).toBeGreaterThan(evolution.history[0]!.bestFitness);
+      expect(evolution.evaluated).toBeGreaterThan(seeds.length);
+
+      const best = evolution.paretoFront[0]!;
+      expect(best.fitness).toBe(evolution.history[10]!.bestFitness);
+      expect(best.motif).toMatchObject({ type: "melodic", key: "A", scale: "minor" });
+    });
+
+    it("should be deterministic for a seed and follow the fitness weights", () => {
+      const options = { generations: 6, populationSize: 10, seed: 3 };
+      expect(evolveMotifs(seeds, stylePrior, options)).toEqual(evolveMotifs(seeds, stylePrior, options));
+
+      const singable = evolveMotifs(seeds, stylePrior, {
+        ...options,
+        weights: { memorability: 0, singability: 1, novelty: 0, genreFit: 0 },
+      });
+      // With one objective the front is just the motifs that share the top score
+      const top = singable.paretoFront[0]!;
+      expect(singable.paretoFront.every((e) => e.score.singability === top.score.singability)).toBe(true);
+      expect(top.fitness).toBe(top.score.singability);
+    });
+
+    it("should replace children the accept check rejects", () => {
+      const evolution = evolveMotifs(seeds, stylePrior, {
+        generations: 5,
+        populationSize: 8,
+        seed: 11,
+        accept: (motif) => Math.max(...motif.notes.map((n) => n.pitch)) <= 81,
+      });
+
+      const evolved = evolution.paretoFront.filter((e) => e.generation > 0);
+      expect(evolved.every((e) => Math.max(...e.motif.notes.map((n) => n.pitch)) <= 81)).toBe(true);
+      expect(() => evolveMotifs([], stylePrior)).toThrow("at least one seed motif");
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { reharmonizeMelody, scoreMelodyFit } from "../../../workflow/generators/reharmonization";
+import type { MotifNote } from "../../../workflow/types";
+
+const note = (pitch: number, time: number, duration = 2): MotifNote => ({ pitch, time, duration, velocity: 100 });
+const chords = (...symbols: string[]) => symbols.map((chord, i) => ({ startBeat: i * 4, chord, duration: 4 }));
+
+describe("Reharmonization", () => {
+  describe("scoreMelodyFit", () => {
+    it("should rate chord tones over other notes and avoid notes lowest", () => {
+      const progression = chords("Cmaj");
+
+      expect(scoreMelodyFit([note(64, 0)], progression)).toBe(100);
+      expect(scoreMelodyFit([note(62, 0)], progression)).toBe(50);
+      // F sits a semitone above the third
+      expect(scoreMelodyFit([note(65, 0)], progression)).toBe(0);
+      // The long note on the beat outweighs the passing note
+      expect(scoreMelodyFit([note(64, 0, 3), note(65, 3.5, 0.5)], progression)).toBe(92);
+      expect(scoreMelodyFit([note(65, 8)], progression)).toBe(100);
+    });
+  });
+
+  describe("reharmonizeMelody", () => {
+    // Starts on an F over C and leans on an Ab over F
+    const melody = [note(65, 0), note(64, 2), note(71, 4), note(72, 6), note(68, 8), note(69, 10), note(62, 12, 4)];
+    const progression = chords("Cmaj", "Amin", "Fmaj", "Gmaj");
+
+    it("should rank proposals by melody fit and never fit the melody worse than the original", () => {
+      const { original, proposals } = reharmonizeMelody(melody, progression, "C", "major", 6);
+
+      expect(original).toBe(75);
+      expect(proposals.length).toBe(5);
+      expect(proposals.every((p) => p.melodyFit >= original && p.changes > 0)).toBe(true);
+      expect(proposals.map((p) => p.melodyFit)).toEqual([...proposals.map((p) => p.melodyFit)].sort((a, b) => b - a));
+
+      // A sus4 takes the F in as a chord tone
+      const extended = proposals[0]!;
+      expect(extended.strategy).toBe("extensions");
+      expect(extended.progression.map((c) => c.chord)).toEqual(["Csus4", "Am9", "Fmaj7", "G7"]);
+      expect(extended.romans).toEqual(["Isus4", "vi9", "IVmaj7", "V7"]);
+    });
+
+    it("should approach chords with secondary dominants in the second half of the chord before", () => {
+      const { proposals } = reharmonizeMelody(melody, progression, "C", "major");
+      const secondary = proposals.find((p) => p.strategy === "secondaryDominants")!;
+
+      expect(secondary.progression).toEqual([
+        { startBeat: 0, chord: "Cmaj", duration: 2 },
+        { startBeat: 2, chord: "E7", duration: 2 },
+        { startBeat: 4, chord: "Amin", duration: 2 },
+        { startBeat: 6, chord: "C7", duration: 2 },
+        { startBeat: 8, chord: "Fmaj", duration: 4 },
+        { startBeat: 12, chord: "Gmaj", duration: 4 },
+      ]);
+      expect(secondary.romans).toEqual(["I", "V7/vi", "vi", "V7/IV", "IV", "V"]);
+    });
+
+    it("should offer tritone substitutions, borrowed chords and inversions", () => {
+      const progression = chords("Amin", "Fmaj", "Cmaj", "Gmaj");
+      const { proposals } = reharmonizeMelody([note(72, 12, 4)], progression, "A", "minor", 6);
+      const byStrategy = Object.fromEntries(proposals.map((p) => [p.strategy, p]));
+
+      expect(byStrategy.tritoneSubstitution!.romans).toContain("subV7/VI");
+      expect(byStrategy.modalInterchange!.progression[0]!.chord).toBe("Amaj");
+      expect(byStrategy.inversions!.progression.map((c) => c.chord)).toEqual(["Amin", "Fmaj/A", "Cmaj/G", "Gmaj"]);
+    });
+
+    it("should leave chords it can't read unchanged", () => {
+      const { proposals } = reharmonizeMelody([note(64, 4)], chords("C7#9", "Cmaj", "Fmaj", "C7#9"), "C", "major", 6);
+
+      expect(proposals.length).toBeGreaterThan(0);
+      for (const { progression } of proposals) {
+        expect(progression[0]).toEqual({ startBeat: 0, chord: "C7#9", duration: 4 });
+        expect(progression[progression.length - 1]).toEqual({ startBeat: 12, chord: "C7#9", duration: 4 });
+      }
+    });
+
+    it("should leave out strategies that change nothing", () => {
+      // A single chord has nothing to approach and no bass line to smooth
+      const { proposals } = reharmonizeMelody([note(64, 0, 4)], chords("Cmaj"), "C", "major", 6);
+
+      expect(proposals.map((p) => p.strategy)).not.toContain("secondaryDominants");
+      expect(proposals.map((p) => p.strategy)).not.toContain("inversions");
+    });
+  });
+});
@@ -209,6 +209,19 @@ describe("Coherence Scoring", () => {
       expect(score).toBeGreaterThan(70);
     });
 
+    it("should penalize bass and melody notes that miss the chords", () => {
+      const fitting = createComposition([
+        createVoice("bass", createNotes([[48, 0], [53, 4]])),
+        createVoice("topline", createNotes([[64, 0], [67, 1], [69, 4], [72, 5]])),
+      ]);
+      const clashing = createComposition([
+        createVoice("bass", createNotes([[50, 0], [55, 4]])),
+        createVoice("topline", createNotes([[62, 0], [65, 1], [71, 4], [74, 5]])),
+      ]);
+
+      expect(scoreHarmonicClarity(fitting)).toBeGreaterThan(scoreHarmonicClarity(clashing));
+    });
+
     it("should handle empty harmony progression", () => {
       const voice = createVoice("topline", createNotes([[60, 0]]));
       const composition = { ...createComposition([voice]), harmonyProgression: [] };
@@ -237,6 +237,24 @@ describe("Groove Scoring", () => {
       expect(score.breakdown).toBeDefined();
     });
 
+    it("should judge density against the pattern length and count the perc lane", () => {
+      const stylePrior = createStylePrior();
+      const oneBar = createGroove();
+      const twoBars = createGroove({
+        steps: 32,
+        kickPattern: [0, 4, 8, 12, 16, 20, 24, 28],
+        hatPattern: [0, 2, 4, 6, 8, 10, 12, 14, 16, 18, 20, 22, 24, 26, 28, 30],
+      });
+      expect(calculateGrooveScore(twoBars, stylePrior).danceability).toBe(
+        calculateGrooveScore(oneBar, stylePrior).danceability
+      );
+
+      const withPerc = createGroove({ percPattern: [3, 7, 11, 15] });
+      expect(calculateGrooveScore(withPerc, stylePrior).breakdown.syncopation).toBeGreaterThan(
+        calculateGrooveScore(oneBar, stylePrior).breakdown.syncopation!
+      );
+    });
+
     it("should calculate weighted overall score", () => {
       const groove = createGroove();
       const stylePrior = createStylePrior();
@@ -9,6 +9,7 @@ import {
   analyzeRepetitionBalance,
   analyzeRhythmicInterest,
   calculateMotifScore,
+  calculateMotifFitness,
 } from "../../../workflow/scoring/motif";
 import type { MotifSeed, StylePrior, MotifNote } from "../../../workflow/types";
 
@@ -263,4 +264,17 @@ describe("Motif Scoring", () => {
       expect(score.breakdown).toBeDefined();
     });
   });
+
+  describe("calculateMotifFitness", () => {
+    it("should average the weighted objectives", () => {
+      const score = { ...calculateMotifScore(createMotif(), createStylePrior()), memorability: 80, novelty: 40 };
+
+      expect(calculateMotifFitness(score, { memorability: 1, singability: 0, novelty: 1, genreFit: 0 })).toBe(60);
+      expect(calculateMotifFitness(score, { memorability: 3, singability: 0, novelty: 1, genreFit: 0 })).toBe(70);
+      // No weight at all falls back to the overall score
+      expect(calculateMotifFitness(score, { memorability: 0, singability: 0, novelty: 0, genreFit: 0 })).toBe(
+        score.overall
+      );
+    });
+  });
 });
@@ -0,0 +1,240 @@
+import { describe, it, expect } from "vitest";
+import {
+  collectWorkflowUpdates,
+  hydrateWorkflowToolArgs,
+  summarizeWorkflowState,
+  withWorkflowState,
+} from "../../workflow/stateSync";
+import { defaultWorkflowState, mergeWorkflowState } from "../../workflow/state";
+import { stage3Tools } from "../../workflow/stages/timeBase";
+import { buildStylePrior } from "../../workflow/stages/stylePrior";
+import { parseBrief, deriveProductionSpec } from "../../workflow/stages/briefIngestion";
+import type { GrooveCandidate, MotifScore, MotifSeed, WorkflowState } from "../../workflow/types";
+
+// Helper to create a workflow state with brief, spec and style prior filled in
+function createWorkflowState(overrides: Partial<WorkflowState> = {}): WorkflowState {
+  const brief = parseBrief({ genres: ["techno"], mood: ["dark"] });
+  const spec = deriveProductionSpec(brief);
+  return {
+    ...defaultWorkflowState,
+    brief,
+    spec,
+    stylePrior: buildStylePrior(brief, spec),
+    ...overrides,
+  };
+}
+
+describe("Workflow State Sync", () => {
+  describe("hydrateWorkflowToolArgs", () => {
+    it("should fill omitted artifacts from state", () => {
+      const state = createWorkflowState();
+      const args = hydrateWorkflowToolArgs("workflowGenerateGrooves", { count: 2 }, state);
+
+      expect(args.count).toBe(2);
+      expect(args.stylePrior).toBe(state.stylePrior);
+    });
+
+    it("should keep explicitly passed arguments", () => {
+      const state = createWorkflowState();
+      const explicit = { ...state.stylePrior!, bpmSignature: { typical: 90, variance: 2 } };
+      const args = hydrateWorkflowToolArgs("workflowGenerateGrooves", { stylePrior: explicit }, state);
+
+      expect(args.stylePrior).toBe(explicit);
+    });
+
+    it("should zip candidates and scores into ranked inputs", () => {
+      const groove = { id: "g1" } as GrooveCandidate;
+      const score = { candidateId: "g1", danceability: 1, pocket: 1, genreFit: 1, overall: 1, breakdown: {} };
+      const state = createWorkflowState({ grooveCandidates: [groove], grooveScores: [score] });
+
+      const args = hydrateWorkflowToolArgs("workflowSelectTimeBase", {}, state);
+      expect(args.rankedGrooves).toEqual([{ groove, score }]);
+    });
+
+    it("should hydrate the track key and scale for composing", () => {
+      const base = createWorkflowState();
+      const state = createWorkflowState({
+        spec: { ...base.spec!, key: "E", scale: "major" },
+        motifSeedSet: { totalGenerated: 0, seeds: [], scores: [], topN: 0 },
+      });
+
+      const args = hydrateWorkflowToolArgs("workflowComposeSection", {}, state);
+      expect(args).toMatchObject({ key: "E", scale: "major" });
+    });
+
+    it("should name the producing tool when an artifact is missing", () => {
+      expect(() => hydrateWorkflowToolArgs("workflowScoreGrooves", {}, createWorkflowState())).toThrow(
+        /Run workflowGenerateGrooves first/
+      );
+    });
+
+    it("should leave tools without artifact inputs untouched", () => {
+      const args = { type: "riser", position: 8 };
+      expect(hydrateWorkflowToolArgs("workflowGenerateEarCandy", args, defaultWorkflowState)).toBe(args);
+    });
+  });
+
+  describe("withWorkflowState", () => {
+    it("should make artifact inputs optional and run against state", async () => {
+      const state = createWorkflowState();
+      const [generateGrooves] = withWorkflowState(stage3Tools, () => state);
+
+      const grooves = (await generateGrooves!.invoke({ count: 3 })) as GrooveCandidate[];
+      expect(grooves).toHaveLength(3);
+      expect(generateGrooves!.description).toContain("Omit stylePrior");
+    });
+  });
+
+  describe("collectWorkflowUpdates", () => {
+    it("should chain generate, score and select through state", async () => {
+      let state = createWorkflowState();
+      const [generate, score, select] = withWorkflowState(stage3Tools, () => state);
+
+      const run = async (t: typeof generate, args: Record<string, unknown>) => {
+        const result = await t!.invoke(args);
+        state = collectWorkflowUpdates([{ toolName: t!.name, content: JSON.stringify(result) }], state) ?? state;
+      };
+
+      await run(generate, { count: 3 });
+      expect(state.grooveCandidates).toHaveLength(3);
+      expect(state.grooveScores).toBeUndefined();
+
+      await run(score, {});
+      expect(state.grooveScores).toHaveLength(3);
+
+      await run(select, {});
+      expect(state.timeBase?.selectedGroove.id).toBe(state.grooveCandidates![0]!.id);
+      expect(state.stagesCompleted).toContain("timeBase");
+      expect(state.currentStage).toBe("palette");
+      expect(state.revisionHistory.map((r) => r.action)).toEqual(["selectTimeBase"]);
+    });
+
+    it("should ignore error output and unrelated tools", () => {
+      const state = createWorkflowState();
+      const update = collectWorkflowUpdates(
+        [
+          { toolName: "workflowScoreGrooves", content: "Error: invalid input" },
+          { toolName: "grooveRecipe", content: JSON.stringify({ ok: true }) },
+        ],
+        state
+      );
+      expect(update).toBeNull();
+    });
+
+    it("should upsert single-section compositions by section id", () => {
+      const composition = (sectionId: string, densityLevel: number) => ({
+        sectionId,
+        voices: [],
+        harmonyProgression: [],
+        densityLevel,
+        registerDistribution: {},
+      });
+      const state = createWorkflowState({ compositions: [composition("intro", 1), composition("drop", 2)] });
+
+      const update = collectWorkflowUpdates(
+        [{ toolName: "workflowComposeSection", content: JSON.stringify(composition("drop", 9)) }],
+        state
+      );
+
+      expect(update?.compositions?.map((c) => [c.sectionId, c.densityLevel])).toEqual([
+        ["intro", 1],
+        ["drop", 9],
+      ]);
+    });
+
+    it("should hand a trained melody model to the motif tools", () => {
+      const state = createWorkflowState();
+      expect(hydrateWorkflowToolArgs("workflowGenerateMotifs", {}, state).melodyModelPath).toBeUndefined();
+
+      const update = collectWorkflowUpdates(
+        [{ toolName: "workflowTrainMelodyModel", content: JSON.stringify({ path: "/models/house.json" }) }],
+        state
+      );
+
+      expect(update?.melodyModelPath).toBe("/models/house.json");
+      expect(hydrateWorkflowToolArgs("workflowGenerateMotifs", {}, update!).melodyModelPath).toBe("/models/house.json");
+    });
+
+    it("should add imported clip motifs to the candidates and keep scores aligned", () => {
+      const motif = (id: string) => ({ id, name: id }) as MotifSeed;
+      const score = (motifId: string) => ({ motifId, overall: 50 }) as MotifScore;
+      const imported = (id: string) => ({
+        toolName: "workflowImportClipAsMotif",
+        content: JSON.stringify({ motif: motif(id), score: score(id) }),
+      });
+
+      const scored = createWorkflowState({ motifCandidates: [motif("a")], motifScores: [score("a")] });
+      const update = collectWorkflowUpdates([imported("live")], scored);
+      expect(update?.motifCandidates?.map((m) => m.id)).toEqual(["a", "live"]);
+      expect(update?.motifScores?.map((s) => s.motifId)).toEqual(["a", "live"]);
+      expect(update?.currentStage).toBe("motifSeed");
+
+      const unscored = createWorkflowState({ motifCandidates: [motif("a"), motif("live")] });
+      const replaced = collectWorkflowUpdates([imported("live")], unscored);
+      expect(replaced?.motifCandidates?.map((m) => m.id)).toEqual(["a", "live"]);
+      expect(replaced?.motifScores).toBeUndefined();
+    });
+  });
+
+  describe("run seed", () => {
+    it("should replay a run bit-for-bit from the same run seed", async () => {
+      const replay = async () => {
+        let state = createWorkflowState({ seed: 2024 });
+        const [generate] = withWorkflowState(stage3Tools, () => state);
+        const outputs: unknown[] = [];
+        for (let i = 0; i < 2; i++) {
+          const result = await generate!.invoke({ count: 3 });
+          outputs.push(result);
+          state = collectWorkflowUpdates([{ toolName: generate!.name, content: JSON.stringify(result) }], state) ?? state;
+        }
+        return { outputs, state };
+      };
+
+      const first = await replay();
+      const second = await replay();
+
+      expect(second.outputs).toEqual(first.outputs);
+      expect(first.outputs[1]).not.toEqual(first.outputs[0]);
+      expect(first.state.seedDraws).toEqual({ workflowGenerateGrooves: 2 });
+    });
+
+    it("should prefer an explicit seed over the run seed", () => {
+      const state = createWorkflowState({ seed: 1 });
+      const args = hydrateWorkflowToolArgs("workflowGenerateEarCandy", { type: "riser", seed: 7 }, state);
+      expect(args.seed).toBe(7);
+    });
+
+    it("should keep the run seed when the brief is ingested again", () => {
+      const state = createWorkflowState({ seed: 11, seedDraws: { workflowGenerateGrooves: 3 } });
+      const update = collectWorkflowUpdates(
+        [{ toolName: "workflowIngestBrief", content: JSON.stringify({ brief: state.brief, spec: state.spec, seed: 11 }) }],
+        state
+      );
+
+      expect(hydrateWorkflowToolArgs("workflowIngestBrief", {}, state).seed).toBe(11);
+      expect(update?.seedDraws).toEqual({ workflowGenerateGrooves: 3 });
+    });
+  });
+
+  describe("mergeWorkflowState", () => {
+    it("should not duplicate revision history echoed back by a client", () => {
+      const entry = { stage: "palette" as const, timestamp: "t", action: "a", summary: "s" };
+      const current = createWorkflowState({ revisionHistory: [entry] });
+
+      const merged = mergeWorkflowState(current, { ...current, revisionHistory: [entry] });
+      expect(merged.revisionHistory).toHaveLength(1);
+    });
+  });
+
+  describe("summarizeWorkflowState", () => {
+    it("should list progress and available artifacts", () => {
+      const summary = summarizeWorkflowState(
+        createWorkflowState({ stagesCompleted: ["briefIngestion", "stylePrior"], currentStage: "timeBase" })
+      );
+
+      expect(summary).toContain("Current stage: timeBase (22% complete, next: timeBase)");
+      expect(summary).toContain("brief (techno)");
+      expect(summary).toContain("stylePrior");
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { decodeAudioFile } from "../../../workflow/utils/audioFile";
+import { encodeWav } from "../../../workflow/utils/audioRender";
+
+/**
+ * Big-endian AIFF with 16-bit stereo frames at 44.1 kHz
+ */
+function buildAiff(frames: Array<[number, number]>): Uint8Array {
+  const dataLength = frames.length * 4;
+  const bytes = new Uint8Array(12 + 26 + 16 + dataLength);
+  const view = new DataView(bytes.buffer);
+  const text = (offset: number, value: string) => [...value].forEach((c, i) => (bytes[offset + i] = c.charCodeAt(0)));
+
+  text(0, "FORM");
+  view.setUint32(4, bytes.length - 8);
+  text(8, "AIFF");
+  text(12, "COMM");
+  view.setUint32(16, 18);
+  view.setUint16(20, 2);
+  view.setUint32(22, frames.length);
+  view.setUint16(26, 16);
+  // 44100 as an 80-bit extended float
+  view.setUint16(28, 0x400e);
+  view.setUint32(30, 0xac440000);
+  text(38, "SSND");
+  view.setUint32(42, 8 + dataLength);
+  frames.forEach(([left, right], i) => {
+    view.setInt16(54 + i * 4, left);
+    view.setInt16(56 + i * 4, right);
+  });
+  return bytes;
+}
+
+describe("Audio file decoding", () => {
+  it("should read back 16- and 24-bit WAV files", () => {
+    const samples = new Float32Array([0, 0.5, -0.5, 0.25]);
+
+    for (const bitDepth of [16, 24] as const) {
+      const audio = decodeAudioFile(encodeWav(samples, 22050, bitDepth));
+      expect(audio.sampleRate).toBe(22050);
+      expect(audio.channels).toHaveLength(1);
+      expect(Array.from(audio.channels[0]!)).toEqual(Array.from(samples).map((s) => expect.closeTo(s, 4)));
+      expect(audio.durationSeconds).toBeCloseTo(4 / 22050);
+    }
+  });
+
+  it("should split big-endian AIFF frames into channels", () => {
+    const audio = decodeAudioFile(
+      buildAiff([
+        [16384, -16384],
+        [-32768, 0],
+      ])
+    );
+
+    expect(audio.sampleRate).toBe(44100);
+    expect(audio.channels.map((channel) => Array.from(channel))).toEqual([
+      [0.5, -1],
+      [-0.5, 0],
+    ]);
+  });
+
+  it("should reject other containers", () => {
+    expect(() => decodeAudioFile(new TextEncoder().encode("ID3\u0004 not a wav file"))).toThrow("Not a WAV or AIFF file.");
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import {
+  compositionToEvents,
+  encodeWav,
+  grooveToEvents,
+  motifToEvents,
+  renderEarCandy,
+  renderEvents,
+} from "../../../workflow/utils/audioRender";
+import { generateHouseGroove } from "../../../workflow/generators/groove";
+import { createMotifSeed } from "../../../workflow/generators/motif";
+import type { PaletteEntry, SectionComposition } from "../../../workflow/types";
+
+const SAMPLE_RATE = 8000;
+
+describe("Offline audio rendering", () => {
+  describe("grooveToEvents", () => {
+    it("should loop the patterns and swing the off-16ths", () => {
+      const straight = generateHouseGroove(120, 0, 7);
+      const quiet = { ...straight, velocityVariance: 0, humanization: { timingJitter: 0, velocityJitter: 0 } };
+
+      const events = grooveToEvents(quiet, 2);
+      const kicks = events.filter((e) => e.instrument === "kick");
+      expect(kicks).toHaveLength(straight.kickPattern.length * 2);
+      const steps = [...straight.kickPattern, ...straight.kickPattern.map((step) => step + 16)];
+      expect(kicks.map((e) => e.time)).toEqual(steps.map((step) => step / 4));
+
+      const sixteenths = { ...quiet, hatPattern: [0, 1, 2, 3], swingAmount: 60 };
+      const hats = grooveToEvents(sixteenths, 1).filter((e) => e.instrument === "hat");
+      expect(hats.map((e) => e.time)).toEqual([0, expect.closeTo(0.325), 0.5, expect.closeTo(0.825)]);
+    });
+
+    it("should loop the pattern length and apply per-step velocities, chances and the perc lane", () => {
+      const groove = {
+        ...generateHouseGroove(120, 0, 7),
+        velocityVariance: 0,
+        humanization: { timingJitter: 0, velocityJitter: 0 },
+        steps: 12,
+        kickPattern: [0, 4, 8],
+        snarePattern: [4],
+        hatPattern: [2, 6, 10],
+        percPattern: [11],
+        stepVelocities: { kick: [0, 0, 0, 0, 0, 0, 0, 0, 127, 0, 0, 0] },
+        stepProbabilities: { hat: [100, 100, 0, 100, 100, 100, 100, 100, 100, 100, 100, 100] },
+      };
+
+      const events = grooveToEvents(groove, 2);
+      const kicks = events.filter((e) => e.instrument === "kick");
+      expect(kicks.map((e) => e.time)).toEqual([0, 1, 2, 3, 4, 5]);
+      expect(kicks.map((e) => e.velocity)).toEqual([112, 99, 127, 99, 112, 127]);
+      expect(events.filter((e) => e.instrument === "hat").map((e) => e.time)).toEqual([1.5, 2.5, 4.5, 5.5]);
+      expect(events.filter((e) => e.instrument === "perc").map((e) => e.time)).toEqual([2.75, 5.75]);
+    });
+
+    it("should accent the pulses of the groove's meter", () => {
+      const waltz = {
+        ...generateHouseGroove(120, 0, 7),
+        meter: "3/4",
+        steps: 12,
+        velocityVariance: 0,
+        humanization: { timingJitter: 0, velocityJitter: 0 },
+        kickPattern: [0, 4, 8],
+      };
+
+      const kicks = grooveToEvents(waltz, 2).filter((e) => e.instrument === "kick");
+      expect(kicks.map((e) => e.time)).toEqual([0, 1, 2, 3, 4, 5]);
+      expect(kicks.map((e) => e.velocity)).toEqual([112, 99, 99, 112, 99, 99]);
+    });
+
+    it("should be reproducible from the groove seed", () => {
+      const groove = generateHouseGroove(124, 20, 99);
+      expect(grooveToEvents(groove)).toEqual(grooveToEvents(groove));
+    });
+  });
+
+  describe("compositionToEvents", () => {
+    it("should pick drums by pitch on rhythm voices and oscillators from the palette", () => {
+      const composition: SectionComposition = {
+        sectionId: "drop",
+        voices: [
+          {
+            role: "rhythm",
+            trackName: "rhythm-drop",
+            clipName: "Kit",
+            notes: [{ pitch: 36, time: 0, duration: 0.25, velocity: 100 }],
+          },
+          {
+            role: "bass",
+            trackName: "bass-drop",
+            clipName: "Bass",
+            paletteEntryId: "p-bass",
+            notes: [{ pitch: 36, time: 0, duration: 1, velocity: 100 }],
+          },
+        ],
+        harmonyProgression: [],
+        densityLevel: 2,
+        registerDistribution: {},
+      };
+      const palette = [{ id: "p-bass", type: "recording" } as PaletteEntry];
+
+      const events = compositionToEvents(composition, palette);
+      expect(events.map((e) => [e.instrument, e.waveform])).toEqual([
+        ["kick", undefined],
+        ["bass", "triangle"],
+      ]);
+    });
+  });
+
+  describe("renderEvents", () => {
+    it("should place sound at the note time and scale with velocity", () => {
+      const motif = createMotifSeed([{ pitch: 69, time: 1, duration: 1, velocity: 127 }], "melodic", "A", "minor");
+      const loud = renderEvents(motifToEvents(motif), { tempo: 120, sampleRate: SAMPLE_RATE, tailSeconds: 0 });
+      const soft = renderEvents(
+        motifToEvents({ ...motif, notes: [{ ...motif.notes[0]!, velocity: 32 }] }),
+        { tempo: 120, sampleRate: SAMPLE_RATE, tailSeconds: 0 }
+      );
+
+      // One beat at 120 BPM is half a second
+      const rms = (samples: Float32Array, from: number, to: number) =>
+        Math.sqrt(samples.slice(from, to).reduce((sum, s) => sum + s * s, 0) / (to - from));
+      expect(rms(loud.samples, 0, SAMPLE_RATE / 2 - 10)).toBe(0);
+      expect(rms(loud.samples, SAMPLE_RATE / 2 + 100, SAMPLE_RATE)).toBeGreaterThan(0.05);
+      const held = [SAMPLE_RATE / 2 + 100, SAMPLE_RATE] as const;
+      expect(rms(soft.samples, ...held)).toBeLessThan(rms(loud.samples, ...held));
+      expect(loud.durationSeconds).toBe(1);
+    });
+
+    it("should normalize a clipping mix", () => {
+      const kick = { time: 0, duration: 0.25, pitch: 36, velocity: 127, instrument: "kick" as const };
+      const stack = Array.from({ length: 12 }, () => kick);
+      const audio = renderEvents(stack, { tempo: 120, sampleRate: SAMPLE_RATE });
+
+      expect(audio.peakDb).toBeGreaterThan(0);
+      expect(Math.max(...audio.samples.map(Math.abs))).toBeCloseTo(0.89, 2);
+    });
+  });
+
+  describe("renderEarCandy", () => {
+    const rms = (samples: Float32Array, from: number, to: number) => {
+      const slice = samples.subarray(Math.floor(from * samples.length), Math.floor(to * samples.length));
+      return Math.sqrt(slice.reduce((sum, s) => sum + s * s, 0) / slice.length);
+    };
+
+    it("should build a riser up and let a downlifter fall away over the event", () => {
+      const riser = renderEarCandy(
+        { id: "r", type: "riser", position: 12, duration: 2 },
+        { tempo: 120, sampleRate: SAMPLE_RATE }
+      );
+      expect(riser.durationSeconds).toBe(4);
+      expect(rms(riser.samples, 0.8, 1)).toBeGreaterThan(rms(riser.samples, 0, 0.2) * 4);
+
+      const downlifter = renderEarCandy(
+        { id: "d", type: "downlifter", position: 12, duration: 2 },
+        { tempo: 120, sampleRate: SAMPLE_RATE }
+      );
+      expect(rms(downlifter.samples, 0, 0.2)).toBeGreaterThan(rms(downlifter.samples, 0.8, 1) * 4);
+    });
+
+    it("should let an impact ring past its duration and repeat for the same seed", () => {
+      const impact = { id: "i", type: "impact" as const, position: 16, duration: 0.25 };
+      const first = renderEarCandy(impact, { tempo: 120, sampleRate: SAMPLE_RATE, seed: 3 });
+
+      expect(first.durationSeconds).toBe(2);
+      expect(rms(first.samples, 0, 0.25)).toBeGreaterThan(rms(first.samples, 0.75, 1));
+      expect(renderEarCandy(impact, { tempo: 120, sampleRate: SAMPLE_RATE, seed: 3 }).samples).toEqual(first.samples);
+    });
+  });
+
+  describe("encodeWav", () => {
+    it("should write a PCM header and samples at 16 and 24 bits", () => {
+      const samples = new Float32Array([0, 1, -1, 0.5]);
+
+      const wav16 = encodeWav(samples, 22050, 16);
+      const view16 = new DataView(wav16.buffer);
+      expect(new TextDecoder().decode(wav16.slice(0, 4))).toBe("RIFF");
+      expect(view16.getUint32(24, true)).toBe(22050);
+      expect(view16.getUint16(34, true)).toBe(16);
+      expect(view16.getUint32(40, true)).toBe(8);
+      expect(view16.getInt16(46, true)).toBe(32767);
+      expect(view16.getInt16(48, true)).toBe(-32767);
+
+      const wav24 = encodeWav(samples, 22050, 24);
+      expect(wav24.length).toBe(44 + 12);
+      expect(Array.from(wav24.slice(47, 50))).toEqual([0xff, 0xff, 0x7f]);
+    });
+  });
+});
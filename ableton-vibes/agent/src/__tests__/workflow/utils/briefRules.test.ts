@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyGrooveRules,
+  applyTempoRules,
+  checkGrooveRules,
+  checkRuleCompliance,
+  filterByRules,
+  mentionsElement,
+  parseBriefRules,
+  requiredMeter,
+  unenforcedRules,
+} from "../../../workflow/utils/briefRules";
+import type { GrooveCandidate, SectionComposition, Voice } from "../../../workflow/types";
+
+const groove: GrooveCandidate = {
+  id: "house-1",
+  tempo: 150,
+  meter: "4/4",
+  swingAmount: 20,
+  kickPattern: [0, 4, 8, 12],
+  snarePattern: [4, 12],
+  hatPattern: [2, 6, 10, 14],
+  velocityVariance: 10,
+  humanization: { timingJitter: 5, velocityJitter: 8 },
+  description: "Classic four-on-the-floor house groove",
+};
+
+const voice = (role: Voice["role"], trackName: string): Voice => ({
+  role,
+  trackName,
+  clipName: `${trackName} clip`,
+  notes: [],
+});
+
+describe("Brief rules", () => {
+  describe("parseBriefRules", () => {
+    it("should parse elements, tempo bounds, swing and meter from rule text", () => {
+      const constraints = parseBriefRules({
+        must: ["vocals", "under 125 BPM", "in 3/4", "no pads"],
+        mustNot: ["808s", "swing", "above 140 bpm", "hi-hats"],
+      });
+
+      expect(constraints).toEqual([
+        { kind: "requireElement", element: "vocal", rule: "vocals" },
+        { kind: "tempo", max: 125, rule: "under 125 BPM" },
+        { kind: "meter", meter: "3/4", allowed: true, rule: "in 3/4" },
+        { kind: "forbidElement", element: "pad", rule: "no pads" },
+        { kind: "forbidElement", element: "808", rule: "808s" },
+        { kind: "swing", required: false, rule: "swing" },
+        { kind: "tempo", max: 140, rule: "above 140 bpm" },
+        { kind: "forbidElement", element: "hi-hat", rule: "hi-hats" },
+      ]);
+      expect(requiredMeter(constraints)).toBe("3/4");
+    });
+
+    it("should merge the palette's forbidden list and report rules it cannot check", () => {
+      const rules = { must: [], mustNot: ["808s", "120-125 bpm"] };
+
+      expect(parseBriefRules(rules, ["808s", "supersaw"]).map((c) => c.rule)).toEqual(["808s", "supersaw"]);
+      expect(unenforcedRules(rules)).toEqual(["120-125 bpm"]);
+    });
+  });
+
+  describe("mentionsElement", () => {
+    it("should ignore case, spacing and hyphens and know common aliases", () => {
+      expect(mentionsElement("Hi-Hat", "hihat")).toBe(true);
+      expect(mentionsElement("Closed hats", "hi-hat")).toBe(true);
+      expect(mentionsElement("Vox chop", "vocal")).toBe(true);
+      expect(mentionsElement("Lead Synth", "pad")).toBe(false);
+    });
+  });
+
+  describe("applyTempoRules", () => {
+    it("should narrow a range and let a rule outside it win", () => {
+      const constraints = parseBriefRules({ must: ["at least 124 bpm"], mustNot: [] });
+      expect(applyTempoRules({ min: 118, max: 135 }, constraints)).toEqual({ min: 124, max: 135 });
+
+      const slow = parseBriefRules({ must: ["under 110 bpm"], mustNot: [] });
+      expect(applyTempoRules({ min: 125, max: 145 }, slow)).toEqual({ min: 110, max: 110 });
+    });
+  });
+
+  describe("grooves", () => {
+    const constraints = parseBriefRules({ must: ["under 130 bpm"], mustNot: ["swing", "hi-hats"] });
+
+    it("should report tempo, swing and forbidden lanes", () => {
+      expect(checkGrooveRules(groove, constraints).map((v) => v.message)).toEqual([
+        "house-1 runs at 150 BPM",
+        "house-1 plays a hi-hat pattern",
+        "house-1 swings 20%",
+      ]);
+    });
+
+    it("should fix what it can", () => {
+      const fixed = applyGrooveRules(groove, constraints);
+
+      expect(fixed).toMatchObject({ tempo: 130, swingAmount: 0, hatPattern: [], kickPattern: groove.kickPattern });
+      expect(checkGrooveRules(fixed, constraints)).toEqual([]);
+    });
+
+    it("should keep every candidate when all of them break a rule", () => {
+      const check = (g: GrooveCandidate) => checkGrooveRules(g, constraints);
+      const straight = { ...groove, id: "straight", tempo: 125, swingAmount: 0, hatPattern: [] };
+
+      expect(filterByRules([groove, straight], check)).toEqual([straight]);
+      expect(filterByRules([groove], check)).toEqual([groove]);
+    });
+  });
+
+  describe("checkRuleCompliance", () => {
+    const composition: SectionComposition = {
+      sectionId: "drop",
+      voices: [voice("bass", "Bass"), voice("pad", "Pad")],
+      harmonyProgression: [],
+      densityLevel: 5,
+      registerDistribution: {},
+    };
+
+    it("should report forbidden voices and missing required elements", () => {
+      const report = checkRuleCompliance(
+        { must: ["vocals"], mustNot: ["pads", "120-125 bpm"] },
+        { compositions: [composition], sections: [] }
+      );
+
+      expect(report.compliant).toBe(false);
+      expect(report.violations.map((v) => [v.stage, v.rule, v.message])).toEqual([
+        ["composeOrchestrate", "pads", "Pad clip plays a pad voice"],
+        ["palette", "vocals", "No vocal in the palette, motifs or compositions"],
+      ]);
+      expect(report.unenforced).toEqual(["120-125 bpm"]);
+      expect(report.summary).toBe(
+        "2 of 3 brief rules broken: Pad clip plays a pad voice; No vocal in the palette, motifs or compositions " +
+          "(not checked: 120-125 bpm)"
+      );
+    });
+
+    it("should pass a run that respects every rule", () => {
+      const report = checkRuleCompliance(
+        { must: ["bass"], mustNot: ["vocals"] },
+        {
+          compositions: [composition],
+          timeBase: { finalTempo: 128, finalMeter: "4/4", selectedGroove: groove, alternateGrooves: [] },
+        }
+      );
+
+      expect(report).toMatchObject({ compliant: true, violations: [], summary: "All 2 brief rules respected" });
+    });
+  });
+});
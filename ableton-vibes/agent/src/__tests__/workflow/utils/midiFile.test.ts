@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { parseMidiFile, midiBeatsPerBar } from "../../../workflow/utils/midiFile";
+import { composeSectionFromMidi } from "../../../workflow/stages/composeOrchestrate";
+
+// Helpers to assemble SMF bytes by hand
+function varInt(value: number): number[] {
+  const bytes = [value & 0x7f];
+  while ((value >>= 7) > 0) bytes.unshift((value & 0x7f) | 0x80);
+  return bytes;
+}
+
+function chunk(type: string, data: number[]): number[] {
+  const length = [data.length >>> 24, (data.length >> 16) & 0xff, (data.length >> 8) & 0xff, data.length & 0xff];
+  return [...[...type].map((c) => c.charCodeAt(0)), ...length, ...data];
+}
+
+function smf(format: number, ppq: number, tracks: number[][]): Uint8Array {
+  const header = chunk("MThd", [0, format, 0, tracks.length, ppq >> 8, ppq & 0xff]);
+  return new Uint8Array([...header, ...tracks.flatMap((events) => chunk("MTrk", [...events, 0, 0xff, 0x2f, 0]))]);
+}
+
+const trackName = (name: string) => [0, 0xff, 0x03, name.length, ...[...name].map((c) => c.charCodeAt(0))];
+
+describe("parseMidiFile", () => {
+  it("should read tempo, meter and notes from a format 1 file", () => {
+    const conductor = [
+      ...[0, 0xff, 0x51, 3, 0x07, 0xa1, 0x20], // 500000 us per beat = 120 BPM
+      ...[0, 0xff, 0x58, 4, 6, 3, 24, 8], // 6/8
+      ...[...varInt(960), 0xff, 0x51, 3, 0x09, 0x27, 0xc0], // 100 BPM at beat 2
+    ];
+    const piano = [
+      ...trackName("Piano"),
+      ...[0, 0x90, 60, 100],
+      ...[...varInt(480), 0x80, 60, 0],
+      ...[0, 0x90, 64, 90],
+      ...[...varInt(240), 0x90, 64, 0], // note-on with velocity 0 ends the note
+    ];
+
+    const file = parseMidiFile(smf(1, 480, [conductor, piano]));
+
+    expect(file).toMatchObject({ format: 1, ppq: 480, tempo: 120, timeSignature: "6/8" });
+    expect(file.tempoChanges).toEqual([
+      { time: 0, bpm: 120 },
+      { time: 2, bpm: 100 },
+    ]);
+    expect(midiBeatsPerBar(file)).toBe(3);
+    expect(file.tracks).toHaveLength(1);
+    expect(file.tracks[0]).toMatchObject({ name: "Piano", channel: 0 });
+    expect(file.tracks[0]!.notes).toEqual([
+      { pitch: 60, time: 0, duration: 1, velocity: 100, channel: 0 },
+      { pitch: 64, time: 1, duration: 0.5, velocity: 90, channel: 0 },
+    ]);
+  });
+
+  it("should follow running status and split format 0 files by channel", () => {
+    const events = [
+      ...[0, 0x99, 36, 110], // kick on the drum channel
+      ...[0, 38, 100], // running status: snare
+      ...[...varInt(96), 0x89, 36, 0],
+      ...[0, 38, 0],
+      ...[0, 0x91, 48, 80],
+      ...[...varInt(192), 0x81, 48, 0],
+    ];
+
+    const file = parseMidiFile(smf(0, 96, [events]));
+
+    expect(file.tracks.map((t) => [t.name, t.channel, t.notes.length])).toEqual([
+      ["Track 1 Drums", 9, 2],
+      ["Track 1 Ch 2", 1, 1],
+    ]);
+    expect(file.tracks[1]!.notes[0]).toMatchObject({ time: 1, duration: 2 });
+    expect(file.tempo).toBe(120);
+    expect(file.timeSignature).toBe("4/4");
+  });
+
+  it("should close notes left open at the end of the track", () => {
+    const file = parseMidiFile(smf(1, 120, [[0, 0x90, 60, 100, ...varInt(480), 0xc0, 5]]));
+    expect(file.tracks[0]!.notes[0]).toMatchObject({ pitch: 60, duration: 4 });
+  });
+
+  it("should reject data that is not a usable MIDI file", () => {
+    expect(() => parseMidiFile(new TextEncoder().encode("RIFF....WAVEfmt "))).toThrow(/Not a Standard MIDI File/);
+    const smpte = smf(1, 0xe728, [[]]);
+    expect(() => parseMidiFile(smpte)).toThrow(/SMPTE/);
+  });
+});
+
+describe("composeSectionFromMidi", () => {
+  it("should turn each part into a voice with a role and section-relative notes", () => {
+    const bass = [
+      ...trackName("Bass"),
+      ...[36, 43].flatMap((pitch) => [0, 0x90, pitch, 100, ...varInt(240), 0x80, pitch, 0]),
+    ];
+    const lead = [
+      ...trackName("Lead"),
+      ...[60, 62, 64, 65, 67].flatMap((pitch) => [0, 0x90, pitch, 90, ...varInt(240), 0x80, pitch, 0]),
+    ];
+    const drums = [...trackName("Drums"), 0, 0x99, 36, 120, ...varInt(120), 0x89, 36, 0];
+    const file = parseMidiFile(smf(1, 480, [bass, lead, drums]));
+
+    const composition = composeSectionFromMidi(file, "drop-1");
+
+    expect(composition.sectionId).toBe("drop-1");
+    expect(composition.voices.map((v) => [v.clipName, v.role, v.trackName])).toEqual([
+      ["Bass", "bass", "bass-drop-1"],
+      ["Lead", "topline", "topline-drop-1"],
+      ["Drums", "rhythm", "rhythm-drop-1"],
+    ]);
+    expect(composition.densityLevel).toBe(6);
+
+    const window = composeSectionFromMidi(file, "tail", 1, 2);
+    expect(window.voices.map((v) => v.clipName)).toEqual(["Lead"]);
+    expect(window.voices[0]!.notes.map((n) => n.time)).toEqual([0, 0.5, 1]);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import { renderEvents, type RenderEvent } from "../../../workflow/utils/audioRender";
+import { createRng } from "../../../workflow/utils/random";
+import {
+  analyzeReferenceAudio,
+  findReferenceSections,
+  isAudioReference,
+  summarizeReferences,
+} from "../../../workflow/utils/referenceAnalysis";
+import { deriveProductionSpec } from "../../../workflow/stages/briefIngestion";
+import { buildStylePrior } from "../../../workflow/stages/stylePrior";
+import type { ReferenceAnalysis } from "../../../workflow/types";
+
+const SAMPLE_RATE = 22050;
+
+/**
+ * 16 bars of kick, off-beat hats and an A minor pad, with the kick played twice as
+ * hard in the second half
+ */
+function renderReference(tempo: number) {
+  const events: RenderEvent[] = [];
+  for (let beat = 0; beat < 64; beat++) {
+    events.push({ time: beat, duration: 0.25, pitch: 36, velocity: beat < 32 ? 60 : 120, instrument: "kick" });
+    events.push({ time: beat + 0.5, duration: 0.25, pitch: 42, velocity: 80, instrument: "hat" });
+    if (beat % 4 === 0) {
+      events.push({ time: beat, duration: 4, pitch: [57, 60, 64][beat % 3]!, velocity: 80, instrument: "pad" });
+    }
+  }
+  const audio = renderEvents(events, { tempo, sampleRate: SAMPLE_RATE });
+  return { sampleRate: SAMPLE_RATE, channels: [audio.samples], durationSeconds: audio.durationSeconds };
+}
+
+const reference = (overrides: Partial<ReferenceAnalysis>): ReferenceAnalysis => ({
+  source: "~/refs/track.wav",
+  durationSeconds: 240,
+  tempo: 126,
+  tempoConfidence: 0.8,
+  key: "F",
+  scale: "minor",
+  keyConfidence: 0.7,
+  loudness: { integrated: -8, shortTermMax: -6.5, range: 4, peak: -0.3 },
+  spectralBalance: { sub: 35, bass: 40, lowMid: 10, mid: 8, highMid: 4, presence: 2, air: 1, transient: 6 },
+  energyCurve: [...Array(16).fill(30), ...Array(32).fill(90), ...Array(16).fill(40), ...Array(32).fill(95)],
+  sections: [
+    { startBar: 0, lengthBars: 16, energy: 30 },
+    { startBar: 16, lengthBars: 32, energy: 90 },
+    { startBar: 48, lengthBars: 16, energy: 40 },
+    { startBar: 64, lengthBars: 32, energy: 95 },
+  ],
+  totalBars: 96,
+  ...overrides,
+});
+
+describe("Reference analysis", () => {
+  describe("analyzeReferenceAudio", () => {
+    it("should estimate tempo, key, loudness and sections from rendered audio", () => {
+      for (const tempo of [96, 128, 174]) {
+        const analysis = analyzeReferenceAudio(renderReference(tempo), "ref.wav");
+
+        expect(analysis.tempo).toBeCloseTo(tempo, 0);
+        expect(analysis.tempoConfidence).toBeGreaterThan(0.5);
+        expect(analysis.totalBars).toBe(16);
+        expect(analysis.sections.map((s) => [s.startBar, s.lengthBars])).toEqual([
+          [0, 8],
+          [8, 8],
+        ]);
+        expect(analysis.sections[0]!.energy).toBeLessThan(analysis.sections[1]!.energy);
+      }
+
+      const analysis = analyzeReferenceAudio(renderReference(128), "ref.wav");
+      expect(analysis).toMatchObject({ key: "A", scale: "minor" });
+      expect(analysis.loudness.integrated).toBeLessThan(analysis.loudness.shortTermMax);
+      expect(analysis.loudness.peak).toBeLessThanOrEqual(0);
+      expect(analysis.spectralBalance.sub! + analysis.spectralBalance.bass!).toBeGreaterThan(80);
+    });
+
+    it("should put noise in the upper bands with little tempo confidence", () => {
+      const rng = createRng(5);
+      const noise = new Float32Array(SAMPLE_RATE * 10).map(() => rng() * 0.5 - 0.25);
+      const analysis = analyzeReferenceAudio({ sampleRate: SAMPLE_RATE, channels: [noise], durationSeconds: 10 }, "n");
+
+      expect(analysis.tempoConfidence).toBeLessThan(0.2);
+      expect(analysis.spectralBalance.highMid! + analysis.spectralBalance.presence!).toBeGreaterThan(60);
+      // Uniform noise at ±0.25 sits near -17 dBFS RMS; K-weighting lifts its top end
+      expect(analysis.loudness.integrated).toBeCloseTo(-14, 0);
+      expect(analysis.loudness.range).toBeLessThan(1);
+    });
+  });
+
+  describe("findReferenceSections", () => {
+    it("should split on energy jumps and fold short sections into the previous one", () => {
+      const curve = [...Array(16).fill(30), ...Array(4).fill(80), ...Array(12).fill(35), ...Array(16).fill(90)];
+
+      expect(findReferenceSections(curve)).toEqual([
+        { startBar: 0, lengthBars: 20, energy: 40 },
+        { startBar: 20, lengthBars: 12, energy: 35 },
+        { startBar: 32, lengthBars: 16, energy: 90 },
+      ]);
+    });
+  });
+
+  describe("summarizeReferences", () => {
+    it("should turn references into spec and style prior targets", () => {
+      const brief = {
+        genres: ["techno"],
+        mood: ["dark"],
+        references: ["~/refs/track.wav", "~/refs/other.aiff"],
+        referenceAnalyses: [reference({}), reference({ tempo: 130, key: "G", keyConfidence: 0.5 })],
+        rules: { must: [], mustNot: [] },
+      };
+      const summary = summarizeReferences(brief.referenceAnalyses)!;
+
+      expect(summary).toMatchObject({
+        tempo: 128,
+        tempoRange: { min: 126, max: 130 },
+        key: "F",
+        sectionCount: { min: 4, max: 4 },
+        sectionLengths: { intro: 16, drop: 32, breakdown: 16 },
+      });
+      expect(summary.energyArc.map((p) => p.energy)).toEqual([30, 90, 40, 95, 95]);
+
+      const spec = deriveProductionSpec(brief);
+      expect(spec).toMatchObject({ tempoRange: { min: 124, max: 132 }, key: "F", scale: "minor" });
+      expect(spec.energyArc).toEqual(summary.energyArc);
+      expect(spec.mixAesthetic).toBe("bass-heavy, loud, dense (references at -8 LUFS)");
+      expect(spec.structuralConstraints).toMatchObject({ minSections: 3, maxSections: 6 });
+
+      const prior = buildStylePrior(brief, spec);
+      expect(prior.bpmSignature.typical).toBe(128);
+      expect(prior.arrangementNorms).toMatchObject({
+        typicalIntroLength: 16,
+        typicalDropLength: 32,
+        typicalBreakdownLength: 16,
+      });
+      expect(prior.soundDesignTraits).toEqual(expect.arrayContaining(["sub-heavy", "compressed"]));
+    });
+
+    it("should only treat WAV and AIFF paths as audio references", () => {
+      expect(["~/a.WAV", "b.aif", "Daft Punk - Da Funk", "c.mp3"].map(isAudioReference)).toEqual([
+        true,
+        true,
+        false,
+        false,
+      ]);
+      expect(summarizeReferences([])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  generateMacroStructure,
+  hasTimingOverrides,
+  resolveSectionTimings,
+  validateStructure,
+} from "../../../workflow/utils/structureTemplates";
+import type { ArrangementSection } from "../../../workflow/types";
+
+const section = (id: string, startBar: number, lengthBars: number, overrides: Partial<ArrangementSection> = {}) => ({
+  id,
+  type: "verse" as const,
+  name: id,
+  startBar,
+  lengthBars,
+  energyLevel: 50,
+  elements: [],
+  ...overrides,
+});
+
+describe("Section timing", () => {
+  it("should accumulate beats across meter changes and ramp to the target tempo", () => {
+    const timings = resolveSectionTimings(
+      [
+        section("drop", 12, 8),
+        section("build", 4, 8, { meter: "7/8", tempoRamp: { to: 140 } }),
+        section("intro", 0, 4),
+      ],
+      { tempo: 128, meter: "4/4" }
+    );
+
+    expect(timings.map((t) => [t.sectionId, t.startBeat, t.lengthBeats])).toEqual([
+      ["intro", 0, 16],
+      ["build", 16, 28],
+      ["drop", 44, 32],
+    ]);
+    expect(timings.map((t) => [t.tempo, t.endTempo])).toEqual([
+      [128, 128],
+      [128, 140],
+      [128, 128],
+    ]);
+  });
+
+  it("should only report overrides when a section has one", () => {
+    expect(hasTimingOverrides(generateMacroStructure("buildDrop").sections)).toBe(false);
+    expect(hasTimingOverrides([section("breakdown", 0, 8, { tempo: 64 })])).toBe(true);
+  });
+});
+
+describe("validateStructure", () => {
+  it("should flag tempos outside Live's range and unusable meters", () => {
+    const structure = {
+      ...generateMacroStructure("buildDrop"),
+      sections: [
+        section("intro", 0, 8, { tempo: 10 }),
+        section("build", 8, 8, { tempoRamp: { to: 1200 } }),
+        section("drop", 16, 8, { meter: "7/3" }),
+        section("outro", 24, 8, { tempo: 70, meter: "6/8" }),
+      ],
+    };
+
+    expect(validateStructure(structure, {}).issues).toEqual([
+      "intro tempo 10 BPM is outside 20-999 BPM",
+      "build ramps to 1200 BPM, outside 20-999 BPM",
+      'drop has an invalid meter "7/3"',
+    ]);
+  });
+});
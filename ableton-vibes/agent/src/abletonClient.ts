@@ -1,13 +1,36 @@
 import { Ableton } from "ableton-js";
 import { Color } from "ableton-js/util/color";
-import type { Clip } from "ableton-js/ns/clip";
-import type { ClipSlot } from "ableton-js/ns/clip-slot";
-import type { Track } from "ableton-js/ns/track";
 import fs from "fs";
 import path from "path";
+import { createMockBackend } from "./mockSession";
+import {
+  createLiveBackend,
+  type BrowserCategory,
+  type EnvelopeStep,
+  type SessionBackend,
+  type SessionBrowserItem,
+  type SessionClip,
+  type SessionClipSlot,
+  type SessionDevice,
+  type SessionDeviceParameter,
+  type SessionNote,
+  type SessionTrack,
+  type TempoPoint,
+  type TimeSignatureChange,
+} from "./sessionBackend";
+import type {
+  AutomationPass,
+  Delay,
+  DepthLayer,
+  EqBand,
+  EqCompSuggestion,
+  MixDesign,
+} from "./workflow/types";
 
 let ableton: Ableton | null = null;
 let connectPromise: Promise<Ableton> | null = null;
+let liveBackend: SessionBackend | null = null;
+let backendOverride: SessionBackend | null = null;
 
 const CONNECT_TIMEOUT_MS = 10000;
 
@@ -59,6 +82,35 @@ export type DeviceInfo = {
   isActive: boolean;
 };
 
+export type ClipSnapshot = {
+  name: string;
+  /** Scene index for session clips, null for arrangement clips */
+  slotIndex: number | null;
+  /** Arrangement position in beats (arrangement clips only) */
+  startTime?: number;
+  lengthBeats: number;
+  looping: boolean;
+  loopStart: number;
+  loopEnd: number;
+  colorIndex: number;
+  /** Clip-relative notes; omitted when notes were not requested or the clip is audio */
+  notes?: SessionNote[];
+  /** Set when the clip holds more notes than the snapshot's per-clip limit */
+  notesTruncated?: boolean;
+};
+
+export type SnapshotOptions = {
+  /**
+   * Include MIDI notes for every clip (default false: mutating tools attach a snapshot to
+   * every result, and notes would flood the model's context)
+   */
+  includeNotes?: boolean;
+  /** Cap on notes per clip to bound the payload (default 512) */
+  maxNotesPerClip?: number;
+};
+
+const DEFAULT_MAX_NOTES_PER_CLIP = 512;
+
 export type AbletonSessionSnapshot = {
   tempo: number;
   timeSignature: string;
@@ -71,6 +123,7 @@ export type AbletonSessionSnapshot = {
     isMuted: boolean;
     isArmed: boolean;
     clipNames: string[];
+    clips: ClipSnapshot[];
     devices: DeviceInfo[];
   }>;
 };
@@ -110,6 +163,36 @@ export const getAbleton = async (): Promise<Ableton> => {
   }
 };
 
+/**
+ * Replace the session backend used by every function in this module.
+ * Pass null to go back to the default (Live, or the mock when ABLETON_BACKEND=mock).
+ */
+export const setSessionBackend = (backend: SessionBackend | null) => {
+  backendOverride = backend;
+  cachedDevices = null;
+};
+
+export const getSessionBackend = async (): Promise<SessionBackend> => {
+  if (backendOverride) {
+    return backendOverride;
+  }
+
+  if (process.env.ABLETON_BACKEND === "mock") {
+    backendOverride = createMockBackend();
+    return backendOverride;
+  }
+
+  const instance = await getAbleton();
+  if (!liveBackend) {
+    liveBackend = createLiveBackend(instance);
+  }
+  return liveBackend;
+};
+
+// Gives Live time to apply a change before the next command; the mock is synchronous
+const settle = (backend: SessionBackend, ms: number) =>
+  backend.kind === "live" ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+
 const parseTimeSignature = (
   signature?: string,
 ): { numerator: number; denominator: number } | null => {
@@ -135,39 +218,39 @@ export const getBeatsPerBar = (timeSignature?: string): number => {
 };
 
 export const applyProjectSettings = async (settings: ProjectSettings) => {
-  const instance = await getAbleton();
+  const backend = await getSessionBackend();
 
   if (typeof settings.tempo === "number") {
-    await instance.song.set("tempo", settings.tempo);
+    await backend.song.set("tempo", settings.tempo);
   }
 
   const parsedSignature = parseTimeSignature(settings.timeSignature);
   if (parsedSignature) {
-    await instance.song.set("signature_numerator", parsedSignature.numerator);
-    await instance.song.set("signature_denominator", parsedSignature.denominator);
+    await backend.song.set("signature_numerator", parsedSignature.numerator);
+    await backend.song.set("signature_denominator", parsedSignature.denominator);
   }
 
   if (typeof settings.metronome === "boolean") {
-    await instance.song.set("metronome", settings.metronome ? 1 : 0);
+    await backend.song.set("metronome", settings.metronome ? 1 : 0);
   }
 
   if (typeof settings.overdub === "boolean") {
-    await instance.song.set("overdub", settings.overdub);
+    await backend.song.set("overdub", settings.overdub);
   }
 
   if (settings.play) {
-    if (!(await instance.song.get("is_playing"))) {
-      await instance.song.set("is_playing", true);
+    if (!(await backend.song.get("is_playing"))) {
+      await backend.song.set("is_playing", true);
     }
   } else if (settings.stop) {
-    if (await instance.song.get("is_playing")) {
-      await instance.song.set("is_playing", false);
+    if (await backend.song.get("is_playing")) {
+      await backend.song.set("is_playing", false);
     }
   }
 };
 
 const determineTrackType = async (
-  track: Track,
+  track: SessionTrack,
   isReturn = false,
 ): Promise<"MIDI" | "Audio" | "Return" | "Unknown"> => {
   if (isReturn) return "Return";
@@ -209,8 +292,6 @@ const DEVICE_ALIASES: Record<string, string[]> = {
   "limiter": ["Limiter"],
 };
 
-import type { BrowserItem } from "ableton-js/ns/browser-item";
-
 export type AvailableDevice = {
   name: string;
   category: "instruments" | "audio_effects" | "midi_effects" | "drums";
@@ -234,7 +315,7 @@ export const listAvailableDevices = async (
     forceRefresh?: boolean;
   }
 ): Promise<AvailableDevice[]> => {
-  const instance = await getAbleton();
+  const backend = await getSessionBackend();
   const now = Date.now();
 
   // Use cache if valid and no force refresh
@@ -243,36 +324,35 @@ export const listAvailableDevices = async (
   }
 
   const devices: AvailableDevice[] = [];
-  const categories: Array<"instruments" | "audio_effects" | "midi_effects" | "drums"> =
-    ["instruments", "audio_effects", "midi_effects", "drums"];
+  const categories: BrowserCategory[] = ["instruments", "audio_effects", "midi_effects", "drums"];
 
-  const browser = await instance.application.get("browser");
+  const browser = await backend.getBrowser();
 
   for (const category of categories) {
     try {
-      const items = await browser.get(category);
+      const items = await browser.getItems(category);
 
       // Process top-level items
       for (const item of items) {
-        if (item.raw.is_loadable) {
+        if (item.isLoadable) {
           devices.push({
-            name: item.raw.name || "Unknown",
+            name: item.name || "Unknown",
             category,
-            isNative: isNativeDevice(item.raw.name || ""),
+            isNative: isNativeDevice(item.name || ""),
           });
         }
 
         // Process folder contents (one level deep)
-        if (item.raw.is_folder) {
+        if (item.isFolder) {
           try {
-            const children = await item.get("children");
+            const children = await item.getChildren();
             for (const child of children) {
-              if (child.raw.is_loadable) {
+              if (child.isLoadable) {
                 devices.push({
-                  name: child.raw.name || "Unknown",
+                  name: child.name || "Unknown",
                   category,
-                  folder: item.raw.name,
-                  isNative: isNativeDevice(child.raw.name || ""),
+                  folder: item.name,
+                  isNative: isNativeDevice(child.name || ""),
                 });
               }
             }
@@ -329,32 +409,32 @@ const isNativeDevice = (name: string): boolean => {
 
 /**
  * Search browser items to find a device by name
- * Returns the full BrowserItem so it can be passed to loadItem
+ * Returns the full browser item so it can be passed to loadItem
  */
 const findBrowserItem = async (
-  instance: Ableton,
+  backend: SessionBackend,
   searchName: string,
-  category: "instruments" | "audio_effects" | "midi_effects" | "drums" = "instruments",
-): Promise<BrowserItem | null> => {
+  category: BrowserCategory = "instruments",
+): Promise<SessionBrowserItem | null> => {
   const lowerSearch = searchName.toLowerCase();
   const aliases = DEVICE_ALIASES[lowerSearch] || [searchName];
 
   console.log(`Searching for device "${searchName}" in category "${category}" (aliases: ${aliases.join(", ")})`);
 
   try {
-    const browser = await instance.application.get("browser");
-    const items = await browser.get(category);
+    const browser = await backend.getBrowser();
+    const items = await browser.getItems(category);
 
     console.log(`Found ${items.length} top-level items in "${category}"`);
 
     // Search top-level items first
     for (const item of items) {
-      const itemName = item.raw.name?.toLowerCase() || "";
+      const itemName = item.name?.toLowerCase() || "";
 
       for (const alias of aliases) {
         if (itemName === alias.toLowerCase() || itemName.includes(alias.toLowerCase())) {
-          if (item.raw.is_loadable) {
-            console.log(`Found loadable device: "${item.raw.name}" (top-level)`);
+          if (item.isLoadable) {
+            console.log(`Found loadable device: "${item.name}" (top-level)`);
             return item;
           }
         }
@@ -363,16 +443,16 @@ const findBrowserItem = async (
 
     // Search one level deep in folders
     for (const item of items) {
-      if (item.raw.is_folder) {
+      if (item.isFolder) {
         try {
-          const children = await item.get("children");
+          const children = await item.getChildren();
           for (const child of children) {
-            const childName = child.raw.name?.toLowerCase() || "";
+            const childName = child.name?.toLowerCase() || "";
 
             for (const alias of aliases) {
               if (childName === alias.toLowerCase() || childName.includes(alias.toLowerCase())) {
-                if (child.raw.is_loadable) {
-                  console.log(`Found loadable device: "${child.raw.name}" in folder "${item.raw.name}"`);
+                if (child.isLoadable) {
+                  console.log(`Found loadable device: "${child.name}" in folder "${item.name}"`);
                   return child;
                 }
               }
@@ -396,28 +476,26 @@ const findBrowserItem = async (
  * Load a device onto a track by selecting the track and loading via browser
  */
 const loadDeviceOnTrack = async (
-  instance: Ableton,
-  track: Track,
+  backend: SessionBackend,
+  track: SessionTrack,
   deviceName: string,
+  categories: BrowserCategory[] = ["instruments", "audio_effects", "drums"],
 ): Promise<boolean> => {
   // First, select the track so the device loads onto it
   try {
-    // Use the track object directly, not raw.id
-    await instance.song.view.set("selected_track", track);
+    await backend.song.selectTrack(track);
     // Small delay to ensure track is selected before loading device
-    await new Promise(resolve => setTimeout(resolve, 100));
+    await settle(backend, 100);
   } catch (error) {
     console.warn("Failed to select track:", error);
     return false;
   }
 
   // Try instruments first, then audio effects, then drums
-  let item = await findBrowserItem(instance, deviceName, "instruments");
-  if (!item) {
-    item = await findBrowserItem(instance, deviceName, "audio_effects");
-  }
-  if (!item) {
-    item = await findBrowserItem(instance, deviceName, "drums");
+  let item: SessionBrowserItem | null = null;
+  for (const category of categories) {
+    item = await findBrowserItem(backend, deviceName, category);
+    if (item) break;
   }
 
   if (!item) {
@@ -426,11 +504,11 @@ const loadDeviceOnTrack = async (
   }
 
   try {
-    const browser = await instance.application.get("browser");
+    const browser = await backend.getBrowser();
     console.log(`Loading device "${deviceName}" onto track...`);
     await browser.loadItem(item);
     // Wait for device to load
-    await new Promise(resolve => setTimeout(resolve, 200));
+    await settle(backend, 200);
 
     // Verify device was loaded by checking track devices
     const devices = await track.get("devices");
@@ -448,12 +526,12 @@ const loadDeviceOnTrack = async (
 };
 
 const locateTrackByName = async (name: string): Promise<{
-  track: Track | null;
+  track: SessionTrack | null;
   index: number;
   kind: "track" | "return";
 }> => {
-  const instance = await getAbleton();
-  const tracks = await instance.song.get("tracks");
+  const backend = await getSessionBackend();
+  const tracks = await backend.song.get("tracks");
 
   for (let index = 0; index < tracks.length; index += 1) {
     const track = tracks[index]!;
@@ -463,7 +541,7 @@ const locateTrackByName = async (name: string): Promise<{
     }
   }
 
-  const returnTracks = await instance.song.get("return_tracks");
+  const returnTracks = await backend.song.get("return_tracks");
   for (let index = 0; index < returnTracks.length; index += 1) {
     const track = returnTracks[index]!;
     const trackName = await track.get("name");
@@ -499,10 +577,10 @@ const parseClipLengthToBeats = (
 };
 
 const ensureClip = async (
-  track: Track,
+  track: SessionTrack,
   clipBlueprint: ClipBlueprint,
   beatsPerBar: number,
-): Promise<{ clip: Clip; lengthBeats: number | null }> => {
+): Promise<{ clip: SessionClip; lengthBeats: number | null }> => {
   const clipName = clipBlueprint.name;
   let clipSlots = await track.get("clip_slots");
 
@@ -520,7 +598,7 @@ const ensureClip = async (
     }
   }
 
-  let targetSlot: ClipSlot | null = null;
+  let targetSlot: SessionClipSlot | null = null;
 
   for (const slot of clipSlots) {
     const hasClip = await slot.get("has_clip");
@@ -531,8 +609,8 @@ const ensureClip = async (
   }
 
   if (!targetSlot) {
-    const instance = await getAbleton();
-    await instance.song.createScene();
+    const backend = await getSessionBackend();
+    await backend.song.createScene();
     clipSlots = await track.get("clip_slots");
     for (const slotCandidate of clipSlots) {
       const hasClip = await slotCandidate.get("has_clip");
@@ -599,18 +677,10 @@ const parseBeatsValue = (
   return fallback;
 };
 
-type MidiNote = {
-  pitch: number;
-  time: number;
-  duration: number;
-  velocity: number;
-  muted: boolean;
-};
-
 const sanitizeNotes = (
   notes: ClipNoteBlueprint[],
   beatsPerBar: number,
-): MidiNote[] => {
+): SessionNote[] => {
   return notes
     .map((note) => {
       const rawPitch = Number(note.pitch);
@@ -633,12 +703,12 @@ const sanitizeNotes = (
         muted,
       };
     })
-    .filter((value): value is MidiNote => value !== null)
+    .filter((value): value is SessionNote => value !== null)
     .sort((a, b) => a.time - b.time);
 };
 
 const populateClipNotes = async (
-  clip: Clip,
+  clip: SessionClip,
   clipBlueprint: ClipBlueprint,
   beatsPerBar: number,
   fallbackLengthBeats: number | null,
@@ -674,26 +744,26 @@ export const applyTrackBlueprint = async (blueprint: TrackBlueprint, beatsPerBar
   }
 
   const safeBeatsPerBar = Number.isFinite(beatsPerBar) && beatsPerBar > 0 ? beatsPerBar : 4;
-  const instance = await getAbleton();
+  const backend = await getSessionBackend();
   const lookup = await locateTrackByName(blueprint.name);
   const { track: existingTrack, kind } = lookup;
-  let workingTrack: Track;
+  let workingTrack: SessionTrack;
   let isNewTrack = false;
 
   if (!existingTrack) {
     isNewTrack = true;
     switch (blueprint.type) {
       case "Audio": {
-        workingTrack = await instance.song.createAudioTrack();
+        workingTrack = await backend.song.createAudioTrack();
         break;
       }
       case "Return": {
-        workingTrack = await instance.song.createReturnTrack();
+        workingTrack = await backend.song.createReturnTrack();
         break;
       }
       case "MIDI":
       default: {
-        workingTrack = await instance.song.createMidiTrack();
+        workingTrack = await backend.song.createMidiTrack();
         break;
       }
     }
@@ -730,11 +800,11 @@ export const applyTrackBlueprint = async (blueprint: TrackBlueprint, beatsPerBar
   if (blueprint.device && (isNewTrack || !existingTrack)) {
     // Wait a bit for the new track to be fully initialized
     if (isNewTrack) {
-      await new Promise(resolve => setTimeout(resolve, 150));
+      await settle(backend, 150);
     }
 
     console.log(`Attempting to load device "${blueprint.device}" on track "${blueprint.name}"...`);
-    const deviceLoaded = await loadDeviceOnTrack(instance, workingTrack, blueprint.device);
+    const deviceLoaded = await loadDeviceOnTrack(backend, workingTrack, blueprint.device);
     if (!deviceLoaded) {
       console.warn(`Could not load device "${blueprint.device}" on track "${blueprint.name}". Track will be created without an instrument.`);
     }
@@ -760,7 +830,7 @@ export const applyTrackBlueprint = async (blueprint: TrackBlueprint, beatsPerBar
 };
 
 export const removeTrackByName = async (name: string) => {
-  const instance = await getAbleton();
+  const backend = await getSessionBackend();
   const { track, index, kind } = await locateTrackByName(name);
 
   if (!track) {
@@ -768,46 +838,1026 @@ export const removeTrackByName = async (name: string) => {
   }
 
   if (kind === "return") {
-    await instance.song.deleteReturnTrack(index);
+    await backend.song.deleteReturnTrack(index);
   } else {
-    await instance.song.deleteTrack(index);
+    await backend.song.deleteTrack(index);
   }
 };
 
-export const captureSessionSnapshot = async (): Promise<AbletonSessionSnapshot> => {
-  const instance = await getAbleton();
+// -- Arrangement: lay clips out on the timeline and mark sections with locators --
+
+export type ArrangementClipBlueprint = ClipBlueprint & {
+  /** Arrangement position in bars (0-based) */
+  startBar: number;
+};
+
+export type ArrangementTrackBlueprint = Omit<TrackBlueprint, "type" | "clips"> & {
+  clips: ArrangementClipBlueprint[];
+};
+
+export type ArrangementLocator = {
+  name: string;
+  startBar: number;
+  lengthBars: number;
+};
+
+/** A stretch of bars with its own tempo and time signature */
+export type ArrangementTempoSegment = {
+  startBar: number;
+  lengthBars: number;
+  tempo: number;
+  /** Tempo reached at the end of the segment; ramps linearly from tempo */
+  endTempo?: number;
+  timeSignature: string;
+};
+
+export type ArrangementBlueprint = {
+  tracks: ArrangementTrackBlueprint[];
+  /** One cue point is placed at the start of each locator */
+  locators: ArrangementLocator[];
+  /**
+   * Tempo and time signature per stretch of bars. Bars follow each segment's signature
+   * when converted to beats, and changes are written as tempo automation and
+   * time signature changes. Without it the song tempo and signature are left alone.
+   * Only the mock backend writes the changes; on Live the song keeps the first
+   * segment's tempo and signature and bars are counted in that signature.
+   */
+  tempoMap?: ArrangementTempoSegment[];
+  /**
+   * Loop region in bars. Defaults to the span of all locators;
+   * pass false to leave the song loop untouched.
+   */
+  loop?: { startBar: number; lengthBars: number } | false;
+};
+
+export type ArrangementRenderResult = {
+  tracks: string[];
+  clipsPlaced: number;
+  cuePoints: string[];
+  loop: { startBeat: number; lengthBeats: number } | null;
+  /** Tempo automation breakpoints written */
+  tempoPoints: number;
+  timeSignatureChanges: number;
+  /** Parts of the tempo map that could not be written, with the reason */
+  unresolved: string[];
+};
+
+const findCuePointAt = async (backend: SessionBackend, timeBeats: number) => {
+  const cuePoints = await backend.song.get("cue_points");
+  for (const cuePoint of cuePoints) {
+    if (Math.abs((await cuePoint.get("time")) - timeBeats) < 1e-6) {
+      return cuePoint;
+    }
+  }
+  return null;
+};
+
+/**
+ * Bar to beat conversion across time signature changes
+ * Bars before the first segment use the default bar length; later bars use the
+ * signature of the segment they fall in, including gaps after a segment
+ */
+const createBarTimeline = (segments: ArrangementTempoSegment[], beatsPerBar: number) => {
+  const starts: { bar: number; beat: number; beatsPerBar: number }[] = [];
+  for (const segment of [...segments].sort((a, b) => a.startBar - b.startBar)) {
+    const previous = starts[starts.length - 1];
+    const beat = previous
+      ? previous.beat + (segment.startBar - previous.bar) * previous.beatsPerBar
+      : segment.startBar * beatsPerBar;
+    starts.push({ bar: segment.startBar, beat, beatsPerBar: getBeatsPerBar(segment.timeSignature) });
+  }
+
+  const segmentAt = (bar: number) => starts.filter((start) => start.bar <= bar).pop();
+  return {
+    beatAt: (bar: number) => {
+      const start = segmentAt(bar);
+      return start ? start.beat + (bar - start.bar) * start.beatsPerBar : bar * beatsPerBar;
+    },
+    beatsPerBarAt: (bar: number) => segmentAt(bar)?.beatsPerBar ?? beatsPerBar,
+  };
+};
+
+type BarTimeline = ReturnType<typeof createBarTimeline>;
+
+const resolveLoopRegion = (blueprint: ArrangementBlueprint, timeline: BarTimeline) => {
+  if (blueprint.loop === false) return null;
+
+  const region = (startBar: number, endBar: number) => {
+    const startBeat = timeline.beatAt(startBar);
+    return { startBeat, lengthBeats: timeline.beatAt(endBar) - startBeat };
+  };
+
+  if (blueprint.loop) {
+    return region(blueprint.loop.startBar, blueprint.loop.startBar + blueprint.loop.lengthBars);
+  }
+
+  if (!blueprint.locators.length) return null;
+  const startBar = Math.min(...blueprint.locators.map((l) => l.startBar));
+  const endBar = Math.max(...blueprint.locators.map((l) => l.startBar + l.lengthBars));
+  return region(startBar, endBar);
+};
+
+/**
+ * Write the tempo map as song tempo automation and time signature changes
+ * The song tempo and signature are set to the first segment's either way, so the
+ * arrangement at least starts right when the backend cannot write automation.
+ * Returns the bar timeline to place clips and locators on: when the signature
+ * changes can't be written (Live's remote script can't), bars stay on the first
+ * segment's signature so everything still starts on one of Live's bar lines
+ */
+const writeTempoMap = async (
+  backend: SessionBackend,
+  segments: ArrangementTempoSegment[],
+  timeline: BarTimeline,
+) => {
+  const sorted = [...segments].sort((a, b) => a.startBar - b.startBar);
+  const result = { tempoPoints: 0, timeSignatureChanges: 0, unresolved: [] as string[], timeline };
+  const first = sorted[0];
+  if (!first) return result;
+
+  await applyProjectSettings({ tempo: first.tempo, timeSignature: first.timeSignature });
+
+  const changes: TimeSignatureChange[] = [];
+  for (const segment of sorted) {
+    const signature = parseTimeSignature(segment.timeSignature);
+    const last = changes[changes.length - 1];
+    if (!signature || (last && last.numerator === signature.numerator && last.denominator === signature.denominator)) {
+      continue;
+    }
+    changes.push({ time: timeline.beatAt(segment.startBar), ...signature });
+  }
+
+  if (changes.length > 1) {
+    try {
+      await backend.song.writeTimeSignatureChanges(changes);
+      result.timeSignatureChanges = changes.length;
+    } catch (error) {
+      result.timeline = createBarTimeline([], getBeatsPerBar(first.timeSignature));
+      result.unresolved.push(
+        `Time signature changes: ${error instanceof Error ? error.message : String(error)} ` +
+          `Clips and locators were placed on ${first.timeSignature} bars instead.`,
+      );
+    }
+  }
+
+  // Two breakpoints per segment: equal times make a step, different tempos a ramp
+  const points: TempoPoint[] = [];
+  for (const segment of sorted) {
+    const startBeat = result.timeline.beatAt(segment.startBar);
+    const endBeat = result.timeline.beatAt(segment.startBar + segment.lengthBars);
+    for (const point of [
+      { time: startBeat, tempo: segment.tempo },
+      { time: endBeat, tempo: segment.endTempo ?? segment.tempo },
+    ]) {
+      const last = points[points.length - 1];
+      if (!last || last.time !== point.time || last.tempo !== point.tempo) points.push(point);
+    }
+  }
+
+  if (new Set(points.map((point) => point.tempo)).size > 1) {
+    try {
+      await backend.song.writeTempoAutomation(points);
+      result.tempoPoints = points.length;
+    } catch (error) {
+      result.unresolved.push(`Tempo automation: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return result;
+};
+
+export const renderArrangement = async (
+  blueprint: ArrangementBlueprint,
+  beatsPerBar: number,
+): Promise<ArrangementRenderResult> => {
+  const safeBeatsPerBar = Number.isFinite(beatsPerBar) && beatsPerBar > 0 ? beatsPerBar : 4;
+  const backend = await getSessionBackend();
+
+  // Moving the playhead to place locators would otherwise jump a running transport around
+  if (await backend.song.get("is_playing")) {
+    await backend.song.safeStopPlaying();
+  }
+
+  // The tempo map goes first: whether Live takes the meter changes decides where bars fall
+  const { timeline, ...tempoMap } = await writeTempoMap(
+    backend,
+    blueprint.tempoMap ?? [],
+    createBarTimeline(blueprint.tempoMap ?? [], safeBeatsPerBar),
+  );
+
+  const tracks: string[] = [];
+  let clipsPlaced = 0;
+
+  for (const trackBlueprint of blueprint.tracks) {
+    // Clip lengths in bars follow the signature where each clip starts
+    const clips = trackBlueprint.clips.map((clip) => ({
+      ...clip,
+      length: `${parseClipLengthToBeats(clip.length, timeline.beatsPerBarAt(clip.startBar))} beats`,
+    }));
+    // Session clips are the source material; Live has no API to create MIDI clips in the arrangement
+    await applyTrackBlueprint({ ...trackBlueprint, clips, type: "MIDI" }, safeBeatsPerBar);
+    const { track } = await locateTrackByName(trackBlueprint.name);
+    if (!track) {
+      throw new Error(`Track "${trackBlueprint.name}" was not found after creating it.`);
+    }
+
+    for (const clipBlueprint of clips) {
+      const { clip } = await ensureClip(track, clipBlueprint, safeBeatsPerBar);
+      // Duplicating overwrites whatever is already there, so re-rendering is idempotent
+      await track.duplicateClipToArrangement(clip, timeline.beatAt(clipBlueprint.startBar));
+      clipsPlaced += 1;
+    }
+    tracks.push(trackBlueprint.name);
+  }
+
+  const cuePoints: string[] = [];
+  const previousSongTime = await backend.song.get("current_song_time");
+
+  for (const locator of blueprint.locators) {
+    const timeBeats = timeline.beatAt(locator.startBar);
+    let cuePoint = await findCuePointAt(backend, timeBeats);
+
+    if (!cuePoint) {
+      await backend.song.set("current_song_time", timeBeats);
+      await settle(backend, 50);
+      await backend.song.setOrDeleteCue();
+      cuePoint = await findCuePointAt(backend, timeBeats);
+    }
+
+    if (!cuePoint) {
+      console.warn(`Could not create a locator for "${locator.name}" at bar ${locator.startBar}.`);
+      continue;
+    }
+
+    await cuePoint.set("name", locator.name);
+    cuePoints.push(locator.name);
+  }
+
+  await backend.song.set("current_song_time", previousSongTime);
+
+  const loop = resolveLoopRegion(blueprint, timeline);
+  if (loop) {
+    await backend.song.set("loop_start", loop.startBeat);
+    await backend.song.set("loop_length", loop.lengthBeats);
+    await backend.song.set("loop", true);
+  }
+
+  return { tracks, clipsPlaced, cuePoints, loop, ...tempoMap };
+};
+
+// -- Mix: translate a workflow MixDesign into faders, return tracks and device chains --
+
+export type MixDesignApplyResult = {
+  /** Tracks whose volume and pan were set */
+  tracks: string[];
+  returns: string[];
+  sendsSet: number;
+  /** "Track: Device" for every device inserted or updated */
+  devices: string[];
+  masterChain: string[];
+  /** Parts of the design that could not be applied, with the reason */
+  unresolved: string[];
+};
+
+/** A number in the parameter's display unit, or a value_items label for quantized parameters */
+type ParameterTargets = Record<string, number | string>;
+
+// Display-unit ranges, used when Live exposes a parameter normalized to 0..1
+const PARAMETER_UNITS: Record<string, { range: [number, number]; curve: "linear" | "log" }> = {
+  frequency: { range: [10, 22000], curve: "log" },
+  gain: { range: [-15, 15], curve: "linear" },
+  resonance: { range: [0.1, 18], curve: "log" },
+  threshold: { range: [-70, 6], curve: "linear" },
+  ratio: { range: [1, 100], curve: "log" },
+  attack: { range: [0.01, 1000], curve: "log" },
+  release: { range: [1, 3000], curve: "log" },
+  drive: { range: [-36, 36], curve: "linear" },
+  ceiling: { range: [-24, 0], curve: "linear" },
+  makeup: { range: [0, 20], curve: "linear" },
+  predelay: { range: [0.5, 250], curve: "log" },
+  "room size": { range: [0.22, 500], curve: "log" },
+  "decay time": { range: [200, 60000], curve: "log" },
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const resolveParameterValue = async (
+  parameter: SessionDeviceParameter,
+  target: number | string,
+  normalized = false,
+): Promise<number | null> => {
+  const [name, min, max, isQuantized, valueItems] = await Promise.all([
+    parameter.get("name"),
+    parameter.get("min"),
+    parameter.get("max"),
+    parameter.get("is_quantized"),
+    parameter.get("value_items"),
+  ]);
+
+  if (typeof target === "string") {
+    const index = valueItems.findIndex((item) => item.toLowerCase() === target.toLowerCase());
+    return index >= 0 ? index : null;
+  }
+
+  if (normalized) {
+    const value = min + clamp(target, 0, 1) * (max - min);
+    return isQuantized ? Math.round(value) : value;
+  }
+
+  // Numeric choices (e.g. Glue Compressor ratios) snap to the closest label
+  if (isQuantized && valueItems.length && valueItems.every((item) => Number.isFinite(Number.parseFloat(item)))) {
+    const distances = valueItems.map((item) => Math.abs(Number.parseFloat(item) - target));
+    return distances.indexOf(Math.min(...distances));
+  }
+
+  const units = PARAMETER_UNITS[name.toLowerCase().replace(/^\d+ /, "").replace(/ a$/, "")];
+  if (min === 0 && max === 1 && units) {
+    const [low, high] = units.range;
+    const position =
+      units.curve === "log"
+        ? Math.log(Math.max(target, low) / low) / Math.log(high / low)
+        : (target - low) / (high - low);
+    return clamp(position, 0, 1);
+  }
+
+  return clamp(target, min, max);
+};
+
+/**
+ * Set device parameters by name (case-insensitive)
+ * Numbers are display units, or 0..1 positions in the parameter range when normalized
+ * Returns the names that do not exist on the device or have no matching value
+ */
+const setDeviceParameters = async (
+  device: SessionDevice,
+  targets: ParameterTargets,
+  normalized = false,
+): Promise<string[]> => {
+  const parameters = await device.get("parameters");
+  const byName = new Map<string, SessionDeviceParameter>();
+  for (const parameter of parameters) {
+    byName.set((await parameter.get("name")).toLowerCase(), parameter);
+  }
+
+  const missing: string[] = [];
+  for (const [name, target] of Object.entries(targets)) {
+    const parameter = byName.get(name.toLowerCase());
+    const value = parameter ? await resolveParameterValue(parameter, target, normalized) : null;
+    if (!parameter || value === null) {
+      missing.push(name);
+      continue;
+    }
+    await parameter.set("value", value);
+  }
+  return missing;
+};
+
+/**
+ * Find the nth device with this name on the track, loading it from the browser if absent
+ * Reusing existing devices keeps repeated applies from stacking duplicates
+ */
+const ensureAudioEffect = async (
+  backend: SessionBackend,
+  track: SessionTrack,
+  deviceName: string,
+  occurrence = 0,
+): Promise<SessionDevice | null> => {
+  const findDevice = async () => {
+    const devices = await track.get("devices");
+    const matches: SessionDevice[] = [];
+    for (const device of devices) {
+      if ((await device.get("name")).toLowerCase() === deviceName.toLowerCase()) matches.push(device);
+    }
+    return matches[occurrence] ?? null;
+  };
+
+  const existing = await findDevice();
+  if (existing) return existing;
+
+  if (!(await loadDeviceOnTrack(backend, track, deviceName, ["audio_effects"]))) {
+    return null;
+  }
+  return findDevice();
+};
+
+// Live's fader is close to linear in dB above -34 dB: 0.85 is 0 dB, 1.0 is +6 dB
+const dbToFaderValue = (db: number) => clamp((db + 34) / 40, 0, 1);
+
+const EQ_EIGHT_BANDS = 8;
+
+const eqFilterType = (band: EqBand) => {
+  switch (band.type) {
+    case "highpass":
+      return "Low Cut 48";
+    case "lowpass":
+      return "High Cut 48";
+    case "shelf":
+      return band.frequency < 1000 ? "Low Shelf" : "High Shelf";
+    case "peak":
+    default:
+      return "Bell";
+  }
+};
+
+const eqEightTargets = (bands: EqBand[]): ParameterTargets => {
+  const targets: ParameterTargets = {};
+  for (let index = 0; index < EQ_EIGHT_BANDS; index += 1) {
+    const prefix = `${index + 1}`;
+    const band = bands[index];
+    // Unused bands are switched off so the curve matches the suggestion exactly
+    targets[`${prefix} Filter On A`] = band ? "On" : "Off";
+    if (!band) continue;
+    targets[`${prefix} Filter Type A`] = eqFilterType(band);
+    targets[`${prefix} Frequency A`] = band.frequency;
+    targets[`${prefix} Gain A`] = band.gain;
+    targets[`${prefix} Resonance A`] = band.q;
+  }
+  return targets;
+};
+
+const compressorTargets = (compression: EqCompSuggestion["compression"]): ParameterTargets => ({
+  Threshold: compression.threshold,
+  Ratio: compression.ratio,
+  Attack: compression.attack,
+  Release: compression.release,
+});
+
+const saturatorTargets = (saturation: NonNullable<EqCompSuggestion["saturation"]>): ParameterTargets => ({
+  Drive: saturation.drive,
+  "Dry/Wet": saturation.mix / 100,
+});
+
+const REVERB_ROOM_SIZES: Record<DepthLayer["reverbType"], number> = {
+  spring: 20,
+  room: 40,
+  plate: 80,
+  hall: 200,
+  shimmer: 350,
+};
+
+const reverbTargets = (layer: DepthLayer): ParameterTargets => ({
+  "Room Size": REVERB_ROOM_SIZES[layer.reverbType],
+  "Decay Time": layer.decayTime * 1000,
+  Predelay: layer.predelay,
+  "Dry/Wet": 1,
+});
+
+/**
+ * Convert a note value such as "1/8", "1/4d" or "1/8t" to Delay's sync steps (16ths)
+ */
+const delaySyncSteps = (time: string): string | null => {
+  const match = time.trim().match(/^1\/(\d+)([dt]?)$/i);
+  if (!match) return null;
+  const modifier = match[2]?.toLowerCase();
+  const steps = (16 / Number.parseInt(match[1]!, 10)) * (modifier === "d" ? 1.5 : modifier === "t" ? 2 / 3 : 1);
+  return Number.isInteger(steps) && steps >= 1 ? String(steps) : null;
+};
+
+const delayTargets = (delay: Delay): ParameterTargets => {
+  const targets: ParameterTargets = {
+    "L Sync": "On",
+    Link: "On",
+    "Ping Pong": delay.type === "ping-pong" ? "On" : "Off",
+    Feedback: delay.feedback / 100,
+    "Dry/Wet": 1,
+  };
+  const steps = delaySyncSteps(delay.time);
+  if (steps) targets["L Sync Enum"] = steps;
+  return targets;
+};
+
+// Delays carry no wet level in the design; start their sends at a quarter of the range
+const DEFAULT_DELAY_SEND = 0.25;
+
+export const applyMixDesign = async (mixDesign: MixDesign): Promise<MixDesignApplyResult> => {
+  const backend = await getSessionBackend();
+  const result: MixDesignApplyResult = {
+    tracks: [],
+    returns: [],
+    sendsSet: 0,
+    devices: [],
+    masterChain: [],
+    unresolved: [],
+  };
+
+  const applyParameters = async (
+    device: SessionDevice | null,
+    owner: string,
+    deviceName: string,
+    targets: ParameterTargets,
+  ) => {
+    if (!device) {
+      result.unresolved.push(`${owner}: could not load ${deviceName}`);
+      return;
+    }
+    const missing = await setDeviceParameters(device, targets);
+    if (missing.length) {
+      result.unresolved.push(`${owner}: ${deviceName} has no ${missing.join(", ")}`);
+    }
+    result.devices.push(`${owner}: ${deviceName}`);
+  };
+
+  // Levels and pans
+  const tracksByName = new Map<string, SessionTrack>();
+  for (const entry of mixDesign.leveling.tracks) {
+    const { track, kind } = await locateTrackByName(entry.trackName);
+    if (!track || kind !== "track") {
+      result.unresolved.push(`Track "${entry.trackName}" was not found`);
+      continue;
+    }
+    tracksByName.set(entry.trackName.toLowerCase(), track);
+
+    const mixer = await track.get("mixer_device");
+    const [volume, panning] = await Promise.all([mixer.get("volume"), mixer.get("panning")]);
+    const [volumeMin, volumeMax] = await Promise.all([volume.get("min"), volume.get("max")]);
+    await volume.set("value", volumeMin + dbToFaderValue(entry.targetDb) * (volumeMax - volumeMin));
+    await panning.set("value", clamp(entry.pan / 100, -1, 1));
+    result.tracks.push(entry.trackName);
+  }
+
+  // Insert chains per stem group: EQ Eight -> Compressor -> Saturator
+  for (const suggestion of mixDesign.eqCompSuggestions) {
+    const members = mixDesign.leveling.tracks.filter((entry) => entry.stemGroup === suggestion.stemGroup);
+    for (const entry of members) {
+      const track = tracksByName.get(entry.trackName.toLowerCase());
+      if (!track) continue;
+
+      if (suggestion.eq.length > EQ_EIGHT_BANDS) {
+        result.unresolved.push(`${entry.trackName}: EQ Eight only has ${EQ_EIGHT_BANDS} bands`);
+      }
+      await applyParameters(
+        await ensureAudioEffect(backend, track, "EQ Eight"),
+        entry.trackName,
+        "EQ Eight",
+        eqEightTargets(suggestion.eq),
+      );
+      await applyParameters(
+        await ensureAudioEffect(backend, track, "Compressor"),
+        entry.trackName,
+        "Compressor",
+        compressorTargets(suggestion.compression),
+      );
+      if (suggestion.saturation) {
+        await applyParameters(
+          await ensureAudioEffect(backend, track, "Saturator"),
+          entry.trackName,
+          "Saturator",
+          saturatorTargets(suggestion.saturation),
+        );
+      }
+    }
+  }
+
+  // Returns: one per depth layer and delay, fed from the assigned tracks
+  const returnSpecs = [
+    ...mixDesign.spatialScene.depthLayers.map((layer) => ({
+      name: layer.name,
+      device: "Reverb",
+      targets: reverbTargets(layer),
+      assignedTracks: layer.assignedTracks,
+      sendLevel: clamp(layer.wetLevel / 100, 0, 1),
+    })),
+    ...mixDesign.spatialScene.delays.map((delay) => ({
+      name: delay.name,
+      device: "Delay",
+      targets: delayTargets(delay),
+      assignedTracks: delay.assignedTracks,
+      sendLevel: DEFAULT_DELAY_SEND,
+    })),
+  ];
+
+  for (const spec of returnSpecs) {
+    const existing = await locateTrackByName(spec.name);
+    if (existing.track && existing.kind !== "return") {
+      result.unresolved.push(`Return "${spec.name}" clashes with an existing track of the same name`);
+      continue;
+    }
+    await applyTrackBlueprint({ name: spec.name, type: "Return" }, 4);
+    const { track: returnTrack, index: returnIndex } = await locateTrackByName(spec.name);
+    if (!returnTrack) {
+      result.unresolved.push(`Return "${spec.name}" could not be created`);
+      continue;
+    }
+    result.returns.push(spec.name);
+
+    await applyParameters(await ensureAudioEffect(backend, returnTrack, spec.device), spec.name, spec.device, spec.targets);
+
+    for (const trackName of spec.assignedTracks) {
+      const track = tracksByName.get(trackName.toLowerCase());
+      if (!track) {
+        result.unresolved.push(`Send from "${trackName}" to "${spec.name}": track not found`);
+        continue;
+      }
+      const sends = await (await track.get("mixer_device")).get("sends");
+      const send = sends[returnIndex];
+      if (!send) {
+        result.unresolved.push(`Send from "${trackName}" to "${spec.name}": no send slot`);
+        continue;
+      }
+      const [sendMin, sendMax] = await Promise.all([send.get("min"), send.get("max")]);
+      await send.set("value", sendMin + spec.sendLevel * (sendMax - sendMin));
+      result.sendsSet += 1;
+    }
+  }
+
+  // Master chain, loaded in order; repeated device names map to successive instances
+  const masterTrack = await backend.song.get("master_track");
+  const occurrences = new Map<string, number>();
+  for (const entry of [...mixDesign.masterChain].sort((a, b) => a.order - b.order)) {
+    const key = entry.device.toLowerCase();
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+
+    const targets: ParameterTargets = {};
+    for (const [setting, value] of Object.entries(entry.settings)) {
+      if (typeof value !== "number" && typeof value !== "string") continue;
+      targets[setting.charAt(0).toUpperCase() + setting.slice(1)] = value;
+    }
+
+    const device = await ensureAudioEffect(backend, masterTrack, entry.device, occurrence);
+    await applyParameters(device, "Master", entry.device, targets);
+    if (device) result.masterChain.push(entry.device);
+  }
+
+  return result;
+};
+
+// -- Automation: write AutomationPass keyframes into the clip envelopes of arrangement clips --
+
+export type AutomationPassReport = {
+  trackName: string;
+  parameter: string;
+  /** "Device: Parameter" the pass resolved to */
+  target?: string;
+  /** Arrangement clips that carry (or would carry) the envelope */
+  clips: number;
+  reason?: string;
+};
+
+export type AutomationApplyResult = {
+  dryRun: boolean;
+  resolved: AutomationPassReport[];
+  unresolved: AutomationPassReport[];
+};
+
+// Plan parameter ids -> Live parameter names, tried on each device in chain order
+const AUTOMATION_PARAMETER_ALIASES: Record<string, string[]> = {
+  filter_cutoff: ["Filter 1 Freq", "Filter Freq", "F1 Freq", "Frequency", "Cutoff"],
+  filter_resonance: ["Filter 1 Res", "Filter Res", "F1 Resonance", "Resonance"],
+  dry_wet: ["Dry/Wet"],
+};
+
+const ENVELOPE_STEP_BEATS = 1;
+
+const resolveAutomationTarget = async (
+  backend: SessionBackend,
+  track: SessionTrack,
+  parameterName: string,
+): Promise<{ parameter: SessionDeviceParameter; label: string } | null> => {
+  const key = parameterName.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  const mixer = await track.get("mixer_device");
+
+  if (key === "volume" || key === "level") {
+    return { parameter: await mixer.get("volume"), label: "Mixer: Volume" };
+  }
+  if (key === "pan" || key === "panning") {
+    return { parameter: await mixer.get("panning"), label: "Mixer: Pan" };
+  }
+
+  // send_a / send_b ... or send_<return track name>
+  const sendMatch = key.match(/^send_(.+)$/);
+  if (sendMatch) {
+    const reference = sendMatch[1]!;
+    let index = /^[a-l]$/.test(reference) ? reference.charCodeAt(0) - 97 : -1;
+    if (index < 0) {
+      const returnTracks = await backend.song.get("return_tracks");
+      for (let position = 0; position < returnTracks.length; position += 1) {
+        const name = (await returnTracks[position]!.get("name")).toLowerCase().replace(/\s+/g, "_");
+        if (name === reference) index = position;
+      }
+    }
+    const send = (await mixer.get("sends"))[index];
+    return send ? { parameter: send, label: `Mixer: Send ${String.fromCharCode(65 + index)}` } : null;
+  }
+
+  const candidates = (AUTOMATION_PARAMETER_ALIASES[key] ?? [key.replace(/_/g, " ")]).map((name) =>
+    name.toLowerCase(),
+  );
+  for (const device of await track.get("devices")) {
+    const parameters = await device.get("parameters");
+    for (const candidate of candidates) {
+      for (const parameter of parameters) {
+        const name = await parameter.get("name");
+        if (name.toLowerCase() === candidate) {
+          return { parameter, label: `${await device.get("name")}: ${name}` };
+        }
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Linear interpolation between keyframes, holding the first and last values outside them
+ */
+const automationValueAt = (keyframes: Array<{ beat: number; value: number }>, beat: number) => {
+  const first = keyframes[0]!;
+  const last = keyframes[keyframes.length - 1]!;
+  if (beat <= first.beat) return first.value;
+  if (beat >= last.beat) return last.value;
+
+  const nextIndex = keyframes.findIndex((keyframe) => keyframe.beat > beat);
+  const previous = keyframes[nextIndex - 1]!;
+  const next = keyframes[nextIndex]!;
+  const position = (beat - previous.beat) / (next.beat - previous.beat);
+  return previous.value + (next.value - previous.value) * position;
+};
+
+/** Why no pass can be written on a real Live set */
+export const LIVE_ENVELOPES_UNSUPPORTED =
+  "Live's remote script can't write clip envelopes; automation is only written on the mock backend";
+
+/**
+ * Write automation passes as clip envelopes on the named tracks' arrangement clips.
+ * Keyframe values are positions (0..1) in the target parameter's range.
+ * With dryRun, only resolve tracks and parameters and report what would be written.
+ * On Live every resolved pass is reported unresolved, dry run or not, since the
+ * remote script has no envelope API.
+ */
+export const applyAutomationPasses = async (
+  passes: AutomationPass[],
+  beatsPerBar: number,
+  options: { dryRun?: boolean } = {},
+): Promise<AutomationApplyResult> => {
+  const safeBeatsPerBar = Number.isFinite(beatsPerBar) && beatsPerBar > 0 ? beatsPerBar : 4;
+  const backend = await getSessionBackend();
+  const dryRun = options.dryRun ?? false;
+  const result: AutomationApplyResult = { dryRun, resolved: [], unresolved: [] };
+
+  for (const pass of passes) {
+    const report: AutomationPassReport = { trackName: pass.trackName, parameter: pass.parameter, clips: 0 };
+    const fail = (reason: string) => result.unresolved.push({ ...report, reason });
+
+    if (!pass.keyframes.length) {
+      fail("Pass has no keyframes");
+      continue;
+    }
+
+    const { track } = await locateTrackByName(pass.trackName);
+    if (!track) {
+      fail(`Track "${pass.trackName}" was not found`);
+      continue;
+    }
+
+    const target = await resolveAutomationTarget(backend, track, pass.parameter);
+    if (!target) {
+      fail(`No "${pass.parameter}" parameter on the track's mixer or devices`);
+      continue;
+    }
+    report.target = target.label;
+
+    const clips = await track.get("arrangement_clips");
+    report.clips = clips.length;
+    if (!clips.length) {
+      fail("Track has no arrangement clips to hold the envelope");
+      continue;
+    }
+
+    if (backend.kind === "live") {
+      fail(LIVE_ENVELOPES_UNSUPPORTED);
+      continue;
+    }
+
+    if (dryRun) {
+      result.resolved.push(report);
+      continue;
+    }
+
+    const [min, max] = await Promise.all([target.parameter.get("min"), target.parameter.get("max")]);
+    const keyframes = [...pass.keyframes]
+      .sort((a, b) => a.bar - b.bar)
+      .map((keyframe) => ({ beat: keyframe.bar * safeBeatsPerBar, value: clamp(keyframe.value, 0, 1) }));
+
+    try {
+      for (const clip of clips) {
+        const [startTime, length, startMarker] = await Promise.all([
+          clip.get("start_time"),
+          clip.get("length"),
+          clip.get("start_marker"),
+        ]);
+        const steps: EnvelopeStep[] = [];
+        for (let offset = 0; offset < length; offset += ENVELOPE_STEP_BEATS) {
+          steps.push({
+            time: startMarker + offset,
+            duration: Math.min(ENVELOPE_STEP_BEATS, length - offset),
+            value: min + automationValueAt(keyframes, startTime + offset) * (max - min),
+          });
+        }
+        await clip.writeEnvelope(target.parameter, steps);
+      }
+    } catch (error) {
+      fail(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+    result.resolved.push(report);
+  }
+
+  return result;
+};
+
+// -- Device parameters: inspect and tweak devices on any track, return or the master --
+
+export type DeviceParameterInfo = {
+  name: string;
+  value: number;
+  min: number;
+  max: number;
+  isQuantized: boolean;
+  /** Labels for quantized parameters, indexed by value */
+  valueItems?: string[];
+};
+
+export type DeviceParameterList = {
+  trackName: string;
+  deviceName: string;
+  deviceIndex: number;
+  isActive: boolean;
+  parameters: DeviceParameterInfo[];
+};
+
+/** Device reference: index in the track's chain or device name (case-insensitive) */
+export type DeviceSelector = number | string;
+
+const MASTER_TRACK_NAME = "Master";
+
+const locateDevice = async (trackName: string, selector: DeviceSelector) => {
+  const backend = await getSessionBackend();
+  let { track } = await locateTrackByName(trackName);
+  if (!track && trackName.toLowerCase() === MASTER_TRACK_NAME.toLowerCase()) {
+    track = await backend.song.get("master_track");
+  }
+  if (!track) {
+    throw new Error(`Track "${trackName}" was not found in the Ableton session.`);
+  }
+
+  const devices = await track.get("devices");
+  const names = await Promise.all(devices.map((device) => device.get("name")));
+  const deviceIndex =
+    typeof selector === "number"
+      ? selector
+      : names.findIndex((name) => name.toLowerCase() === selector.toLowerCase());
+  const device = devices[deviceIndex];
+  if (!device) {
+    const available = names.length ? names.join(", ") : "none";
+    throw new Error(`Device "${selector}" was not found on track "${trackName}" (devices: ${available}).`);
+  }
+
+  return { device, deviceIndex, deviceName: names[deviceIndex]! };
+};
+
+const describeParameter = async (parameter: SessionDeviceParameter): Promise<DeviceParameterInfo> => {
+  const [name, value, min, max, isQuantized, valueItems] = await Promise.all([
+    parameter.get("name"),
+    parameter.get("value"),
+    parameter.get("min"),
+    parameter.get("max"),
+    parameter.get("is_quantized"),
+    parameter.get("value_items"),
+  ]);
+  return { name, value, min, max, isQuantized, ...(isQuantized && valueItems.length ? { valueItems } : {}) };
+};
+
+export const listDeviceParameters = async (
+  trackName: string,
+  selector: DeviceSelector,
+): Promise<DeviceParameterList> => {
+  const { device, deviceIndex, deviceName } = await locateDevice(trackName, selector);
+  const [isActive, parameters] = await Promise.all([device.get("is_active"), device.get("parameters")]);
+
+  return {
+    trackName,
+    deviceName,
+    deviceIndex,
+    isActive,
+    parameters: await Promise.all(parameters.map(describeParameter)),
+  };
+};
+
+/**
+ * Set parameters by name; strings pick a quantized value by its label
+ * Values are clamped into range, so the returned list shows what Live actually holds
+ */
+export const setDeviceParameterValues = async (
+  trackName: string,
+  selector: DeviceSelector,
+  values: Record<string, number | string>,
+  options: { normalized?: boolean } = {},
+): Promise<{ deviceName: string; parameters: DeviceParameterInfo[]; missing: string[] }> => {
+  const { device, deviceName } = await locateDevice(trackName, selector);
+  const missing = await setDeviceParameters(device, values, options.normalized ?? false);
+
+  const requested = new Set(Object.keys(values).map((name) => name.toLowerCase()));
+  const parameters = (await Promise.all((await device.get("parameters")).map(describeParameter))).filter(
+    (parameter) => requested.has(parameter.name.toLowerCase()),
+  );
+  return { deviceName, parameters, missing };
+};
+
+/**
+ * Switch a device on or off through its "Device On" parameter (is_active is read-only in Live)
+ */
+export const setDeviceEnabled = async (trackName: string, selector: DeviceSelector, enabled: boolean) => {
+  const { device, deviceName } = await locateDevice(trackName, selector);
+  const missing = await setDeviceParameters(device, { "Device On": enabled ? 1 : 0 }, true);
+  if (missing.length) {
+    throw new Error(`Device "${deviceName}" on track "${trackName}" cannot be switched on or off.`);
+  }
+  return deviceName;
+};
+
+const snapshotClip = async (
+  clip: SessionClip,
+  slotIndex: number | null,
+  withNotes: boolean,
+  maxNotes: number,
+): Promise<ClipSnapshot> => {
+  const [name, lengthBeats, looping, loopStart, loopEnd, endMarker, colorIndex, startTime] = await Promise.all([
+    clip.get("name"),
+    clip.get("length"),
+    clip.get("looping"),
+    clip.get("loop_start"),
+    clip.get("loop_end"),
+    clip.get("end_marker"),
+    clip.get("color_index"),
+    clip.get("start_time"),
+  ]);
+
+  const snapshot: ClipSnapshot = {
+    name,
+    slotIndex,
+    ...(slotIndex === null ? { startTime } : {}),
+    lengthBeats,
+    looping,
+    loopStart,
+    loopEnd,
+    colorIndex,
+  };
+
+  if (withNotes) {
+    const notes = await clip.getNotes(0, 0, Math.max(loopEnd, endMarker, lengthBeats), 128);
+    notes.sort((a, b) => a.time - b.time || a.pitch - b.pitch);
+    snapshot.notes = notes.slice(0, maxNotes);
+    if (notes.length > maxNotes) snapshot.notesTruncated = true;
+  }
+
+  return snapshot;
+};
+
+export const captureSessionSnapshot = async (options: SnapshotOptions = {}): Promise<AbletonSessionSnapshot> => {
+  const includeNotes = options.includeNotes ?? false;
+  const maxNotesPerClip = Math.max(0, options.maxNotesPerClip ?? DEFAULT_MAX_NOTES_PER_CLIP);
+  const backend = await getSessionBackend();
   const [tempo, numerator, denominator, isPlaying] = await Promise.all([
-    instance.song.get("tempo"),
-    instance.song.get("signature_numerator"),
-    instance.song.get("signature_denominator"),
-    instance.song.get("is_playing"),
+    backend.song.get("tempo"),
+    backend.song.get("signature_numerator"),
+    backend.song.get("signature_denominator"),
+    backend.song.get("is_playing"),
   ]);
 
-  const tracks = await instance.song.get("tracks");
+  const tracks = await backend.song.get("tracks");
 
   const trackSummaries = await Promise.all(
     tracks.map(async (track) => {
-      const [name, colorIndex, colorNumber, mute, arm, clipSlots, trackDevices, type] = await Promise.all([
-        track.get("name"),
-        track.get("color_index"),
-        track.get("color"),
-        track.get("mute"),
-        track.get("arm"),
-        track.get("clip_slots"),
-        track.get("devices"),
-        determineTrackType(track),
-      ]);
-
-      const clipNames: string[] = [];
-      for (const slot of clipSlots) {
+      const [name, colorIndex, colorNumber, mute, arm, clipSlots, arrangementClips, trackDevices, type] =
+        await Promise.all([
+          track.get("name"),
+          track.get("color_index"),
+          track.get("color"),
+          track.get("mute"),
+          track.get("arm"),
+          track.get("clip_slots"),
+          track.get("arrangement_clips"),
+          track.get("devices"),
+          determineTrackType(track),
+        ]);
+
+      // Live raises on get_notes for audio clips
+      const withNotes = includeNotes && type === "MIDI";
+      const clips: ClipSnapshot[] = [];
+      for (let slotIndex = 0; slotIndex < clipSlots.length; slotIndex += 1) {
+        const slot = clipSlots[slotIndex]!;
         const hasClip = await slot.get("has_clip");
         if (!hasClip) continue;
 
         const clip = await slot.get("clip");
         if (!clip) continue;
 
-        clipNames.push(await clip.get("name"));
+        clips.push(await snapshotClip(clip, slotIndex, withNotes, maxNotesPerClip));
+      }
+      for (const clip of arrangementClips) {
+        clips.push(await snapshotClip(clip, null, withNotes, maxNotesPerClip));
       }
+      const clipNames = clips.filter((clip) => clip.slotIndex !== null).map((clip) => clip.name);
 
       // Fetch device information
       const devices: DeviceInfo[] = await Promise.all(
@@ -869,8 +1919,7 @@ export const captureSessionSnapshot = async (): Promise<AbletonSessionSnapshot>
 
       let colorHex: string | null = null;
       try {
-        // colorNumber from ableton-js is already a Color; cast to number for the Color constructor
-        const color = new Color(colorNumber as unknown as number);
+        const color = new Color(colorNumber);
         colorHex = color.hex;
       } catch {
         colorHex = null;
@@ -884,6 +1933,7 @@ export const captureSessionSnapshot = async (): Promise<AbletonSessionSnapshot>
         isMuted: mute,
         isArmed: arm,
         clipNames,
+        clips,
         devices,
       };
     }),
@@ -897,6 +1947,47 @@ export const captureSessionSnapshot = async (): Promise<AbletonSessionSnapshot>
   };
 };
 
+/**
+ * Read one MIDI clip by name (session slots first, then the arrangement) with all of its notes
+ */
+export const readClipNotes = async (
+  trackName: string,
+  clipName: string,
+): Promise<ClipSnapshot & { trackName: string; beatsPerBar: number; notes: SessionNote[] }> => {
+  const backend = await getSessionBackend();
+  const { track } = await locateTrackByName(trackName);
+  if (!track) {
+    throw new Error(`Track "${trackName}" was not found in the Ableton session.`);
+  }
+  if ((await determineTrackType(track)) !== "MIDI") {
+    throw new Error(`Track "${trackName}" is not a MIDI track, so its clips have no notes to read.`);
+  }
+
+  const [clipSlots, arrangementClips, numerator, denominator] = await Promise.all([
+    track.get("clip_slots"),
+    track.get("arrangement_clips"),
+    backend.song.get("signature_numerator"),
+    backend.song.get("signature_denominator"),
+  ]);
+  const candidates: Array<{ clip: SessionClip; slotIndex: number | null }> = [];
+  for (let slotIndex = 0; slotIndex < clipSlots.length; slotIndex += 1) {
+    const clip = (await clipSlots[slotIndex]!.get("has_clip")) ? await clipSlots[slotIndex]!.get("clip") : null;
+    if (clip) candidates.push({ clip, slotIndex });
+  }
+  candidates.push(...arrangementClips.map((clip) => ({ clip, slotIndex: null })));
+
+  const names = await Promise.all(candidates.map(({ clip }) => clip.get("name")));
+  const match = candidates[names.findIndex((name) => name.toLowerCase() === clipName.toLowerCase())];
+  if (!match) {
+    const available = names.length ? [...new Set(names)].join(", ") : "none";
+    throw new Error(`Clip "${clipName}" was not found on track "${trackName}" (clips: ${available}).`);
+  }
+
+  const snapshot = await snapshotClip(match.clip, match.slotIndex, true, Number.POSITIVE_INFINITY);
+  const beatsPerBar = getBeatsPerBar(`${numerator}/${denominator}`);
+  return { ...snapshot, trackName, beatsPerBar, notes: snapshot.notes ?? [] };
+};
+
 // -- Samples: insert audio files into an audio track as audio clips --
 
 const expandHome = (p: string) => (p.startsWith("~") ? path.join(process.env.HOME || "", p.slice(1)) : p);
@@ -909,8 +2000,8 @@ const fileExists = (p: string) => {
   }
 };
 
-const ensureAudioTrack = async (name?: string): Promise<Track> => {
-  const instance = await getAbleton();
+const ensureAudioTrack = async (name?: string): Promise<SessionTrack> => {
+  const backend = await getSessionBackend();
   if (name) {
     const { track } = await locateTrackByName(name);
     if (track) {
@@ -922,7 +2013,7 @@ const ensureAudioTrack = async (name?: string): Promise<Track> => {
     }
   }
 
-  const newTrack = await instance.song.createAudioTrack();
+  const newTrack = await backend.song.createAudioTrack();
   if (name) {
     try { await newTrack.set("name", name); } catch {}
   }
@@ -930,7 +2021,7 @@ const ensureAudioTrack = async (name?: string): Promise<Track> => {
 };
 
 export const insertSampleAsClip = async (filePath: string, opts?: { trackName?: string; positionBeats?: number }) => {
-  const instance = await getAbleton();
+  const backend = await getSessionBackend();
   const resolved = path.isAbsolute(filePath) ? filePath : path.resolve(expandHome(filePath));
   if (!fileExists(resolved)) {
     throw new Error(`Sample file not found: ${filePath}`);
@@ -943,8 +2034,8 @@ export const insertSampleAsClip = async (filePath: string, opts?: { trackName?:
 
   // Ensure transport is stopped before inserting (safer UX)
   try {
-    const isPlaying = await instance.song.get("is_playing");
-    if (isPlaying) await instance.song.safeStopPlaying();
+    const isPlaying = await backend.song.get("is_playing");
+    if (isPlaying) await backend.song.safeStopPlaying();
   } catch {}
 
   await track.createAudioClip(resolved, position);
@@ -3,6 +3,9 @@
  * It defines the workflow graph, state, tools, nodes and edges.
  */
 
+import { mkdir, readFile, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
 import { z } from "zod";
 import { RunnableConfig } from "@langchain/core/runnables";
 import { tool } from "@langchain/core/tools";
@@ -32,15 +35,89 @@ import {
   DeviceInfo,
   listAvailableDevices,
   AvailableDevice,
+  renderArrangement,
+  ArrangementTrackBlueprint,
+  applyMixDesign,
+  applyAutomationPasses,
+  listDeviceParameters,
+  setDeviceParameterValues,
+  setDeviceEnabled,
+  readClipNotes,
 } from "./abletonClient";
 import { searchSamples } from "./sampleFinder";
 import { insertSampleAsClip } from "./abletonClient";
 
 // Import workflow tools for music production stages
 import { allWorkflowTools } from "./workflow/stages";
+import { WorkflowStateAnnotation, defaultWorkflowState } from "./workflow/state";
+import { collectWorkflowUpdates, summarizeWorkflowState, withWorkflowState } from "./workflow/stateSync";
+import {
+  ArrangementSectionSchema,
+  AutomationPassSchema,
+  EarCandySchema,
+  GrooveCandidateSchema,
+  MixDesignSchema,
+  MotifSeedSchema,
+  SectionCompositionSchema,
+  SeedSchema,
+  SoundPaletteSchema,
+  StylePriorSchema,
+} from "./workflow/types";
+import { createMotifFromClip } from "./workflow/generators/motif";
+import {
+  DEFAULT_MELODY_MODEL_PATH,
+  loadMelodyModel,
+  saveMelodyModel,
+  summarizeMelodyModel,
+  trainMelodyModel,
+  type MelodySource,
+} from "./workflow/generators/melodyModel";
+import {
+  EAR_CANDY_REALIZATIONS,
+  earCandyAutomationPass,
+  earCandyToMidiClip,
+  type EarCandyMidiClip,
+} from "./workflow/generators/earCandy";
+import { composeSectionFromMidi } from "./workflow/stages";
+import { isDrumTrack, midiBeatsPerBar, parseMidiFile } from "./workflow/utils/midiFile";
+import { resolveLocalPath } from "./workflow/utils/audioFile";
+import {
+  compositionToEvents,
+  encodeWav,
+  grooveToEvents,
+  motifToEvents,
+  renderEarCandy,
+  renderEvents,
+} from "./workflow/utils/audioRender";
+import { calculateMotifScore } from "./workflow/scoring/motif";
+import { createRng, deriveSeed, randomSeed } from "./workflow/utils/random";
+import { accentVelocity, getStepsPerBar } from "./workflow/utils/rhythmUtils";
+import { hasTimingOverrides, resolveSectionTimings } from "./workflow/utils/structureTemplates";
 
 // 1. Define our agent state, which includes CopilotKit state to
 //    provide actions to the state.
+type AgentClip = {
+  name: string;
+  length: string;
+  clipType: "MIDI" | "Audio";
+  slotIndex: number | null;
+  startTime?: number;
+  loopStart: number;
+  loopEnd: number;
+  colorIndex: number;
+  notes: Array<{ pitch: number; time: number; duration: number; velocity: number; muted?: boolean }>;
+  notesTruncated?: boolean;
+};
+
+type AgentTrack = {
+  id: string;
+  name: string;
+  type: "MIDI" | "Audio" | "Return";
+  color?: string;
+  devices: Array<{ name: string; category: string; notes?: string }>;
+  clips: AgentClip[];
+};
+
 type AgentProject = {
   projectName?: string;
   genre?: string;
@@ -51,11 +128,14 @@ type AgentProject = {
   arrangementNotes?: string;
   sessionViewNotes?: string;
   nextActions?: string[];
+  tracks?: AgentTrack[];
 };
 
 const AgentStateAnnotation = Annotation.Root({
   ...CopilotKitStateAnnotation.spec, // CopilotKit state annotation already includes messages, as well as frontend tools
   project: Annotation<AgentProject>,
+  // Persisted production workflow (brief, style prior, grooves, motifs, ...), shared with the UI
+  workflow: WorkflowStateAnnotation,
 });
 
 // 2. Define the type for our agent state
@@ -280,8 +360,8 @@ const abletonRemoveTrack = tool(
 );
 
 const abletonCaptureSnapshot = tool(
-  async () => {
-    const snapshot = await captureSessionSnapshot();
+  async ({ includeNotes, maxNotesPerClip }) => {
+    const snapshot = await captureSessionSnapshot({ includeNotes: includeNotes ?? true, maxNotesPerClip });
     return JSON.stringify({
       snapshot,
       syncRequired: true,
@@ -291,8 +371,84 @@ const abletonCaptureSnapshot = tool(
   {
     name: "abletonCaptureSessionSnapshot",
     description:
-      "Fetch the current Ableton Live session snapshot (tempo, time signature, playback state, and tracks with clip names). Also triggers UI sync.",
-    schema: z.object({}),
+      "Fetch the current Ableton Live session snapshot (tempo, time signature, playback state, and tracks with " +
+      "their session and arrangement clips: length, loop points, slot, color and notes). Also triggers UI sync.",
+    schema: z.object({
+      includeNotes: z.boolean().optional().describe("Include MIDI notes for each clip (default true)."),
+      maxNotesPerClip: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Cap on notes returned per clip to keep the payload small (default 512)."),
+    }),
+  },
+);
+
+const DeviceSelectorSchema = z
+  .union([z.number().int().min(0), z.string().min(1)])
+  .describe("Device index in the track's chain (0 = first) or device name, as listed in the session snapshot.");
+
+const DeviceTrackNameSchema = z
+  .string()
+  .min(1)
+  .describe("Track or return track name; use 'Master' for the master track.");
+
+const abletonListDeviceParameters = tool(
+  async ({ trackName, device }) => JSON.stringify(await listDeviceParameters(trackName, device)),
+  {
+    name: "abletonListDeviceParameters",
+    description:
+      "List a device's parameters (name, current value, min, max, and labels for quantized parameters) " +
+      "on any track, return track or the master. Call this before abletonSetDeviceParameters to learn exact names and ranges.",
+    schema: z.object({
+      trackName: DeviceTrackNameSchema,
+      device: DeviceSelectorSchema,
+    }),
+  },
+);
+
+const abletonSetDeviceParameters = tool(
+  async ({ trackName, device, values, normalized }) => {
+    const result = await setDeviceParameterValues(trackName, device, values, { normalized });
+    const missingSummary = result.missing.length ? ` Not found or invalid: ${result.missing.join(", ")}.` : "";
+
+    return JSON.stringify({
+      message: `Updated ${result.parameters.length} parameters on "${result.deviceName}" (${trackName}).${missingSummary}`,
+      ...result,
+    });
+  },
+  {
+    name: "abletonSetDeviceParameters",
+    description:
+      "Set device parameters by name. Numbers are in the parameter's own units and are clamped to its range; " +
+      "set normalized to pass 0..1 positions instead. Quantized parameters also accept their label (e.g. 'Bell').",
+    schema: z.object({
+      trackName: DeviceTrackNameSchema,
+      device: DeviceSelectorSchema,
+      values: z
+        .record(z.union([z.number(), z.string()]))
+        .describe("Parameter name -> value, e.g. {\"Frequency\": 800, \"Dry/Wet\": 0.4}"),
+      normalized: z.boolean().optional().describe("Treat numeric values as 0..1 positions in each parameter's range."),
+    }),
+  },
+);
+
+const abletonToggleDevice = tool(
+  async ({ trackName, device, enabled }) => {
+    const deviceName = await setDeviceEnabled(trackName, device, enabled);
+    return JSON.stringify({
+      message: `Switched "${deviceName}" on track "${trackName}" ${enabled ? "on" : "off"}.`,
+    });
+  },
+  {
+    name: "abletonToggleDevice",
+    description: "Switch a device on or off (bypass) on any track, return track or the master.",
+    schema: z.object({
+      trackName: DeviceTrackNameSchema,
+      device: DeviceSelectorSchema,
+      enabled: z.boolean().describe("true to switch the device on, false to bypass it."),
+    }),
   },
 );
 
@@ -341,12 +497,14 @@ const abletonListDevices = tool(
 
 // Quick drum pattern generator for common beat styles
 const abletonQuickDrums = tool(
-  async ({ style, bars, tempo, trackName }) => {
+  async ({ style, bars, tempo, timeSignature, trackName, seed }) => {
     const safeBars = bars ?? 4;
-    const beatsPerBar = 4;
-    const totalBeats = safeBars * beatsPerBar;
+    const rng = createRng(seed ?? randomSeed());
+    const meter = timeSignature ?? "4/4";
+    const beatsPerBar = getBeatsPerBar(meter);
 
     type DrumNote = { pitch: number; time: number; duration: number; velocity: number };
+    type Hit = (pitch: number, beat: number, velocity?: number) => void;
     const notes: DrumNote[] = [];
 
     // MIDI pitches for drums
@@ -357,111 +515,101 @@ const abletonQuickDrums = tool(
     const OPEN_HAT = 46;
     const RIMSHOT = 37;
 
-    const addNote = (pitch: number, time: number, velocity = 100) => {
-      if (time < totalBeats) {
-        notes.push({ pitch, time, duration: 0.25, velocity });
+    // Styles write one 4/4 bar; hits repeat every four beats to fill longer bars,
+    // fall away past the end of shorter ones, and take the meter's accents
+    const hitsForBar = (bar: number): Hit => (pitch, beat, velocity = 100) => {
+      for (let start = 0; start + beat < beatsPerBar; start += 4) {
+        notes.push({
+          pitch,
+          time: bar * beatsPerBar + start + beat,
+          duration: 0.25,
+          velocity: accentVelocity(velocity, start + beat, meter),
+        });
       }
     };
 
-    const stylePatterns: Record<string, () => void> = {
-      house: () => {
+    const stylePatterns: Record<string, (hit: Hit) => void> = {
+      house: (hit) => {
         // Four-on-the-floor kick, snare on 2 and 4, offbeat hats
-        for (let bar = 0; bar < safeBars; bar++) {
-          const offset = bar * 4;
-          // Kicks on every beat
-          addNote(KICK, offset, 100);
-          addNote(KICK, offset + 1, 100);
-          addNote(KICK, offset + 2, 100);
-          addNote(KICK, offset + 3, 100);
-          // Claps on 2 and 4
-          addNote(CLAP, offset + 1, 90);
-          addNote(CLAP, offset + 3, 90);
-          // Hats on offbeats (8ths)
-          for (let i = 0; i < 8; i++) {
-            const hatTime = offset + i * 0.5;
-            addNote(CLOSED_HAT, hatTime, i % 2 === 0 ? 70 : 55);
-          }
-          // Open hat before snare hits
-          addNote(OPEN_HAT, offset + 0.75, 65);
-          addNote(OPEN_HAT, offset + 2.75, 65);
+        // Kicks on every beat
+        hit(KICK, 0, 100);
+        hit(KICK, 1, 100);
+        hit(KICK, 2, 100);
+        hit(KICK, 3, 100);
+        // Claps on 2 and 4
+        hit(CLAP, 1, 90);
+        hit(CLAP, 3, 90);
+        // Hats on offbeats (8ths)
+        for (let i = 0; i < 8; i++) {
+          hit(CLOSED_HAT, i * 0.5, i % 2 === 0 ? 70 : 55);
         }
+        // Open hat before snare hits
+        hit(OPEN_HAT, 0.75, 65);
+        hit(OPEN_HAT, 2.75, 65);
       },
-      techno: () => {
+      techno: (hit) => {
         // Driving kick, minimal snare/clap, 16th hats
-        for (let bar = 0; bar < safeBars; bar++) {
-          const offset = bar * 4;
-          // Kicks
-          addNote(KICK, offset, 100);
-          addNote(KICK, offset + 1, 95);
-          addNote(KICK, offset + 2, 100);
-          addNote(KICK, offset + 3, 95);
-          // Clap on 2 and 4
-          addNote(CLAP, offset + 1, 85);
-          addNote(CLAP, offset + 3, 85);
-          // 16th note hats with velocity variation
-          for (let i = 0; i < 16; i++) {
-            const hatTime = offset + i * 0.25;
-            const vel = i % 4 === 0 ? 75 : i % 2 === 0 ? 60 : 45;
-            addNote(CLOSED_HAT, hatTime, vel);
-          }
+        // Kicks
+        hit(KICK, 0, 100);
+        hit(KICK, 1, 95);
+        hit(KICK, 2, 100);
+        hit(KICK, 3, 95);
+        // Clap on 2 and 4
+        hit(CLAP, 1, 85);
+        hit(CLAP, 3, 85);
+        // 16th note hats with velocity variation
+        for (let i = 0; i < 16; i++) {
+          const vel = i % 4 === 0 ? 75 : i % 2 === 0 ? 60 : 45;
+          hit(CLOSED_HAT, i * 0.25, vel);
         }
       },
-      hiphop: () => {
+      hiphop: (hit) => {
         // Boom bap style: kick on 1 and 3, snare on 2 and 4
-        for (let bar = 0; bar < safeBars; bar++) {
-          const offset = bar * 4;
-          // Kicks
-          addNote(KICK, offset, 100);
-          addNote(KICK, offset + 2.5, 90);
-          // Snares
-          addNote(SNARE, offset + 1, 95);
-          addNote(SNARE, offset + 3, 95);
-          // Swung hats
-          for (let i = 0; i < 4; i++) {
-            addNote(CLOSED_HAT, offset + i, 70);
-            addNote(CLOSED_HAT, offset + i + 0.33, 50);
-            addNote(CLOSED_HAT, offset + i + 0.66, 55);
-          }
+        // Kicks
+        hit(KICK, 0, 100);
+        hit(KICK, 2.5, 90);
+        // Snares
+        hit(SNARE, 1, 95);
+        hit(SNARE, 3, 95);
+        // Swung hats
+        for (let i = 0; i < 4; i++) {
+          hit(CLOSED_HAT, i, 70);
+          hit(CLOSED_HAT, i + 0.33, 50);
+          hit(CLOSED_HAT, i + 0.66, 55);
         }
       },
-      dnb: () => {
+      dnb: (hit) => {
         // Fast breakbeat pattern
-        for (let bar = 0; bar < safeBars; bar++) {
-          const offset = bar * 4;
-          // Amen-style kicks
-          addNote(KICK, offset, 100);
-          addNote(KICK, offset + 1.5, 95);
-          addNote(KICK, offset + 2.75, 90);
-          // Snares
-          addNote(SNARE, offset + 1, 100);
-          addNote(SNARE, offset + 3, 100);
-          addNote(SNARE, offset + 3.5, 75);
-          // Rapid hats
-          for (let i = 0; i < 16; i++) {
-            addNote(CLOSED_HAT, offset + i * 0.25, 65 + Math.random() * 20);
-          }
+        // Amen-style kicks
+        hit(KICK, 0, 100);
+        hit(KICK, 1.5, 95);
+        hit(KICK, 2.75, 90);
+        // Snares
+        hit(SNARE, 1, 100);
+        hit(SNARE, 3, 100);
+        hit(SNARE, 3.5, 75);
+        // Rapid hats
+        for (let i = 0; i < 16; i++) {
+          hit(CLOSED_HAT, i * 0.25, 65 + rng() * 20);
         }
       },
-      trap: () => {
+      trap: (hit) => {
         // 808 kick pattern, triplet hats
-        for (let bar = 0; bar < safeBars; bar++) {
-          const offset = bar * 4;
-          // Sparse kicks
-          addNote(KICK, offset, 100);
-          addNote(KICK, offset + 2.5, 95);
-          // Snare/clap on 2 and 4
-          addNote(SNARE, offset + 1, 100);
-          addNote(CLAP, offset + 1, 90);
-          addNote(SNARE, offset + 3, 100);
-          addNote(CLAP, offset + 3, 90);
-          // Rolling hi-hats (triplets on last beat)
-          for (let i = 0; i < 8; i++) {
-            addNote(CLOSED_HAT, offset + i * 0.5, 70);
-          }
-          // Hat rolls
-          for (let i = 0; i < 6; i++) {
-            addNote(CLOSED_HAT, offset + 3.5 + i * 0.083, 80);
-          }
+        // Sparse kicks
+        hit(KICK, 0, 100);
+        hit(KICK, 2.5, 95);
+        // Snare/clap on 2 and 4
+        hit(SNARE, 1, 100);
+        hit(CLAP, 1, 90);
+        hit(SNARE, 3, 100);
+        hit(CLAP, 3, 90);
+        // Rolling hi-hats (triplets on last beat)
+        for (let i = 0; i < 8; i++) {
+          hit(CLOSED_HAT, i * 0.5, 70);
+        }
+        // Hat rolls
+        for (let i = 0; i < 6; i++) {
+          hit(CLOSED_HAT, 3.5 + i * 0.083, 80);
         }
       },
     };
@@ -471,7 +619,9 @@ const abletonQuickDrums = tool(
       return `Unknown style "${style}". Available styles: ${Object.keys(stylePatterns).join(", ")}`;
     }
 
-    patternFn();
+    for (let bar = 0; bar < safeBars; bar++) {
+      patternFn(hitsForBar(bar));
+    }
 
     // Create the track with the pattern
     const blueprint: TrackBlueprint = {
@@ -487,9 +637,9 @@ const abletonQuickDrums = tool(
       ],
     };
 
-    // Apply tempo if specified
-    if (tempo) {
-      await applyProjectSettings({ tempo });
+    // Apply tempo and meter if specified
+    if (tempo || timeSignature) {
+      await applyProjectSettings({ tempo, timeSignature });
     }
 
     const trackType = await applyTrackBlueprint(blueprint, beatsPerBar);
@@ -497,7 +647,7 @@ const abletonQuickDrums = tool(
     // Capture snapshot after mutation for UI sync
     const snapshot = await captureSessionSnapshot();
 
-    const message = `Created ${style} drum pattern on "${blueprint.name}" (${trackType}): ${notes.length} notes over ${safeBars} bars${tempo ? ` at ${tempo} BPM` : ""}.`;
+    const message = `Created ${style} drum pattern on "${blueprint.name}" (${trackType}): ${notes.length} notes over ${safeBars} bars of ${meter}${tempo ? ` at ${tempo} BPM` : ""}.`;
 
     return JSON.stringify({
       message,
@@ -516,11 +666,29 @@ const abletonQuickDrums = tool(
         .describe("The drum style to create"),
       bars: z.number().min(1).max(16).optional().describe("Length in bars (default 4)"),
       tempo: z.number().min(60).max(200).optional().describe("Set the project tempo"),
+      timeSignature: z
+        .string()
+        .optional()
+        .describe("Time signature such as 3/4, 6/8, 7/8 or 5/4 (default 4/4); use the workflow time base's meter"),
       trackName: z.string().optional().describe("Custom track name (defaults to style name)"),
+      seed: SeedSchema.optional(),
     }),
   },
 );
 
+// Instruments for workflow voice roles
+const ROLE_DEVICES: Record<string, string> = {
+  bass: "Analog",
+  harmony: "Wavetable",
+  topline: "Wavetable",
+  lead: "Operator",
+  counterline: "Wavetable",
+  rhythm: "Drum Rack",
+  pad: "Wavetable",
+  texture: "Wavetable",
+  fx: "Wavetable",
+};
+
 // Bridge tool: Convert workflow compositions to Ableton tracks
 const workflowCompositionsToAbleton = tool(
   async ({ compositionsJson, timeSignature, defaultDevice }) => {
@@ -542,19 +710,6 @@ const workflowCompositionsToAbleton = tool(
     const compositions = parseJsonPayload<Composition[]>(compositionsJson, "compositions JSON");
     const beatsPerBar = getBeatsPerBar(timeSignature);
 
-    // Map roles to appropriate devices
-    const roleToDevice: Record<string, string> = {
-      bass: "Analog",
-      harmony: "Wavetable",
-      topline: "Wavetable",
-      lead: "Operator",
-      counterline: "Wavetable",
-      rhythm: "Drum Rack",
-      pad: "Wavetable",
-      texture: "Wavetable",
-      fx: "Wavetable",
-    };
-
     // Group voices by track name across all compositions
     const trackVoices = new Map<string, { notes: Array<{ pitch: number; time: number; duration: number; velocity: number }>; role: string; clipName: string }[]>();
 
@@ -577,7 +732,7 @@ const workflowCompositionsToAbleton = tool(
     for (const [trackName, voiceData] of trackVoices) {
       // Use the role from the first voice to determine device
       const role = voiceData[0]?.role || "pad";
-      const device = defaultDevice || roleToDevice[role] || "Wavetable";
+      const device = defaultDevice || ROLE_DEVICES[role] || "Wavetable";
 
       // Convert voices to clips
       const clips = voiceData.map((v) => ({
@@ -628,6 +783,597 @@ const workflowCompositionsToAbleton = tool(
   },
 );
 
+// Bridge tool: Lay out the macro structure and compositions in Arrangement View
+const workflowRenderArrangement = tool(
+  async ({ compositions, sections, tempo, timeSignature, defaultDevice, loop }) => {
+    const beatsPerBar = getBeatsPerBar(timeSignature);
+    // Sections with their own tempo or meter get a tempo map; the rest follow the time base
+    const tempoMap = hasTimingOverrides(sections)
+      ? resolveSectionTimings(sections, { tempo: tempo ?? 120, meter: timeSignature ?? "4/4" }).map((timing) => ({
+          startBar: timing.startBar,
+          lengthBars: timing.lengthBars,
+          tempo: timing.tempo,
+          endTempo: timing.endTempo,
+          timeSignature: timing.meter,
+        }))
+      : undefined;
+    const sectionsById = new Map(sections.map((section) => [section.id, section]));
+
+    // One track per voice role and layer (a second pad in a section goes to "Pad 2"),
+    // with one arrangement clip per section
+    const tracksByLayer = new Map<string, ArrangementTrackBlueprint>();
+    const skipped: string[] = [];
+
+    for (const composition of compositions) {
+      const section = sectionsById.get(composition.sectionId);
+      if (!section) {
+        skipped.push(composition.sectionId);
+        continue;
+      }
+
+      const layers = new Map<string, number>();
+      for (const voice of composition.voices) {
+        if (!voice.notes.length) continue;
+
+        const layer = (layers.get(voice.role) ?? 0) + 1;
+        layers.set(voice.role, layer);
+        const roleName = voice.role.charAt(0).toUpperCase() + voice.role.slice(1);
+        const trackName = layer > 1 ? `${roleName} ${layer}` : roleName;
+        const track = tracksByLayer.get(trackName) ?? {
+          name: trackName,
+          device: defaultDevice || ROLE_DEVICES[voice.role] || "Wavetable",
+          clips: [],
+        };
+        // Clips are reused by name, so the section id keeps sections with the same name apart
+        track.clips.push({
+          name: `${voice.clipName} (${section.id})`,
+          length: `${section.lengthBars} bars`,
+          startBar: section.startBar,
+          notes: voice.notes,
+        });
+        tracksByLayer.set(trackName, track);
+      }
+    }
+
+    const result = await renderArrangement(
+      {
+        tracks: [...tracksByLayer.values()],
+        locators: [...sections].sort((a, b) => a.startBar - b.startBar),
+        loop: loop === false ? false : undefined,
+        tempoMap,
+      },
+      beatsPerBar,
+    );
+
+    const snapshot = await captureSessionSnapshot();
+    const startBar = Math.min(...sections.map((s) => s.startBar));
+    const endBar = Math.max(...sections.map((s) => s.startBar + s.lengthBars));
+    const loopSummary = result.loop ? ` Loop set to ${endBar - startBar} bars from bar ${startBar + 1}.` : "";
+    const tempoSummary = tempoMap
+      ? ` Wrote ${result.tempoPoints} tempo breakpoints and ${result.timeSignatureChanges} time signature changes.`
+      : "";
+    const unresolvedSummary = result.unresolved.length ? ` Not written: ${result.unresolved.join("; ")}.` : "";
+    const skippedSummary = skipped.length ? ` Skipped compositions without a section: ${skipped.join(", ")}.` : "";
+
+    return JSON.stringify({
+      message:
+        `Placed ${result.clipsPlaced} clips on ${result.tracks.length} tracks (${result.tracks.join(", ")}) ` +
+        `and ${result.cuePoints.length} locators in Arrangement View.` +
+        `${loopSummary}${tempoSummary}${unresolvedSummary}${skippedSummary}`,
+      ...result,
+      snapshot,
+      syncRequired: true,
+      syncHint: "Call upsertAbletonTrack and setProjectOverview to sync UI.",
+    });
+  },
+  {
+    name: "workflowRenderArrangement",
+    description:
+      "Render the workflow's macro structure and section compositions into Ableton's Arrangement View: " +
+      "one track per voice role (\"Pad 2\" for a second layer of a role) with each section's clip at its start bar, " +
+      "a named locator per section, " +
+      "the loop region spanning the arrangement, and tempo automation and time signature changes " +
+      "for sections with their own tempo, tempo ramp or meter. Tempo and meter changes only work on the mock " +
+      "backend: Live's remote script can't write them, so on Live the song keeps the first section's tempo and " +
+      "meter, bars are counted in that meter and the changes are listed as unresolved.",
+    schema: z.object({
+      compositions: z.array(SectionCompositionSchema).describe("Section compositions from workflowComposeAllSections"),
+      sections: z.array(ArrangementSectionSchema).describe("Sections of the macro structure (startBar/lengthBars)"),
+      tempo: z.number().optional().describe("Time base tempo for sections without their own (default 120)."),
+      timeSignature: z
+        .string()
+        .optional()
+        .describe("Time signature (e.g., '4/4') for converting bars to beats in sections without their own meter."),
+      defaultDevice: z
+        .string()
+        .optional()
+        .describe("Override the automatic device selection with a specific instrument name."),
+      loop: z.boolean().optional().describe("Set the loop region to the whole arrangement (default true)."),
+    }),
+  },
+);
+
+const workflowApplyMixDesign = tool(
+  async ({ mixDesign }) => {
+    const result = await applyMixDesign(mixDesign);
+    const snapshot = await captureSessionSnapshot();
+    const unresolvedSummary = result.unresolved.length
+      ? ` ${result.unresolved.length} item(s) could not be applied: ${result.unresolved.join("; ")}.`
+      : "";
+
+    return JSON.stringify({
+      message:
+        `Set levels on ${result.tracks.length} tracks, created ${result.returns.length} returns ` +
+        `(${result.returns.join(", ")}) with ${result.sendsSet} sends, configured ${result.devices.length} devices ` +
+        `and a ${result.masterChain.length}-device master chain.${unresolvedSummary}`,
+      ...result,
+      snapshot,
+      syncRequired: true,
+      syncHint: "Call upsertAbletonTrack and setProjectOverview to sync UI.",
+    });
+  },
+  {
+    name: "workflowApplyMixDesign",
+    description:
+      "Apply the workflow mix design to the Live set: track volume and pan from the leveling plan, " +
+      "a return track with Reverb or Delay per depth layer and delay with sends from the assigned tracks, " +
+      "EQ Eight/Compressor/Saturator on each stem group's tracks, and the master chain in order. " +
+      "Run it after the tracks exist (e.g. after workflowRenderArrangement); re-applying updates devices in place.",
+    schema: z.object({
+      mixDesign: MixDesignSchema.describe("Mix design from workflowAssembleMixDesign"),
+    }),
+  },
+);
+
+const workflowApplyAutomation = tool(
+  async ({ automationPasses, timeSignature, dryRun }) => {
+    const result = await applyAutomationPasses(automationPasses, getBeatsPerBar(timeSignature), { dryRun });
+    const unresolvedSummary = result.unresolved.length
+      ? ` Unresolved: ${result.unresolved.map((r) => `${r.trackName}/${r.parameter} (${r.reason})`).join("; ")}.`
+      : "";
+
+    return JSON.stringify({
+      message:
+        `${dryRun ? "Would write" : "Wrote"} ${result.resolved.length} of ${automationPasses.length} automation passes ` +
+        `as clip envelopes.${unresolvedSummary}`,
+      ...result,
+    });
+  },
+  {
+    name: "workflowApplyAutomation",
+    description:
+      "Write the mix design's automation passes into Live as clip envelopes on each track's arrangement clips. " +
+      "Each pass's parameter is resolved to the mixer (volume, pan, send_a...) or a device parameter " +
+      "(e.g. filter_cutoff). Use dryRun to report which passes resolve before writing anything. " +
+      "Envelopes are only written on the mock backend: Live's remote script can't write them, so on Live every " +
+      "pass comes back unresolved with that reason.",
+    schema: z.object({
+      automationPasses: z.array(AutomationPassSchema).describe("Automation passes from the mix design"),
+      timeSignature: z.string().optional().describe("Time signature (e.g., '4/4') for converting bars to beats."),
+      dryRun: z.boolean().optional().describe("Only resolve passes and report, without writing envelopes."),
+    }),
+  },
+);
+
+const workflowImportClipAsMotif = tool(
+  async ({ trackName, clipName, stylePrior, type, key, scale }) => {
+    const clip = await readClipNotes(trackName, clipName);
+    const notes = clip.notes
+      .filter((note) => !note.muted)
+      .map(({ pitch, time, duration, velocity }) => ({ pitch, time, duration, velocity }));
+    if (!notes.length) {
+      throw new Error(`Clip "${clip.name}" on track "${trackName}" has no unmuted notes to import.`);
+    }
+
+    const { motif, detected } = createMotifFromClip(notes, {
+      clipName: clip.name,
+      lengthBeats: clip.lengthBeats,
+      beatsPerBar: clip.beatsPerBar,
+      type,
+      key,
+      scale,
+    });
+    const score = calculateMotifScore(motif, stylePrior);
+
+    return JSON.stringify({
+      message:
+        `Imported "${clip.name}" from ${trackName} as a ${motif.type} motif in ${motif.key} ${motif.scale} ` +
+        `(${notes.length} notes, ${motif.lengthBars} bars, key confidence ${detected.confidence}, ` +
+        `overall score ${score.overall}).`,
+      motif,
+      score,
+      detected,
+    });
+  },
+  {
+    name: "workflowImportClipAsMotif",
+    description:
+      "Import a MIDI clip from the Live set as a motif seed: reads its notes, detects key and scale, " +
+      "classifies it as melodic, rhythmic, harmonic or textural and scores it against the style prior. " +
+      "The motif joins the motif candidates so workflowSelectTopMotifs can pick it alongside generated ones. " +
+      "Pass type, key or scale to override detection.",
+    schema: z.object({
+      trackName: z.string().describe("Name of the MIDI track holding the clip."),
+      clipName: z.string().describe("Name of the session or arrangement clip (case-insensitive)."),
+      stylePrior: StylePriorSchema.describe("Style prior from workflowBuildStylePrior"),
+      type: z
+        .enum(["melodic", "rhythmic", "harmonic", "textural"])
+        .optional()
+        .describe("Override the detected motif type."),
+      key: z.string().optional().describe("Override the detected key (e.g., 'F#')."),
+      scale: z.string().optional().describe("Override the detected scale (e.g., 'minor')."),
+    }),
+  },
+);
+
+const readMidiFile = async (filePath: string) => parseMidiFile(await readFile(resolveLocalPath(filePath)));
+
+const workflowImportMidiMotifs = tool(
+  async ({ filePath, stylePrior, trackNames, bars }) => {
+    const file = await readMidiFile(filePath);
+    const beatsPerBar = midiBeatsPerBar(file);
+    const wanted = trackNames?.map((name) => name.toLowerCase());
+    const tracks = file.tracks.filter((track) => !wanted || wanted.includes(track.name.toLowerCase()));
+    if (!tracks.length) {
+      const available = file.tracks.map((track) => track.name).join(", ") || "none";
+      throw new Error(`No matching tracks with notes in ${filePath} (tracks: ${available}).`);
+    }
+
+    const lengthBeats = bars ? bars * beatsPerBar : file.lengthBeats;
+    const fileName = path.parse(filePath).name;
+    const imported = tracks
+      .map((track) => ({ track, notes: track.notes.filter((n) => n.time < lengthBeats) }))
+      .filter(({ notes }) => notes.length > 0)
+      .map(({ track, notes }) => {
+        const { motif, detected } = createMotifFromClip(
+          notes.map(({ pitch, time, duration, velocity }) => ({ pitch, time, duration, velocity })),
+          {
+            clipName: `${fileName} - ${track.name}`,
+            lengthBeats,
+            beatsPerBar,
+            type: isDrumTrack(track) ? "rhythmic" : undefined,
+          },
+        );
+        return { motif, score: calculateMotifScore(motif, stylePrior), detected };
+      });
+
+    return JSON.stringify({
+      message:
+        `Imported ${imported.length} motif(s) from ${path.basename(filePath)} ` +
+        `(format ${file.format}, ${file.tempo} BPM, ${file.timeSignature}): ` +
+        imported.map(({ motif, score }) => `${motif.name} as ${motif.type} (${score.overall})`).join(", ") +
+        ".",
+      file: { format: file.format, ppq: file.ppq, tempo: file.tempo, timeSignature: file.timeSignature },
+      imported,
+    });
+  },
+  {
+    name: "workflowImportMidiMotifs",
+    description:
+      "Import a Standard MIDI File (.mid from another DAW or sketchpad) as motif seeds: one motif per track with notes, " +
+      "with key, scale and type detected and a score against the style prior. " +
+      "The motifs join the motif candidates for workflowSelectTopMotifs.",
+    schema: z.object({
+      filePath: z.string().describe("Path to the .mid file (~ expands to the home directory)."),
+      stylePrior: StylePriorSchema.describe("Style prior from workflowBuildStylePrior"),
+      trackNames: z.array(z.string()).optional().describe("Only import these tracks (default: every track with notes)."),
+      bars: z.number().int().positive().optional().describe("Keep only the first N bars of each track."),
+    }),
+  },
+);
+
+const workflowImportMidiSection = tool(
+  async ({ filePath, sectionId, startBar, bars }) => {
+    const file = await readMidiFile(filePath);
+    const beatsPerBar = midiBeatsPerBar(file);
+    const startBeat = (startBar ?? 0) * beatsPerBar;
+    const composition = composeSectionFromMidi(file, sectionId, startBeat, bars ? bars * beatsPerBar : undefined);
+    if (!composition.voices.length) {
+      throw new Error(`${filePath} has no notes in the requested range.`);
+    }
+
+    return JSON.stringify({
+      message:
+        `Imported ${path.basename(filePath)} as section "${sectionId}" with ${composition.voices.length} voices ` +
+        `(${composition.voices.map((v) => `${v.clipName} as ${v.role}`).join(", ")}). ` +
+        `The file runs at ${file.tempo} BPM in ${file.timeSignature}.`,
+      composition,
+      file: { format: file.format, ppq: file.ppq, tempo: file.tempo, timeSignature: file.timeSignature },
+    });
+  },
+  {
+    name: "workflowImportMidiSection",
+    description:
+      "Import a Standard MIDI File as the composition of one section: each track becomes a voice with a role guessed " +
+      "from its channel, register and note pattern. Replaces any composition with the same sectionId, so the section " +
+      "can then be varied, rendered with workflowRenderArrangement or mixed like a composed one.",
+    schema: z.object({
+      filePath: z.string().describe("Path to the .mid file (~ expands to the home directory)."),
+      sectionId: z.string().describe("Id of the macro-structure section this MIDI fills (e.g. 'drop-1')."),
+      startBar: z.number().int().min(0).optional().describe("First bar of the file to import (0-based, default 0)."),
+      bars: z.number().int().positive().optional().describe("Number of bars to import (default: to the end of the file)."),
+    }),
+  },
+);
+
+// Bridge tool: Learn the team's melodic habits from MIDI files and favourite motifs, saved as JSON on disk
+const workflowTrainMelodyModel = tool(
+  async ({ motifs, midiFiles, modelPath, order, reset }) => {
+    const sources: MelodySource[] = (motifs ?? []).filter((motif) => motif.type === "melodic");
+    const skipped: string[] = [];
+
+    for (const filePath of midiFiles ?? []) {
+      const file = await readMidiFile(filePath);
+      const beatsPerBar = midiBeatsPerBar(file);
+      for (const track of file.tracks) {
+        const { motif } = createMotifFromClip(
+          track.notes.map(({ pitch, time, duration, velocity }) => ({ pitch, time, duration, velocity })),
+          { clipName: track.name, lengthBeats: file.lengthBeats, beatsPerBar },
+        );
+        if (isDrumTrack(track) || motif.type !== "melodic") {
+          skipped.push(`${path.basename(filePath)} - ${track.name}`);
+          continue;
+        }
+        sources.push({ ...motif, lengthBeats: file.lengthBeats, beatsPerBar });
+      }
+    }
+    if (!sources.length) {
+      throw new Error("Nothing melodic to learn from: pass melodic motifs or MIDI files with melodic tracks.");
+    }
+
+    const existing = reset ? undefined : await loadMelodyModel(modelPath);
+    const model = trainMelodyModel(sources, { order, model: existing });
+    const savedTo = await saveMelodyModel(model, modelPath);
+    const summary = summarizeMelodyModel(model);
+
+    return JSON.stringify({
+      message:
+        `${existing ? "Updated" : "Created"} the melody model at ${savedTo} with ${sources.length} melodies ` +
+        `(${summary.motifs} melodies and ${summary.notes} notes in total). Most common moves: ` +
+        summary.commonIntervals.map(({ value, share }) => `${value} semitones (${share}%)`).join(", ") +
+        "." +
+        (skipped.length ? ` Skipped non-melodic tracks: ${skipped.join(", ")}.` : ""),
+      path: savedTo,
+      summary,
+      skipped,
+    });
+  },
+  {
+    name: "workflowTrainMelodyModel",
+    description:
+      "Train the melody model on melodies the team likes: melodic motifs (e.g. the selected motif seeds) and/or " +
+      "melodic tracks of .mid files. It learns interval n-grams by scale degree and rhythm n-grams by bar position, " +
+      "adds to the saved model unless reset, and writes it as JSON. The motif tools then pick it up from the workflow " +
+      "state and lead their melodic candidates with house-style melodies drawn from it.",
+    schema: z.object({
+      motifs: z.array(MotifSeedSchema).optional().describe("Favourite motifs; only melodic ones are learned from."),
+      midiFiles: z.array(z.string()).optional().describe("Paths to .mid files (~ expands to the home directory)."),
+      modelPath: z
+        .string()
+        .optional()
+        .describe(`Where the model is kept (default ${DEFAULT_MELODY_MODEL_PATH}).`),
+      order: z
+        .number()
+        .int()
+        .min(1)
+        .max(4)
+        .optional()
+        .describe("N-gram length for a new model (default 3); an existing model keeps its own."),
+      reset: z.boolean().optional().describe("Start a fresh model instead of adding to the saved one."),
+    }),
+  },
+);
+
+const pickForRender = <T>(
+  items: T[] | undefined,
+  id: string | undefined,
+  getId: (item: T) => string,
+  kind: string,
+) => {
+  if (!items?.length) {
+    throw new Error(`No ${kind} to render yet. Generate some first or pass them explicitly.`);
+  }
+  const item = id ? items.find((candidate) => getId(candidate) === id) : items[0];
+  if (!item) {
+    throw new Error(`No ${kind} with id "${id}" (available: ${items.map(getId).join(", ")}).`);
+  }
+  return item;
+};
+
+const workflowRenderAudio = tool(
+  async ({ kind, id, grooves, motifs, compositions, palette, tempo, meter, bars, bitDepth, sampleRate, outputPath }) => {
+    let renderId: string;
+    let renderTempo: number;
+    let events;
+    let lengthBeats: number | undefined;
+    const beatsPerBar = getBeatsPerBar(meter);
+
+    if (kind === "groove") {
+      const groove = pickForRender(grooves, id, (g) => g.id, "groove candidates");
+      renderId = groove.id;
+      renderTempo = tempo ?? groove.tempo;
+      // Whole pattern loops, as close to the requested bars of its meter as the pattern length allows
+      const steps = groove.steps ?? 16;
+      const loops = Math.max(1, Math.round(((bars ?? 2) * getStepsPerBar(groove.meter)) / steps));
+      events = grooveToEvents(groove, loops);
+      lengthBeats = (loops * steps) / 4;
+    } else if (kind === "motif") {
+      const motif = pickForRender(motifs, id, (m) => m.id, "motifs");
+      const repeats = bars ? Math.max(1, Math.ceil(bars / motif.lengthBars)) : 1;
+      renderId = motif.id;
+      renderTempo = tempo ?? 120;
+      events = motifToEvents(motif, repeats, beatsPerBar);
+      lengthBeats = repeats * motif.lengthBars * beatsPerBar;
+    } else {
+      const composition = pickForRender(compositions, id, (c) => c.sectionId, "section compositions");
+      renderId = composition.sectionId;
+      renderTempo = tempo ?? 120;
+      events = compositionToEvents(composition, palette?.entries);
+      lengthBeats = bars ? bars * beatsPerBar : undefined;
+    }
+
+    const audio = renderEvents(events, { tempo: renderTempo, sampleRate, lengthBeats });
+    const filePath = path.resolve(outputPath ?? path.join(os.tmpdir(), "ableton-vibes-renders", `${renderId}.wav`));
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, encodeWav(audio.samples, audio.sampleRate, bitDepth ?? 16));
+
+    return JSON.stringify({
+      message:
+        `Rendered ${kind} "${renderId}" at ${renderTempo} BPM to ${filePath} ` +
+        `(${audio.durationSeconds.toFixed(1)}s, ${bitDepth ?? 16}-bit, peak ${audio.peakDb} dBFS).`,
+      kind,
+      id: renderId,
+      path: filePath,
+      tempo: renderTempo,
+      durationSeconds: audio.durationSeconds,
+      sampleRate: audio.sampleRate,
+      bitDepth: bitDepth ?? 16,
+      peakDb: audio.peakDb,
+    });
+  },
+  {
+    name: "workflowRenderAudio",
+    description:
+      "Render a groove candidate, motif or section composition to a mono WAV file with a built-in synth " +
+      "(drum synthesis for grooves and drum voices, an oscillator voice per role), so candidates can be " +
+      "auditioned and compared without Live. Picks the first candidate when id is omitted.",
+    schema: z.object({
+      kind: z.enum(["groove", "motif", "composition"]).describe("What to render."),
+      id: z.string().optional().describe("Groove id, motif id or section id (default: the first one)."),
+      grooves: z.array(GrooveCandidateSchema).optional().describe("Groove candidates from workflowGenerateGrooves"),
+      motifs: z.array(MotifSeedSchema).optional().describe("Motif candidates from workflowGenerateMotifs"),
+      compositions: z.array(SectionCompositionSchema).optional().describe("Section compositions"),
+      palette: SoundPaletteSchema.optional().describe("Sound palette; its entry types pick each voice's oscillator"),
+      tempo: z.number().optional().describe("Tempo in BPM (default: the locked time base, else the groove's tempo or 120)"),
+      meter: z
+        .string()
+        .optional()
+        .describe("Time signature for motif and section bars (default: the locked time base, else 4/4)."),
+      bars: z.number().int().positive().optional().describe("Bars to render (grooves loop, motifs repeat)."),
+      bitDepth: z.union([z.literal(16), z.literal(24)]).optional().describe("WAV bit depth (default 16)."),
+      sampleRate: z.number().int().optional().describe("Sample rate in Hz (default 44100)."),
+      outputPath: z.string().optional().describe("Where to write the .wav (default: a renders folder in the temp dir)."),
+    }),
+  },
+);
+
+// Bridge tool: Turn ear candy events into rendered audio, library samples or MIDI clips on FX tracks
+const workflowRealizeEarCandy = tool(
+  async ({ earCandy, method, tempo, timeSignature, trackName, sampleRoots, outputDir, seed }) => {
+    const beatsPerBar = getBeatsPerBar(timeSignature);
+    const renderTempo = tempo ?? 120;
+    const audioTrack = trackName ?? "FX";
+    const midiTrack = `${audioTrack} Synth`;
+    const runSeed = seed ?? randomSeed();
+    const directory = path.resolve(outputDir ?? path.join(os.tmpdir(), "ableton-vibes-renders", "ear-candy"));
+    const realized: Array<{ id: string; type: string; method: string; startBar: number; source?: string }> = [];
+    const skipped: string[] = [];
+    const midiClips: EarCandyMidiClip[] = [];
+
+    for (const candy of earCandy) {
+      if (candy.position + candy.duration <= 0) {
+        skipped.push(`${candy.id} ends before the song starts`);
+        continue;
+      }
+      const realization = EAR_CANDY_REALIZATIONS[candy.type];
+      const chosen = !method || method === "auto" ? realization.method : method;
+      const startBar = Math.max(0, candy.position);
+      const positionBeats = startBar * beatsPerBar;
+
+      if (chosen === "sample") {
+        const [match] = await searchSamples({ query: realization.sampleQuery, roots: sampleRoots, limit: 1 });
+        if (match) {
+          await insertSampleAsClip(match.path, { trackName: audioTrack, positionBeats });
+          realized.push({ id: candy.id, type: candy.type, method: "sample", startBar, source: match.path });
+          continue;
+        }
+        // Nothing in the library matches; the procedural render stands in
+      }
+
+      if (chosen === "midi") {
+        midiClips.push(earCandyToMidiClip(candy, beatsPerBar));
+        realized.push({ id: candy.id, type: candy.type, method: "midi", startBar, source: midiTrack });
+        continue;
+      }
+
+      const audio = renderEarCandy(candy, { tempo: renderTempo, beatsPerBar, seed: deriveSeed(runSeed, candy.id) });
+      // Drop whatever falls before bar 1 so the event still ends where it should
+      const trim = Math.round(Math.max(0, -candy.position) * beatsPerBar * (60 / renderTempo) * audio.sampleRate);
+      const filePath = path.join(directory, `${candy.id}.wav`);
+      await mkdir(directory, { recursive: true });
+      await writeFile(filePath, encodeWav(audio.samples.subarray(trim), audio.sampleRate));
+      await insertSampleAsClip(filePath, { trackName: audioTrack, positionBeats });
+      realized.push({ id: candy.id, type: candy.type, method: "render", startBar, source: filePath });
+    }
+
+    let automation: Awaited<ReturnType<typeof applyAutomationPasses>> | undefined;
+    if (midiClips.length) {
+      await renderArrangement(
+        {
+          tracks: [
+            {
+              name: midiTrack,
+              device: ROLE_DEVICES.fx,
+              clips: midiClips.map((clip) => ({
+                name: clip.name,
+                length: `${clip.lengthBars} bars`,
+                startBar: clip.startBar,
+                notes: clip.notes,
+              })),
+            },
+          ],
+          locators: [],
+          loop: false,
+        },
+        beatsPerBar,
+      );
+      automation = await applyAutomationPasses([earCandyAutomationPass(midiClips, midiTrack)], beatsPerBar);
+    }
+
+    const count = (kind: string) => realized.filter((r) => r.method === kind).length;
+    const automationSummary = automation
+      ? automation.resolved.length
+        ? ` Filter automation written to ${automation.resolved[0]!.target}.`
+        : ` Filter automation not written: ${automation.unresolved.map((r) => r.reason).join("; ")}.`
+      : "";
+    const skippedSummary = skipped.length ? ` Skipped: ${skipped.join("; ")}.` : "";
+
+    return JSON.stringify({
+      message:
+        `Realized ${realized.length} of ${earCandy.length} ear candy events: ${count("render")} rendered and ` +
+        `${count("sample")} from samples on "${audioTrack}", ${count("midi")} as MIDI clips on "${midiTrack}".` +
+        `${automationSummary}${skippedSummary}`,
+      realized,
+      skipped,
+      automation,
+      syncRequired: true,
+      syncHint: "Call upsertAbletonTrack and setProjectOverview to sync UI.",
+    });
+  },
+  {
+    name: "workflowRealizeEarCandy",
+    description:
+      "Turn ear candy events (from workflowRunVariationPass, workflowGenerateEarCandy or workflowGenerateTransitionFill) " +
+      "into arrangement clips at their bar position: a procedurally rendered WAV (noise risers, pitched sweeps, impacts) " +
+      "or a matching library sample on an audio FX track, or a MIDI clip with filter cutoff automation on an FX synth track. " +
+      "By default vocal chops use a sample (rendered when none is found), stutters use MIDI and the rest are rendered. " +
+      "The filter automation is only written on the mock backend; on Live it is reported as not written.",
+    schema: z.object({
+      earCandy: z.array(EarCandySchema).describe("Ear candy events to realize"),
+      method: z
+        .enum(["auto", "render", "sample", "midi"])
+        .optional()
+        .describe("Realize every event the same way instead of per type (default auto)."),
+      tempo: z.number().optional().describe("Tempo in BPM for rendered audio (default: the locked time base, else 120)."),
+      timeSignature: z.string().optional().describe("Time signature (e.g., '4/4') for converting bars to beats."),
+      trackName: z.string().optional().describe("Audio FX track name (default FX); MIDI goes on '<name> Synth'."),
+      sampleRoots: z.array(z.string()).optional().describe("Folders to search for samples (default: the sample search defaults)."),
+      outputDir: z.string().optional().describe("Where to write rendered WAVs (default: a renders folder in the temp dir)."),
+      seed: SeedSchema.optional(),
+    }),
+  },
+);
+
 // 4. Put our tools into an array
 const tools = [
   grooveRecipe,
@@ -637,8 +1383,20 @@ const tools = [
   abletonRemoveTrack,
   abletonCaptureSnapshot,
   abletonListDevices,
+  abletonListDeviceParameters,
+  abletonSetDeviceParameters,
+  abletonToggleDevice,
   abletonQuickDrums,
   workflowCompositionsToAbleton,
+  workflowRenderArrangement,
+  workflowApplyMixDesign,
+  workflowApplyAutomation,
+  workflowImportClipAsMotif,
+  workflowImportMidiMotifs,
+  workflowImportMidiSection,
+  workflowTrainMelodyModel,
+  workflowRenderAudio,
+  workflowRealizeEarCandy,
   // Music production workflow tools (stages 1-9)
   ...allWorkflowTools,
   // sample tools
@@ -783,7 +1541,7 @@ async function chat_node(state: AgentState, config: RunnableConfig) {
   const modelWithTools = model.bindTools!(
     [
       ...convertActionsToDynamicStructuredTools(state.copilotkit?.actions ?? []),
-      ...tools,
+      ...withWorkflowState(tools, () => state.workflow ?? defaultWorkflowState),
     ],
   );
 
@@ -791,6 +1549,7 @@ async function chat_node(state: AgentState, config: RunnableConfig) {
   //     we also add in the language to use from the state.
   const project = state.project ?? {};
   const projectSummary = JSON.stringify(project);
+  const workflowSummary = summarizeWorkflowState(state.workflow ?? defaultWorkflowState);
 
   const systemMessage = new SystemMessage({
     content: [
@@ -840,12 +1599,20 @@ async function chat_node(state: AgentState, config: RunnableConfig) {
       "Time is in beats (0, 0.5, 1, 1.5... where 4 beats = 1 bar in 4/4)",
       "",
       "Use abletonApplyProjectSettings, abletonUpsertTracks, abletonRemoveTrack, and abletonCaptureSessionSnapshot to control the Live set.",
+      "Use abletonListDeviceParameters, abletonSetDeviceParameters and abletonToggleDevice to inspect and tweak device settings.",
       "Use sampleSearch to find audio samples locally and abletonInsertSampleClip to place them in the arrangement.",
       "Use workflowCompositionsToAbleton to convert workflow compositions directly to Ableton tracks.",
+      "Use workflowRenderArrangement to lay the macro structure and compositions out in Arrangement View as a linear track with section locators.",
+      "Use workflowApplyMixDesign to push the mix design (levels, pans, returns and sends, insert and master chains) into the Live set.",
+      "Use workflowApplyAutomation (try dryRun first) to write the mix design's automation passes as clip envelopes after the arrangement is rendered.",
+      "Use workflowImportClipAsMotif to bring a clip the user played into Live into the motif stage as a scored candidate before selecting motifs.",
+      "Use workflowImportMidiMotifs or workflowImportMidiSection when the user has a .mid file from another DAW: the first adds its tracks as motif candidates, the second turns it into a section's composition.",
+      "Use workflowTrainMelodyModel when the user shares MIDI or motifs they love, so later melodic candidates drift towards their style.",
+      "Use workflowRenderAudio to render a groove, motif or section to a WAV file when the user wants to hear candidates before committing them to Live.",
       "Call grooveRecipe or maxPatchOutline for creative prompts.",
       "",
       "CRITICAL - UI SYNC AFTER ABLETON MUTATIONS:",
-      "All Ableton tools (abletonApplyProjectSettings, abletonUpsertTracks, abletonRemoveTrack, abletonQuickDrums) now return a JSON object with a 'snapshot' field.",
+      "All Ableton tools (abletonApplyProjectSettings, abletonUpsertTracks, abletonRemoveTrack, abletonQuickDrums, workflowRenderArrangement, workflowApplyMixDesign) now return a JSON object with a 'snapshot' field.",
       "IMMEDIATELY after calling any Ableton tool, you MUST parse the snapshot and call the appropriate frontend actions:",
       "1. Call setProjectOverview with JSON: {\"tempo\": snapshot.tempo, \"timeSignature\": snapshot.timeSignature, \"genre\": <current genre>}",
       "2. For each track in snapshot.tracks, call upsertAbletonTrack with JSON: {\"id\": track.name, \"name\": track.name, \"type\": track.type, \"color\": track.colorHex}",
@@ -855,15 +1622,21 @@ async function chat_node(state: AgentState, config: RunnableConfig) {
       "",
       "MUSIC PRODUCTION WORKFLOW:",
       "When creating full tracks, follow these 9 stages using the workflow tools:",
-      "1. Brief Ingestion (workflowIngestBrief, workflowLockIntent) - Capture genre, mood, references, and rules",
+      "1. Brief Ingestion (workflowIngestBrief, workflowLockIntent) - Capture genre, mood, references, and rules; references that are WAV / AIFF paths get analyzed",
       "2. Style Prior (workflowBuildStylePrior) - Define BPM signature, swing profile, sound design traits",
       "3. Time Base (workflowGenerateGrooves, workflowScoreGrooves, workflowSelectTimeBase) - Create the foundation groove",
       "4. Palette (workflowAssemblePalette, workflowValidatePaletteCoverage) - Select sounds covering frequency spectrum",
-      "5. Motif Seeds (workflowGenerateMotifs, workflowScoreMotifs, workflowSelectTopMotifs) - Create melodic/rhythmic/harmonic seeds",
+      "5. Motif Seeds (workflowGenerateMotifs, workflowScoreMotifs, workflowEvolveMotifs, workflowSelectTopMotifs) - Create melodic/rhythmic/harmonic seeds; evolve them when the user wants to search further or favour particular qualities",
       "6. Macro Structure (workflowDraftMacroStructure, workflowValidateEnergyCurve) - Plan arrangement sections and energy curve",
-      "7. Compose (workflowComposeSection, workflowScoreComposition, workflowComposeAllSections) - Orchestrate each section",
-      "8. Variations (workflowApplyVariation, workflowGenerateEarCandy, workflowRunVariationPass) - Add variety and transitions",
-      "9. Mix Design (workflowAssembleMixDesign) - Create leveling, EQ/compression, spatial, and automation plans",
+      "7. Compose (workflowComposeSection, workflowScoreComposition, workflowComposeAllSections) - Orchestrate each section; workflowAnalyzeHarmony labels chord functions and cadences, and workflowReharmonize proposes borrowed chords, secondary dominants and extensions under a melody (pass a proposal's progression to workflowComposeSection)",
+      "8. Variations (workflowApplyVariation, workflowGenerateEarCandy, workflowRunVariationPass, workflowRealizeEarCandy) - Add variety and transitions, then turn the ear candy into clips",
+      "9. Mix Design (workflowCheckRuleCompliance, workflowAssembleMixDesign) - Check the brief rules, then create leveling, EQ/compression, spatial, and automation plans",
+      "",
+      "WORKFLOW STATE:",
+      "Workflow tool results are saved to the shared workflow state automatically and the UI updates from it.",
+      "Later stages read earlier artifacts (brief, spec, stylePrior, grooves, motifs, macroStructure, compositions, palette) from that state:",
+      "omit those arguments instead of pasting JSON, and do not call the setXxx workflow actions just to copy tool results.",
+      workflowSummary,
       "",
       `Current project snapshot: ${projectSummary}`,
     ].join("\n"),
@@ -912,6 +1685,13 @@ function mapDeviceTypeToCategory(deviceType: string): string {
   }
 }
 
+// Express a clip length the way blueprints do: whole bars when it divides evenly, beats otherwise
+function formatClipLength(lengthBeats: number, beatsPerBar: number): string {
+  const bars = lengthBeats / beatsPerBar;
+  if (Number.isInteger(bars)) return `${bars} ${bars === 1 ? "bar" : "bars"}`;
+  return `${lengthBeats} ${lengthBeats === 1 ? "beat" : "beats"}`;
+}
+
 // Helper to extract Ableton snapshot from tool results and build project state update
 function extractProjectUpdateFromToolResults(messages: BaseMessage[]): Partial<AgentState> | null {
   for (const msg of messages) {
@@ -927,6 +1707,7 @@ function extractProjectUpdateFromToolResults(messages: BaseMessage[]): Partial<A
       if (!parsed.snapshot || !parsed.syncRequired) continue;
 
       const snapshot = parsed.snapshot as AbletonSessionSnapshot;
+      const beatsPerBar = getBeatsPerBar(snapshot.timeSignature);
 
       // Build project state update from snapshot
       return {
@@ -943,10 +1724,17 @@ function extractProjectUpdateFromToolResults(messages: BaseMessage[]): Partial<A
               category: mapDeviceTypeToCategory(device.type),
               notes: device.isActive ? undefined : "(bypassed)",
             })),
-            clips: track.clipNames.map((clipName) => ({
-              name: clipName,
-              length: "4 bars",
-              notes: [],
+            clips: track.clips.map((clip) => ({
+              name: clip.name,
+              length: formatClipLength(clip.lengthBeats, beatsPerBar),
+              clipType: track.type === "Audio" ? "Audio" : "MIDI",
+              slotIndex: clip.slotIndex,
+              startTime: clip.startTime,
+              loopStart: clip.loopStart,
+              loopEnd: clip.loopEnd,
+              colorIndex: clip.colorIndex,
+              notes: (clip.notes ?? []).map(({ muted, ...note }) => (muted ? { ...note, muted } : note)),
+              notesTruncated: clip.notesTruncated,
             })),
           })),
         },
@@ -961,27 +1749,40 @@ function extractProjectUpdateFromToolResults(messages: BaseMessage[]): Partial<A
 // Define a dynamic tool node that merges static tools with CopilotKit actions
 async function dynamic_tool_node(state: AgentState, config: RunnableConfig) {
   const dynamicTools = convertActionsToDynamicStructuredTools(state.copilotkit?.actions ?? []);
-  const node = new ToolNode([...tools, ...dynamicTools]);
+  const workflowState = state.workflow ?? defaultWorkflowState;
+  const node = new ToolNode([...withWorkflowState(tools, () => workflowState), ...dynamicTools]);
   const result = await node.invoke(state as any, config as any);
+  let update: Partial<AgentState> = result;
 
-  // Auto-sync: Check if any Ableton tools returned snapshots and update project state
   const resultMessages = result.messages as BaseMessage[] | undefined;
   if (resultMessages?.length) {
+    // Auto-sync: Check if any Ableton tools returned snapshots and update project state
     const projectUpdate = extractProjectUpdateFromToolResults(resultMessages);
     if (projectUpdate) {
       // Merge project update with existing project state
       const currentProject = state.project ?? {};
-      return {
-        ...result,
+      update = {
+        ...update,
         project: {
           ...currentProject,
           ...projectUpdate.project,
         },
       };
     }
+
+    // Persist workflow artifacts produced by stage tools
+    const workflowUpdate = collectWorkflowUpdates(
+      resultMessages
+        .filter((msg) => msg._getType() === "tool" && typeof msg.content === "string")
+        .map((msg) => ({ toolName: msg.name ?? "", content: msg.content as string })),
+      workflowState,
+    );
+    if (workflowUpdate) {
+      update = { ...update, workflow: workflowUpdate };
+    }
   }
 
-  return result;
+  return update;
 }
 
 // Define the workflow graph
@@ -0,0 +1,875 @@
+import type {
+  BrowserCategory,
+  ClipProperties,
+  CuePointProperties,
+  DeviceParameterProperties,
+  DeviceProperties,
+  EnvelopeStep,
+  MixerDeviceProperties,
+  SessionBackend,
+  SessionBrowserItem,
+  SessionClip,
+  SessionClipSlot,
+  SessionCuePoint,
+  SessionDevice,
+  SessionDeviceParameter,
+  SessionMixerDevice,
+  SessionNote,
+  SessionTrack,
+  TempoPoint,
+  TimeSignatureChange,
+  TrackProperties,
+} from "./sessionBackend";
+
+/**
+ * In-memory simulation of a Live set.
+ *
+ * Implements the SessionBackend interface so the whole abletonClient can run
+ * without Ableton (tests, CI, UI development). Select it with
+ * ABLETON_BACKEND=mock or setSessionBackend(createMockBackend()).
+ * The raw state is exposed on `liveSet` for inspection and seeding.
+ */
+
+export type MockDeviceParameter = {
+  name: string;
+  min: number;
+  max: number;
+  value: number;
+  isQuantized: boolean;
+  valueItems: string[];
+};
+
+export type MockDevice = {
+  name: string;
+  className: string;
+  type: "instrument" | "audio_effect" | "midi_effect";
+  isActive: boolean;
+  parameters: MockDeviceParameter[];
+};
+
+export type MockMixer = {
+  volume: MockDeviceParameter;
+  panning: MockDeviceParameter;
+  /** One per return track */
+  sends: MockDeviceParameter[];
+};
+
+export type MockClip = {
+  name: string;
+  colorIndex: number;
+  looping: boolean;
+  loopStart: number;
+  loopEnd: number;
+  startMarker: number;
+  endMarker: number;
+  notes: SessionNote[];
+  /** Source file for audio clips */
+  filePath?: string;
+  /** Arrangement position in beats (arrangement clips only) */
+  startTime?: number;
+  envelopes?: MockEnvelope[];
+};
+
+export type MockEnvelope = {
+  parameter: MockDeviceParameter;
+  steps: EnvelopeStep[];
+};
+
+export type MockTrack = {
+  id: number;
+  name: string;
+  kind: "midi" | "audio" | "return" | "master";
+  colorIndex: number;
+  color: number;
+  mute: boolean;
+  arm: boolean;
+  clipSlots: Array<MockClip | null>;
+  arrangementClips: MockClip[];
+  devices: MockDevice[];
+  mixer: MockMixer;
+};
+
+export type MockCuePoint = {
+  name: string;
+  time: number;
+};
+
+export type MockBrowserNode = {
+  name: string;
+  isLoadable: boolean;
+  isFolder: boolean;
+  children?: MockBrowserNode[];
+  /** Device created when the node is loaded */
+  device?: Omit<MockDevice, "isActive" | "parameters">;
+};
+
+export type MockLiveSet = {
+  tempo: number;
+  signatureNumerator: number;
+  signatureDenominator: number;
+  isPlaying: boolean;
+  metronome: boolean;
+  overdub: boolean;
+  /** Arrangement playhead in beats */
+  songTime: number;
+  loop: boolean;
+  loopStart: number;
+  loopLength: number;
+  cuePoints: MockCuePoint[];
+  /** Arrangement tempo breakpoints, empty when the tempo is constant */
+  tempoAutomation: TempoPoint[];
+  timeSignatureChanges: TimeSignatureChange[];
+  sceneCount: number;
+  tracks: MockTrack[];
+  returnTracks: MockTrack[];
+  masterTrack: MockTrack;
+  selectedTrack: MockTrack | null;
+  browser: Record<BrowserCategory, MockBrowserNode[]>;
+};
+
+export interface MockSessionBackend extends SessionBackend {
+  readonly kind: "mock";
+  readonly liveSet: MockLiveSet;
+}
+
+// ============================================================================
+// Default browser tree
+// ============================================================================
+
+const deviceNode = (
+  name: string,
+  type: MockDevice["type"],
+  className = name.replace(/[^A-Za-z0-9]/g, ""),
+): MockBrowserNode => ({
+  name,
+  isLoadable: true,
+  isFolder: false,
+  device: { name, className, type },
+});
+
+const folderNode = (name: string, children: MockBrowserNode[]): MockBrowserNode => ({
+  name,
+  isLoadable: false,
+  isFolder: true,
+  children,
+});
+
+const createDefaultBrowser = (): Record<BrowserCategory, MockBrowserNode[]> => ({
+  instruments: [
+    deviceNode("Drum Rack", "instrument", "DrumGroupDevice"),
+    deviceNode("Instrument Rack", "instrument", "InstrumentGroupDevice"),
+    deviceNode("Analog", "instrument", "UltraAnalog"),
+    deviceNode("Drift", "instrument"),
+    deviceNode("Electric", "instrument", "LoungeLizard"),
+    deviceNode("Operator", "instrument"),
+    deviceNode("Sampler", "instrument", "MultiSampler"),
+    deviceNode("Simpler", "instrument", "OriginalSimpler"),
+    deviceNode("Tension", "instrument", "StringStudio"),
+    deviceNode("Wavetable", "instrument", "InstrumentVector"),
+    folderNode("Bass", [deviceNode("Sub Bass", "instrument", "InstrumentVector")]),
+  ],
+  audio_effects: [
+    deviceNode("Auto Filter", "audio_effect", "AutoFilter"),
+    deviceNode("Chorus-Ensemble", "audio_effect", "Chorus2"),
+    deviceNode("Compressor", "audio_effect", "Compressor2"),
+    deviceNode("Delay", "audio_effect"),
+    deviceNode("Echo", "audio_effect"),
+    deviceNode("EQ Eight", "audio_effect", "Eq8"),
+    deviceNode("Glue Compressor", "audio_effect", "GlueCompressor"),
+    deviceNode("Limiter", "audio_effect"),
+    deviceNode("Reverb", "audio_effect"),
+    deviceNode("Saturator", "audio_effect"),
+    deviceNode("Utility", "audio_effect", "StereoGain"),
+  ],
+  midi_effects: [
+    deviceNode("Arpeggiator", "midi_effect", "MidiArpeggiator"),
+    deviceNode("Chord", "midi_effect", "MidiChord"),
+    deviceNode("Scale", "midi_effect", "MidiScale"),
+  ],
+  drums: [
+    folderNode("Drum Hits", [deviceNode("909 Core Kit", "instrument", "DrumGroupDevice")]),
+    deviceNode("808 Core Kit", "instrument", "DrumGroupDevice"),
+  ],
+});
+
+// ============================================================================
+// Device parameters
+// ============================================================================
+
+const parameter = (name: string, min: number, max: number, value: number): MockDeviceParameter => ({
+  name,
+  min,
+  max,
+  value,
+  isQuantized: false,
+  valueItems: [],
+});
+
+const choice = (name: string, valueItems: string[], value = 0): MockDeviceParameter => ({
+  name,
+  min: 0,
+  max: valueItems.length - 1,
+  value,
+  isQuantized: true,
+  valueItems,
+});
+
+const toggle = (name: string, on: boolean) => choice(name, ["Off", "On"], on ? 1 : 0);
+
+const EQ_EIGHT_FILTER_TYPES = [
+  "Low Cut 48",
+  "Low Cut 12",
+  "Low Shelf",
+  "Bell",
+  "Notch",
+  "High Shelf",
+  "High Cut 12",
+  "High Cut 48",
+];
+
+// A representative subset of each native device's parameter list, named as in Live
+const DEVICE_PARAMETERS: Record<string, () => MockDeviceParameter[]> = {
+  Eq8: () =>
+    Array.from({ length: 8 }, (_, index) => {
+      const band = index + 1;
+      const edge = band === 1 || band === 8;
+      return [
+        toggle(`${band} Filter On A`, !edge),
+        choice(`${band} Filter Type A`, EQ_EIGHT_FILTER_TYPES, band === 1 ? 0 : band === 8 ? 7 : 3),
+        parameter(`${band} Frequency A`, 10, 22000, Math.round(30 * 2 ** index * 1.5)),
+        parameter(`${band} Gain A`, -15, 15, 0),
+        parameter(`${band} Resonance A`, 0.1, 18, 0.71),
+      ];
+    }).flat(),
+  Compressor2: () => [
+    parameter("Threshold", -70, 6, 0),
+    parameter("Ratio", 1, 100, 4),
+    parameter("Attack", 0.01, 1000, 2),
+    parameter("Release", 1, 3000, 50),
+    parameter("Output Gain", -36, 36, 0),
+    parameter("Dry/Wet", 0, 1, 1),
+  ],
+  GlueCompressor: () => [
+    parameter("Threshold", -40, 0, 0),
+    choice("Ratio", ["2", "4", "10"]),
+    choice("Attack", ["0.01", "0.1", "0.3", "1", "3", "10", "30"], 3),
+    choice("Release", ["0.1", "0.2", "0.4", "0.6", "0.8", "1.2", "Auto"], 6),
+    parameter("Makeup", 0, 20, 0),
+    parameter("Dry/Wet", 0, 1, 1),
+  ],
+  Saturator: () => [
+    parameter("Drive", -36, 36, 0),
+    parameter("Output", -36, 0, 0),
+    parameter("Dry/Wet", 0, 1, 1),
+  ],
+  Limiter: () => [parameter("Gain", -24, 24, 0), parameter("Ceiling", -24, 0, 0), parameter("Release", 0.01, 3000, 300)],
+  Reverb: () => [
+    parameter("Predelay", 0.5, 250, 2.5),
+    parameter("Room Size", 0.22, 500, 100),
+    parameter("Decay Time", 200, 60000, 1200),
+    parameter("Dry/Wet", 0, 1, 0.5),
+  ],
+  Delay: () => [
+    toggle("Link", true),
+    toggle("Ping Pong", false),
+    toggle("L Sync", true),
+    choice("L Sync Enum", ["1", "2", "3", "4", "5", "6", "8", "16"], 2),
+    parameter("Feedback", 0, 0.95, 0.5),
+    parameter("Dry/Wet", 0, 1, 0.5),
+  ],
+  AutoFilter: () => [
+    parameter("Frequency", 20, 20000, 2000),
+    parameter("Resonance", 0, 1.25, 0.2),
+    parameter("Dry/Wet", 0, 1, 1),
+  ],
+  InstrumentVector: () => [parameter("Filter 1 Freq", 20, 20000, 20000), parameter("Filter 1 Res", 0, 1, 0.1)],
+  UltraAnalog: () => [parameter("F1 Freq", 30, 18500, 18500), parameter("F1 Resonance", 0, 1, 0)],
+  StereoGain: () => [parameter("Gain", -35, 35, 0), parameter("Stereo Width", 0, 4, 1)],
+};
+
+const createDeviceParameters = (className: string): MockDeviceParameter[] => [
+  toggle("Device On", true),
+  ...(DEVICE_PARAMETERS[className]?.() ?? []),
+];
+
+const sendName = (index: number) => `${String.fromCharCode(65 + index)}-Send`;
+
+const createMixer = (sendCount: number): MockMixer => ({
+  volume: parameter("Track Volume", 0, 1, 0.85),
+  panning: parameter("Track Panning", -1, 1, 0),
+  sends: Array.from({ length: sendCount }, (_, index) => parameter(sendName(index), 0, 1, 0)),
+});
+
+export const createMockLiveSet = (overrides: Partial<MockLiveSet> = {}): MockLiveSet => ({
+  tempo: 120,
+  signatureNumerator: 4,
+  signatureDenominator: 4,
+  isPlaying: false,
+  metronome: false,
+  overdub: false,
+  songTime: 0,
+  loop: false,
+  loopStart: 0,
+  loopLength: 16,
+  cuePoints: [],
+  tempoAutomation: [],
+  timeSignatureChanges: [],
+  sceneCount: 8,
+  tracks: [],
+  returnTracks: [],
+  masterTrack: {
+    id: 0,
+    name: "Master",
+    kind: "master",
+    colorIndex: 0,
+    color: 0,
+    mute: false,
+    arm: false,
+    clipSlots: [],
+    arrangementClips: [],
+    devices: [],
+    mixer: createMixer(0),
+  },
+  selectedTrack: null,
+  browser: createDefaultBrowser(),
+  ...overrides,
+});
+
+// ============================================================================
+// Handles
+// ============================================================================
+
+const clipLength = (clip: MockClip) => clip.loopEnd - clip.loopStart;
+
+const clipStates = new WeakMap<SessionClip, MockClip>();
+const parameterStates = new WeakMap<SessionDeviceParameter, MockDeviceParameter>();
+
+const wrapClip = (clip: MockClip): SessionClip => {
+  const readers: { [K in keyof ClipProperties]: () => ClipProperties[K] } = {
+    name: () => clip.name,
+    length: () => clipLength(clip),
+    color_index: () => clip.colorIndex,
+    looping: () => clip.looping,
+    loop_start: () => clip.loopStart,
+    loop_end: () => clip.loopEnd,
+    start_marker: () => clip.startMarker,
+    end_marker: () => clip.endMarker,
+    start_time: () => clip.startTime ?? 0,
+  };
+
+  const inRange = (
+    note: SessionNote,
+    fromTime: number,
+    fromPitch: number,
+    timeSpan: number,
+    pitchSpan: number,
+  ) =>
+    note.time >= fromTime &&
+    note.time < fromTime + timeSpan &&
+    note.pitch >= fromPitch &&
+    note.pitch < fromPitch + pitchSpan;
+
+  const handle: SessionClip = {
+    get: async (prop) => readers[prop]() as ClipProperties[typeof prop],
+    set: async (prop, value) => {
+      switch (prop) {
+        case "name":
+          clip.name = value as string;
+          break;
+        case "color_index":
+          clip.colorIndex = value as number;
+          break;
+        case "looping":
+          clip.looping = value as boolean;
+          break;
+        case "loop_start":
+          clip.loopStart = value as number;
+          break;
+        case "loop_end":
+          clip.loopEnd = value as number;
+          break;
+        case "start_marker":
+          clip.startMarker = value as number;
+          break;
+        case "end_marker":
+          clip.endMarker = value as number;
+          break;
+      }
+    },
+    getNotes: async (fromTime, fromPitch, timeSpan, pitchSpan) =>
+      clip.notes
+        .filter((note) => inRange(note, fromTime, fromPitch, timeSpan, pitchSpan))
+        .map((note) => ({ ...note })),
+    setNotes: async (notes) => {
+      if (clip.filePath) {
+        throw new Error("Cannot set notes on an audio clip.");
+      }
+      clip.notes.push(...notes.map((note) => ({ ...note })));
+      clip.notes.sort((a, b) => a.time - b.time || a.pitch - b.pitch);
+    },
+    removeNotes: async (fromTime, fromPitch, timeSpan, pitchSpan) => {
+      clip.notes = clip.notes.filter(
+        (note) => !inRange(note, fromTime, fromPitch, timeSpan, pitchSpan),
+      );
+    },
+    writeEnvelope: async (handle, steps) => {
+      const parameter = parameterStates.get(handle);
+      if (!parameter) {
+        throw new Error("Parameter handle does not belong to this mock session.");
+      }
+      for (const step of steps) {
+        if (step.value < parameter.min || step.value > parameter.max) {
+          throw new Error(`Envelope value ${step.value} is out of range for "${parameter.name}".`);
+        }
+      }
+      const envelopes = (clip.envelopes ?? []).filter((envelope) => envelope.parameter !== parameter);
+      envelopes.push({ parameter, steps: steps.map((step) => ({ ...step })) });
+      clip.envelopes = envelopes;
+    },
+  };
+  clipStates.set(handle, clip);
+  return handle;
+};
+
+const wrapCuePoint = (cuePoint: MockCuePoint): SessionCuePoint => ({
+  get: async (prop) => cuePoint[prop] as CuePointProperties[typeof prop],
+  set: async (prop, value) => {
+    cuePoint[prop] = value;
+  },
+});
+
+const wrapParameter = (parameter: MockDeviceParameter): SessionDeviceParameter => {
+  const readers: { [K in keyof DeviceParameterProperties]: () => DeviceParameterProperties[K] } = {
+    name: () => parameter.name,
+    min: () => parameter.min,
+    max: () => parameter.max,
+    value: () => parameter.value,
+    is_quantized: () => parameter.isQuantized,
+    value_items: () => [...parameter.valueItems],
+  };
+
+  const handle: SessionDeviceParameter = {
+    get: async (prop) => readers[prop]() as DeviceParameterProperties[typeof prop],
+    set: async (_prop, value) => {
+      // Live rejects values outside the parameter range rather than clamping
+      if (!(value >= parameter.min && value <= parameter.max)) {
+        throw new Error(`Invalid value ${value} for "${parameter.name}" (${parameter.min}..${parameter.max}).`);
+      }
+      parameter.value = parameter.isQuantized ? Math.round(value) : value;
+    },
+  };
+  parameterStates.set(handle, parameter);
+  return handle;
+};
+
+const wrapMixer = (mixer: MockMixer): SessionMixerDevice => {
+  const readers: { [K in keyof MixerDeviceProperties]: () => MixerDeviceProperties[K] } = {
+    volume: () => wrapParameter(mixer.volume),
+    panning: () => wrapParameter(mixer.panning),
+    sends: () => mixer.sends.map(wrapParameter),
+  };
+
+  return {
+    get: async (prop) => readers[prop]() as MixerDeviceProperties[typeof prop],
+    set: async () => {},
+  };
+};
+
+const wrapDevice = (device: MockDevice): SessionDevice => {
+  const readers: { [K in keyof DeviceProperties]: () => DeviceProperties[K] } = {
+    name: () => device.name,
+    class_name: () => device.className,
+    // Live reports a device switched off through its "Device On" parameter as inactive
+    is_active: () => device.isActive && device.parameters.find((p) => p.name === "Device On")?.value !== 0,
+    can_have_drum_pads: () => device.className === "DrumGroupDevice",
+    can_have_chains: () => device.className.endsWith("GroupDevice"),
+    parameters: () => device.parameters.map(wrapParameter),
+  };
+
+  return {
+    get: async (prop) => readers[prop]() as DeviceProperties[typeof prop],
+    set: async () => {},
+  };
+};
+
+const wrapClipSlot = (track: MockTrack, index: number): SessionClipSlot => ({
+  get: async (prop) => {
+    const clip = track.clipSlots[index] ?? null;
+    if (prop === "has_clip") return (clip !== null) as never;
+    return (clip ? wrapClip(clip) : null) as never;
+  },
+  set: async () => {},
+  createClip: async (lengthBeats) => {
+    if (track.kind !== "midi") {
+      throw new Error("MIDI clips can only be created on MIDI tracks.");
+    }
+    if (track.clipSlots[index]) {
+      throw new Error("Clip slot already has a clip.");
+    }
+    if (!(lengthBeats > 0)) {
+      throw new Error(`Invalid clip length: ${lengthBeats}`);
+    }
+    track.clipSlots[index] = {
+      name: "",
+      colorIndex: track.colorIndex,
+      looping: true,
+      loopStart: 0,
+      loopEnd: lengthBeats,
+      startMarker: 0,
+      endMarker: lengthBeats,
+      notes: [],
+    };
+  },
+});
+
+const hasInstrument = (track: MockTrack) =>
+  track.devices.some((device) => device.type === "instrument");
+
+const trackHandles = new WeakMap<MockTrack, SessionTrack>();
+const trackStates = new WeakMap<SessionTrack, MockTrack>();
+
+const wrapTrack = (track: MockTrack): SessionTrack => {
+  const existing = trackHandles.get(track);
+  if (existing) return existing;
+
+  // Mirrors Live: a MIDI track only outputs audio once it hosts an instrument
+  const readers: { [K in keyof TrackProperties]: () => TrackProperties[K] } = {
+    name: () => track.name,
+    color_index: () => track.colorIndex,
+    color: () => track.color,
+    mute: () => track.mute,
+    arm: () => track.arm,
+    can_be_armed: () => track.kind === "midi" || track.kind === "audio",
+    has_midi_input: () => track.kind === "midi",
+    has_midi_output: () => track.kind === "midi" && !hasInstrument(track),
+    has_audio_input: () => track.kind !== "midi",
+    has_audio_output: () => track.kind !== "midi" || hasInstrument(track),
+    clip_slots: () => track.clipSlots.map((_, index) => wrapClipSlot(track, index)),
+    arrangement_clips: () => track.arrangementClips.map(wrapClip),
+    devices: () => track.devices.map(wrapDevice),
+    mixer_device: () => wrapMixer(track.mixer),
+  };
+
+  const handle: SessionTrack = {
+    get: async (prop) => readers[prop]() as TrackProperties[typeof prop],
+    set: async (prop, value) => {
+      switch (prop) {
+        case "name":
+          track.name = value as string;
+          break;
+        case "color_index":
+          track.colorIndex = value as number;
+          break;
+        case "color":
+          track.color = value as number;
+          break;
+        case "mute":
+          track.mute = value as boolean;
+          break;
+        case "arm":
+          if (track.kind === "return" || track.kind === "master") {
+            throw new Error(`${track.kind === "return" ? "Return" : "Master"} tracks cannot be armed.`);
+          }
+          track.arm = value as boolean;
+          break;
+      }
+    },
+    createAudioClip: async (filePath, positionBeats) => {
+      if (track.kind !== "audio") {
+        throw new Error("Audio clips can only be created on audio tracks.");
+      }
+      // Without decoding the file, assume a one-bar clip
+      const lengthBeats = 4;
+      track.arrangementClips.push({
+        name: filePath.split(/[\\/]/).pop()?.replace(/\.[^.]+$/, "") ?? filePath,
+        colorIndex: track.colorIndex,
+        looping: false,
+        loopStart: 0,
+        loopEnd: lengthBeats,
+        startMarker: 0,
+        endMarker: lengthBeats,
+        notes: [],
+        filePath,
+        startTime: positionBeats,
+      });
+    },
+    duplicateClipToArrangement: async (clip, timeBeats) => {
+      const source = clipStates.get(clip);
+      if (!source) {
+        throw new Error("Clip handle does not belong to this mock session.");
+      }
+      if (Boolean(source.filePath) !== (track.kind === "audio")) {
+        throw new Error("Clip type does not match the destination track.");
+      }
+      const length = clipLength(source);
+      // Live overwrites whatever the new clip covers
+      track.arrangementClips = track.arrangementClips.filter((existing) => {
+        const start = existing.startTime ?? 0;
+        return start < timeBeats || start >= timeBeats + length;
+      });
+      track.arrangementClips.push({
+        ...source,
+        notes: source.notes.map((note) => ({ ...note })),
+        envelopes: source.envelopes?.map((envelope) => ({ ...envelope, steps: [...envelope.steps] })),
+        startTime: timeBeats,
+      });
+      track.arrangementClips.sort((a, b) => (a.startTime ?? 0) - (b.startTime ?? 0));
+    },
+    deleteClip: async (clip) => {
+      const state = clipStates.get(clip);
+      const index = state ? track.arrangementClips.indexOf(state) : -1;
+      if (index < 0) {
+        throw new Error("Clip is not in this track's arrangement.");
+      }
+      track.arrangementClips.splice(index, 1);
+    },
+    deleteDevice: async (index) => {
+      if (!track.devices[index]) {
+        throw new Error(`No device at index ${index}.`);
+      }
+      track.devices.splice(index, 1);
+    },
+  };
+
+  trackHandles.set(track, handle);
+  trackStates.set(handle, track);
+  return handle;
+};
+
+const wrapBrowserNode = (node: MockBrowserNode): SessionBrowserItem => ({
+  name: node.name,
+  isLoadable: node.isLoadable,
+  isFolder: node.isFolder,
+  getChildren: async () => (node.children ?? []).map(wrapBrowserNode),
+});
+
+// ============================================================================
+// Backend
+// ============================================================================
+
+export const createMockBackend = (liveSet: MockLiveSet = createMockLiveSet()): MockSessionBackend => {
+  let nextTrackId = 1 + Math.max(0, ...[...liveSet.tracks, ...liveSet.returnTracks].map((t) => t.id));
+
+  const createTrack = (kind: "midi" | "audio" | "return"): MockTrack => {
+    const id = nextTrackId;
+    nextTrackId += 1;
+    const label = kind === "midi" ? "MIDI" : kind === "audio" ? "Audio" : "Return";
+    const count =
+      kind === "return"
+        ? liveSet.returnTracks.length
+        : liveSet.tracks.length;
+
+    return {
+      id,
+      name: kind === "return" ? `${String.fromCharCode(65 + count)}-Return` : `${count + 1}-${label}`,
+      kind,
+      colorIndex: 0,
+      color: 0,
+      mute: false,
+      arm: false,
+      // Return tracks have no clip slots in Live
+      clipSlots: kind === "return" ? [] : Array.from({ length: liveSet.sceneCount }, () => null),
+      arrangementClips: [],
+      devices: [],
+      mixer: createMixer(liveSet.returnTracks.length),
+    };
+  };
+
+  // Live gives every track (returns included) one send per return track
+  const sendingTracks = () => [...liveSet.tracks, ...liveSet.returnTracks];
+
+  const addTrack = (kind: "midi" | "audio") => {
+    const track = createTrack(kind);
+    liveSet.tracks.push(track);
+    return wrapTrack(track);
+  };
+
+  const findBrowserNode = (item: SessionBrowserItem): MockBrowserNode | null => {
+    const visit = (nodes: MockBrowserNode[]): MockBrowserNode | null => {
+      for (const node of nodes) {
+        if (node.name === item.name && node.isLoadable === item.isLoadable) return node;
+        const found = visit(node.children ?? []);
+        if (found) return found;
+      }
+      return null;
+    };
+    return visit(Object.values(liveSet.browser).flat());
+  };
+
+  return {
+    kind: "mock",
+    liveSet,
+    song: {
+      get: async (prop) => {
+        switch (prop) {
+          case "tempo":
+            return liveSet.tempo as never;
+          case "signature_numerator":
+            return liveSet.signatureNumerator as never;
+          case "signature_denominator":
+            return liveSet.signatureDenominator as never;
+          case "is_playing":
+            return liveSet.isPlaying as never;
+          case "metronome":
+            return (liveSet.metronome ? 1 : 0) as never;
+          case "overdub":
+            return liveSet.overdub as never;
+          case "current_song_time":
+            return liveSet.songTime as never;
+          case "loop":
+            return liveSet.loop as never;
+          case "loop_start":
+            return liveSet.loopStart as never;
+          case "loop_length":
+            return liveSet.loopLength as never;
+          case "cue_points":
+            return liveSet.cuePoints.map(wrapCuePoint) as never;
+          case "tracks":
+            return liveSet.tracks.map(wrapTrack) as never;
+          case "return_tracks":
+            return liveSet.returnTracks.map(wrapTrack) as never;
+          case "master_track":
+            return wrapTrack(liveSet.masterTrack) as never;
+        }
+        throw new Error(`Unknown song property: ${String(prop)}`);
+      },
+      set: async (prop, value) => {
+        switch (prop) {
+          case "tempo": {
+            const tempo = value as number;
+            if (tempo < 20 || tempo > 999) {
+              throw new Error(`Tempo out of range: ${tempo}`);
+            }
+            liveSet.tempo = tempo;
+            break;
+          }
+          case "signature_numerator":
+            liveSet.signatureNumerator = value as number;
+            break;
+          case "signature_denominator":
+            liveSet.signatureDenominator = value as number;
+            break;
+          case "is_playing":
+            liveSet.isPlaying = value as boolean;
+            break;
+          case "metronome":
+            liveSet.metronome = Boolean(value);
+            break;
+          case "overdub":
+            liveSet.overdub = value as boolean;
+            break;
+          case "current_song_time":
+            liveSet.songTime = Math.max(0, value as number);
+            break;
+          case "loop":
+            liveSet.loop = value as boolean;
+            break;
+          case "loop_start":
+            liveSet.loopStart = Math.max(0, value as number);
+            break;
+          case "loop_length":
+            if (!((value as number) > 0)) {
+              throw new Error(`Invalid loop length: ${value}`);
+            }
+            liveSet.loopLength = value as number;
+            break;
+        }
+      },
+      createMidiTrack: async () => addTrack("midi"),
+      createAudioTrack: async () => addTrack("audio"),
+      createReturnTrack: async () => {
+        const track = createTrack("return");
+        liveSet.returnTracks.push(track);
+        for (const sending of sendingTracks()) {
+          const index = sending.mixer.sends.length;
+          sending.mixer.sends.push(parameter(sendName(index), 0, 1, 0));
+        }
+        return wrapTrack(track);
+      },
+      deleteTrack: async (index) => {
+        if (!liveSet.tracks[index]) {
+          throw new Error(`No track at index ${index}.`);
+        }
+        const [removed] = liveSet.tracks.splice(index, 1);
+        if (liveSet.selectedTrack === removed) liveSet.selectedTrack = null;
+      },
+      deleteReturnTrack: async (index) => {
+        if (!liveSet.returnTracks[index]) {
+          throw new Error(`No return track at index ${index}.`);
+        }
+        const [removed] = liveSet.returnTracks.splice(index, 1);
+        if (liveSet.selectedTrack === removed) liveSet.selectedTrack = null;
+        for (const sending of sendingTracks()) {
+          sending.mixer.sends.splice(index, 1);
+          sending.mixer.sends.forEach((send, position) => {
+            send.name = sendName(position);
+          });
+        }
+      },
+      createScene: async () => {
+        liveSet.sceneCount += 1;
+        for (const track of liveSet.tracks) {
+          track.clipSlots.push(null);
+        }
+      },
+      safeStopPlaying: async () => {
+        liveSet.isPlaying = false;
+      },
+      selectTrack: async (handle) => {
+        const track = trackStates.get(handle);
+        if (!track) {
+          throw new Error("Track handle does not belong to this mock session.");
+        }
+        liveSet.selectedTrack = track;
+      },
+      setOrDeleteCue: async () => {
+        const index = liveSet.cuePoints.findIndex((cue) => cue.time === liveSet.songTime);
+        if (index >= 0) {
+          liveSet.cuePoints.splice(index, 1);
+          return;
+        }
+        // Live numbers new locators in creation order
+        liveSet.cuePoints.push({ name: String(liveSet.cuePoints.length + 1), time: liveSet.songTime });
+        liveSet.cuePoints.sort((a, b) => a.time - b.time);
+      },
+      writeTempoAutomation: async (points) => {
+        const outOfRange = points.find((point) => point.tempo < 20 || point.tempo > 999);
+        if (outOfRange) {
+          throw new Error(`Tempo out of range: ${outOfRange.tempo}`);
+        }
+        liveSet.tempoAutomation = points.map((point) => ({ ...point })).sort((a, b) => a.time - b.time);
+      },
+      writeTimeSignatureChanges: async (changes) => {
+        liveSet.timeSignatureChanges = changes.map((change) => ({ ...change })).sort((a, b) => a.time - b.time);
+      },
+    },
+    getBrowser: async () => ({
+      getItems: async (category) => liveSet.browser[category].map(wrapBrowserNode),
+      loadItem: async (item) => {
+        const node = findBrowserNode(item);
+        if (!node?.device) {
+          throw new Error(`Browser item "${item.name}" is not loadable.`);
+        }
+        const target = liveSet.selectedTrack;
+        if (!target) {
+          throw new Error("No track selected.");
+        }
+
+        const device: MockDevice = {
+          ...node.device,
+          isActive: true,
+          parameters: createDeviceParameters(node.device.className),
+        };
+        // Like Live, loading an instrument replaces the one already on the track
+        const instrumentIndex = target.devices.findIndex((d) => d.type === "instrument");
+        if (device.type === "instrument" && instrumentIndex >= 0) {
+          target.devices[instrumentIndex] = device;
+        } else if (device.type === "midi_effect") {
+          target.devices.unshift(device);
+        } else {
+          target.devices.push(device);
+        }
+      },
+    }),
+  };
+};
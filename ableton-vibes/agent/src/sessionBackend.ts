@@ -0,0 +1,427 @@
+import type { Ableton } from "ableton-js";
+import type { BrowserItem } from "ableton-js/ns/browser-item";
+import type { Clip } from "ableton-js/ns/clip";
+import type { ClipSlot } from "ableton-js/ns/clip-slot";
+import type { CuePoint } from "ableton-js/ns/cue-point";
+import type { Device } from "ableton-js/ns/device";
+import type { DeviceParameter } from "ableton-js/ns/device-parameter";
+import type { MixerDevice } from "ableton-js/ns/mixer-device";
+import type { Track } from "ableton-js/ns/track";
+import type { Color } from "ableton-js/util/color";
+
+/**
+ * Session backend abstraction.
+ *
+ * abletonClient talks to Live through these handles instead of ableton-js
+ * objects directly, so the same code can run against a real Live set
+ * (createLiveBackend) or the in-memory simulation in mockSession.ts.
+ * Property names follow the Live Object Model used by ableton-js.
+ */
+
+export type SessionNote = {
+  pitch: number;
+  time: number;
+  duration: number;
+  velocity: number;
+  muted: boolean;
+};
+
+/** One constant segment of a clip envelope, in clip beats */
+export type EnvelopeStep = {
+  time: number;
+  duration: number;
+  value: number;
+};
+
+/** Arrangement tempo breakpoint; tempo moves linearly to the next breakpoint */
+export type TempoPoint = {
+  time: number;
+  tempo: number;
+};
+
+/** Time signature taking effect at an arrangement position in beats */
+export type TimeSignatureChange = {
+  time: number;
+  numerator: number;
+  denominator: number;
+};
+
+export type BrowserCategory = "instruments" | "audio_effects" | "midi_effects" | "drums";
+
+type PropertyAccess<Gettable, Settable> = {
+  get<K extends keyof Gettable>(prop: K): Promise<Gettable[K]>;
+  set<K extends keyof Settable>(prop: K, value: Settable[K]): Promise<void>;
+};
+
+// ============================================================================
+// Handles
+// ============================================================================
+
+export type SongProperties = {
+  tempo: number;
+  signature_numerator: number;
+  signature_denominator: number;
+  is_playing: boolean;
+  metronome: number;
+  overdub: boolean;
+  /** Arrangement playhead position in beats */
+  current_song_time: number;
+  loop: boolean;
+  loop_start: number;
+  loop_length: number;
+  cue_points: SessionCuePoint[];
+  tracks: SessionTrack[];
+  return_tracks: SessionTrack[];
+  master_track: SessionTrack;
+};
+
+export type SongSettableProperties = Pick<
+  SongProperties,
+  | "tempo"
+  | "signature_numerator"
+  | "signature_denominator"
+  | "is_playing"
+  | "metronome"
+  | "overdub"
+  | "current_song_time"
+  | "loop"
+  | "loop_start"
+  | "loop_length"
+>;
+
+export interface SessionSong extends PropertyAccess<SongProperties, SongSettableProperties> {
+  createMidiTrack(): Promise<SessionTrack>;
+  createAudioTrack(): Promise<SessionTrack>;
+  createReturnTrack(): Promise<SessionTrack>;
+  deleteTrack(index: number): Promise<void>;
+  deleteReturnTrack(index: number): Promise<void>;
+  createScene(): Promise<void>;
+  safeStopPlaying(): Promise<void>;
+  selectTrack(track: SessionTrack): Promise<void>;
+  /** Toggles a cue point (locator) at current_song_time */
+  setOrDeleteCue(): Promise<void>;
+  /** Replaces the song tempo automation in the arrangement */
+  writeTempoAutomation(points: TempoPoint[]): Promise<void>;
+  /** Replaces the arrangement's time signature changes */
+  writeTimeSignatureChanges(changes: TimeSignatureChange[]): Promise<void>;
+}
+
+export type CuePointProperties = {
+  name: string;
+  time: number;
+};
+
+export type SessionCuePoint = PropertyAccess<CuePointProperties, Pick<CuePointProperties, "name">>;
+
+export type TrackProperties = {
+  name: string;
+  color_index: number;
+  /** Color as a 0xRRGGBB integer */
+  color: number;
+  mute: boolean;
+  arm: boolean;
+  can_be_armed: boolean;
+  has_midi_input: boolean;
+  has_midi_output: boolean;
+  has_audio_input: boolean;
+  has_audio_output: boolean;
+  clip_slots: SessionClipSlot[];
+  arrangement_clips: SessionClip[];
+  devices: SessionDevice[];
+  mixer_device: SessionMixerDevice;
+};
+
+export type TrackSettableProperties = Pick<
+  TrackProperties,
+  "name" | "color_index" | "color" | "mute" | "arm"
+>;
+
+export interface SessionTrack extends PropertyAccess<TrackProperties, TrackSettableProperties> {
+  /** Inserts an audio file as an arrangement clip at the given beat position */
+  createAudioClip(filePath: string, positionBeats: number): Promise<void>;
+  /** Copies a clip into this track's arrangement at the given beat position */
+  duplicateClipToArrangement(clip: SessionClip, timeBeats: number): Promise<void>;
+  /** Deletes one of this track's arrangement clips */
+  deleteClip(clip: SessionClip): Promise<void>;
+  /** Removes the device at the given index of the device chain */
+  deleteDevice(index: number): Promise<void>;
+}
+
+export type ClipSlotProperties = {
+  has_clip: boolean;
+  clip: SessionClip | null;
+};
+
+export interface SessionClipSlot extends PropertyAccess<ClipSlotProperties, Record<never, never>> {
+  createClip(lengthBeats: number): Promise<void>;
+}
+
+export type ClipProperties = {
+  name: string;
+  length: number;
+  color_index: number;
+  looping: boolean;
+  loop_start: number;
+  loop_end: number;
+  start_marker: number;
+  end_marker: number;
+  /** Arrangement position in beats (0 for session clips) */
+  start_time: number;
+};
+
+export type ClipSettableProperties = Pick<
+  ClipProperties,
+  "name" | "color_index" | "looping" | "loop_start" | "loop_end" | "start_marker" | "end_marker"
+>;
+
+export interface SessionClip extends PropertyAccess<ClipProperties, ClipSettableProperties> {
+  getNotes(fromTime: number, fromPitch: number, timeSpan: number, pitchSpan: number): Promise<SessionNote[]>;
+  setNotes(notes: SessionNote[]): Promise<void>;
+  removeNotes(fromTime: number, fromPitch: number, timeSpan: number, pitchSpan: number): Promise<void>;
+  /** Replaces the clip's automation envelope for a parameter on the clip's track */
+  writeEnvelope(parameter: SessionDeviceParameter, steps: EnvelopeStep[]): Promise<void>;
+}
+
+export type DeviceProperties = {
+  name: string;
+  class_name: string;
+  is_active: boolean;
+  can_have_drum_pads: boolean;
+  can_have_chains: boolean;
+  parameters: SessionDeviceParameter[];
+};
+
+export type SessionDevice = PropertyAccess<DeviceProperties, Record<never, never>>;
+
+export type DeviceParameterProperties = {
+  name: string;
+  /** Raw value range; many native parameters use their display unit, others 0..1 */
+  min: number;
+  max: number;
+  value: number;
+  is_quantized: boolean;
+  /** Labels for quantized parameters, indexed by value */
+  value_items: string[];
+};
+
+export type SessionDeviceParameter = PropertyAccess<
+  DeviceParameterProperties,
+  Pick<DeviceParameterProperties, "value">
+>;
+
+export type MixerDeviceProperties = {
+  /** Fader position, 0..1 with 0.85 at 0 dB */
+  volume: SessionDeviceParameter;
+  /** -1 (left) .. 1 (right) */
+  panning: SessionDeviceParameter;
+  /** One send per return track, in return track order */
+  sends: SessionDeviceParameter[];
+};
+
+export type SessionMixerDevice = PropertyAccess<MixerDeviceProperties, Record<never, never>>;
+
+export interface SessionBrowserItem {
+  readonly name: string;
+  readonly isLoadable: boolean;
+  readonly isFolder: boolean;
+  getChildren(): Promise<SessionBrowserItem[]>;
+}
+
+export interface SessionBrowser {
+  getItems(category: BrowserCategory): Promise<SessionBrowserItem[]>;
+  /** Loads the item onto the currently selected track */
+  loadItem(item: SessionBrowserItem): Promise<void>;
+}
+
+export interface SessionBackend {
+  readonly kind: "live" | "mock";
+  readonly song: SessionSong;
+  getBrowser(): Promise<SessionBrowser>;
+}
+
+// ============================================================================
+// Live backend (ableton-js)
+// ============================================================================
+
+type LiveNamespace = {
+  get(prop: string): Promise<unknown>;
+  set(prop: string, value: unknown): Promise<unknown>;
+};
+
+type Transforms<Gettable> = {
+  [K in keyof Gettable]?: (value: never) => Gettable[K];
+};
+
+const liveProperties = <Gettable, Settable>(
+  namespace: unknown,
+  transforms: Transforms<Gettable> = {},
+): PropertyAccess<Gettable, Settable> => ({
+  get: async (prop) => {
+    const value = await (namespace as LiveNamespace).get(prop as string);
+    const transform = transforms[prop] as ((value: unknown) => unknown) | undefined;
+    return (transform ? transform(value) : value) as Gettable[typeof prop];
+  },
+  set: async (prop, value) => {
+    await (namespace as LiveNamespace).set(prop as string, value);
+  },
+});
+
+const wrapLiveDeviceParameter = (parameter: DeviceParameter): SessionDeviceParameter =>
+  liveProperties<DeviceParameterProperties, Pick<DeviceParameterProperties, "value">>(parameter);
+
+const wrapLiveDevice = (device: Device): SessionDevice =>
+  liveProperties<DeviceProperties, Record<never, never>>(device, {
+    parameters: (parameters: DeviceParameter[]) => parameters.map(wrapLiveDeviceParameter),
+  });
+
+const wrapLiveMixerDevice = (mixer: MixerDevice): SessionMixerDevice =>
+  liveProperties<MixerDeviceProperties, Record<never, never>>(mixer, {
+    volume: wrapLiveDeviceParameter,
+    panning: wrapLiveDeviceParameter,
+    sends: (sends: DeviceParameter[]) => sends.map(wrapLiveDeviceParameter),
+  });
+
+const liveClips = new WeakMap<SessionClip, Clip>();
+
+const wrapLiveClip = (clip: Clip): SessionClip => {
+  const handle: SessionClip = {
+    ...liveProperties<ClipProperties, ClipSettableProperties>(clip),
+    getNotes: (fromTime, fromPitch, timeSpan, pitchSpan) =>
+      clip.getNotes(fromTime, fromPitch, timeSpan, pitchSpan),
+    setNotes: (notes) => clip.setNotes(notes),
+    removeNotes: async (fromTime, fromPitch, timeSpan, pitchSpan) => {
+      await clip.removeNotes(fromTime, fromPitch, timeSpan, pitchSpan);
+    },
+    // The ableton-js remote script has no binding for Clip.automation_envelope / insert_step
+    writeEnvelope: async () => {
+      throw new Error("Writing automation envelopes is not supported by the ableton-js remote script.");
+    },
+  };
+  liveClips.set(handle, clip);
+  return handle;
+};
+
+const unwrapLiveClip = (clip: SessionClip): Clip => {
+  const liveClip = liveClips.get(clip);
+  if (!liveClip) {
+    throw new Error("Clip handle does not belong to this Live session.");
+  }
+  return liveClip;
+};
+
+// ableton-js does not declare cue point names as settable, but the LOM allows it
+const wrapLiveCuePoint = (cuePoint: CuePoint): SessionCuePoint =>
+  liveProperties<CuePointProperties, Pick<CuePointProperties, "name">>(cuePoint);
+
+const wrapLiveClipSlot = (slot: ClipSlot): SessionClipSlot => ({
+  ...liveProperties<ClipSlotProperties, Record<never, never>>(slot, {
+    clip: (clip: Clip | null) => (clip ? wrapLiveClip(clip) : null),
+  }),
+  createClip: async (lengthBeats) => {
+    await slot.createClip(lengthBeats);
+  },
+});
+
+const liveTracks = new WeakMap<SessionTrack, Track>();
+
+const wrapLiveTrack = (track: Track): SessionTrack => {
+  const handle: SessionTrack = {
+    ...liveProperties<TrackProperties, TrackSettableProperties>(track, {
+      // ableton-js hands back a Color instance; the session API uses plain integers
+      color: (color: Color) => color.numberRepresentation,
+      clip_slots: (slots: ClipSlot[]) => slots.map(wrapLiveClipSlot),
+      arrangement_clips: (clips: Clip[]) => clips.map(wrapLiveClip),
+      devices: (devices: Device[]) => devices.map(wrapLiveDevice),
+      mixer_device: wrapLiveMixerDevice,
+    }),
+    createAudioClip: async (filePath, positionBeats) => {
+      await track.createAudioClip(filePath, positionBeats);
+    },
+    duplicateClipToArrangement: async (clip, timeBeats) => {
+      await track.duplicateClipToArrangement(unwrapLiveClip(clip), timeBeats);
+    },
+    deleteClip: async (clip) => {
+      await track.deleteClip(unwrapLiveClip(clip));
+    },
+    deleteDevice: async (index) => {
+      await track.deleteDevice(index);
+    },
+  };
+  liveTracks.set(handle, track);
+  return handle;
+};
+
+const liveBrowserItems = new WeakMap<SessionBrowserItem, BrowserItem>();
+
+const wrapLiveBrowserItem = (item: BrowserItem): SessionBrowserItem => {
+  const handle: SessionBrowserItem = {
+    name: item.raw.name,
+    isLoadable: item.raw.is_loadable,
+    isFolder: item.raw.is_folder,
+    getChildren: async () => (await item.get("children")).map(wrapLiveBrowserItem),
+  };
+  liveBrowserItems.set(handle, item);
+  return handle;
+};
+
+export const createLiveBackend = (instance: Ableton): SessionBackend => {
+  const song = instance.song;
+
+  return {
+    kind: "live",
+    song: {
+      ...liveProperties<SongProperties, SongSettableProperties>(song, {
+        cue_points: (cuePoints: CuePoint[]) => cuePoints.map(wrapLiveCuePoint),
+        tracks: (tracks: Track[]) => tracks.map(wrapLiveTrack),
+        return_tracks: (tracks: Track[]) => tracks.map(wrapLiveTrack),
+        master_track: wrapLiveTrack,
+      }),
+      createMidiTrack: async () => wrapLiveTrack(await song.createMidiTrack()),
+      createAudioTrack: async () => wrapLiveTrack(await song.createAudioTrack()),
+      createReturnTrack: async () => wrapLiveTrack(await song.createReturnTrack()),
+      deleteTrack: async (index) => {
+        await song.deleteTrack(index);
+      },
+      deleteReturnTrack: async (index) => {
+        await song.deleteReturnTrack(index);
+      },
+      createScene: async () => {
+        await song.createScene();
+      },
+      safeStopPlaying: async () => {
+        await song.safeStopPlaying();
+      },
+      selectTrack: async (track) => {
+        const liveTrack = liveTracks.get(track);
+        if (!liveTrack) {
+          throw new Error("Track handle does not belong to this Live session.");
+        }
+        // The remote script resolves the serialized track object, not its raw id
+        await song.view.set("selected_track", liveTrack as unknown as string);
+      },
+      setOrDeleteCue: async () => {
+        await song.setOrDeleteCue();
+      },
+      // The LOM exposes neither the master tempo envelope nor time signature markers
+      writeTempoAutomation: async () => {
+        throw new Error("Writing tempo automation is not supported by the ableton-js remote script.");
+      },
+      writeTimeSignatureChanges: async () => {
+        throw new Error("Writing time signature changes is not supported by the ableton-js remote script.");
+      },
+    },
+    getBrowser: async () => {
+      const browser = await instance.application.get("browser");
+      return {
+        getItems: async (category) => (await browser.get(category)).map(wrapLiveBrowserItem),
+        loadItem: async (item) => {
+          const liveItem = liveBrowserItems.get(item);
+          if (!liveItem) {
+            throw new Error(`Browser item "${item.name}" does not belong to this Live session.`);
+          }
+          await browser.loadItem(liveItem);
+        },
+      };
+    },
+  };
+};
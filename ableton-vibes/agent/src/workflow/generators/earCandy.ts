@@ -0,0 +1,108 @@
+/**
+ * Ear candy realization: how each ear candy type becomes sound, and the MIDI clip
+ * with filter automation that plays it on a synth track
+ */
+
+import type { AutomationPass, EarCandy, MotifNote } from "../types";
+
+export type EarCandyType = EarCandy["type"];
+export type EarCandyRealizationMethod = "render" | "sample" | "midi";
+
+/**
+ * Default realization per type, and the sample search terms for a library stand-in.
+ * Only vocal chops need a sample to sound right; stutters retrigger best as MIDI
+ */
+export const EAR_CANDY_REALIZATIONS: Record<
+  EarCandyType,
+  { method: EarCandyRealizationMethod; sampleQuery: string }
+> = {
+  riser: { method: "render", sampleQuery: "riser" },
+  downlifter: { method: "render", sampleQuery: "downlifter" },
+  impact: { method: "render", sampleQuery: "impact" },
+  sweep: { method: "render", sampleQuery: "sweep" },
+  stutter: { method: "midi", sampleQuery: "stutter" },
+  "vocal-chop": { method: "sample", sampleQuery: "vocal chop" },
+  reverse: { method: "render", sampleQuery: "reverse" },
+  "white-noise": { method: "render", sampleQuery: "white noise" },
+};
+
+/**
+ * MIDI stand-in per type: held pitches (or pitches cycled every `step` beats),
+ * how long to hold them, and filter cutoff values spread evenly over the event
+ */
+const MIDI_SHAPES: Record<EarCandyType, { pitches: number[]; step?: number; holdBeats?: number; cutoff: number[] }> = {
+  riser: { pitches: [48, 60], cutoff: [0.1, 1] },
+  downlifter: { pitches: [48, 60], cutoff: [1, 0.05] },
+  impact: { pitches: [36, 48], holdBeats: 1, cutoff: [1, 0.3] },
+  sweep: { pitches: [60, 67], cutoff: [0.15, 0.9, 0.15] },
+  stutter: { pitches: [60], step: 0.125, cutoff: [0.5, 1] },
+  "vocal-chop": { pitches: [60, 63, 67, 63], step: 0.25, cutoff: [0.7, 0.7] },
+  reverse: { pitches: [72], cutoff: [0.2, 1] },
+  "white-noise": { pitches: [84], cutoff: [0.3, 1] },
+};
+
+export type EarCandyMidiClip = {
+  name: string;
+  /** Arrangement position in bars, clamped to the start of the song */
+  startBar: number;
+  lengthBars: number;
+  notes: MotifNote[];
+  /** Filter cutoff keyframes at arrangement bars, 0-1 of the parameter range */
+  cutoff: Array<{ bar: number; value: number }>;
+};
+
+/**
+ * MIDI clip for an ear candy event. Events that start before bar 0 lose the part
+ * before it, so risers still land on their transition
+ */
+export function earCandyToMidiClip(candy: EarCandy, beatsPerBar = 4): EarCandyMidiClip {
+  const shape = MIDI_SHAPES[candy.type];
+  const lengthBeats = candy.duration * beatsPerBar;
+  const notes: MotifNote[] = [];
+
+  if (shape.step) {
+    const hits = Math.max(1, Math.round(lengthBeats / shape.step));
+    for (let i = 0; i < hits; i++) {
+      notes.push({
+        pitch: shape.pitches[i % shape.pitches.length]!,
+        time: i * shape.step,
+        duration: shape.step * 0.6,
+        // Crescendo across the event
+        velocity: Math.round(70 + (50 * i) / Math.max(hits - 1, 1)),
+      });
+    }
+  } else {
+    const duration = Math.min(shape.holdBeats ?? lengthBeats, lengthBeats);
+    notes.push(...shape.pitches.map((pitch) => ({ pitch, time: 0, duration, velocity: 100 })));
+  }
+
+  const trimBeats = Math.max(0, -candy.position) * beatsPerBar;
+  const startBar = Math.max(0, candy.position);
+  return {
+    name: `${candy.type} @ ${candy.position}`,
+    startBar,
+    lengthBars: candy.position + candy.duration - startBar,
+    notes: notes
+      .filter((note) => note.time + note.duration > trimBeats)
+      .map((note) => {
+        const time = Math.max(note.time, trimBeats);
+        return { ...note, time: time - trimBeats, duration: note.time + note.duration - time };
+      }),
+    cutoff: shape.cutoff.map((value, i) => ({
+      bar: candy.position + (candy.duration * i) / Math.max(shape.cutoff.length - 1, 1),
+      value,
+    })),
+  };
+}
+
+/**
+ * One filter cutoff automation pass covering every ear candy clip on a track
+ */
+export function earCandyAutomationPass(clips: EarCandyMidiClip[], trackName: string): AutomationPass {
+  return {
+    parameter: "filter_cutoff",
+    trackName,
+    keyframes: clips.flatMap((clip) => clip.cutoff).sort((a, b) => a.bar - b.bar),
+    purpose: `Ear candy filter moves (${clips.map((clip) => clip.name).join(", ")})`,
+  };
+}
@@ -4,7 +4,8 @@
  */
 
 import type { GrooveCandidate, StylePrior } from "../types";
-import { euclideanRhythm, humanizeVelocity } from "../utils/rhythmUtils";
+import { euclideanRhythm, getAccentedSteps, getStepsPerBar, humanizeVelocity } from "../utils/rhythmUtils";
+import { createRng, deriveSeed, randomSeed, seedTag, type Rng } from "../utils/random";
 
 /**
  * Generate a four-on-the-floor kick pattern
@@ -93,9 +94,9 @@ export function generateEuclideanHats(hits: number, steps: number = 16, rotation
 /**
  * Generate a house groove
  */
-export function generateHouseGroove(tempo: number = 124, swingAmount: number = 0): GrooveCandidate {
+export function generateHouseGroove(tempo: number = 124, swingAmount: number = 0, seed: number = randomSeed()): GrooveCandidate {
   return {
-    id: `house-groove-${Date.now()}`,
+    id: `house-groove-${seedTag(seed)}`,
     tempo,
     meter: "4/4",
     swingAmount,
@@ -105,13 +106,14 @@ export function generateHouseGroove(tempo: number = 124, swingAmount: number = 0
     velocityVariance: 10,
     humanization: { timingJitter: 5, velocityJitter: 8 },
     description: "Classic four-on-the-floor house groove",
+    seed,
   };
 }
 
 /**
  * Generate a techno groove
  */
-export function generateTechnoGroove(tempo: number = 130, variant: "minimal" | "driving" | "industrial" = "driving"): GrooveCandidate {
+export function generateTechnoGroove(tempo: number = 130, variant: "minimal" | "driving" | "industrial" = "driving", seed: number = randomSeed()): GrooveCandidate {
   const kickPatterns = {
     minimal: [0, 8],
     driving: generateFourOnFloorKick(),
@@ -125,7 +127,7 @@ export function generateTechnoGroove(tempo: number = 130, variant: "minimal" | "
   };
 
   return {
-    id: `techno-groove-${variant}-${Date.now()}`,
+    id: `techno-groove-${variant}-${seedTag(seed)}`,
     tempo,
     meter: "4/4",
     swingAmount: 0,
@@ -135,15 +137,16 @@ export function generateTechnoGroove(tempo: number = 130, variant: "minimal" | "
     velocityVariance: variant === "minimal" ? 5 : 15,
     humanization: { timingJitter: 3, velocityJitter: 5 },
     description: `${variant} techno groove`,
+    seed,
   };
 }
 
 /**
  * Generate a drum and bass groove
  */
-export function generateDnBGroove(tempo: number = 174): GrooveCandidate {
+export function generateDnBGroove(tempo: number = 174, seed: number = randomSeed()): GrooveCandidate {
   return {
-    id: `dnb-groove-${Date.now()}`,
+    id: `dnb-groove-${seedTag(seed)}`,
     tempo,
     meter: "4/4",
     swingAmount: 0,
@@ -153,15 +156,16 @@ export function generateDnBGroove(tempo: number = 174): GrooveCandidate {
     velocityVariance: 15,
     humanization: { timingJitter: 4, velocityJitter: 10 },
     description: "Two-step drum and bass groove",
+    seed,
   };
 }
 
 /**
  * Generate a UK garage / 2-step groove
  */
-export function generateUKGarageGroove(tempo: number = 130): GrooveCandidate {
+export function generateUKGarageGroove(tempo: number = 130, seed: number = randomSeed()): GrooveCandidate {
   return {
-    id: `ukg-groove-${Date.now()}`,
+    id: `ukg-groove-${seedTag(seed)}`,
     tempo,
     meter: "4/4",
     swingAmount: 35, // Shuffled feel
@@ -171,13 +175,14 @@ export function generateUKGarageGroove(tempo: number = 130): GrooveCandidate {
     velocityVariance: 20,
     humanization: { timingJitter: 8, velocityJitter: 15 },
     description: "Shuffled UK garage groove",
+    seed,
   };
 }
 
 /**
  * Generate a hip-hop groove
  */
-export function generateHipHopGroove(tempo: number = 90, variant: "boom-bap" | "trap" | "lo-fi" = "boom-bap"): GrooveCandidate {
+export function generateHipHopGroove(tempo: number = 90, variant: "boom-bap" | "trap" | "lo-fi" = "boom-bap", seed: number = randomSeed()): GrooveCandidate {
   const patterns = {
     "boom-bap": {
       kick: [0, 5, 8, 13],
@@ -201,7 +206,7 @@ export function generateHipHopGroove(tempo: number = 90, variant: "boom-bap" | "
 
   const p = patterns[variant];
   return {
-    id: `hiphop-groove-${variant}-${Date.now()}`,
+    id: `hiphop-groove-${variant}-${seedTag(seed)}`,
     tempo,
     meter: "4/4",
     swingAmount: p.swing,
@@ -211,15 +216,16 @@ export function generateHipHopGroove(tempo: number = 90, variant: "boom-bap" | "
     velocityVariance: 20,
     humanization: { timingJitter: 10, velocityJitter: 15 },
     description: `${variant} hip-hop groove`,
+    seed,
   };
 }
 
 /**
  * Generate a trance groove
  */
-export function generateTranceGroove(tempo: number = 138): GrooveCandidate {
+export function generateTranceGroove(tempo: number = 138, seed: number = randomSeed()): GrooveCandidate {
   return {
-    id: `trance-groove-${Date.now()}`,
+    id: `trance-groove-${seedTag(seed)}`,
     tempo,
     meter: "4/4",
     swingAmount: 0,
@@ -229,54 +235,105 @@ export function generateTranceGroove(tempo: number = 138): GrooveCandidate {
     velocityVariance: 5,
     humanization: { timingJitter: 2, velocityJitter: 3 },
     description: "Classic trance groove with offbeat hats",
+    seed,
+  };
+}
+
+/**
+ * Fit a groove to another meter, one bar long
+ * Patterns repeat to fill a longer bar and lose the steps past the end of a shorter one,
+ * and kicks are added on the meter's strong pulses so the new bar still reads clearly
+ */
+export function fitGrooveToMeter(groove: GrooveCandidate, meter: string): GrooveCandidate {
+  const current = groove.steps ?? 16;
+  const steps = getStepsPerBar(meter);
+  const fit = (pattern: number[]) => {
+    const fitted = new Set<number>();
+    for (let offset = 0; offset < steps; offset += current) {
+      for (const step of pattern) {
+        if (step + offset < steps) fitted.add(step + offset);
+      }
+    }
+    return [...fitted].sort((a, b) => a - b);
+  };
+  const fitValues = (values: GrooveCandidate["stepVelocities"], fallback: number) =>
+    values &&
+    Object.fromEntries(
+      Object.entries(values).map(([lane, laneValues]) => [
+        lane,
+        Array.from({ length: steps }, (_, i) => laneValues?.[i % current] ?? fallback),
+      ])
+    );
+
+  return {
+    ...groove,
+    id: `${groove.id}-${meter.replace("/", "-")}`,
+    meter,
+    steps,
+    kickPattern: fit([...groove.kickPattern, ...getAccentedSteps(meter)]),
+    snarePattern: fit(groove.snarePattern),
+    hatPattern: fit(groove.hatPattern),
+    percPattern: groove.percPattern && fit(groove.percPattern),
+    stepVelocities: fitValues(groove.stepVelocities, 0),
+    stepProbabilities: fitValues(groove.stepProbabilities, 100),
+    description: `${groove.description} in ${meter}`,
   };
 }
 
 /**
  * Generate multiple groove candidates based on style prior
+ * Candidates are written in 4/4 and fitted to any other meter
  */
-export function generateGrooveCandidates(stylePrior: StylePrior, count: number = 5): GrooveCandidate[] {
+export function generateGrooveCandidates(
+  stylePrior: StylePrior,
+  count: number = 5,
+  seed: number = randomSeed(),
+  meter: string = "4/4"
+): GrooveCandidate[] {
   const candidates: GrooveCandidate[] = [];
   const genreKeywords = stylePrior.guardrails.energyProfile.toLowerCase();
   const baseTempo = stylePrior.bpmSignature.typical;
   const swing = stylePrior.swingProfile.amount;
+  // Each candidate gets its own seed derived from its position in the list
+  const nextSeed = () => deriveSeed(seed, candidates.length);
 
   // Generate genre-appropriate candidates
   if (genreKeywords.includes("house")) {
-    candidates.push(generateHouseGroove(baseTempo, swing));
-    candidates.push(generateHouseGroove(baseTempo + 2, swing + 10));
+    candidates.push(generateHouseGroove(baseTempo, swing, nextSeed()));
+    candidates.push(generateHouseGroove(baseTempo + 2, swing + 10, nextSeed()));
   }
 
   if (genreKeywords.includes("techno")) {
-    candidates.push(generateTechnoGroove(baseTempo, "driving"));
-    candidates.push(generateTechnoGroove(baseTempo, "minimal"));
-    candidates.push(generateTechnoGroove(baseTempo, "industrial"));
+    candidates.push(generateTechnoGroove(baseTempo, "driving", nextSeed()));
+    candidates.push(generateTechnoGroove(baseTempo, "minimal", nextSeed()));
+    candidates.push(generateTechnoGroove(baseTempo, "industrial", nextSeed()));
   }
 
   if (genreKeywords.includes("dnb") || genreKeywords.includes("drum") || genreKeywords.includes("bass")) {
-    candidates.push(generateDnBGroove(baseTempo));
+    candidates.push(generateDnBGroove(baseTempo, nextSeed()));
   }
 
   if (genreKeywords.includes("garage") || genreKeywords.includes("2-step")) {
-    candidates.push(generateUKGarageGroove(baseTempo));
+    candidates.push(generateUKGarageGroove(baseTempo, nextSeed()));
   }
 
   if (genreKeywords.includes("hip") || genreKeywords.includes("hop") || genreKeywords.includes("trap")) {
-    candidates.push(generateHipHopGroove(baseTempo, "boom-bap"));
-    candidates.push(generateHipHopGroove(baseTempo, "trap"));
-    candidates.push(generateHipHopGroove(baseTempo, "lo-fi"));
+    candidates.push(generateHipHopGroove(baseTempo, "boom-bap", nextSeed()));
+    candidates.push(generateHipHopGroove(baseTempo, "trap", nextSeed()));
+    candidates.push(generateHipHopGroove(baseTempo, "lo-fi", nextSeed()));
   }
 
   if (genreKeywords.includes("trance")) {
-    candidates.push(generateTranceGroove(baseTempo));
+    candidates.push(generateTranceGroove(baseTempo, nextSeed()));
   }
 
   // If no specific genre matched, generate generic candidates
   if (candidates.length === 0) {
-    candidates.push(generateHouseGroove(baseTempo, swing));
-    candidates.push(generateTechnoGroove(baseTempo, "driving"));
+    candidates.push(generateHouseGroove(baseTempo, swing, nextSeed()));
+    candidates.push(generateTechnoGroove(baseTempo, "driving", nextSeed()));
+    const customSeed = nextSeed();
     candidates.push({
-      id: `custom-groove-${Date.now()}`,
+      id: `custom-groove-${seedTag(customSeed)}`,
       tempo: baseTempo,
       meter: "4/4",
       swingAmount: swing,
@@ -286,11 +343,13 @@ export function generateGrooveCandidates(stylePrior: StylePrior, count: number =
       velocityVariance: 12,
       humanization: { timingJitter: 6, velocityJitter: 10 },
       description: "Custom euclidean groove",
+      seed: customSeed,
     });
   }
 
   // Limit to requested count
-  return candidates.slice(0, count);
+  const limited = candidates.slice(0, count);
+  return meter === "4/4" ? limited : limited.map((groove) => fitGrooveToMeter(groove, meter));
 }
 
 /**
@@ -298,44 +357,49 @@ export function generateGrooveCandidates(stylePrior: StylePrior, count: number =
  * @param pattern - Array of step positions (0-15 for 16th notes)
  * @param timingJitter - Max timing variation in percentage of step (0-100)
  * @param velocityJitter - Max velocity variation
+ * @param rng - Random source (pass a seeded one for reproducible output)
  */
 export function humanizePattern(
   pattern: number[],
   timingJitter: number = 5,
-  velocityJitter: number = 10
+  velocityJitter: number = 10,
+  rng: Rng = Math.random
 ): Array<{ step: number; velocity: number }> {
   return pattern.map((step) => {
     // Apply simple random offset for timing (scaled by jitter percentage)
-    const offset = (Math.random() - 0.5) * (timingJitter / 50);
+    const offset = (rng() - 0.5) * (timingJitter / 50);
     return {
       step: step + offset,
-      velocity: humanizeVelocity(100, velocityJitter),
+      velocity: humanizeVelocity(100, velocityJitter, rng),
     };
   });
 }
 
 /**
  * Mutate a groove to create variations
+ * The same groove, amount and seed always produce the same mutation
  */
-export function mutateGroove(groove: GrooveCandidate, mutationAmount: number = 0.2): GrooveCandidate {
+export function mutateGroove(groove: GrooveCandidate, mutationAmount: number = 0.2, seed: number = randomSeed()): GrooveCandidate {
+  const rng = createRng(seed);
+  const steps = groove.steps ?? 16;
   const mutate = (pattern: number[]): number[] => {
     const mutated = [...pattern];
     const mutations = Math.floor(pattern.length * mutationAmount);
 
     for (let i = 0; i < mutations; i++) {
-      const action = Math.random();
-      const idx = Math.floor(Math.random() * mutated.length);
+      const action = rng();
+      const idx = Math.floor(rng() * mutated.length);
 
       if (action < 0.33 && mutated.length > 1) {
         // Remove a step
         mutated.splice(idx, 1);
       } else if (action < 0.66) {
         // Shift a step
-        const newStep = (mutated[idx]! + (Math.random() < 0.5 ? 1 : -1) + 16) % 16;
+        const newStep = (mutated[idx]! + (rng() < 0.5 ? 1 : -1) + steps) % steps;
         mutated[idx] = newStep;
       } else {
         // Add a step
-        const newStep = Math.floor(Math.random() * 16);
+        const newStep = Math.floor(rng() * steps);
         if (!mutated.includes(newStep)) {
           mutated.push(newStep);
         }
@@ -347,9 +411,10 @@ export function mutateGroove(groove: GrooveCandidate, mutationAmount: number = 0
 
   return {
     ...groove,
-    id: `${groove.id}-mutated-${Date.now()}`,
+    id: `${groove.id}-mutated-${seedTag(seed)}`,
     kickPattern: mutate(groove.kickPattern),
     hatPattern: mutate(groove.hatPattern),
     description: `${groove.description} (mutated)`,
+    seed,
   };
 }
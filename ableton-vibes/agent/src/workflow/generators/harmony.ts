@@ -3,8 +3,21 @@
  * Generate chord progressions and harmonic structures
  */
 
-import type { HarmonyProgression, StylePrior } from "../types";
-import { noteNameToPitch, getScalePitchClasses, CHORDS, SCALES } from "../utils/musicTheory";
+import type { HarmonyProgression, MotifNote, StylePrior } from "../types";
+import {
+  noteNameToPitch,
+  getScalePitchClasses,
+  getPitchClass,
+  quantizeToScale,
+  chordSymbolToPitches,
+  formatChordSymbol,
+  parseChordSymbol,
+  scaleDegreeToPitch,
+  CHORD_SUFFIXES,
+  CHORDS,
+  SCALES,
+} from "../utils/musicTheory";
+import { createRng, deriveSeed, pickRandom, randomSeed, type Rng } from "../utils/random";
 
 /**
  * Common chord progression templates
@@ -37,44 +50,82 @@ export const PROGRESSION_TEMPLATES: Record<string, { degrees: number[]; name: st
 };
 
 /**
- * Get the chord quality for a scale degree
+ * Scale steps stacked on a chord root: thirds for triads and sevenths up to thirteenths,
+ * a second or fourth in place of the third for sus chords
  */
-function getChordQualityForDegree(
+export const DIATONIC_VOICINGS = {
+  triad: [0, 2, 4],
+  seventh: [0, 2, 4, 6],
+  ninth: [0, 2, 4, 6, 8],
+  eleventh: [0, 2, 4, 6, 8, 10],
+  thirteenth: [0, 2, 4, 6, 8, 12],
+  add9: [0, 2, 4, 8],
+  sus2: [0, 1, 4],
+  sus4: [0, 3, 4],
+} as const;
+
+export type ChordVoicing = keyof typeof DIATONIC_VOICINGS;
+
+/**
+ * Pitches of the chord built on a scale degree from the scale's own notes, so every
+ * mode gets its own chord qualities (a dorian IV is major, a minor iv is minor)
+ */
+export function diatonicChordPitches(
   degree: number,
-  scale: "major" | "minor" | "dorian" | "mixolydian" | "phrygian"
-): "maj" | "min" | "dim" | "aug" {
-  const qualities: Record<string, Array<"maj" | "min" | "dim" | "aug">> = {
-    major: ["maj", "min", "min", "maj", "maj", "min", "dim"],
-    minor: ["min", "dim", "maj", "min", "min", "maj", "maj"],
-    dorian: ["min", "min", "maj", "maj", "min", "dim", "maj"],
-    mixolydian: ["maj", "min", "dim", "maj", "min", "min", "maj"],
-    phrygian: ["min", "maj", "maj", "min", "dim", "maj", "min"],
-  };
+  key: string,
+  scale: keyof typeof SCALES,
+  voicing: ChordVoicing = "triad",
+  octave: number = 3
+): number[] {
+  return DIATONIC_VOICINGS[voicing].map((step) => scaleDegreeToPitch(degree + step, key, scale, octave));
+}
 
-  const scaleQualities = qualities[scale] || qualities.major;
-  return scaleQualities[(degree - 1) % 7]!;
+/**
+ * Seven-note scale chords are stacked from: the scale itself, or for pentatonic and
+ * other scales the major or minor scale they come from
+ */
+const chordScale = (scale: string): keyof typeof SCALES =>
+  SCALES[scale]?.length === 7 ? scale : scale.toLowerCase().includes("minor") ? "minor" : "major";
+
+/**
+ * Chord type whose intervals above the root are exactly these, if there is one
+ */
+function chordTypeOf(pitches: number[]): string | undefined {
+  const intervals = pitches.map((p) => p - pitches[0]!);
+  return Object.keys(CHORDS).find(
+    (type) => CHORDS[type]!.length === intervals.length && CHORDS[type]!.every((n, i) => n === intervals[i])
+  );
 }
 
 /**
  * Convert scale degree to chord symbol
+ * Extended voicings drop their top notes until they spell a named chord (a phrygian
+ * i9 is written as i7), and fall back to the triad when none does
  */
 export function degreeToChord(
   degree: number,
   key: string,
-  scale: keyof typeof SCALES = "major"
+  scale: keyof typeof SCALES = "major",
+  voicing: ChordVoicing = "triad"
 ): string {
-  const scalePitchClasses = getScalePitchClasses(key, scale);
-  const rootPitchClass = scalePitchClasses[(degree - 1) % scalePitchClasses.length]!;
-
-  // Convert pitch class to note name
-  const noteNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
-  const rootNote = noteNames[rootPitchClass]!;
-
-  // Get chord quality based on scale degree and mode
-  const simpleScale = scale.includes("minor") ? "minor" : "major";
-  const quality = getChordQualityForDegree(degree, simpleScale as any);
+  const parent = chordScale(scale);
+  const pitches = diatonicChordPitches(degree, key, parent, voicing);
+  for (let size = pitches.length; size >= 3; size--) {
+    const type = chordTypeOf(pitches.slice(0, size));
+    if (type) return formatChordSymbol(pitches[0]!, type);
+  }
+  return voicing === "triad" ? formatChordSymbol(pitches[0]!, "major") : degreeToChord(degree, key, parent);
+}
 
-  return `${rootNote}${quality}`;
+/**
+ * Progression templates that suit a scale: minor-flavoured templates for scales
+ * with a minor third and no major third, major ones otherwise
+ */
+export function progressionTemplatesForScale(scale: keyof typeof SCALES): string[] {
+  const intervals = SCALES[scale] ?? SCALES.major!;
+  return intervals.includes(3) && !intervals.includes(4)
+    ? ["i-VI-III-VII", "i-iv-VII-III", "i-VI-VII-i"]
+    : ["I-V-vi-IV", "I-IV-V-I", "vi-IV-I-V"];
 }
 
 /**
@@ -84,7 +135,8 @@ export function generateProgressionFromTemplate(
   templateName: string,
   key: string,
   scale: keyof typeof SCALES = "major",
-  beatsPerChord: number = 4
+  beatsPerChord: number = 4,
+  voicing: ChordVoicing = "triad"
 ): HarmonyProgression[] {
   const template = PROGRESSION_TEMPLATES[templateName];
   if (!template) {
@@ -93,7 +145,7 @@ export function generateProgressionFromTemplate(
 
   return template.degrees.map((degree, index) => ({
     startBeat: index * beatsPerChord,
-    chord: degreeToChord(degree, key, scale),
+    chord: degreeToChord(degree, key, scale, voicing),
     duration: beatsPerChord,
   }));
 }
@@ -179,7 +231,8 @@ export function generateRandomProgression(
   key: string,
   scale: keyof typeof SCALES = "minor",
   chordCount: number = 4,
-  beatsPerChord: number = 4
+  beatsPerChord: number = 4,
+  rng: Rng = Math.random
 ): HarmonyProgression[] {
   // Common chord movement rules (which degrees commonly follow which)
   const transitions: Record<number, number[]> = {
@@ -204,7 +257,7 @@ export function generateRandomProgression(
 
     // Pick next chord from valid transitions
     const validNext = transitions[currentDegree] || [1];
-    currentDegree = validNext[Math.floor(Math.random() * validNext.length)]!;
+    currentDegree = pickRandom(rng, validNext);
   }
 
   return progression;
@@ -244,7 +297,8 @@ export function extendProgression(
 export function generateProgressionCandidates(
   stylePrior: StylePrior,
   key: string = "C",
-  count: number = 5
+  count: number = 5,
+  seed: number = randomSeed()
 ): Array<{ name: string; progression: HarmonyProgression[] }> {
   const candidates: Array<{ name: string; progression: HarmonyProgression[] }> = [];
   const genreKeywords = stylePrior.guardrails.energyProfile.toLowerCase();
@@ -279,8 +333,8 @@ export function generateProgressionCandidates(
   // Add generic progressions if needed
   if (candidates.length < count) {
     candidates.push({ name: "Basic I-IV-V-I", progression: generateBasicProgression(key, defaultScale) });
-    candidates.push({ name: "Random variation 1", progression: generateRandomProgression(key, defaultScale, 4) });
-    candidates.push({ name: "Random variation 2", progression: generateRandomProgression(key, defaultScale, 8, 2) });
+    candidates.push({ name: "Random variation 1", progression: generateRandomProgression(key, defaultScale, 4, 4, createRng(deriveSeed(seed, 1))) });
+    candidates.push({ name: "Random variation 2", progression: generateRandomProgression(key, defaultScale, 8, 2, createRng(deriveSeed(seed, 2))) });
   }
 
   return candidates.slice(0, count);
@@ -293,21 +347,14 @@ export function transposeProgression(
   progression: HarmonyProgression[],
   semitones: number
 ): HarmonyProgression[] {
-  const noteNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
-
   return progression.map((chord) => {
-    // Extract root note and quality
-    const match = chord.chord.match(/^([A-G]#?)(.*)$/);
-    if (!match) return chord;
-
-    const [, rootNote, quality] = match;
-    const rootIndex = noteNames.indexOf(rootNote!);
-    const newIndex = (rootIndex + semitones + 12) % 12;
-    const newRoot = noteNames[newIndex]!;
+    const parsed = parseChordSymbol(chord.chord);
+    if (!parsed) return chord;
 
+    const shift = (note: string) => noteNameToPitch(note) + semitones;
     return {
       ...chord,
-      chord: `${newRoot}${quality}`,
+      chord: formatChordSymbol(shift(parsed.root), parsed.type, parsed.bass ? shift(parsed.bass) : undefined),
     };
   });
 }
@@ -324,18 +371,14 @@ export function analyzeProgressionMood(progression: HarmonyProgression[]): {
   let diminishedCount = 0;
 
   for (const chord of progression) {
-    const chordLower = chord.chord.toLowerCase();
-
-    // Check for diminished first
-    if (chordLower.includes("dim")) {
+    // Chord quality comes from the third and fifth above the root
+    const parsed = parseChordSymbol(chord.chord);
+    const intervals = parsed ? CHORDS[parsed.type] ?? [] : [];
+    if (intervals.includes(3) && intervals.includes(6)) {
       diminishedCount++;
-    }
-    // Check for minor (but not in "dim")
-    else if (chordLower.includes("min") || (chordLower.includes("m") && !chordLower.includes("maj"))) {
+    } else if (intervals.includes(3)) {
       minorCount++;
-    }
-    // Major chords
-    else if (chordLower.includes("maj") || /^[a-g][#b]?$/.test(chordLower)) {
+    } else if (intervals.includes(4)) {
       majorCount++;
     }
   }
@@ -356,3 +399,512 @@ export function analyzeProgressionMood(progression: HarmonyProgression[]): {
 
   return { mood, tension };
 }
+
+/**
+ * Modes a chord is most often borrowed from, most common first
+ */
+export const PARALLEL_MODES = ["minor", "harmonicMinor", "major", "dorian", "mixolydian", "phrygian", "lydian"];
+
+/**
+ * Chords on a scale degree borrowed from the parallel modes (modal interchange), such as
+ * the minor iv or the bVI in a major key. Only chords that differ from the key's own are listed
+ */
+export function modalInterchangeOptions(
+  degree: number,
+  key: string,
+  scale: keyof typeof SCALES = "major",
+  voicing: ChordVoicing = "triad"
+): Array<{ chord: string; mode: string }> {
+  const seen = new Set([degreeToChord(degree, key, scale, voicing)]);
+  const options: Array<{ chord: string; mode: string }> = [];
+  for (const mode of PARALLEL_MODES) {
+    const chord = degreeToChord(degree, key, mode, voicing);
+    if (seen.has(chord)) continue;
+    seen.add(chord);
+    options.push({ chord, mode });
+  }
+  return options;
+}
+
+const parseOrThrow = (chord: string) => {
+  const parsed = parseChordSymbol(chord);
+  if (!parsed) {
+    throw new Error(`Unknown chord symbol: ${chord}`);
+  }
+  return { ...parsed, root: noteNameToPitch(parsed.root) };
+};
+
+const DOMINANT_TYPES: Record<string, string> = {
+  triad: "major",
+  seventh: "dominant7",
+  ninth: "dominant9",
+  thirteenth: "dominant13",
+};
+
+/**
+ * The dominant a fifth above a chord, which resolves onto it (V7/x)
+ */
+export function secondaryDominant(
+  target: string,
+  voicing: "triad" | "seventh" | "ninth" | "thirteenth" = "seventh"
+): string {
+  return formatChordSymbol(parseOrThrow(target).root + 7, DOMINANT_TYPES[voicing]!);
+}
+
+/**
+ * Tritone substitution: the dominant seventh a tritone away, which shares the original's
+ * third and seventh. Extended dominants keep their extension
+ */
+export function tritoneSubstitution(dominant: string): string {
+  const { root, type } = parseOrThrow(dominant);
+  return formatChordSymbol(root + 6, type.startsWith("dominant") ? type : "dominant7");
+}
+
+const EXTENDED_TYPES: Record<string, Record<string, string>> = {
+  seventh: { major: "major7", minor: "minor7", dominant: "dominant7", diminished: "halfDiminished7" },
+  ninth: { major: "major9", minor: "minor9", dominant: "dominant9" },
+  eleventh: { minor: "minor11", dominant: "dominant11" },
+  thirteenth: { major: "major13", minor: "minor13", dominant: "dominant13" },
+  add9: { major: "majorAdd9", minor: "minorAdd9" },
+  sus2: { major: "sus2", minor: "sus2" },
+  sus4: { major: "sus4", minor: "sus4", dominant: "dominant7sus4" },
+};
+
+/**
+ * Family a chord type is extended within: dominant, major, minor or diminished
+ */
+function chordFamily(type: string): string | undefined {
+  const intervals = CHORDS[type] ?? [];
+  if (type.startsWith("dominant")) return "dominant";
+  if (intervals.includes(3)) return intervals.includes(6) ? "diminished" : "minor";
+  if (intervals.includes(4) && intervals.includes(7)) return "major";
+  return undefined;
+}
+
+/**
+ * Add a seventh, ninth, eleventh or thirteenth to a chord, or turn it into a sus or
+ * add9 chord, keeping its quality and any slash bass. Chords the extension doesn't suit
+ * (such as an eleventh on a major chord, which clashes with its third) are left as they are
+ */
+export function extendChord(
+  chord: string,
+  extension: Exclude<ChordVoicing, "triad">
+): string {
+  const { root, type, bass } = parseOrThrow(chord);
+  const family = chordFamily(type);
+  const extended = family ? EXTENDED_TYPES[extension]?.[family] : undefined;
+  return extended ? formatChordSymbol(root, extended, bass ? noteNameToPitch(bass) : undefined) : chord;
+}
+
+/**
+ * A chord with one of its own tones in the bass: 1 is first inversion (third in the
+ * bass), 2 second inversion, 3 the seventh in the bass. 0 is root position
+ */
+export function invertChord(chord: string, inversion: number): string {
+  const { root, type } = parseOrThrow(chord);
+  const intervals = CHORDS[type]!;
+  return formatChordSymbol(root, type, root + intervals[inversion % intervals.length]!);
+}
+
+/**
+ * A chord over any bass note, e.g. "Fmaj/G"
+ */
+export function slashChord(chord: string, bass: string): string {
+  const { root, type } = parseOrThrow(chord);
+  return formatChordSymbol(root, type, noteNameToPitch(bass));
+}
+
+export type HarmonicFunction = "tonic" | "predominant" | "dominant" | "chromatic";
+
+/**
+ * Where a chord comes from relative to the key
+ */
+export type ChordSource = "diatonic" | "borrowed" | "secondaryDominant" | "tritoneSubstitution" | "chromatic";
+
+/**
+ * One chord of a progression labelled with its function in the key
+ */
+export interface ChordFunction {
+  startBeat: number;
+  chord: string;
+  /** Roman numeral, e.g. "ii7", "bVI", "V7/V", "subV7" */
+  roman: string;
+  /** Scale degree of the root, when the root is in the key */
+  degree?: number;
+  function: HarmonicFunction;
+  source: ChordSource;
+  /** Parallel mode a borrowed chord comes from */
+  borrowedFrom?: string;
+  /** Chord tone in the bass: 0 root position, 1 first inversion and so on; undefined for other slash basses */
+  inversion?: number;
+}
+
+export type CadenceType = "authentic" | "plagal" | "half" | "deceptive";
+
+export interface Cadence {
+  type: CadenceType;
+  /** Beat the resolving chord starts on */
+  startBeat: number;
+  chords: [string, string];
+}
+
+export interface HarmonyAnalysis {
+  key: string;
+  scale: string;
+  chords: ChordFunction[];
+  cadences: Cadence[];
+  /** Percent of chords that are diatonic to the key */
+  diatonicShare: number;
+}
+
+const ROMAN_NUMERALS = ["I", "II", "III", "IV", "V", "VI", "VII"];
+
+// Function of each scale degree: tonic family (I, iii, vi), predominants (ii, IV), dominants (V, vii)
+const DEGREE_FUNCTIONS: HarmonicFunction[] = [
+  "tonic",
+  "predominant",
+  "tonic",
+  "predominant",
+  "dominant",
+  "tonic",
+  "dominant",
+];
+
+/**
+ * Roman numeral for a chord on a degree: upper case for major-third chords, lower case
+ * for minor and diminished ones, with the quality marks ° ø + and the chord's extension
+ */
+function romanNumeral(degree: number, type: string, accidental = ""): string {
+  const family = chordFamily(type);
+  const numeral = ROMAN_NUMERALS[(degree - 1) % 7]!;
+  const base = `${accidental}${family === "minor" || family === "diminished" ? numeral.toLowerCase() : numeral}`;
+
+  if (type === "diminished") return `${base}°`;
+  if (type === "diminished7") return `${base}°7`;
+  if (type === "halfDiminished7") return `${base}ø7`;
+  if (type === "augmented") return `${base}+`;
+  const suffix = CHORD_SUFFIXES[type] ?? "";
+  if (suffix === "maj" || suffix === "min") return base;
+  return `${base}${family === "minor" ? suffix.replace(/^m/, "") : suffix}`;
+}
+
+/**
+ * Label each chord of a progression with its harmonic function (tonic, predominant or
+ * dominant) and roman numeral in the key, recognising borrowed chords, secondary
+ * dominants and tritone substitutions, then find the cadences between them
+ */
+export function analyzeHarmony(
+  progression: HarmonyProgression[],
+  key: string,
+  scale: keyof typeof SCALES = "major"
+): HarmonyAnalysis {
+  const tonic = noteNameToPitch(key);
+  const home = chordScale(scale);
+  const parsed = progression.map((chord) => parseChordSymbol(chord.chord));
+  const relativeRoot = (i: number) => {
+    const chord = parsed[i];
+    return chord ? getPitchClass(noteNameToPitch(chord.root) - tonic) : undefined;
+  };
+
+  // Degree of a root relative to the tonic in a scale, if the scale has it
+  const degreeIn = (root: number, mode: string) => (SCALES[mode] ?? []).indexOf(root) + 1;
+  const isDiatonicIn = (root: number, type: string, mode: string) =>
+    (CHORDS[type] ?? []).every((interval) => degreeIn(getPitchClass(root + interval), mode) > 0);
+  // A borrowed root a semitone off the key's own degree is written with a flat or sharp (bVI, #iv)
+  const borrowedNumeral = (degree: number, type: string, root: number) => {
+    const own = SCALES[home]![degree - 1]!;
+    const accidental = root === own ? "" : getPitchClass(root - own) === 11 ? "b" : "#";
+    return romanNumeral(degree, type, accidental);
+  };
+
+  const chords = progression.map((chord, i): ChordFunction => {
+    const symbol = parsed[i];
+    const root = relativeRoot(i);
+    const base = { startBeat: chord.startBeat, chord: chord.chord };
+    if (!symbol || root === undefined) {
+      return { ...base, roman: "?", function: "chromatic", source: "chromatic" };
+    }
+
+    const { type } = symbol;
+    const bassInterval = symbol.bass ? getPitchClass(noteNameToPitch(symbol.bass) - tonic - root) : 0;
+    const inversionIndex = (CHORDS[type] ?? []).findIndex((interval) => getPitchClass(interval) === bassInterval);
+    const inversion = inversionIndex >= 0 ? inversionIndex : undefined;
+    const nextRoot = relativeRoot(i + 1);
+    const dominantQuality = type === "major" || type.startsWith("dominant");
+
+    if (isDiatonicIn(root, type, home)) {
+      const degree = degreeIn(root, home);
+      return {
+        ...base,
+        roman: romanNumeral(degree, type),
+        degree,
+        function: DEGREE_FUNCTIONS[degree - 1]!,
+        source: "diatonic",
+        inversion,
+      };
+    }
+
+    // A dominant a semitone above the chord it resolves to stands in for that chord's V
+    if (type.startsWith("dominant") && nextRoot !== undefined && getPitchClass(root - nextRoot) === 1) {
+      const target = degreeIn(nextRoot, home);
+      const roman = romanNumeral(5, type).replace("V", "subV");
+      return {
+        ...base,
+        roman: target > 1 ? `${roman}/${romanNumeral(target, parsed[i + 1]!.type)}` : roman,
+        function: "dominant",
+        source: "tritoneSubstitution",
+        inversion,
+      };
+    }
+
+    // A dominant a fifth above a diatonic chord other than the tonic tonicises it
+    const target = degreeIn(getPitchClass(root + 5), home);
+    const targetType = target > 0 ? degreeToChord(target, key, home) : "";
+    const secondary = dominantQuality && target > 1 && !targetType.endsWith("dim");
+    const resolves = nextRoot === getPitchClass(root + 5);
+    const borrowedFrom = PARALLEL_MODES.find((mode) => mode !== home && isDiatonicIn(root, type, mode));
+
+    if (secondary && (resolves || !borrowedFrom)) {
+      const targetSymbol = parseChordSymbol(targetType)!;
+      return {
+        ...base,
+        roman: `${romanNumeral(5, type)}/${romanNumeral(target, targetSymbol.type)}`,
+        function: "dominant",
+        source: "secondaryDominant",
+        inversion,
+      };
+    }
+
+    if (borrowedFrom) {
+      const degree = degreeIn(root, borrowedFrom);
+      return {
+        ...base,
+        roman: borrowedNumeral(degree, type, root),
+        degree: degreeIn(root, home) || undefined,
+        function: DEGREE_FUNCTIONS[degree - 1]!,
+        source: "borrowed",
+        borrowedFrom,
+        inversion,
+      };
+    }
+
+    return { ...base, roman: "?", function: "chromatic", source: "chromatic", inversion };
+  });
+
+  return {
+    key,
+    scale,
+    chords,
+    cadences: detectCadences(chords),
+    diatonicShare: chords.length > 0
+      ? Math.round((chords.filter((c) => c.source === "diatonic").length / chords.length) * 100)
+      : 100,
+  };
+}
+
+/**
+ * Cadences in an analysed progression: V to I is authentic, IV to I plagal, V to vi
+ * deceptive, and a phrase stopping on V (the last chord, or every fourth chord when the next
+ * isn't a tonic) is a half cadence
+ */
+export function detectCadences(chords: ChordFunction[]): Cadence[] {
+  const cadences: Cadence[] = [];
+  const isDominant = (c: ChordFunction) => c.source !== "secondaryDominant" && c.function === "dominant";
+
+  chords.forEach((chord, i) => {
+    const previous = chords[i - 1];
+    if (previous) {
+      const pair: [string, string] = [previous.chord, chord.chord];
+      let type: CadenceType | undefined;
+      if (isDominant(previous) && chord.degree === 1 && chord.function === "tonic") type = "authentic";
+      else if (isDominant(previous) && chord.degree === 6 && chord.function === "tonic") type = "deceptive";
+      else if (previous.degree === 4 && previous.function === "predominant" && chord.degree === 1) type = "plagal";
+      if (type) cadences.push({ type, startBeat: chord.startBeat, chords: pair });
+    }
+
+    // A phrase ending on V that doesn't go on to resolve
+    const next = chords[i + 1];
+    const phraseEnd = !next || ((i + 1) % 4 === 0 && next.function !== "tonic");
+    if (previous && phraseEnd && chord.degree === 5 && isDominant(chord)) {
+      cadences.push({ type: "half", startBeat: chord.startBeat, chords: [previous.chord, chord.chord] });
+    }
+  });
+
+  return cadences;
+}
+
+/**
+ * Chord sounding at a beat, if the progression covers it
+ */
+export function chordAt(
+  progression: HarmonyProgression[],
+  beat: number
+): HarmonyProgression | undefined {
+  return progression.find((chord) => beat >= chord.startBeat && beat < chord.startBeat + chord.duration);
+}
+
+/**
+ * Nearest pitch to a target whose pitch class is in the set (ties resolve downwards)
+ */
+function nearestPitchInClasses(target: number, pitchClasses: number[]): number {
+  for (let distance = 0; distance <= 6; distance++) {
+    if (pitchClasses.includes(getPitchClass(target - distance))) return target - distance;
+    if (pitchClasses.includes(getPitchClass(target + distance))) return target + distance;
+  }
+  return target;
+}
+
+/**
+ * Shortest signed move between two pitch classes (-6 to 5 semitones)
+ */
+function shortestShift(from: number, to: number): number {
+  const shift = (((to - from) % 12) + 12) % 12;
+  return shift > 5 ? shift - 12 : shift;
+}
+
+const isStrongBeat = (time: number) => Math.abs(time - Math.round(time)) < 0.01;
+
+/**
+ * Voice a chord in close position near a center pitch, picking the inversion that
+ * moves least from the previous voicing
+ */
+export function voiceLeadChord(
+  chordPitches: number[],
+  previous?: number[],
+  center: number = 60
+): number[] {
+  const pitchClasses = [...new Set(chordPitches.map(getPitchClass))];
+  let best: number[] = [];
+  let bestCost = Infinity;
+
+  // Every inversion appears once as the lowest note walks through an octave below the center
+  for (let lowest = center - 12; lowest < center; lowest++) {
+    if (!pitchClasses.includes(getPitchClass(lowest))) continue;
+
+    const voicing = [lowest];
+    for (let pitch = lowest + 1; voicing.length < pitchClasses.length; pitch++) {
+      if (pitchClasses.includes(getPitchClass(pitch))) voicing.push(pitch);
+    }
+
+    const mean = voicing.reduce((sum, p) => sum + p, 0) / voicing.length;
+    const cost = previous?.length
+      ? voicing.reduce((sum, p) => sum + Math.min(...previous.map((q) => Math.abs(p - q))), 0)
+      : Math.abs(mean - center);
+    if (cost < bestCost) {
+      best = voicing;
+      bestCost = cost;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Fit a bass motif to a progression, keeping its rhythm
+ * The first note under each chord plays the root, a note leading into a new chord
+ * becomes a scale step towards the next root, and the rest follow the motif's
+ * contour on chord tones
+ */
+export function realizeBassLine(
+  notes: MotifNote[],
+  progression: HarmonyProgression[],
+  key: string,
+  scale: keyof typeof SCALES = "minor"
+): MotifNote[] {
+  const sorted = [...notes].sort((a, b) => a.time - b.time);
+  const anchor = sorted[0]?.pitch ?? 36;
+  const scaleClasses = getScalePitchClasses(key, scale);
+
+  return sorted.map((note, i) => {
+    const chord = chordAt(progression, note.time);
+    const tones = chord ? chordSymbolToPitches(chord.chord, 2) : [];
+    if (!chord || tones.length === 0) return note;
+
+    const root = tones[0]!;
+    const previousChord = i > 0 ? chordAt(progression, sorted[i - 1]!.time) : undefined;
+    if (previousChord !== chord) return { ...note, pitch: root };
+
+    const next = sorted[i + 1];
+    const nextChord = next ? chordAt(progression, next.time) : undefined;
+    const nextRoot = nextChord ? chordSymbolToPitches(nextChord.chord, 2)[0] : undefined;
+    if (nextChord && nextChord.chord !== chord.chord && nextRoot !== undefined) {
+      // Approach the next root by step from the side the line is coming from
+      const direction = nextRoot >= root ? -1 : 1;
+      let passing = nextRoot + direction;
+      while (!scaleClasses.includes(getPitchClass(passing))) passing += direction;
+      return { ...note, pitch: passing };
+    }
+
+    return { ...note, pitch: nearestPitchInClasses(root + note.pitch - anchor, tones.map(getPitchClass)) };
+  });
+}
+
+/**
+ * Fit a melodic line to a progression: the line moves into the key, follows each
+ * chord's root by the shortest transposition, is quantized to the scale, and lands
+ * on chord tones on the beat
+ */
+export function fitMelodyToHarmony(
+  notes: MotifNote[],
+  progression: HarmonyProgression[],
+  key: string,
+  scale: keyof typeof SCALES = "minor",
+  motifKey: string = key
+): MotifNote[] {
+  const tonic = getPitchClass(noteNameToPitch(key));
+  const keyShift = shortestShift(getPitchClass(noteNameToPitch(motifKey)), tonic);
+
+  return notes.map((note) => {
+    const chord = chordAt(progression, note.time);
+    const tones = chord ? chordSymbolToPitches(chord.chord) : [];
+    if (!chord || tones.length === 0) {
+      return { ...note, pitch: quantizeToScale(note.pitch + keyShift, key, scale) };
+    }
+
+    const chordShift = shortestShift(tonic, getPitchClass(tones[0]!));
+    const pitch = quantizeToScale(note.pitch + keyShift + chordShift, key, scale);
+    return {
+      ...note,
+      pitch: isStrongBeat(note.time) ? nearestPitchInClasses(pitch, tones.map(getPitchClass)) : pitch,
+    };
+  });
+}
+
+/**
+ * Render a harmonic motif as voiced chords: every onset plays the chord sounding at
+ * that time, voice-led from the one before and cut off at the chord change
+ */
+export function realizeChordVoice(
+  notes: MotifNote[],
+  progression: HarmonyProgression[]
+): MotifNote[] {
+  if (notes.length === 0) return [];
+
+  const center = Math.round(notes.reduce((sum, n) => sum + n.pitch, 0) / notes.length);
+  const onsets = new Map<number, MotifNote[]>();
+  for (const note of [...notes].sort((a, b) => a.time - b.time)) {
+    onsets.set(note.time, [...(onsets.get(note.time) ?? []), note]);
+  }
+
+  const realized: MotifNote[] = [];
+  let previous: number[] | undefined;
+  for (const [time, group] of onsets) {
+    const chord = chordAt(progression, time);
+    const tones = chord ? chordSymbolToPitches(chord.chord) : [];
+    if (!chord || tones.length === 0) {
+      realized.push(...group);
+      continue;
+    }
+
+    const voicing = voiceLeadChord(tones, previous, center);
+    previous = voicing;
+    const duration = Math.min(
+      Math.max(...group.map((n) => n.duration)),
+      chord.startBeat + chord.duration - time
+    );
+    const velocity = Math.max(...group.map((n) => n.velocity));
+    realized.push(...voicing.map((pitch) => ({ pitch, time, duration, velocity })));
+  }
+
+  return realized;
+}
@@ -2,3 +2,8 @@ export * from "./groove";
 export * from "./motif";
 export * from "./harmony";
 export * from "./rhythm";
+export * from "./modulation";
+export * from "./earCandy";
+export * from "./motifEvolution";
+export * from "./melodyModel";
+export * from "./reharmonization";
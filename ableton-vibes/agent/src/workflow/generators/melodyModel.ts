@@ -0,0 +1,295 @@
+/**
+ * Trainable melody model
+ * Counts pitch-interval n-grams conditioned on scale degree, and rhythm n-grams
+ * (time to the next onset plus note length) conditioned on position in the bar,
+ * from motifs the team likes; sampling those counts writes new melodies in the same style
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { MelodyModelSchema, type MelodyModel, type MotifNote, type MotifSeed } from "../types";
+import { getPitchClass, noteNameToPitch, quantizeToScale, SCALES } from "../utils/musicTheory";
+import { resolveLocalPath } from "../utils/audioFile";
+import type { Rng } from "../utils/random";
+
+/**
+ * Melodic material to learn from: motif notes in their key, measured in their meter
+ */
+export type MelodySource = Pick<MotifSeed, "notes" | "key" | "scale"> & {
+  /** Where the phrase ends (default: end of the last note) */
+  lengthBeats?: number;
+  beatsPerBar?: number;
+};
+
+export const DEFAULT_MELODY_MODEL_PATH = "~/.ableton-vibes/melody-model.json";
+
+/** Context key every n-gram also counts under, for when no specific context matches */
+const ANY = "*";
+const MAX_INTERVAL = 12;
+
+const quantizeBeats = (beats: number) => Math.max(0.125, Math.round(beats * 8) / 8);
+
+const scaleIntervals = (scale: string): readonly number[] =>
+  SCALES[scale as keyof typeof SCALES] ?? Array.from({ length: 12 }, (_, i) => i);
+
+/**
+ * Scale degree of a pitch ("0" is the tonic); pitches outside the scale are
+ * "c" plus their semitones above the tonic
+ */
+function scaleDegree(pitch: number, key: string, scale: string): string {
+  const semitones = getPitchClass(pitch - noteNameToPitch(key));
+  const degree = scaleIntervals(scale).indexOf(semitones);
+  return degree >= 0 ? `${degree}` : `c${semitones}`;
+}
+
+/**
+ * Pitch of a scale degree token in the given octave
+ */
+function degreeToPitch(degree: string, key: string, scale: string, octave: number): number {
+  const tonic = noteNameToPitch(`${key}${octave}`);
+  if (degree.startsWith("c")) return tonic + Number(degree.slice(1));
+
+  const intervals = scaleIntervals(scale);
+  return tonic + (intervals[Number(degree) % intervals.length] ?? 0);
+}
+
+/**
+ * Sixteenth-note step within the bar, so downbeats and off-beats learn their own rhythms
+ */
+const barPosition = (time: number, beatsPerBar: number) => `${Math.round((time % beatsPerBar) * 4)}`;
+
+/**
+ * Fold leaps wider than an octave back inside it, keeping their direction
+ */
+function foldInterval(interval: number): number {
+  let folded = interval;
+  while (Math.abs(folded) > MAX_INTERVAL) folded -= 12 * Math.sign(folded);
+  return folded;
+}
+
+/**
+ * The melody line of a part: one note per onset, the highest where notes are stacked
+ */
+function melodyLine(notes: MotifNote[]): MotifNote[] {
+  const byOnset = new Map<number, MotifNote>();
+  for (const note of notes) {
+    const onset = Math.round(note.time * 8) / 8;
+    const current = byOnset.get(onset);
+    if (!current || note.pitch > current.pitch) byOnset.set(onset, { ...note, time: onset });
+  }
+  return [...byOnset.values()].sort((a, b) => a.time - b.time);
+}
+
+const count = (table: Record<string, Record<string, number>>, context: string, outcome: string) => {
+  const row = (table[context] ??= {});
+  row[outcome] = (row[outcome] ?? 0) + 1;
+};
+
+/**
+ * Count an outcome under every history length up to the model order, plus the catch-all
+ */
+const countWithBackoff = (
+  table: Record<string, Record<string, number>>,
+  condition: string,
+  history: string[],
+  outcome: string,
+  order: number
+) => {
+  for (let length = 0; length < order && length <= history.length; length++) {
+    count(table, `${condition}|${history.slice(history.length - length).join(",")}`, outcome);
+  }
+  count(table, ANY, outcome);
+};
+
+/**
+ * A model that has not seen any material yet
+ */
+export function createMelodyModel(order = 3): MelodyModel {
+  return { version: 1, order, motifs: 0, notes: 0, starts: {}, intervals: {}, rhythms: {} };
+}
+
+/**
+ * Add melodies to a model's counts. Training again on more material refines the
+ * same model; the input model is left untouched
+ */
+export function trainMelodyModel(
+  sources: MelodySource[],
+  options: { order?: number; model?: MelodyModel } = {}
+): MelodyModel {
+  const base = options.model ?? createMelodyModel(options.order);
+  const model: MelodyModel = JSON.parse(JSON.stringify(base));
+  const { order } = model;
+
+  for (const source of sources) {
+    const line = melodyLine(source.notes);
+    if (line.length === 0) continue;
+
+    const beatsPerBar = source.beatsPerBar ?? 4;
+    const end = source.lengthBeats ?? Math.max(...line.map((n) => n.time + n.duration));
+    const first = line[0]!;
+    const startKey = `${scaleDegree(first.pitch, source.key, source.scale)}@${Math.round(first.time * 8) / 8}`;
+    model.starts[startKey] = (model.starts[startKey] ?? 0) + 1;
+
+    const intervals: string[] = [];
+    const rhythms: string[] = [];
+    line.forEach((note, i) => {
+      const next = line[i + 1];
+      const rhythm = `${quantizeBeats((next?.time ?? end) - note.time)}/${quantizeBeats(note.duration)}`;
+      countWithBackoff(model.rhythms, barPosition(note.time, beatsPerBar), rhythms, rhythm, order);
+      rhythms.push(rhythm);
+
+      if (next) {
+        const interval = `${foldInterval(next.pitch - note.pitch)}`;
+        const degree = scaleDegree(note.pitch, source.key, source.scale);
+        countWithBackoff(model.intervals, degree, intervals, interval, order);
+        intervals.push(interval);
+      }
+    });
+
+    model.motifs++;
+    model.notes += line.length;
+  }
+
+  return model;
+}
+
+/**
+ * Weighted draw from outcome counts
+ */
+function sampleCounts(counts: Record<string, number>, rng: Rng): string | undefined {
+  const entries = Object.entries(counts);
+  const total = entries.reduce((sum, [, n]) => sum + n, 0);
+  let target = rng() * total;
+  for (const [outcome, n] of entries) {
+    target -= n;
+    if (target < 0) return outcome;
+  }
+  return entries[entries.length - 1]?.[0];
+}
+
+/**
+ * Draw from the longest context the model has seen, backing off to shorter histories
+ */
+function sampleWithBackoff(
+  table: Record<string, Record<string, number>>,
+  condition: string,
+  history: string[],
+  order: number,
+  rng: Rng
+): string | undefined {
+  for (let length = Math.min(order - 1, history.length); length >= 0; length--) {
+    const row = table[`${condition}|${history.slice(history.length - length).join(",")}`];
+    if (row) return sampleCounts(row, rng);
+  }
+  return table[ANY] ? sampleCounts(table[ANY], rng) : undefined;
+}
+
+/**
+ * Write a melody from the model in any key. Intervals that leave the scale snap back
+ * onto it, and the line folds back by octaves if it wanders more than an octave from
+ * where it started
+ */
+export function generateMelodyFromModel(
+  model: MelodyModel,
+  key: string,
+  scale: keyof typeof SCALES,
+  lengthBeats: number,
+  rng: Rng,
+  beatsPerBar: number = 4,
+  octave: number = 4
+): MotifNote[] {
+  const [degree = "0", startTime = "0"] = (sampleCounts(model.starts, rng) ?? "0@0").split("@");
+  const home = degreeToPitch(degree, key, scale, octave);
+  const notes: MotifNote[] = [];
+  const intervals: string[] = [];
+  const rhythms: string[] = [];
+
+  let pitch = home;
+  let time = Number(startTime) < lengthBeats ? Number(startTime) : 0;
+  while (time < lengthBeats) {
+    const rhythm =
+      sampleWithBackoff(model.rhythms, barPosition(time, beatsPerBar), rhythms, model.order, rng) ?? "0.5/0.5";
+    const [step = 0.5, duration = 0.5] = rhythm.split("/").map(Number);
+    notes.push({
+      pitch,
+      time,
+      duration: Math.min(duration, lengthBeats - time),
+      velocity: time % 1 === 0 ? 100 : 85,
+    });
+    rhythms.push(rhythm);
+    time += step;
+    if (time >= lengthBeats) break;
+
+    const interval =
+      sampleWithBackoff(model.intervals, scaleDegree(pitch, key, scale), intervals, model.order, rng) ?? "0";
+    intervals.push(interval);
+    pitch = quantizeToScale(pitch + Number(interval), key, scale);
+    if (pitch > home + 12) pitch -= 12;
+    if (pitch < home - 12) pitch += 12;
+  }
+
+  return notes;
+}
+
+/**
+ * Headline numbers for a model: how much it has seen and its favourite moves
+ */
+export function summarizeMelodyModel(model: MelodyModel, top = 3) {
+  const common = (counts: Record<string, number> = {}) => {
+    const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+    return Object.entries(counts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, top)
+      .map(([value, n]) => ({ value, share: Math.round((n / total) * 100) }));
+  };
+
+  return {
+    order: model.order,
+    motifs: model.motifs,
+    notes: model.notes,
+    contexts: Object.keys(model.intervals).length + Object.keys(model.rhythms).length,
+    commonIntervals: common(model.intervals[ANY]),
+    commonRhythms: common(model.rhythms[ANY]),
+  };
+}
+
+/**
+ * Read a saved model, or undefined when there is none at that path yet
+ */
+export async function loadMelodyModel(
+  filePath: string = DEFAULT_MELODY_MODEL_PATH
+): Promise<MelodyModel | undefined> {
+  let text: string;
+  try {
+    text = await readFile(resolveLocalPath(filePath), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${filePath} is not a melody model: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = MelodyModelSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`${filePath} is not a melody model: ${parsed.error.issues[0]?.message ?? "invalid JSON"}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Write a model as JSON, creating its folder if needed; returns the resolved path
+ */
+export async function saveMelodyModel(
+  model: MelodyModel,
+  filePath: string = DEFAULT_MELODY_MODEL_PATH
+): Promise<string> {
+  const resolved = resolveLocalPath(filePath);
+  await mkdir(path.dirname(resolved), { recursive: true });
+  await writeFile(resolved, JSON.stringify(model));
+  return resolved;
+}
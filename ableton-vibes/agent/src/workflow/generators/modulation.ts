@@ -0,0 +1,193 @@
+/**
+ * Key modulation planning and validation across arrangement sections
+ */
+
+import type { ArrangementSection, Modulation } from "../types";
+import {
+  areKeysCloselyRelated,
+  getDiatonicTriads,
+  getPitchClass,
+  isMinorScale,
+  noteNameToPitch,
+  parseChordSymbol,
+  relativeMajorTonic,
+} from "../utils/musicTheory";
+
+const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+export type KeyCenter = { key: string; scale: string };
+export type ModulationType = Modulation["type"];
+
+/**
+ * A key change proposed for one section
+ */
+export interface ModulationProposal {
+  sectionId: string;
+  sectionName: string;
+  from: KeyCenter;
+  to: KeyCenter;
+  modulation: Modulation;
+  reason: string;
+}
+
+// Section types that lift on their final repeat, and those that contrast with the home key
+const LIFT_SECTION_TYPES = ["chorus", "drop"];
+const CONTRAST_SECTION_TYPES = ["breakdown", "bridge"];
+
+// Degrees in the new key that make the smoothest pivots: pre-dominants first
+const PIVOT_DEGREE_PREFERENCE = [4, 2, 6, 1, 3, 5, 7];
+
+const tonicOf = (key: string) => getPitchClass(noteNameToPitch(key));
+const describeKey = ({ key, scale }: KeyCenter) => `${key} ${scale}`;
+
+const sameKey = (a: KeyCenter, b: KeyCenter) => tonicOf(a.key) === tonicOf(b.key) && isMinorScale(a.scale) === isMinorScale(b.scale);
+
+// Pitch class and quality, so "G", "Gmaj" and "F##maj" compare equal
+function chordIdentity(symbol: string): string | null {
+  const parsed = parseChordSymbol(symbol);
+  return parsed ? `${tonicOf(parsed.root)}:${parsed.type}` : null;
+}
+
+/**
+ * Key a modulation of the given type leads to
+ * Relative keys share the notes of the mode's parent major (D dorian goes to C major,
+ * G mixolydian to A minor); pivot modulations go to the dominant key, the closest key a
+ * pivot chord can reach
+ */
+export function modulationTarget(from: KeyCenter, type: ModulationType): KeyCenter {
+  const tonic = tonicOf(from.key);
+  const minor = isMinorScale(from.scale);
+  switch (type) {
+    case "relative": {
+      const parent = relativeMajorTonic(from.key, from.scale);
+      return minor
+        ? { key: NOTE_NAMES[parent], scale: "major" }
+        : { key: NOTE_NAMES[(parent + 9) % 12], scale: "minor" };
+    }
+    case "parallel":
+      return { key: NOTE_NAMES[tonic], scale: minor ? "major" : "minor" };
+    case "step-up":
+      return { key: NOTE_NAMES[(tonic + 2) % 12], scale: from.scale };
+    case "pivot":
+      return { key: NOTE_NAMES[(tonic + 7) % 12], scale: from.scale };
+  }
+}
+
+/**
+ * Triads diatonic to both keys, best pivot first
+ */
+export function findPivotChords(from: KeyCenter, to: KeyCenter): string[] {
+  const target = getDiatonicTriads(to.key, to.scale);
+  const targetIds = target.map(chordIdentity);
+  const degreeIn = (chord: string) => targetIds.indexOf(chordIdentity(chord)) + 1;
+
+  return getDiatonicTriads(from.key, from.scale)
+    .filter((chord) => degreeIn(chord) > 0 && !chord.endsWith("dim"))
+    .sort((a, b) => PIVOT_DEGREE_PREFERENCE.indexOf(degreeIn(a)) - PIVOT_DEGREE_PREFERENCE.indexOf(degreeIn(b)));
+}
+
+/**
+ * Plan the key of every section from the home key
+ * The last of a repeated chorus or drop lifts (a whole step by default) and the rest of
+ * the track stays there; breakdowns and bridges move to a contrasting key (the relative
+ * by default) and come back after. Sections that already have a key keep it.
+ * Every planned change names a pivot chord when the two keys share one
+ */
+export function planModulations(
+  sections: ArrangementSection[],
+  home: KeyCenter,
+  options: { lift?: ModulationType | "none"; contrast?: ModulationType | "none" } = {}
+): { sections: ArrangementSection[]; proposals: ModulationProposal[] } {
+  const lift = options.lift ?? "step-up";
+  const contrast = options.contrast ?? "relative";
+  const ordered = [...sections].sort((a, b) => a.startBar - b.startBar);
+
+  const repeatedLifts = ordered.filter(
+    (s) => LIFT_SECTION_TYPES.includes(s.type) && ordered.filter((other) => other.type === s.type).length > 1
+  );
+  const liftSection = lift === "none" ? undefined : repeatedLifts[repeatedLifts.length - 1];
+
+  const proposals: ModulationProposal[] = [];
+  const planned: ArrangementSection[] = [];
+  let base = home;
+  let current = home;
+
+  for (const section of ordered) {
+    if (section.key) {
+      current = { key: section.key, scale: section.scale ?? current.scale };
+      planned.push({ ...section, scale: current.scale });
+      continue;
+    }
+
+    let type: ModulationType | undefined;
+    let reason = "";
+    let target = base;
+    if (section === liftSection && lift !== "none") {
+      type = lift;
+      base = modulationTarget(base, lift);
+      target = base;
+      reason = `Final ${section.type} lifts the energy with a ${lift} modulation`;
+    } else if (CONTRAST_SECTION_TYPES.includes(section.type) && contrast !== "none") {
+      type = contrast;
+      target = modulationTarget(base, contrast);
+      reason = `${section.type} contrasts in the ${contrast === "pivot" ? "dominant" : contrast} key`;
+    } else if (!sameKey(current, base)) {
+      // Coming back from a contrast uses the same relation in reverse
+      type = proposals[proposals.length - 1]?.modulation.type;
+      reason = "Returns to the main key";
+    }
+
+    if (sameKey(current, target) || !type) {
+      planned.push({ ...section, key: current.key, scale: current.scale });
+      continue;
+    }
+
+    const pivotChord = findPivotChords(current, target)[0];
+    const modulation: Modulation = pivotChord ? { type, pivotChord } : { type };
+    proposals.push({ sectionId: section.id, sectionName: section.name, from: current, to: target, modulation, reason });
+    planned.push({ ...section, key: target.key, scale: target.scale, modulation });
+    current = target;
+  }
+
+  return { sections: planned, proposals };
+}
+
+/**
+ * Flag key changes between neighbouring sections that are abrupt: keys that are not
+ * closely related reached without a pivot chord, or a pivot chord missing from either key
+ * Sections without a key stay in the key before them; the first keyed section sets the
+ * home key when none is given
+ */
+export function validateModulations(sections: ArrangementSection[], home?: KeyCenter): string[] {
+  const ordered = [...sections].sort((a, b) => a.startBar - b.startBar);
+  const firstKeyed = ordered.find((s) => s.key);
+  const start = home ?? (firstKeyed?.key ? { key: firstKeyed.key, scale: firstKeyed.scale ?? "minor" } : undefined);
+  if (!start) return [];
+
+  let current: KeyCenter = start;
+
+  const issues: string[] = [];
+  for (const section of ordered) {
+    const next: KeyCenter = section.key ? { key: section.key, scale: section.scale ?? current.scale } : current;
+    if (sameKey(current, next)) continue;
+
+    const pivot = section.modulation?.pivotChord;
+    if (pivot) {
+      const inBoth = [current, next].every((k) =>
+        getDiatonicTriads(k.key, k.scale).some((chord) => chordIdentity(chord) === chordIdentity(pivot))
+      );
+      if (!inBoth) {
+        issues.push(`${section.name}: pivot chord ${pivot} is not diatonic in both ${describeKey(current)} and ${describeKey(next)}`);
+      }
+    } else if (!areKeysCloselyRelated(current, next)) {
+      const suggestion = findPivotChords(current, next)[0];
+      issues.push(
+        `Abrupt modulation into ${section.name}: ${describeKey(current)} to ${describeKey(next)} without a pivot chord` +
+          (suggestion ? ` (${suggestion} is in both keys)` : "")
+      );
+    }
+    current = next;
+  }
+
+  return issues;
+}
@@ -3,15 +3,36 @@
  * Generate melodic, rhythmic, harmonic, and textural motifs
  */
 
-import type { MotifSeed, MotifNote, StylePrior } from "../types";
+import type { MelodyModel, MotifSeed, MotifNote, StylePrior } from "../types";
 import {
   getScalePitches,
   transposeAll,
   invertMelody,
   retrogradeMelody,
+  detectKey,
+  getPitchClass,
+  noteNameToPitch,
+  quantizeToScale,
+  getScalePitchClasses,
+  scaleDegreeToPitch,
+  stepInScale,
   SCALES,
 } from "../utils/musicTheory";
-import { euclideanRhythm, humanizeVelocity } from "../utils/rhythmUtils";
+import {
+  euclideanRhythm,
+  getAccentedSteps,
+  getBeatsPerBar,
+  getStepsPerBar,
+  humanizeVelocity,
+} from "../utils/rhythmUtils";
+import { createRng, deriveSeed, randomSeed, seedTag, shuffle, type Rng } from "../utils/random";
+import { generateMelodyFromModel } from "./melodyModel";
+import {
+  PROGRESSION_TEMPLATES,
+  diatonicChordPitches,
+  progressionTemplatesForScale,
+  type ChordVoicing,
+} from "./harmony";
 
 /**
  * Generate a simple ascending scale motif
@@ -34,14 +55,18 @@ export function generateScaleMotif(
 
 /**
  * Generate a motif using chord tones
+ * @param degrees - 1-based scale degrees to arpeggiate (8 is the octave in a seven-note scale)
  */
 export function generateArpeggioMotif(
-  rootPitch: number,
+  key: string,
+  scale: keyof typeof SCALES,
   pattern: "up" | "down" | "updown" | "random" = "up",
-  intervals: number[] = [0, 4, 7, 12], // Major triad + octave
-  noteDuration: number = 0.25
+  degrees: number[] = [1, 3, 5, 8], // Tonic triad + octave
+  noteDuration: number = 0.25,
+  rng: Rng = Math.random,
+  octave: number = 4
 ): MotifNote[] {
-  const pitches = intervals.map((i) => rootPitch + i);
+  const pitches = degrees.map((degree) => scaleDegreeToPitch(degree, key, scale, octave));
   let orderedPitches: number[];
 
   switch (pattern) {
@@ -55,7 +80,7 @@ export function generateArpeggioMotif(
       orderedPitches = [...pitches, ...pitches.slice(1, -1).reverse()];
       break;
     case "random":
-      orderedPitches = [...pitches].sort(() => Math.random() - 0.5);
+      orderedPitches = shuffle(rng, pitches);
       break;
   }
 
@@ -104,15 +129,21 @@ export function generateContourMotif(
   return notes;
 }
 
+/**
+ * MIDI pitch for a rhythm: a key plays its tonic (in octave 4 unless the name has one)
+ */
+const rhythmPitch = (root: string | number) => (typeof root === "string" ? noteNameToPitch(root) : root);
+
 /**
  * Generate a rhythmic motif (drum-like, single pitch)
  */
 export function generateRhythmicMotif(
-  pitch: number = 60, // Default to C4
+  root: string | number = "C", // Key whose tonic plays the rhythm, or a MIDI pitch
   pattern: number[] = [0, 2, 4, 6, 8, 10, 12, 14], // 8th notes
   subdivision: number = 0.25, // 16th notes
   accents: number[] = [0, 4, 8, 12] // Where to accent
 ): MotifNote[] {
+  const pitch = rhythmPitch(root);
   return pattern.map((step) => ({
     pitch,
     time: step * subdivision,
@@ -125,51 +156,42 @@ export function generateRhythmicMotif(
  * Generate an euclidean rhythm motif
  */
 export function generateEuclideanMotif(
-  pitch: number,
+  root: string | number,
   hits: number,
   steps: number = 16,
   rotation: number = 0,
-  subdivision: number = 0.25
+  subdivision: number = 0.25,
+  rng: Rng = Math.random
 ): MotifNote[] {
   const pattern = euclideanRhythm(hits, steps, rotation);
-  return pattern.map((step, i) => ({
-    pitch,
+  return pattern.map((step) => ({
+    pitch: rhythmPitch(root),
     time: step * subdivision,
     duration: subdivision,
-    velocity: humanizeVelocity(90, 15),
+    velocity: humanizeVelocity(90, 15, rng),
   }));
 }
 
 /**
  * Generate a harmonic motif (block chords)
+ * @param degrees - Scale degree of each chord's root, e.g. a progression template's degrees
  */
 export function generateChordMotif(
-  rootPitches: number[], // Root notes for each chord
-  chordType: "major" | "minor" | "seventh" | "sus4" = "major",
-  duration: number = 1
+  key: string,
+  scale: keyof typeof SCALES,
+  degrees: number[] = [1, 4, 5, 1],
+  voicing: ChordVoicing = "triad",
+  duration: number = 1,
+  octave: number = 3
 ): MotifNote[] {
-  const intervals: Record<string, number[]> = {
-    major: [0, 4, 7],
-    minor: [0, 3, 7],
-    seventh: [0, 4, 7, 10],
-    sus4: [0, 5, 7],
-  };
-
-  const chordIntervals = intervals[chordType];
-  const notes: MotifNote[] = [];
-
-  rootPitches.forEach((root, chordIndex) => {
-    chordIntervals.forEach((interval) => {
-      notes.push({
-        pitch: root + interval,
-        time: chordIndex * duration,
-        duration,
-        velocity: 85,
-      });
-    });
-  });
-
-  return notes;
+  return degrees.flatMap((degree, chordIndex) =>
+    diatonicChordPitches(degree, key, scale, voicing, octave).map((pitch) => ({
+      pitch,
+      time: chordIndex * duration,
+      duration,
+      velocity: 85,
+    }))
+  );
 }
 
 /**
@@ -179,7 +201,9 @@ export function generateTexturalMotif(
   key: string,
   scale: keyof typeof SCALES,
   density: "sparse" | "medium" | "dense" = "medium",
-  lengthBars: number = 2
+  lengthBars: number = 2,
+  rng: Rng = Math.random,
+  beatsPerBar: number = 4
 ): MotifNote[] {
   const scalePitches = getScalePitches(key, scale, 4);
   const notes: MotifNote[] = [];
@@ -192,18 +216,17 @@ export function generateTexturalMotif(
 
   const params = densityParams[density];
   const totalNotes = params.notesPerBar * lengthBars;
-  const barLength = 4; // 4 beats per bar
 
   for (let i = 0; i < totalNotes; i++) {
-    const scaleIndex = Math.floor(Math.random() * scalePitches.length);
-    const time = (i / totalNotes) * (lengthBars * barLength) + (Math.random() * 0.5 - 0.25);
-    const duration = params.durationRange[0]! + Math.random() * (params.durationRange[1]! - params.durationRange[0]!);
+    const scaleIndex = Math.floor(rng() * scalePitches.length);
+    const time = (i / totalNotes) * (lengthBars * beatsPerBar) + (rng() * 0.5 - 0.25);
+    const duration = params.durationRange[0]! + rng() * (params.durationRange[1]! - params.durationRange[0]!);
 
     notes.push({
       pitch: scalePitches[scaleIndex]!,
       time: Math.max(0, time),
       duration,
-      velocity: 50 + Math.floor(Math.random() * 40), // Soft, varying
+      velocity: 50 + Math.floor(rng() * 40), // Soft, varying
     });
   }
 
@@ -212,12 +235,17 @@ export function generateTexturalMotif(
 
 /**
  * Generate a bass motif
+ * The one-bar pattern repeats for each bar, moved along the scale to the root of
+ * that bar's chord when progression degrees are given. Bars shorter than four beats
+ * cut the pattern off at the bar line
  */
 export function generateBassMotif(
   key: string,
   scale: keyof typeof SCALES,
   pattern: "root" | "walking" | "syncopated" | "arpeggiated" = "root",
-  lengthBars: number = 1
+  lengthBars: number = 1,
+  degrees: number[] = [1],
+  beatsPerBar: number = 4
 ): MotifNote[] {
   const scalePitches = getScalePitches(key, scale, 2); // Bass octave
   const root = scalePitches[0]!;
@@ -267,7 +295,18 @@ export function generateBassMotif(
     ],
   };
 
-  return patterns[pattern] || patterns.root;
+  const bar = (patterns[pattern] || patterns.root!)
+    .filter((note) => note.time < beatsPerBar)
+    .map((note) => ({ ...note, duration: Math.min(note.duration, beatsPerBar - note.time) }));
+  const scalePitchClasses = getScalePitchClasses(key, scale);
+  return Array.from({ length: lengthBars }, (_, barIndex) => {
+    const steps = (degrees[barIndex % degrees.length] ?? 1) - 1;
+    return bar.map((note) => ({
+      ...note,
+      pitch: stepInScale(note.pitch, steps, scalePitchClasses),
+      time: note.time + barIndex * beatsPerBar,
+    }));
+  }).flat();
 }
 
 /**
@@ -314,21 +353,52 @@ export function varyMotif(
   }
 }
 
+/**
+ * Move a motif into another key by the shortest transposition, so it keeps its register
+ * When the scale changes too, as in a parallel or relative modulation, each note keeps its
+ * scale degree; notes outside the old scale snap to the nearest note of the new one
+ */
+export function transposeMotif(motif: MotifSeed, key: string, scale: string = motif.scale): MotifSeed {
+  if (motif.key === key && motif.scale === scale) return motif;
+
+  const shift = ((getPitchClass(noteNameToPitch(key)) - getPitchClass(noteNameToPitch(motif.key)) + 18) % 12) - 6;
+  const from = SCALES[motif.scale as keyof typeof SCALES];
+  const to = SCALES[scale as keyof typeof SCALES];
+  const snap = scale !== motif.scale && !!to;
+
+  const notes = motif.notes.map((note) => {
+    const pitch = note.pitch + shift;
+    if (!snap) return { ...note, pitch };
+
+    const degree = from && from.length === to.length ? from.indexOf(getPitchClass(note.pitch - noteNameToPitch(motif.key))) : -1;
+    return {
+      ...note,
+      pitch: from && degree >= 0 ? pitch + to[degree] - from[degree] : quantizeToScale(pitch, key, scale as keyof typeof SCALES),
+    };
+  });
+
+  return { ...motif, notes, key, scale };
+}
+
 /**
  * Create a MotifSeed from notes
+ * @param seed - Seed the notes were generated from; also determines the id
+ * @param beatsPerBar - Bar length the motif is measured in (4 for 4/4, 3 for 3/4 and 6/8)
  */
 export function createMotifSeed(
   notes: MotifNote[],
   type: MotifSeed["type"],
   key: string,
   scale: string,
-  name?: string
+  name?: string,
+  seed: number = randomSeed(),
+  beatsPerBar: number = 4
 ): MotifSeed {
   const maxTime = Math.max(...notes.map((n) => n.time + n.duration));
-  const lengthBars = Math.ceil(maxTime / 4);
+  const lengthBars = Math.ceil(maxTime / beatsPerBar);
 
   return {
-    id: `motif-${type}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    id: `motif-${type}-${seedTag(seed)}`,
     type,
     name: name || `${type} motif in ${key} ${scale}`,
     notes,
@@ -336,93 +406,182 @@ export function createMotifSeed(
     key,
     scale,
     description: `${type} motif with ${notes.length} notes over ${lengthBars} bar(s)`,
+    seed,
   };
 }
 
 /**
  * Generate multiple motif candidates based on style prior
+ * Candidate i is built from deriveSeed(seed, type, i), so the same seed always
+ * yields the same candidates. Rhythms span one bar of the meter and accent its strong pulses
+ * @param melodyModel - Trained melody model; its two-bar melodies lead the melodic candidates
  */
 export function generateMotifCandidates(
   stylePrior: StylePrior,
   type: MotifSeed["type"],
   key: string = "C",
   scale: keyof typeof SCALES = "minor",
-  count: number = 5
+  count: number = 5,
+  seed: number = randomSeed(),
+  meter: string = "4/4",
+  melodyModel?: MelodyModel,
+  chromatic: boolean = false
 ): MotifSeed[] {
   const candidates: MotifSeed[] = [];
   const genreKeywords = stylePrior.guardrails.energyProfile.toLowerCase();
+  const beatsPerBar = getBeatsPerBar(meter);
+  const barSteps = getStepsPerBar(meter);
+  const everyNthStep = (n: number) => Array.from({ length: Math.ceil(barSteps / n) }, (_, i) => i * n);
+
+  const add = (build: (rng: Rng) => MotifNote[], name: string) => {
+    const candidateSeed = deriveSeed(seed, type, candidates.length);
+    candidates.push(
+      createMotifSeed(build(createRng(candidateSeed)), type, key, scale, name, candidateSeed, beatsPerBar)
+    );
+  };
 
   switch (type) {
     case "melodic":
+      if (melodyModel && melodyModel.notes > 0) {
+        // Learned melodies come first so a small count still keeps them
+        for (const variant of ["A", "B"]) {
+          add(
+            (rng) => generateMelodyFromModel(melodyModel, key, scale, 2 * beatsPerBar, rng, beatsPerBar),
+            `House style melody ${variant}`
+          );
+        }
+      }
       // Generate various melodic motifs
-      candidates.push(
-        createMotifSeed(generateContourMotif(key, scale, "arch", 8), "melodic", key, scale, "Arch melody")
-      );
-      candidates.push(
-        createMotifSeed(generateContourMotif(key, scale, "ascending", 6), "melodic", key, scale, "Rising melody")
-      );
-      candidates.push(
-        createMotifSeed(generateContourMotif(key, scale, "wave", 8), "melodic", key, scale, "Wave melody")
-      );
-      candidates.push(
-        createMotifSeed(generateArpeggioMotif(60, "updown", [0, 3, 7, 12]), "melodic", key, scale, "Arpeggio melody")
-      );
+      add(() => generateContourMotif(key, scale, "arch", 8), "Arch melody");
+      add(() => generateContourMotif(key, scale, "ascending", 6), "Rising melody");
+      add(() => generateContourMotif(key, scale, "wave", 8), "Wave melody");
+      add(() => generateArpeggioMotif(key, scale, "updown", [1, 3, 5, 8]), "Arpeggio melody");
       break;
 
     case "rhythmic":
       // Generate rhythmic patterns
-      candidates.push(
-        createMotifSeed(generateRhythmicMotif(60, [0, 4, 8, 12]), "rhythmic", key, scale, "Quarter note rhythm")
-      );
-      candidates.push(
-        createMotifSeed(generateRhythmicMotif(60, [0, 2, 4, 6, 8, 10, 12, 14]), "rhythmic", key, scale, "8th note rhythm")
-      );
-      candidates.push(
-        createMotifSeed(generateEuclideanMotif(60, 5, 16), "rhythmic", key, scale, "Euclidean 5/16 rhythm")
-      );
-      candidates.push(
-        createMotifSeed(generateEuclideanMotif(60, 7, 16), "rhythmic", key, scale, "Euclidean 7/16 rhythm")
-      );
+      add(() => generateRhythmicMotif(key, everyNthStep(4), 0.25, getAccentedSteps(meter)), "Quarter note rhythm");
+      add(() => generateRhythmicMotif(key, everyNthStep(2), 0.25, getAccentedSteps(meter)), "8th note rhythm");
+      add((rng) => generateEuclideanMotif(key, 5, barSteps, 0, 0.25, rng), `Euclidean 5/${barSteps} rhythm`);
+      add((rng) => generateEuclideanMotif(key, 7, barSteps, 0, 0.25, rng), `Euclidean 7/${barSteps} rhythm`);
+      // A bass line on the chord roots of the first progression template that suits the scale
+      for (const templateName of progressionTemplatesForScale(scale).slice(0, 1)) {
+        const { degrees } = PROGRESSION_TEMPLATES[templateName]!;
+        add(
+          () => generateBassMotif(key, scale, "root", degrees.length, degrees, beatsPerBar),
+          `Root bass (${templateName})`
+        );
+      }
       break;
 
     case "harmonic":
-      // Generate chord-based motifs
-      const rootPitch = 48; // C3
-      candidates.push(
-        createMotifSeed(generateChordMotif([rootPitch, rootPitch + 5, rootPitch + 7], "major"), "harmonic", key, scale, "I-IV-V progression")
-      );
-      candidates.push(
-        createMotifSeed(generateChordMotif([rootPitch, rootPitch - 2, rootPitch + 5], "minor"), "harmonic", key, scale, "i-VII-IV progression")
-      );
-      candidates.push(
-        createMotifSeed(generateChordMotif([rootPitch], "seventh", 2), "harmonic", key, scale, "Seventh chord pad")
-      );
+      // Generate chord-based motifs from the progression templates that suit the scale
+      for (const templateName of progressionTemplatesForScale(scale).slice(0, 2)) {
+        const template = PROGRESSION_TEMPLATES[templateName]!;
+        add(() => generateChordMotif(key, scale, template.degrees), `${template.name} (${templateName})`);
+      }
+      add(() => generateChordMotif(key, scale, [1], "seventh", 2), "Seventh chord pad");
       break;
 
     case "textural":
       // Generate ambient/textural motifs
-      candidates.push(
-        createMotifSeed(generateTexturalMotif(key, scale, "sparse", 4), "textural", key, scale, "Sparse texture")
-      );
-      candidates.push(
-        createMotifSeed(generateTexturalMotif(key, scale, "medium", 2), "textural", key, scale, "Medium texture")
-      );
-      candidates.push(
-        createMotifSeed(generateTexturalMotif(key, scale, "dense", 2), "textural", key, scale, "Dense texture")
-      );
+      add((rng) => generateTexturalMotif(key, scale, "sparse", 4, rng, beatsPerBar), "Sparse texture");
+      add((rng) => generateTexturalMotif(key, scale, "medium", 2, rng, beatsPerBar), "Medium texture");
+      add((rng) => generateTexturalMotif(key, scale, "dense", 2, rng, beatsPerBar), "Dense texture");
       break;
   }
 
   // Add variations
   if (candidates.length > 0 && candidates.length < count) {
     const base = candidates[0]!;
-    candidates.push(
-      createMotifSeed(varyMotif(base.notes, "transpose", 5), type, key, scale, `${base.name} (transposed)`)
-    );
-    candidates.push(
-      createMotifSeed(varyMotif(base.notes, "retrograde"), type, key, scale, `${base.name} (retrograde)`)
+    const scalePitchClasses = getScalePitchClasses(key, scale);
+    add(
+      () => base.notes.map((n) => ({ ...n, pitch: stepInScale(n.pitch, 3, scalePitchClasses) })),
+      `${base.name} (transposed)`
     );
+    add(() => varyMotif(base.notes, "retrograde"), `${base.name} (retrograde)`);
+  }
+
+  // Candidates must stay in key unless chromatic writing was asked for
+  return candidates.filter((motif) => chromatic || outOfScaleNotes(motif).length === 0).slice(0, count);
+}
+
+/**
+ * Notes of a motif whose pitch class is not in the motif's key and scale.
+ * Motifs in a scale this module doesn't know have nothing to check against
+ */
+export function outOfScaleNotes(motif: Pick<MotifSeed, "notes" | "key" | "scale">): MotifNote[] {
+  let scalePitchClasses: number[];
+  try {
+    scalePitchClasses = getScalePitchClasses(motif.key, motif.scale as keyof typeof SCALES);
+  } catch {
+    return [];
+  }
+  return motif.notes.filter((n) => !scalePitchClasses.includes(getPitchClass(n.pitch)));
+}
+
+/**
+ * Guess which motif type a played part is closest to:
+ * stacked onsets read as harmonic, one or two repeated pitches as rhythmic,
+ * a few long held notes as textural, anything else as melodic
+ */
+export function classifyMotifNotes(notes: MotifNote[]): MotifSeed["type"] {
+  if (notes.length === 0) return "melodic";
+
+  const onsets = new Map<number, number>();
+  for (const note of notes) {
+    const onset = Math.round(note.time * 100) / 100;
+    onsets.set(onset, (onsets.get(onset) ?? 0) + 1);
+  }
+  const stacked = [...onsets.values()].filter((count) => count >= 3).reduce((sum, count) => sum + count, 0);
+  if (stacked / notes.length >= 0.5) return "harmonic";
+
+  const distinctPitches = new Set(notes.map((n) => n.pitch)).size;
+  if (distinctPitches <= 2 && notes.length >= 4) return "rhythmic";
+
+  const averageDuration = notes.reduce((sum, n) => sum + n.duration, 0) / notes.length;
+  if (averageDuration >= 2 && notes.length <= 8) return "textural";
+
+  return "melodic";
+}
+
+/**
+ * Turn notes played into Live into a MotifSeed. Key, scale and type are
+ * detected unless given. The id comes from the clip name, so importing the
+ * same clip again replaces the earlier import.
+ */
+export function createMotifFromClip(
+  notes: MotifNote[],
+  options: {
+    clipName: string;
+    lengthBeats?: number;
+    beatsPerBar?: number;
+    type?: MotifSeed["type"];
+    key?: string;
+    scale?: string;
   }
+): { motif: MotifSeed; detected: ReturnType<typeof detectKey> & { type: MotifSeed["type"] } } {
+  const sorted = [...notes].sort((a, b) => a.time - b.time || a.pitch - b.pitch);
+  const detected = { ...detectKey(sorted), type: classifyMotifNotes(sorted) };
+  const type = options.type ?? detected.type;
+  const key = options.key ?? detected.key;
+  const scale = options.scale ?? detected.scale;
 
-  return candidates.slice(0, count);
+  const beatsPerBar = options.beatsPerBar ?? 4;
+  const noteEnd = Math.max(0, ...sorted.map((n) => n.time + n.duration));
+  const lengthBars = Math.max(1, Math.ceil((options.lengthBeats ?? noteEnd) / beatsPerBar));
+
+  return {
+    motif: {
+      id: `motif-${type}-live-${seedTag(deriveSeed(0, options.clipName))}`,
+      type,
+      name: options.clipName,
+      notes: sorted,
+      lengthBars,
+      key,
+      scale,
+      description: `${type} motif imported from Live clip "${options.clipName}" (${sorted.length} notes, ${key} ${scale})`,
+    },
+    detected,
+  };
 }
@@ -0,0 +1,306 @@
+/**
+ * Evolutionary motif search
+ * Breeds a population of motifs with crossover and mutation, using the motif score
+ * as the fitness function, and keeps every motif it scores for the Pareto front
+ */
+
+import type {
+  EvolvedMotif,
+  MotifEvolution,
+  MotifFitnessWeights,
+  MotifGenerationStats,
+  MotifNote,
+  MotifSeed,
+  StylePrior,
+} from "../types";
+import { calculateMotifFitness, calculateMotifScore, DEFAULT_MOTIF_FITNESS_WEIGHTS } from "../scoring/motif";
+import { getScalePitchClasses, stepInScale, SCALES } from "../utils/musicTheory";
+import { createRng, deriveSeed, pickRandom, randomSeed, type Rng } from "../utils/random";
+import { createMotifSeed, varyMotif } from "./motif";
+
+export type MotifEvolutionOptions = {
+  generations?: number;
+  populationSize?: number;
+  weights?: Partial<MotifFitnessWeights>;
+  /** Chance a child is bred from two parents rather than copied from one */
+  crossoverRate?: number;
+  /** Chance a bred child is also mutated; copies are always mutated */
+  mutationRate?: number;
+  tournamentSize?: number;
+  /** Fittest motifs carried unchanged into the next generation */
+  eliteCount?: number;
+  seed?: number;
+  beatsPerBar?: number;
+  /** Children this rejects (e.g. for breaking brief rules) are replaced by their first parent */
+  accept?: (motif: MotifSeed) => boolean;
+};
+
+export type MotifMutation = "pitch" | "rhythm" | "duration" | "split" | "drop" | "transpose" | "invert" | "retrograde";
+
+export const MOTIF_MUTATIONS: MotifMutation[] = [
+  "pitch",
+  "pitch",
+  "rhythm",
+  "duration",
+  "split",
+  "drop",
+  "transpose",
+  "invert",
+  "retrograde",
+];
+
+const GRID = 0.25;
+const MIN_DURATION = 0.125;
+const MOTIF_OBJECTIVES: Array<keyof MotifFitnessWeights> = ["memorability", "singability", "novelty", "genreFit"];
+
+const sortNotes = (notes: MotifNote[]) => [...notes].sort((a, b) => a.time - b.time || a.pitch - b.pitch);
+
+/**
+ * Identity of a note sequence, so equal motifs are only scored once
+ */
+const noteSignature = (notes: MotifNote[]) =>
+  sortNotes(notes)
+    .map((n) => `${n.pitch}@${n.time}:${n.duration}`)
+    .join(" ");
+
+const lengthInBeats = (motif: MotifSeed, beatsPerBar: number) => Math.max(1, motif.lengthBars) * beatsPerBar;
+
+/**
+ * Fold a pitch back into the playable MIDI range by octaves
+ */
+function foldPitch(pitch: number): number {
+  if (pitch < 24) return pitch + 12 * Math.ceil((24 - pitch) / 12);
+  if (pitch > 108) return pitch - 12 * Math.ceil((pitch - 108) / 12);
+  return pitch;
+}
+
+/**
+ * One-point crossover in time: the first parent's notes before the cut, then the
+ * second parent's notes from the cut on. Notes held across the cut are shortened,
+ * and chords (notes sharing an onset) stay together
+ */
+export function crossoverMotifs(first: MotifNote[], second: MotifNote[], lengthBeats: number, rng: Rng): MotifNote[] {
+  const steps = Math.max(1, Math.round(lengthBeats / GRID));
+  const cut = Math.max(1, Math.floor(rng() * (steps - 1)) + 1) * GRID;
+
+  const head = first
+    .filter((n) => n.time < cut)
+    .map((n) => ({ ...n, duration: Math.min(n.duration, cut - n.time) }));
+  const tail = second.filter((n) => n.time >= cut && n.time < lengthBeats);
+  const child = [...head, ...tail];
+  return child.length > 0 ? sortNotes(child) : first.map((n) => ({ ...n }));
+}
+
+/**
+ * Apply one mutation. Point mutations move a single note by a scale step or grid step;
+ * the rest are the motif variation operators applied to the whole motif
+ */
+export function mutateMotif(
+  notes: MotifNote[],
+  mutation: MotifMutation,
+  rng: Rng,
+  context: { key: string; scale: string; lengthBeats: number }
+): MotifNote[] {
+  if (notes.length === 0) return notes;
+
+  let scalePitchClasses: number[];
+  try {
+    scalePitchClasses = getScalePitchClasses(context.key, context.scale as keyof typeof SCALES);
+  } catch {
+    scalePitchClasses = Array.from({ length: 12 }, (_, i) => i);
+  }
+
+  const sorted = sortNotes(notes);
+  const index = Math.floor(rng() * sorted.length);
+  const note = sorted[index]!;
+  const replaceAt = (replacement: MotifNote[]) => [
+    ...sorted.slice(0, index),
+    ...replacement,
+    ...sorted.slice(index + 1),
+  ];
+  let mutated: MotifNote[];
+
+  switch (mutation) {
+    case "pitch": {
+      const pitch = stepInScale(note.pitch, pickRandom(rng, [-2, -1, 1, 2]), scalePitchClasses);
+      mutated = replaceAt([{ ...note, pitch }]);
+      break;
+    }
+
+    case "rhythm": {
+      const shifted = note.time + pickRandom(rng, [-GRID, GRID]);
+      const time = Math.min(context.lengthBeats - MIN_DURATION, Math.max(0, shifted));
+      mutated = replaceAt([{ ...note, time, duration: Math.min(note.duration, context.lengthBeats - time) }]);
+      break;
+    }
+
+    case "duration": {
+      const duration = Math.max(MIN_DURATION, note.duration * pickRandom(rng, [0.5, 2]));
+      mutated = replaceAt([{ ...note, duration: Math.min(duration, context.lengthBeats - note.time) }]);
+      break;
+    }
+
+    case "split":
+      mutated =
+        note.duration >= GRID * 2
+          ? replaceAt([
+              { ...note, duration: note.duration / 2 },
+              { ...note, time: note.time + note.duration / 2, duration: note.duration / 2 },
+            ])
+          : sorted;
+      break;
+
+    case "drop":
+      mutated = sorted.length > 2 ? replaceAt([]) : sorted;
+      break;
+
+    case "transpose":
+      mutated = varyMotif(sorted, "transpose", pickRandom(rng, [-12, -7, -5, 5, 7, 12]));
+      break;
+
+    case "invert":
+    case "retrograde":
+      mutated = varyMotif(sorted, mutation);
+      break;
+  }
+
+  return sortNotes(mutated.map((n) => ({ ...n, pitch: foldPitch(n.pitch) })));
+}
+
+/**
+ * True when `a` scores at least as well as `b` on every objective and better on one
+ */
+const dominates = (a: EvolvedMotif, b: EvolvedMotif, objectives: Array<keyof MotifFitnessWeights>) =>
+  objectives.every((o) => a.score[o] >= b.score[o]) && objectives.some((o) => a.score[o] > b.score[o]);
+
+/**
+ * Motifs no other motif dominates on the given objectives, fittest first
+ */
+export function motifParetoFront(
+  motifs: EvolvedMotif[],
+  objectives: Array<keyof MotifFitnessWeights> = MOTIF_OBJECTIVES
+): EvolvedMotif[] {
+  return motifs
+    .filter((candidate) => !motifs.some((other) => other !== candidate && dominates(other, candidate, objectives)))
+    .sort((a, b) => b.fitness - a.fitness);
+}
+
+/**
+ * Evolve motifs from a seed population
+ * Each generation keeps its elites, then fills up with children of tournament-selected
+ * parents. The run is deterministic for a given seed
+ */
+export function evolveMotifs(
+  initial: MotifSeed[],
+  stylePrior: StylePrior,
+  options: MotifEvolutionOptions = {}
+): MotifEvolution {
+  const seeds = initial.filter((m) => m.notes.length > 0);
+  if (seeds.length === 0) {
+    throw new Error("Motif evolution needs at least one seed motif with notes");
+  }
+
+  const generations = options.generations ?? 12;
+  const populationSize = Math.max(2, options.populationSize ?? 16);
+  const weights = { ...DEFAULT_MOTIF_FITNESS_WEIGHTS, ...options.weights };
+  const crossoverRate = options.crossoverRate ?? 0.7;
+  const mutationRate = options.mutationRate ?? 0.5;
+  const tournamentSize = Math.max(1, options.tournamentSize ?? 3);
+  const eliteCount = Math.min(populationSize, options.eliteCount ?? 2);
+  const seed = options.seed ?? randomSeed();
+  const beatsPerBar = options.beatsPerBar ?? 4;
+  const accept = options.accept ?? (() => true);
+  const rng = createRng(seed);
+
+  // Objectives with no weight don't count towards dominance either
+  const weighted = MOTIF_OBJECTIVES.filter((o) => weights[o] > 0);
+  const objectives = weighted.length > 0 ? weighted : MOTIF_OBJECTIVES;
+
+  const { type, key, scale } = seeds[0]!;
+  const archive = new Map<string, EvolvedMotif>();
+
+  const evaluate = (motif: MotifSeed, generation: number): EvolvedMotif => {
+    const signature = noteSignature(motif.notes);
+    const known = archive.get(signature);
+    if (known) return known;
+
+    const score = calculateMotifScore(motif, stylePrior);
+    const evolved = { motif, score, fitness: calculateMotifFitness(score, weights), generation };
+    archive.set(signature, evolved);
+    return evolved;
+  };
+
+  const breed = (notes: MotifNote[], parent: EvolvedMotif, generation: number, slot: number): EvolvedMotif => {
+    const childSeed = deriveSeed(seed, "evolve", generation, slot);
+    const baseName = parent.motif.name.replace(/ \(gen \d+\)$/, "");
+    const child = createMotifSeed(notes, type, key, scale, `${baseName} (gen ${generation})`, childSeed, beatsPerBar);
+    return accept(child) ? evaluate(child, generation) : parent;
+  };
+
+  const mutate = (notes: MotifNote[], lengthBeats: number) =>
+    mutateMotif(notes, pickRandom(rng, MOTIF_MUTATIONS), rng, { key, scale, lengthBeats });
+
+  // Seed population: the given motifs, topped up with mutants of them
+  let population = seeds.slice(0, populationSize).map((motif) => evaluate(motif, 0));
+  while (population.length < populationSize) {
+    const parent = pickRandom(rng, population);
+    const lengthBeats = lengthInBeats(parent.motif, beatsPerBar);
+    population.push(breed(mutate(parent.motif.notes, lengthBeats), parent, 0, population.length));
+  }
+
+  const tournament = () => {
+    let best = pickRandom(rng, population);
+    for (let i = 1; i < tournamentSize; i++) {
+      const challenger = pickRandom(rng, population);
+      if (challenger.fitness > best.fitness) best = challenger;
+    }
+    return best;
+  };
+
+  const history: MotifGenerationStats[] = [];
+  const record = (generation: number) => {
+    const unique = [...new Set(population)];
+    const best = unique.reduce((a, b) => (b.fitness > a.fitness ? b : a));
+    history.push({
+      generation,
+      bestFitness: best.fitness,
+      meanFitness: Math.round((population.reduce((sum, m) => sum + m.fitness, 0) / population.length) * 10) / 10,
+      bestMotifId: best.motif.id,
+      frontSize: motifParetoFront(unique, objectives).length,
+      diversity: Math.round((unique.length / population.length) * 100) / 100,
+    });
+  };
+  record(0);
+
+  for (let generation = 1; generation <= generations; generation++) {
+    const next = [...new Set(population)].sort((a, b) => b.fitness - a.fitness).slice(0, eliteCount);
+
+    while (next.length < populationSize) {
+      const first = tournament();
+      const second = tournament();
+      const lengthBeats = Math.min(lengthInBeats(first.motif, beatsPerBar), lengthInBeats(second.motif, beatsPerBar));
+
+      let notes =
+        rng() < crossoverRate
+          ? crossoverMotifs(first.motif.notes, second.motif.notes, lengthBeats, rng)
+          : first.motif.notes;
+      if (rng() < mutationRate || noteSignature(notes) === noteSignature(first.motif.notes)) {
+        notes = mutate(notes, lengthInBeats(first.motif, beatsPerBar));
+      }
+      next.push(breed(notes, first, generation, next.length));
+    }
+
+    population = next;
+    record(generation);
+  }
+
+  return {
+    type,
+    weights,
+    populationSize,
+    generations,
+    evaluated: archive.size,
+    paretoFront: motifParetoFront([...archive.values()], objectives),
+    history,
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Reharmonization
+ * Proposes alternative progressions under a melody (diatonic substitutes, secondary
+ * dominants, tritone substitutions, borrowed chords, extensions and inversions) and
+ * ranks them by how well the melody sits on the new chords
+ */
+
+import type { HarmonyProgression, MotifNote } from "../types";
+import { chordSymbolToPitches, getPitchClass, noteNameToPitch, parseChordSymbol, SCALES } from "../utils/musicTheory";
+import {
+  analyzeHarmony,
+  chordAt,
+  degreeToChord,
+  extendChord,
+  invertChord,
+  modalInterchangeOptions,
+  secondaryDominant,
+  tritoneSubstitution,
+  type ChordFunction,
+} from "./harmony";
+
+export type ReharmonizationStrategy =
+  | "diatonicSubstitution"
+  | "secondaryDominants"
+  | "tritoneSubstitution"
+  | "modalInterchange"
+  | "extensions"
+  | "inversions";
+
+/**
+ * One proposed progression and how it compares with the original
+ */
+export interface Reharmonization {
+  name: string;
+  strategy: ReharmonizationStrategy;
+  progression: HarmonyProgression[];
+  /** Roman numerals of the new progression in the key */
+  romans: string[];
+  /** How well the melody sits on the chords (0-100) */
+  melodyFit: number;
+  /** Chords replaced or added */
+  changes: number;
+}
+
+// Degrees that share two chord tones with each degree, the classic diatonic substitutes
+const DIATONIC_SUBSTITUTES: Record<number, number[]> = {
+  1: [6, 3],
+  2: [4],
+  3: [1, 5],
+  4: [2, 6],
+  5: [7, 3],
+  6: [1, 4],
+  7: [5],
+};
+
+const EXTENSIONS = ["seventh", "ninth", "add9", "sus4"] as const;
+
+const isStrongBeat = (time: number) => Math.abs(time - Math.round(time)) < 0.01;
+
+const rootClass = (symbol: string) => {
+  const parsed = parseChordSymbol(symbol);
+  return parsed ? getPitchClass(noteNameToPitch(parsed.root)) : undefined;
+};
+
+/**
+ * How well a melody sits on a progression (0-100)
+ * Chord tones fit, other notes half fit, and notes a semitone above a chord tone (avoid
+ * notes such as the fourth over a major chord) don't fit. Notes on the beat and long
+ * notes count for more; notes outside the progression are ignored
+ */
+export function scoreMelodyFit(melody: MotifNote[], progression: HarmonyProgression[]): number {
+  let fit = 0;
+  let weight = 0;
+
+  for (const note of melody) {
+    const chord = chordAt(progression, note.time);
+    const tones = chord ? chordSymbolToPitches(chord.chord).map(getPitchClass) : [];
+    if (tones.length === 0) continue;
+
+    const pitchClass = getPitchClass(note.pitch);
+    const noteWeight = note.duration * (isStrongBeat(note.time) ? 2 : 1);
+    const value = tones.includes(pitchClass) ? 1 : tones.includes(getPitchClass(pitchClass - 1)) ? 0 : 0.5;
+    fit += value * noteWeight;
+    weight += noteWeight;
+  }
+
+  return weight > 0 ? Math.round((fit / weight) * 100) : 100;
+}
+
+/**
+ * A replacement for one chord span of the progression; approach chords take over the
+ * second half of the chord before the one they lead into
+ */
+type ChordChange = { index: number; chords: HarmonyProgression[]; gain: number };
+type AppliedChanges = { progression: HarmonyProgression[]; changes: number };
+
+const fitOver = (melody: MotifNote[], chords: HarmonyProgression[]) => {
+  const start = chords[0]!.startBeat;
+  const end = chords[chords.length - 1]!.startBeat + chords[chords.length - 1]!.duration;
+  return scoreMelodyFit(melody.filter((n) => n.time >= start && n.time < end), chords);
+};
+
+/**
+ * Best replacement for a chord among the options, if any keeps the melody at least as well
+ */
+function bestReplacement(
+  melody: MotifNote[],
+  chord: HarmonyProgression,
+  index: number,
+  options: string[]
+): ChordChange | undefined {
+  const original = fitOver(melody, [chord]);
+  let best: ChordChange | undefined;
+  for (const option of options) {
+    if (option === chord.chord) continue;
+    const chords = [{ ...chord, chord: option }];
+    const gain = fitOver(melody, chords) - original;
+    if (gain >= 0 && (!best || gain > best.gain)) best = { index, chords, gain };
+  }
+  return best;
+}
+
+/**
+ * Lead into each chord with an approach chord in the second half of the chord before it
+ */
+function approachChanges(
+  melody: MotifNote[],
+  progression: HarmonyProgression[],
+  approach: (target: string) => string
+): ChordChange[] {
+  const changes: ChordChange[] = [];
+  progression.forEach((chord, i) => {
+    const previous = progression[i - 1];
+    const target = parseChordSymbol(chord.chord);
+    // Chords that don't parse are left as they are
+    const before = previous && parseChordSymbol(previous.chord);
+    if (!previous || previous.duration < 2 || !before || !target || target.type.startsWith("dim")) return;
+
+    // Nothing to add when the chord before is already a dominant on the approach chord's root
+    const approachChord = approach(chord.chord);
+    if (before.type.startsWith("dominant") && rootClass(approachChord) === rootClass(previous.chord)) return;
+
+    const half = previous.duration / 2;
+    const chords = [
+      { ...previous, duration: half },
+      { startBeat: previous.startBeat + half, chord: approachChord, duration: half },
+    ];
+    const gain = fitOver(melody, chords) - fitOver(melody, [previous]);
+    if (gain >= 0) changes.push({ index: i - 1, chords, gain });
+  });
+  return changes;
+}
+
+/**
+ * Apply the changes, keeping at most `limit` of them (the largest gains, earliest first)
+ * so the proposal still sounds like a variation on the original
+ */
+function applyChanges(
+  progression: HarmonyProgression[],
+  changes: ChordChange[],
+  limit: number = Math.ceil(progression.length / 2)
+): AppliedChanges {
+  const kept = [...changes]
+    .sort((a, b) => b.gain - a.gain || a.index - b.index)
+    .slice(0, limit);
+  const byIndex = new Map(kept.map((change) => [change.index, change.chords]));
+  return {
+    progression: progression.flatMap((chord, i) => byIndex.get(i) ?? [chord]),
+    changes: kept.length,
+  };
+}
+
+/**
+ * Inversions that keep the bass as close as possible to the previous chord's bass
+ */
+function inversionChanges(progression: HarmonyProgression[]): ChordChange[] {
+  const changes: ChordChange[] = [];
+  let previousBass = chordSymbolToPitches(progression[0]?.chord ?? "")[0];
+
+  progression.forEach((chord, i) => {
+    const options = [0, 1, 2].map((inversion) => {
+      try {
+        return invertChord(chord.chord, inversion);
+      } catch {
+        return chord.chord;
+      }
+    });
+    const bassOf = (symbol: string) => getPitchClass(chordSymbolToPitches(symbol)[0] ?? 0);
+    const distance = (symbol: string) => {
+      if (previousBass === undefined) return 0;
+      const shift = getPitchClass(bassOf(symbol) - previousBass);
+      return Math.min(shift, 12 - shift);
+    };
+
+    const best = i === 0 ? chord.chord : options.reduce((a, b) => (distance(b) < distance(a) ? b : a));
+    if (best !== chord.chord && best !== options[0]) {
+      changes.push({ index: i, chords: [{ ...chord, chord: best }], gain: 0 });
+    }
+    previousBass = bassOf(best);
+  });
+  return changes;
+}
+
+/**
+ * Propose alternative progressions under a melody, best fitting first
+ * Each strategy changes only chords where the melody fits the new chord at least as
+ * well as the old one; progressions the strategy can't change are left out
+ */
+export function reharmonizeMelody(
+  melody: MotifNote[],
+  progression: HarmonyProgression[],
+  key: string,
+  scale: keyof typeof SCALES = "major",
+  count: number = 5
+): { original: number; proposals: Reharmonization[] } {
+  const analysis = analyzeHarmony(progression, key, scale);
+  const diatonicDegree = (chord: ChordFunction) => (chord.source === "diatonic" ? chord.degree : undefined);
+
+  const perChord = (options: (chord: ChordFunction) => string[]) =>
+    progression
+      .map((chord, i) => bestReplacement(melody, chord, i, options(analysis.chords[i]!)))
+      .filter((change): change is ChordChange => change !== undefined);
+
+  const extend = (chord: ChordFunction) => {
+    const degree = diatonicDegree(chord);
+    if (!degree && !parseChordSymbol(chord.chord)) return [];
+    return EXTENSIONS.map((extension) =>
+      degree ? degreeToChord(degree, key, scale, extension) : extendChord(chord.chord, extension)
+    );
+  };
+
+  const strategies: Array<{ name: string; strategy: ReharmonizationStrategy; result: AppliedChanges }> = [
+    {
+      name: "Diatonic substitutes",
+      strategy: "diatonicSubstitution",
+      result: applyChanges(
+        progression,
+        perChord((chord) => {
+          const degree = diatonicDegree(chord);
+          return degree ? (DIATONIC_SUBSTITUTES[degree] ?? []).map((d) => degreeToChord(d, key, scale)) : [];
+        })
+      ),
+    },
+    {
+      name: "Secondary dominants",
+      strategy: "secondaryDominants",
+      result: applyChanges(progression, approachChanges(melody, progression, (target) => secondaryDominant(target))),
+    },
+    {
+      name: "Tritone substitutions",
+      strategy: "tritoneSubstitution",
+      result: applyChanges(
+        progression,
+        approachChanges(melody, progression, (target) => tritoneSubstitution(secondaryDominant(target)))
+      ),
+    },
+    {
+      name: "Borrowed chords",
+      strategy: "modalInterchange",
+      result: applyChanges(
+        progression,
+        perChord((chord) => {
+          const degree = diatonicDegree(chord);
+          // Borrowed diminished chords (such as the lydian #iv°) rarely sound borrowed, so leave them out
+          const options = degree ? modalInterchangeOptions(degree, key, scale) : [];
+          return options.map((option) => option.chord).filter((symbol) => !symbol.endsWith("dim"));
+        })
+      ),
+    },
+    {
+      name: "Extended chords",
+      strategy: "extensions",
+      result: applyChanges(progression, perChord(extend), progression.length),
+    },
+    {
+      name: "Stepwise bass (inversions)",
+      strategy: "inversions",
+      result: applyChanges(progression, inversionChanges(progression), progression.length),
+    },
+  ];
+
+  const proposals = strategies
+    .filter(({ result }) => result.changes > 0)
+    .map(({ name, strategy, result }) => ({
+      name,
+      strategy,
+      progression: result.progression,
+      romans: analyzeHarmony(result.progression, key, scale).chords.map((c) => c.roman),
+      melodyFit: scoreMelodyFit(melody, result.progression),
+      changes: result.changes,
+    }))
+    .sort((a, b) => b.melodyFit - a.melodyFit || a.changes - b.changes);
+
+  return { original: scoreMelodyFit(melody, progression), proposals: proposals.slice(0, count) };
+}
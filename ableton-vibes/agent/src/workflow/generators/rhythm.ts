@@ -5,6 +5,7 @@
 
 import type { MotifNote, StylePrior } from "../types";
 import { euclideanRhythm, applySwing, humanizeVelocity, rotatePattern as rotatePatternUtil } from "../utils/rhythmUtils";
+import { randomInt, type Rng } from "../utils/random";
 
 /**
  * Represents a rhythm pattern with steps and accents
@@ -206,15 +207,16 @@ export function patternToNotes(
 export function humanizeRhythm(
   notes: MotifNote[],
   timingJitter: number = 5,
-  velocityJitter: number = 10
+  velocityJitter: number = 10,
+  rng: Rng = Math.random
 ): MotifNote[] {
   return notes.map((note) => {
     // Apply simple random timing offset (jitter percentage)
-    const offset = (Math.random() - 0.5) * (timingJitter / 50);
+    const offset = (rng() - 0.5) * (timingJitter / 50);
     return {
       ...note,
       time: note.time + offset,
-      velocity: humanizeVelocity(note.velocity, velocityJitter),
+      velocity: humanizeVelocity(note.velocity, velocityJitter, rng),
     };
   });
 }
@@ -380,7 +382,8 @@ export function generateGenreRhythm(
 export function generateRhythmCandidates(
   stylePrior: StylePrior,
   element: "kick" | "snare" | "hihat" | "perc" = "hihat",
-  count: number = 5
+  count: number = 5,
+  rng: Rng = Math.random
 ): RhythmPattern[] {
   const candidates: RhythmPattern[] = [];
   const genreKeywords = stylePrior.guardrails.energyProfile.toLowerCase();
@@ -396,7 +399,7 @@ export function generateRhythmCandidates(
   candidates.push(generateGenreRhythm(detectedGenre, element));
 
   // Add variations
-  candidates.push(generateEuclideanPattern(Math.floor(Math.random() * 4) + 3, 16));
+  candidates.push(generateEuclideanPattern(randomInt(rng, 3, 6), 16));
   candidates.push(generateSyncopatedPattern("medium"));
   candidates.push(generatePulsePattern(8));
 
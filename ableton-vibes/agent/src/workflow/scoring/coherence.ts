@@ -9,6 +9,7 @@ import type {
   Voice,
   MotifNote,
 } from "../types";
+import { chordSymbolToPitches, getPitchClass } from "../utils/musicTheory";
 
 /**
  * Check for parallel fifths between two voice lines
@@ -266,8 +267,13 @@ export function detectRegisterCollisions(composition: SectionComposition): numbe
   return collisions;
 }
 
+// Left out of the chord-tone check: bass is judged on its roots, the rest may be unpitched
+const CHORD_TONE_EXEMPT_ROLES: Voice["role"][] = ["bass", "rhythm", "texture", "fx"];
+
 /**
  * Score harmonic clarity
+ * Rewards a bass that starts each chord on its root and upper voices that sit on
+ * chord tones on the beat
  */
 export function scoreHarmonicClarity(composition: SectionComposition): number {
   const { harmonyProgression, voices } = composition;
@@ -276,34 +282,51 @@ export function scoreHarmonicClarity(composition: SectionComposition): number {
 
   let score = 80; // Base score
 
-  // Check that bass notes align with chord roots
+  const chordClasses = harmonyProgression.map((chord) =>
+    chordSymbolToPitches(chord.chord).map(getPitchClass)
+  );
+  const chordIndexAt = (time: number) =>
+    harmonyProgression.findIndex((c) => time >= c.startBeat && time < c.startBeat + c.duration);
+
+  // Check that the bass enters each chord on its root
   const bassVoice = voices.find((v) => v.role === "bass");
   if (bassVoice) {
     let alignedRoots = 0;
-    let totalBassNotes = 0;
+    let chordsWithBass = 0;
 
-    for (const chord of harmonyProgression) {
-      const chordStart = chord.startBeat;
-      const chordEnd = chordStart + chord.duration;
+    harmonyProgression.forEach((chord, i) => {
+      const root = chordClasses[i]![0];
+      const firstBassNote = bassVoice.notes
+        .filter((n) => n.time >= chord.startBeat && n.time < chord.startBeat + chord.duration)
+        .sort((a, b) => a.time - b.time)[0];
+      if (!firstBassNote || root === undefined) return;
 
-      const bassNotesInChord = bassVoice.notes.filter(
-        (n) => n.time >= chordStart && n.time < chordEnd
-      );
+      chordsWithBass++;
+      if (getPitchClass(firstBassNote.pitch) === root) alignedRoots++;
+    });
 
-      for (const bassNote of bassNotesInChord) {
-        totalBassNotes++;
-        // Simple check: bass note on strong beat should match chord root
-        if (bassNote.time === chordStart || Math.abs(bassNote.time - chordStart) < 0.1) {
-          alignedRoots++;
-        }
-      }
+    if (chordsWithBass > 0) {
+      const alignmentRatio = alignedRoots / chordsWithBass;
+      score += alignmentRatio * 20 - 10; // Bonus for good alignment
     }
+  }
 
-    if (totalBassNotes > 0) {
-      const alignmentRatio = alignedRoots / totalBassNotes;
-      score += alignmentRatio * 20 - 10; // Bonus for good alignment
+  // Check that pitched upper voices land on chord tones on the beat
+  let onBeatNotes = 0;
+  let chordTones = 0;
+  for (const voice of voices) {
+    if (CHORD_TONE_EXEMPT_ROLES.includes(voice.role)) continue;
+    for (const note of voice.notes) {
+      if (Math.abs(note.time - Math.round(note.time)) >= 0.01) continue;
+      const classes = chordClasses[chordIndexAt(note.time)];
+      if (!classes?.length) continue;
+      onBeatNotes++;
+      if (classes.includes(getPitchClass(note.pitch))) chordTones++;
     }
   }
+  if (onBeatNotes > 0) {
+    score += (chordTones / onBeatNotes) * 20 - 10;
+  }
 
   // Check voice independence contributes to clarity
   const independence = analyzeVoiceIndependence(voices);
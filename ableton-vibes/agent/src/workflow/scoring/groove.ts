@@ -8,7 +8,7 @@ import type { GrooveCandidate, GrooveScore, StylePrior, GrooveBreakdown } from "
  * Analyze kick placement quality
  * Rewards downbeat anchoring and balanced syncopation
  */
-export function analyzeKickPlacement(kickPattern: number[]): number {
+export function analyzeKickPlacement(kickPattern: number[], steps = 16): number {
   if (kickPattern.length === 0) return 0;
 
   let score = 0;
@@ -34,7 +34,7 @@ export function analyzeKickPlacement(kickPattern: number[]): number {
   }
 
   // Penalize too sparse or too dense
-  const density = kickPattern.length / 16;
+  const density = kickPattern.length / steps;
   if (density < 0.1) score -= 20; // Too sparse
   if (density > 0.5) score -= 15; // Too dense
 
@@ -76,13 +76,13 @@ export function analyzeSnareBackbeat(snarePattern: number[], meter = "4/4"): num
 /**
  * Analyze hi-hat groove interest
  */
-export function analyzeHatGroove(hatPattern: number[]): number {
+export function analyzeHatGroove(hatPattern: number[], steps = 16): number {
   if (hatPattern.length === 0) return 30; // Minimal patterns can work
 
   let score = 50; // Base score
 
   // Reward moderate density (not too sparse, not machine-gun)
-  const density = hatPattern.length / 16;
+  const density = hatPattern.length / steps;
   if (density >= 0.25 && density <= 0.75) score += 20;
   if (density > 0.9) score -= 15; // Too busy
   if (density < 0.1) score -= 10; // Too sparse
@@ -122,9 +122,10 @@ export function measureSyncopation(pattern: number[]): number {
  * Score danceability based on kick/snare placement and syncopation
  */
 export function scoreDanceability(groove: GrooveCandidate): number {
-  const kickScore = analyzeKickPlacement(groove.kickPattern);
+  const steps = groove.steps ?? 16;
+  const kickScore = analyzeKickPlacement(groove.kickPattern, steps);
   const snareScore = analyzeSnareBackbeat(groove.snarePattern, groove.meter);
-  const hatScore = analyzeHatGroove(groove.hatPattern);
+  const hatScore = analyzeHatGroove(groove.hatPattern, steps);
 
   // Calculate syncopation - moderate is best for dance music
   const kickSyncopation = measureSyncopation(groove.kickPattern);
@@ -235,14 +236,16 @@ export function scoreGenreFit(groove: GrooveCandidate, stylePrior: StylePrior):
  * Calculate detailed groove breakdown
  */
 export function calculateGrooveBreakdown(groove: GrooveCandidate): GrooveBreakdown {
+  const steps = groove.steps ?? 16;
   return {
-    kickPlacement: analyzeKickPlacement(groove.kickPattern),
+    kickPlacement: analyzeKickPlacement(groove.kickPattern, steps),
     snareBackbeat: analyzeSnareBackbeat(groove.snarePattern, groove.meter),
-    hatGroove: analyzeHatGroove(groove.hatPattern),
+    hatGroove: analyzeHatGroove(groove.hatPattern, steps),
     syncopation: measureSyncopation([
       ...groove.kickPattern,
       ...groove.snarePattern,
       ...groove.hatPattern,
+      ...(groove.percPattern ?? []),
     ]),
   };
 }
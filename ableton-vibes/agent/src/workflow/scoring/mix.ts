@@ -14,7 +14,7 @@ import type {
 /**
  * Frequency band definitions in Hz
  */
-const FREQUENCY_BANDS = {
+export const FREQUENCY_BANDS = {
   sub: { low: 20, high: 60 },
   bass: { low: 60, high: 200 },
   lowMid: { low: 200, high: 500 },
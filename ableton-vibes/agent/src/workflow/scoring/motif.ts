@@ -2,7 +2,14 @@
  * Motif scoring functions for memorability, singability, tension/relief, novelty
  */
 
-import type { MotifSeed, MotifScore, StylePrior, MotifBreakdown, MotifNote } from "../types";
+import type {
+  MotifSeed,
+  MotifScore,
+  StylePrior,
+  MotifBreakdown,
+  MotifNote,
+  MotifFitnessWeights,
+} from "../types";
 import { getScalePitchClasses, getPitchClass, getInterval, SCALES } from "../utils/musicTheory";
 
 /**
@@ -422,3 +429,28 @@ export function rankMotifs(
 
   return scored.sort((a, b) => b.score.overall - a.score.overall);
 }
+
+/**
+ * Fitness weights matching the share each objective has in the overall score
+ */
+export const DEFAULT_MOTIF_FITNESS_WEIGHTS: MotifFitnessWeights = {
+  memorability: 0.25,
+  singability: 0.2,
+  novelty: 0.15,
+  genreFit: 0.2,
+};
+
+/**
+ * Weighted average of the fitness objectives (0-100); weights need not sum to 1
+ */
+export function calculateMotifFitness(
+  score: MotifScore,
+  weights: MotifFitnessWeights = DEFAULT_MOTIF_FITNESS_WEIGHTS
+): number {
+  const objectives = Object.keys(weights) as Array<keyof MotifFitnessWeights>;
+  const total = objectives.reduce((sum, objective) => sum + Math.max(0, weights[objective]), 0);
+  if (total === 0) return score.overall;
+
+  const weighted = objectives.reduce((sum, objective) => sum + score[objective] * Math.max(0, weights[objective]), 0);
+  return Math.round((weighted / total) * 10) / 10;
+}
@@ -9,9 +9,18 @@ import { tool } from "@langchain/core/tools";
 import {
   ProductionBriefSchema,
   ProductionSpecSchema,
+  SeedSchema,
   type ProductionBrief,
   type ProductionSpec,
 } from "../types";
+import { randomSeed } from "../utils/random";
+import { applyTempoRules, mentionsElement, parseBriefRules } from "../utils/briefRules";
+import {
+  analyzeReferenceFile,
+  isAudioReference,
+  summarizeReferences,
+  type ReferenceSummary,
+} from "../utils/referenceAnalysis";
 
 /**
  * Parse and validate a production brief from natural language
@@ -38,8 +47,27 @@ export function parseBrief(input: {
   };
 }
 
+/**
+ * Mix aesthetic heard in the references: spectral tilt and loudness
+ */
+function referenceMixAesthetic(summary: ReferenceSummary): string {
+  const band = (name: string) => summary.spectralBalance[name] ?? 0;
+  const traits: string[] = [];
+  if (band("sub") + band("bass") >= 65) traits.push("bass-heavy");
+  if (band("highMid") + band("presence") + band("air") >= 12) traits.push("bright");
+  else if (band("lowMid") + band("mid") >= 35) traits.push("warm");
+  if (summary.integratedLoudness >= -9) traits.push("loud, dense");
+  else if (summary.integratedLoudness <= -14 || summary.loudnessRange >= 10) traits.push("dynamic");
+  if (!traits.length) traits.push("balanced");
+
+  return `${traits.join(", ")} (references at ${summary.integratedLoudness} LUFS)`;
+}
+
 /**
  * Derive production spec from brief
+ * Analyzed reference audio sets the tempo range, energy arc, mix aesthetic, key and
+ * section count ahead of genre and mood. Tempo rules then narrow the tempo range, and
+ * the instrumentation drops what the rules forbid and adds what they require
  */
 export function deriveProductionSpec(brief: ProductionBrief): ProductionSpec {
   // Determine tempo range based on genres
@@ -114,6 +142,21 @@ export function deriveProductionSpec(brief: ProductionBrief): ProductionSpec {
     }
   }
 
+  const constraints = parseBriefRules(brief.rules);
+  const allowedInstruments = instrumentation.filter(
+    (instrument) => !constraints.some((c) => c.kind === "forbidElement" && mentionsElement(instrument, c.element))
+  );
+  for (const c of constraints) {
+    if (c.kind === "requireElement") allowedInstruments.push(c.element);
+  }
+  const references = summarizeReferences(brief.referenceAnalyses);
+  const tempoRange = applyTempoRules(
+    references
+      ? { min: Math.floor(references.tempoRange.min - 2), max: Math.ceil(references.tempoRange.max + 2) }
+      : { min: minTempo, max: maxTempo },
+    constraints
+  );
+
   // Determine mix aesthetic
   let mixAesthetic = "balanced";
   if (moodLower.some((m) => m.includes("dark") || m.includes("heavy"))) {
@@ -124,14 +167,17 @@ export function deriveProductionSpec(brief: ProductionBrief): ProductionSpec {
     mixAesthetic = "warm, analog";
   }
 
+  if (references) mixAesthetic = referenceMixAesthetic(references);
+
   return {
-    tempoRange: { min: minTempo, max: maxTempo },
-    energyArc,
-    instrumentation: [...new Set(instrumentation)],
+    tempoRange,
+    energyArc: references?.energyArc ?? energyArc,
+    instrumentation: [...new Set(allowedInstruments)],
     mixAesthetic,
+    ...(references && { key: references.key, scale: references.scale }),
     structuralConstraints: {
-      minSections: 4,
-      maxSections: 12,
+      minSections: references ? Math.max(2, references.sectionCount.min - 1) : 4,
+      maxSections: references ? Math.max(4, references.sectionCount.max + 2) : 12,
       requireIntro: true,
       requireOutro: true,
     },
@@ -144,27 +190,39 @@ export function deriveProductionSpec(brief: ProductionBrief): ProductionSpec {
 const IngestBriefInputSchema = z.object({
   genres: z.array(z.string()).describe("Music genres (e.g., ['techno', 'ambient'])"),
   mood: z.array(z.string()).describe("Mood descriptors (e.g., ['dark', 'driving', 'hypnotic'])"),
-  references: z.array(z.string()).optional().describe("Reference tracks or artists"),
+  references: z
+    .array(z.string())
+    .optional()
+    .describe("Reference tracks or artists, or paths to local WAV / AIFF files to analyze"),
   useCase: z.string().optional().describe("Use case (e.g., 'club', 'meditation', 'workout')"),
   targetDurationBars: z.number().optional().describe("Target length in bars (default 128)"),
   mustInclude: z.array(z.string()).optional().describe("Elements that must be included"),
   mustAvoid: z.array(z.string()).optional().describe("Elements to avoid"),
+  seed: SeedSchema.optional().describe(
+    "Run seed that every later generation step derives from (random if omitted). Reuse it to replay a whole run."
+  ),
 });
 
 /**
  * Tool for ingesting a production brief
  */
 export const workflowIngestBrief = tool(
-  async (input): Promise<{ brief: ProductionBrief; spec: ProductionSpec }> => {
+  async (input): Promise<{ brief: ProductionBrief; spec: ProductionSpec; seed: number }> => {
     const brief = parseBrief(input);
+    const audioReferences = brief.references?.filter(isAudioReference) ?? [];
+    if (audioReferences.length) {
+      brief.referenceAnalyses = await Promise.all(audioReferences.map(analyzeReferenceFile));
+    }
     const spec = deriveProductionSpec(brief);
 
-    return { brief, spec };
+    return { brief, spec, seed: input.seed ?? randomSeed() };
   },
   {
     name: "workflowIngestBrief",
     description:
       "Ingest a music production brief and derive production specifications. " +
+      "References that are paths to WAV / AIFF files are analyzed for tempo, key, loudness, " +
+      "spectral balance and sections, which then anchor the spec. " +
       "Use this at the start of a new production to capture the user's intent.",
     schema: IngestBriefInputSchema,
   }
@@ -196,6 +254,7 @@ export const workflowLockIntent = tool(
       `- Genres: ${input.brief.genres.join(", ")}\n` +
       `- Mood: ${input.brief.mood.join(", ")}\n` +
       `- Tempo: ${input.spec.tempoRange.min}-${input.spec.tempoRange.max} BPM\n` +
+      (input.spec.key ? `- Key: ${input.spec.key} ${input.spec.scale ?? ""}\n` : "") +
       `- Duration: ${input.brief.targetDurationBars} bars\n` +
       `- Mix: ${input.spec.mixAesthetic}`;
 
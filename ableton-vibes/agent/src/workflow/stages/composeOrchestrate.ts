@@ -10,6 +10,8 @@ import {
   ArrangementSectionSchema,
   MotifSeedSchema,
   HarmonyProgressionSchema,
+  MotifNoteSchema,
+  ProductionBriefSchema,
   VoiceSchema,
   type ArrangementSection,
   type SectionComposition,
@@ -20,17 +22,51 @@ import {
   type CompositionScore,
 } from "../types";
 import { calculateCompositionScore } from "../scoring/coherence";
-import { varyMotif } from "../generators/motif";
-import { generateProgressionFromTemplate, PROGRESSION_TEMPLATES } from "../generators/harmony";
+import { classifyMotifNotes, transposeMotif, varyMotif } from "../generators/motif";
+import { isDrumTrack, type MidiFile, type MidiFileTrack } from "../utils/midiFile";
+import {
+  analyzeHarmony,
+  analyzeProgressionMood,
+  degreeToChord,
+  extendProgression,
+  fitMelodyToHarmony,
+  generateProgressionFromTemplate,
+  PROGRESSION_TEMPLATES,
+  realizeBassLine,
+  realizeChordVoice,
+  type HarmonyAnalysis,
+} from "../generators/harmony";
+import { reharmonizeMelody, type Reharmonization } from "../generators/reharmonization";
+import { getBeatsPerBar } from "../utils/rhythmUtils";
+import { SCALES } from "../utils/musicTheory";
+import { checkMotifRules, checkVoiceRules, filterByRules, parseBriefRules } from "../utils/briefRules";
+
+/**
+ * Section harmony that voices are fitted to
+ */
+type SectionHarmony = {
+  progression: HarmonyProgression[];
+  key: string;
+  scale: string;
+};
 
 /**
  * Generate voice notes from motif and section parameters
+ * The motif is moved into the section key and looped to fill the section, then
+ * fitted to the harmony by role:
+ * bass follows the chord roots, harmony and pad play voiced chords, and melodic
+ * lines are transposed per chord. Rhythm voices are left as written
  */
 function generateVoiceFromMotif(
   motif: MotifSeed,
   section: ArrangementSection,
-  role: Voice["role"]
+  role: Voice["role"],
+  harmony: SectionHarmony,
+  beatsPerBar: number = 4
 ): Voice {
+  const { progression, key, scale } = harmony;
+  const source = role === "rhythm" ? motif : transposeMotif(motif, key, scale);
+
   // Repeat motif to fill section
   const notes: MotifNote[] = [];
   const barsToFill = section.lengthBars;
@@ -38,21 +74,30 @@ function generateVoiceFromMotif(
   const repetitions = Math.ceil(barsToFill / motifLengthBars);
 
   for (let rep = 0; rep < repetitions; rep++) {
-    const offset = rep * motifLengthBars * 4; // 4 beats per bar
-    for (const note of motif.notes) {
+    const offset = rep * motifLengthBars * beatsPerBar;
+    for (const note of source.notes) {
       const newNote = { ...note, time: note.time + offset };
       // Only include if within section bounds
-      if (newNote.time < barsToFill * 4) {
+      if (newNote.time < barsToFill * beatsPerBar) {
         notes.push(newNote);
       }
     }
   }
 
+  let fitted = notes;
+  if (role === "bass") {
+    fitted = realizeBassLine(notes, progression, key, scale);
+  } else if (role === "harmony" || role === "pad") {
+    fitted = realizeChordVoice(notes, progression);
+  } else if (role === "topline" || role === "lead" || role === "counterline") {
+    fitted = fitMelodyToHarmony(notes, progression, key, scale, source.key);
+  }
+
   return {
     role,
     trackName: `${role}-${section.id}`,
     clipName: `${motif.name}-${section.name}`,
-    notes,
+    notes: fitted,
   };
 }
 
@@ -94,14 +139,76 @@ function analyzeRegisterDistribution(voices: Voice[]): Record<string, number> {
   return distribution;
 }
 
+/**
+ * Guess the voice role of an imported MIDI part from its channel, type and register
+ */
+function roleForMidiTrack(track: MidiFileTrack, notes: MotifNote[], leadTaken: boolean): Voice["role"] {
+  if (isDrumTrack(track)) return "rhythm";
+
+  const type = classifyMotifNotes(notes);
+  const avgPitch = notes.reduce((sum, n) => sum + n.pitch, 0) / notes.length;
+  if (type === "harmonic") return avgPitch >= 60 ? "pad" : "harmony";
+  if (type === "textural") return "texture";
+  if (avgPitch < 48) return "bass";
+  if (type === "rhythmic") return "rhythm";
+  return leadTaken ? "counterline" : "topline";
+}
+
+/**
+ * Build a section composition from a parsed MIDI file, one voice per part
+ * Density follows the number of parts; the file carries no chord symbols, so
+ * the harmony progression stays empty
+ */
+export function composeSectionFromMidi(
+  file: MidiFile,
+  sectionId: string,
+  startBeat = 0,
+  lengthBeats = file.lengthBeats - startBeat
+): SectionComposition {
+  const voices: Voice[] = [];
+  let leadTaken = false;
+
+  for (const track of file.tracks) {
+    const notes = track.notes
+      .filter((n) => n.time >= startBeat && n.time < startBeat + lengthBeats)
+      .map(({ pitch, time, duration, velocity }) => ({ pitch, time: time - startBeat, duration, velocity }));
+    if (notes.length === 0) continue;
+
+    const role = roleForMidiTrack(track, notes, leadTaken);
+    leadTaken ||= role === "topline";
+    const sameRole = voices.filter((v) => v.role === role).length;
+    const trackName = sameRole ? `${role}-${sameRole + 1}-${sectionId}` : `${role}-${sectionId}`;
+    voices.push({ role, trackName, clipName: track.name, notes });
+  }
+
+  return {
+    sectionId,
+    voices,
+    harmonyProgression: [],
+    densityLevel: Math.min(10, Math.max(1, voices.length * 2)),
+    registerDistribution: analyzeRegisterDistribution(voices),
+  };
+}
+
 /**
  * Tool schema for composing a section
  */
 const ComposeSectionInputSchema = z.object({
   section: ArrangementSectionSchema.describe("The section to compose"),
   motifs: z.array(MotifSeedSchema).describe("Available motifs to use"),
-  key: z.string().optional().describe("Musical key (default C)"),
+  key: z.string().optional().describe("Musical key when the section has none (default C)"),
+  scale: z.string().optional().describe("Scale when the section has none (default minor)"),
+  meter: z.string().optional().describe("Time signature when the section has none (default 4/4)"),
   chordProgression: z.string().optional().describe("Chord progression template name"),
+  progression: z
+    .array(HarmonyProgressionSchema)
+    .optional()
+    .describe("Explicit chords, e.g. a workflowReharmonize proposal; looped over the section instead of a template"),
+  endChord: z
+    .string()
+    .optional()
+    .describe("Chord to end the section on, e.g. the pivot chord into the next section's key"),
+  rules: ProductionBriefSchema.shape.rules.describe("Brief must / mustNot rules to enforce"),
 });
 
 /**
@@ -109,10 +216,44 @@ const ComposeSectionInputSchema = z.object({
  */
 export const workflowComposeSection = tool(
   async (input): Promise<SectionComposition> => {
-    const { section, motifs } = input;
-    const key = input.key || "C";
+    const { section } = input;
+    const constraints = parseBriefRules(input.rules);
+    const motifs = filterByRules(input.motifs, (motif) => checkMotifRules(motif, constraints));
+    // The section's own key, scale and meter win over the track's
+    const key = section.key || input.key || "C";
+    const scale = section.scale ?? input.scale ?? "minor";
+    const beatsPerBar = getBeatsPerBar(section.meter ?? input.meter ?? "4/4");
     const voices: Voice[] = [];
 
+    // Generate harmony progression
+    let harmonyProgression: HarmonyProgression[] = [];
+    if (input.progression?.length) {
+      harmonyProgression = input.progression;
+    } else if (input.chordProgression && PROGRESSION_TEMPLATES[input.chordProgression]) {
+      harmonyProgression = generateProgressionFromTemplate(
+        input.chordProgression,
+        key,
+        scale,
+        beatsPerBar
+      );
+    } else {
+      // Default progression, a bar per chord on the tonic of the scale
+      const tonic = degreeToChord(1, key, scale);
+      harmonyProgression = [
+        { startBeat: 0, chord: tonic, duration: beatsPerBar },
+        { startBeat: beatsPerBar, chord: tonic, duration: beatsPerBar },
+      ];
+    }
+
+    // Cover the whole section so every voice has a chord to fit to
+    harmonyProgression = extendProgression(harmonyProgression, section.lengthBars, beatsPerBar);
+    const { endChord } = input;
+    if (endChord && harmonyProgression.length > 0) {
+      const last = harmonyProgression.length - 1;
+      harmonyProgression = harmonyProgression.map((chord, i) => (i === last ? { ...chord, chord: endChord } : chord));
+    }
+    const harmony: SectionHarmony = { progression: harmonyProgression, key, scale };
+
     // Select motifs based on section energy and type
     const melodicMotifs = motifs.filter((m) => m.type === "melodic");
     const rhythmicMotifs = motifs.filter((m) => m.type === "rhythmic");
@@ -122,59 +263,45 @@ export const workflowComposeSection = tool(
     // Always add bass for high energy sections
     if (section.energyLevel >= 40 && rhythmicMotifs.length > 0) {
       const bassMotif = rhythmicMotifs[0]!;
-      voices.push(generateVoiceFromMotif(bassMotif, section, "bass"));
+      voices.push(generateVoiceFromMotif(bassMotif, section, "bass", harmony, beatsPerBar));
     }
 
     // Add lead/topline for verse and drop sections
     if (melodicMotifs.length > 0 && (section.type === "verse" || section.type === "drop")) {
       const leadMotif = melodicMotifs[0]!;
-      voices.push(generateVoiceFromMotif(leadMotif, section, "topline"));
+      voices.push(generateVoiceFromMotif(leadMotif, section, "topline", harmony, beatsPerBar));
     }
 
     // Add harmony for breakdown sections
     if (harmonicMotifs.length > 0 && section.type === "breakdown") {
       const harmonyMotif = harmonicMotifs[0]!;
-      voices.push(generateVoiceFromMotif(harmonyMotif, section, "harmony"));
+      voices.push(generateVoiceFromMotif(harmonyMotif, section, "harmony", harmony, beatsPerBar));
     }
 
     // Add pad for atmospheric sections
     if (texturalMotifs.length > 0 && section.energyLevel >= 30) {
       const padMotif = texturalMotifs[0]!;
-      voices.push(generateVoiceFromMotif(padMotif, section, "pad"));
+      voices.push(generateVoiceFromMotif(padMotif, section, "pad", harmony, beatsPerBar));
     }
 
     // Add rhythm for most sections
     if (rhythmicMotifs.length > 0 && section.energyLevel >= 20) {
       const rhythmMotif = rhythmicMotifs[Math.min(1, rhythmicMotifs.length - 1)]!;
-      voices.push(generateVoiceFromMotif(rhythmMotif, section, "rhythm"));
+      voices.push(generateVoiceFromMotif(rhythmMotif, section, "rhythm", harmony, beatsPerBar));
     }
 
-    // Generate harmony progression
-    let harmonyProgression: HarmonyProgression[] = [];
-    if (input.chordProgression && PROGRESSION_TEMPLATES[input.chordProgression]) {
-      harmonyProgression = generateProgressionFromTemplate(
-        input.chordProgression,
-        key,
-        "minor",
-        4
-      );
-    } else {
-      // Default progression
-      harmonyProgression = [
-        { startBeat: 0, chord: `${key}min`, duration: 4 },
-        { startBeat: 4, chord: `${key}min`, duration: 4 },
-      ];
-    }
+    // Leave out the voices the brief forbids, e.g. no pads
+    const allowedVoices = voices.filter((voice) => checkVoiceRules(voice, constraints).length === 0);
 
     // Calculate density level
     const densityLevel = densityFromEnergy(section.energyLevel);
 
     // Analyze register distribution
-    const registerDistribution = analyzeRegisterDistribution(voices);
+    const registerDistribution = analyzeRegisterDistribution(allowedVoices);
 
     return {
       sectionId: section.id,
-      voices,
+      voices: allowedVoices,
       harmonyProgression,
       densityLevel,
       registerDistribution,
@@ -184,7 +311,9 @@ export const workflowComposeSection = tool(
     name: "workflowComposeSection",
     description:
       "Compose a single section using available motifs. " +
-      "Assigns motifs to voices based on section type and energy level.",
+      "Assigns motifs to voices based on section type and energy level, " +
+      "in the section's key and scale when it has them (the track key and scale otherwise), " +
+      "without the motifs and voices the brief rules forbid.",
     schema: ComposeSectionInputSchema,
   }
 );
@@ -225,7 +354,10 @@ export const workflowScoreComposition = tool(
 const ComposeAllSectionsInputSchema = z.object({
   sections: z.array(ArrangementSectionSchema).describe("All sections to compose"),
   motifs: z.array(MotifSeedSchema).describe("Available motifs"),
-  key: z.string().optional().describe("Musical key"),
+  key: z.string().optional().describe("Musical key for sections without their own"),
+  scale: z.string().optional().describe("Track scale for sections without their own (default minor)"),
+  meter: z.string().optional().describe("Time signature of the time base (default 4/4)"),
+  rules: ProductionBriefSchema.shape.rules.describe("Brief must / mustNot rules to enforce"),
 });
 
 /**
@@ -241,14 +373,22 @@ export const workflowComposeAllSections = tool(
     const scores: CompositionScore[] = [];
 
     const key = input.key || "C";
+    const ordered = [...input.sections].sort((a, b) => a.startBar - b.startBar);
 
     for (const section of input.sections) {
+      // A pivot modulation into the next section is prepared by ending on the pivot chord
+      const next = ordered[ordered.indexOf(section) + 1];
+
       // Compose each section
       const composeTool = workflowComposeSection;
       const composition = await composeTool.invoke({
         section,
         motifs: input.motifs,
         key,
+        scale: input.scale,
+        meter: input.meter,
+        endChord: next?.modulation?.pivotChord,
+        rules: input.rules,
       });
 
       compositions.push(composition);
@@ -273,15 +413,104 @@ export const workflowComposeAllSections = tool(
   {
     name: "workflowComposeAllSections",
     description:
-      "Compose all sections in the arrangement at once. " +
-      "Returns compositions, scores, and overall coherence metric.",
+      "Compose all sections in the arrangement at once, each in its own key with motifs and progressions " +
+      "transposed to it. Returns compositions, scores, and overall coherence metric.",
     schema: ComposeAllSectionsInputSchema,
   }
 );
 
+/**
+ * The progression a harmony tool works on: the explicit chords, or a template in the key
+ */
+function resolveProgression(
+  input: { progression?: HarmonyProgression[]; chordProgression?: string; meter?: string },
+  key: string,
+  scale: string
+): HarmonyProgression[] {
+  if (input.progression?.length) return input.progression;
+  if (!input.chordProgression) {
+    throw new Error("Give either a progression or a chordProgression template name");
+  }
+  return generateProgressionFromTemplate(input.chordProgression, key, scale, getBeatsPerBar(input.meter ?? "4/4"));
+}
+
+const HarmonyInputShape = {
+  progression: z.array(HarmonyProgressionSchema).optional().describe("Chords to work on"),
+  chordProgression: z
+    .string()
+    .optional()
+    .describe(`Progression template used when no chords are given (${Object.keys(PROGRESSION_TEMPLATES).join(", ")})`),
+  key: z.string().optional().describe("Musical key (default C)"),
+  scale: z
+    .enum(Object.keys(SCALES) as [string, ...string[]])
+    .optional()
+    .describe("Scale (default major)"),
+  meter: z.string().optional().describe("Time signature of the time base (default 4/4); a template chord lasts a bar"),
+};
+
+/**
+ * Tool schema for harmonic analysis
+ */
+const AnalyzeHarmonyInputSchema = z.object(HarmonyInputShape);
+
+/**
+ * Tool for labelling a progression's harmonic functions
+ */
+export const workflowAnalyzeHarmony = tool(
+  async (input): Promise<HarmonyAnalysis & ReturnType<typeof analyzeProgressionMood>> => {
+    const key = input.key || "C";
+    const scale = input.scale || "major";
+    const progression = resolveProgression(input, key, scale);
+    return { ...analyzeHarmony(progression, key, scale), ...analyzeProgressionMood(progression) };
+  },
+  {
+    name: "workflowAnalyzeHarmony",
+    description:
+      "Functional harmony analysis of a progression: labels each chord tonic, predominant or dominant with its " +
+      "roman numeral, recognises borrowed chords, secondary dominants, tritone substitutions and inversions, " +
+      "and finds authentic, plagal, half and deceptive cadences. Also returns the progression's mood and tension.",
+    schema: AnalyzeHarmonyInputSchema,
+  }
+);
+
+/**
+ * Tool schema for reharmonizing a melody
+ */
+const ReharmonizeInputSchema = z.object({
+  ...HarmonyInputShape,
+  melody: z.array(MotifNoteSchema).describe("Melody notes, timed in beats from the start of the progression"),
+  count: z.number().int().min(1).max(6).optional().describe("Proposals to return (default 5)"),
+});
+
+/**
+ * Tool for proposing alternative progressions under a melody
+ */
+export const workflowReharmonize = tool(
+  async (input): Promise<{ analysis: HarmonyAnalysis; original: number; proposals: Reharmonization[] }> => {
+    const key = input.key || "C";
+    const scale = input.scale || "major";
+    const progression = resolveProgression(input, key, scale);
+    return {
+      analysis: analyzeHarmony(progression, key, scale),
+      ...reharmonizeMelody(input.melody, progression, key, scale, input.count),
+    };
+  },
+  {
+    name: "workflowReharmonize",
+    description:
+      "Propose alternative progressions under a melody: diatonic substitutes, secondary dominants, tritone " +
+      "substitutions, borrowed chords (modal interchange), 7th/9th/add9/sus extensions and inversions for a " +
+      "stepwise bass. Chords only change where the melody fits them at least as well; proposals are ranked by " +
+      "melody fit against the original's. Pass a proposal's progression to workflowComposeSection.",
+    schema: ReharmonizeInputSchema,
+  }
+);
+
 // Export all stage 7 tools
 export const stage7Tools = [
   workflowComposeSection,
   workflowScoreComposition,
   workflowComposeAllSections,
+  workflowAnalyzeHarmony,
+  workflowReharmonize,
 ];
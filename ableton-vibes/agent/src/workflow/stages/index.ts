@@ -37,6 +37,7 @@ export {
   workflowScoreMotifs,
   workflowSelectTopMotifs,
   workflowGenerateAllMotifTypes,
+  workflowEvolveMotifs,
   stage5Tools,
 } from "./motifSeed";
 
@@ -45,6 +46,7 @@ export {
   workflowDraftMacroStructure,
   workflowValidateEnergyCurve,
   workflowAdjustSection,
+  workflowPlanModulations,
   stage6Tools,
 } from "./macroStructure";
 
@@ -53,6 +55,9 @@ export {
   workflowComposeSection,
   workflowScoreComposition,
   workflowComposeAllSections,
+  workflowAnalyzeHarmony,
+  workflowReharmonize,
+  composeSectionFromMidi,
   stage7Tools,
 } from "./composeOrchestrate";
 
@@ -67,6 +72,7 @@ export {
 
 // Stage 9: Mix & Spatial Design
 export {
+  workflowCheckRuleCompliance,
   workflowCreateLevelingPlan,
   workflowGenerateEqCompSuggestions,
   workflowDesignSpatialScene,
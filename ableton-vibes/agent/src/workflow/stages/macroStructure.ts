@@ -11,6 +11,7 @@ import {
   ProductionBriefSchema,
   ProductionSpecSchema,
   ArrangementSectionSchema,
+  ModulationSchema,
   type StylePrior,
   type ProductionBrief,
   type ProductionSpec,
@@ -24,6 +25,7 @@ import {
   validateStructure,
   ARCHETYPE_STRUCTURES,
 } from "../utils/structureTemplates";
+import { planModulations, validateModulations, type ModulationProposal } from "../generators/modulation";
 
 /**
  * Tool schema for drafting macro structure
@@ -133,6 +135,7 @@ export const workflowValidateEnergyCurve = tool(
     if (!validation.valid) {
       warnings.push(...validation.issues);
     }
+    warnings.push(...validateModulations(structure.sections));
 
     // Check for key moments
     if (structure.keyMoments.length === 0) {
@@ -161,7 +164,8 @@ export const workflowValidateEnergyCurve = tool(
     name: "workflowValidateEnergyCurve",
     description:
       "Validate the energy curve of the arrangement. " +
-      "Checks for smooth transitions, proper dynamic range, and key moments.",
+      "Checks for smooth transitions, proper dynamic range, key moments, valid section tempo and meter overrides, " +
+      "and abrupt key changes without a pivot chord.",
     schema: ValidateEnergyCurveInputSchema,
   }
 );
@@ -182,6 +186,12 @@ const AdjustSectionInputSchema = z.object({
     lengthBars: z.number().optional(),
     energyLevel: z.number().optional(),
     name: z.string().optional(),
+    tempo: z.number().optional().describe("Tempo override in BPM, e.g. half time for a breakdown"),
+    meter: z.string().optional().describe("Time signature override, e.g. 3/4"),
+    tempoRamp: z.object({ to: z.number() }).optional().describe("Ramp to this BPM by the section end"),
+    key: z.string().optional().describe("Key of the section, e.g. D"),
+    scale: z.string().optional().describe("Scale of the section key"),
+    modulation: ModulationSchema.optional().describe("How the section moves into its key"),
   }).describe("Changes to apply to the section"),
 });
 
@@ -199,6 +209,12 @@ export const workflowAdjustSection = tool(
       if (changes.lengthBars !== undefined) updated.lengthBars = changes.lengthBars;
       if (changes.energyLevel !== undefined) updated.energyLevel = changes.energyLevel;
       if (changes.name !== undefined) updated.name = changes.name;
+      if (changes.tempo !== undefined) updated.tempo = changes.tempo;
+      if (changes.meter !== undefined) updated.meter = changes.meter;
+      if (changes.tempoRamp !== undefined) updated.tempoRamp = changes.tempoRamp;
+      if (changes.key !== undefined) updated.key = changes.key;
+      if (changes.scale !== undefined) updated.scale = changes.scale;
+      if (changes.modulation !== undefined) updated.modulation = changes.modulation;
 
       return updated;
     });
@@ -231,14 +247,67 @@ export const workflowAdjustSection = tool(
     name: "workflowAdjustSection",
     description:
       "Adjust a specific section in the macro structure. " +
-      "Can change length, energy level, or name of a section.",
+      "Can change length, energy level, or name of a section, or give it its own tempo, meter, tempo ramp or key.",
     schema: AdjustSectionInputSchema,
   }
 );
 
+const MODULATION_TYPES = ["relative", "parallel", "step-up", "pivot", "none"] as const;
+
+/**
+ * Tool schema for planning key modulations
+ */
+const PlanModulationsInputSchema = z.object({
+  structure: z.object({
+    archetype: z.string(),
+    totalBars: z.number(),
+    sections: z.array(ArrangementSectionSchema),
+    energyCurve: z.array(z.object({ bar: z.number(), energy: z.number() })),
+    keyMoments: z.array(z.object({ bar: z.number(), description: z.string() })),
+  }).describe("The current macro structure"),
+  key: z.string().optional().describe("Home key of the track (default C)"),
+  scale: z.string().optional().describe("Home scale of the track (default minor)"),
+  lift: z
+    .enum(MODULATION_TYPES)
+    .optional()
+    .describe("Modulation for the final chorus or drop (default step-up, none to stay in key)"),
+  contrast: z
+    .enum(MODULATION_TYPES)
+    .optional()
+    .describe("Modulation for breakdowns and bridges (default relative, none to stay in key)"),
+});
+
+/**
+ * Tool for planning key modulations across the sections
+ */
+export const workflowPlanModulations = tool(
+  async (input): Promise<{ structure: MacroStructure; proposals: ModulationProposal[]; issues: string[] }> => {
+    const home = { key: input.key || "C", scale: input.scale || "minor" };
+    const { sections, proposals } = planModulations(input.structure.sections, home, {
+      lift: input.lift,
+      contrast: input.contrast,
+    });
+
+    return {
+      structure: { ...input.structure, sections },
+      proposals,
+      issues: validateModulations(sections, home),
+    };
+  },
+  {
+    name: "workflowPlanModulations",
+    description:
+      "Plan the key of every section: a lift on the final chorus or drop and a contrasting key for breakdowns " +
+      "and bridges, each prepared by a pivot chord where the keys share one. Sections that already have a key " +
+      "keep it. Returns the updated structure, the proposed modulations, and any abrupt key changes.",
+    schema: PlanModulationsInputSchema,
+  }
+);
+
 // Export all stage 6 tools
 export const stage6Tools = [
   workflowDraftMacroStructure,
   workflowValidateEnergyCurve,
   workflowAdjustSection,
+  workflowPlanModulations,
 ];
@@ -8,8 +8,14 @@
 import { z } from "zod";
 import { tool } from "@langchain/core/tools";
 import {
+  ArrangementSectionSchema,
+  MotifSeedSchema,
+  PaletteEntrySchema,
+  ProductionBriefSchema,
   SoundPaletteSchema,
   SectionCompositionSchema,
+  TimeBaseSchema,
+  type RuleCompliance,
   type SoundPalette,
   type SectionComposition,
   type LevelingPlan,
@@ -19,6 +25,7 @@ import {
   type MixDesign,
 } from "../types";
 import { calculateMixScore } from "../scoring/mix";
+import { checkRuleCompliance } from "../utils/briefRules";
 
 /**
  * Generate initial leveling plan based on track roles
@@ -457,8 +464,39 @@ export const workflowAssembleMixDesign = tool(
   }
 );
 
+/**
+ * Tool schema for checking the brief rules
+ */
+const CheckRuleComplianceInputSchema = z.object({
+  rules: ProductionBriefSchema.shape.rules.unwrap().describe("Brief must / mustNot rules"),
+  forbidden: z.array(z.string()).optional().describe("The palette's forbidden list"),
+  timeBase: TimeBaseSchema.optional().describe("Selected time base"),
+  palette: z.array(PaletteEntrySchema).optional().describe("Palette entries"),
+  motifs: z.array(MotifSeedSchema).optional().describe("Selected motifs"),
+  sections: z.array(ArrangementSectionSchema).optional().describe("Arrangement sections"),
+  compositions: z.array(SectionCompositionSchema).optional().describe("Section compositions"),
+});
+
+/**
+ * Tool for checking the run against the brief rules before mixing
+ */
+export const workflowCheckRuleCompliance = tool(
+  async (input): Promise<RuleCompliance> => {
+    return checkRuleCompliance(input.rules, input);
+  },
+  {
+    name: "workflowCheckRuleCompliance",
+    description:
+      "Check the time base, palette, motifs, sections and compositions against the brief's must / mustNot rules " +
+      "(forbidden instruments, required elements, tempo bounds, swing, meter). Run it before the mix design and " +
+      "fix or report any violations in its summary.",
+    schema: CheckRuleComplianceInputSchema,
+  }
+);
+
 // Export all stage 9 tools
 export const stage9Tools = [
+  workflowCheckRuleCompliance,
   workflowCreateLevelingPlan,
   workflowGenerateEqCompSuggestions,
   workflowDesignSpatialScene,
@@ -9,14 +9,42 @@ import { tool } from "@langchain/core/tools";
 import {
   StylePriorSchema,
   MotifSeedSchema,
+  ProductionBriefSchema,
+  SeedSchema,
+  MotifFitnessWeightsSchema,
   type StylePrior,
   type MotifSeed,
   type MotifScore,
   type MotifSeedSet,
+  type MotifEvolution,
 } from "../types";
-import { generateMotifCandidates } from "../generators/motif";
+import { generateMotifCandidates, outOfScaleNotes } from "../generators/motif";
+import { evolveMotifs } from "../generators/motifEvolution";
+import { DEFAULT_MELODY_MODEL_PATH, loadMelodyModel } from "../generators/melodyModel";
 import { calculateMotifScore, rankMotifs } from "../scoring/motif";
 import { SCALES } from "../utils/musicTheory";
+import { deriveSeed, randomSeed } from "../utils/random";
+import { getBeatsPerBar } from "../utils/rhythmUtils";
+import { checkMotifRules, filterByRules, parseBriefRules } from "../utils/briefRules";
+
+const MelodyModelPathSchema = z
+  .string()
+  .optional()
+  .describe(
+    `Trained melody model (workflowTrainMelodyModel) that adds house-style melodic candidates, ` +
+      `e.g. ${DEFAULT_MELODY_MODEL_PATH}; none is used unless given (skipped while it doesn't exist)`
+  );
+
+/**
+ * Only a model passed in (or hydrated from the one trained this run) is used, so a
+ * seed gives the same candidates whatever happens to be saved on the machine
+ */
+const readMelodyModel = async (filePath?: string) => (filePath ? loadMelodyModel(filePath) : undefined);
+
+const ChromaticSchema = z
+  .boolean()
+  .optional()
+  .describe("Allow notes outside the key and scale (default false: out-of-scale motifs are rejected)");
 
 /**
  * Tool schema for generating motifs
@@ -29,7 +57,12 @@ const GenerateMotifsInputSchema = z.object({
     .enum(Object.keys(SCALES) as [string, ...string[]])
     .optional()
     .describe("Scale type (default minor)"),
+  meter: z.string().optional().describe("Time signature of the time base (default 4/4)"),
   count: z.number().optional().describe("Number of candidates to generate (default 5)"),
+  seed: SeedSchema.optional(),
+  rules: ProductionBriefSchema.shape.rules.describe("Brief must / mustNot rules to enforce"),
+  melodyModelPath: MelodyModelPathSchema,
+  chromatic: ChromaticSchema,
 });
 
 /**
@@ -41,13 +74,27 @@ export const workflowGenerateMotifs = tool(
     const scale = (input.scale || "minor") as keyof typeof SCALES;
     const count = input.count || 5;
 
-    return generateMotifCandidates(input.stylePrior, input.type, key, scale, count);
+    const constraints = parseBriefRules(input.rules);
+    const melodyModel = await readMelodyModel(input.melodyModelPath);
+    const motifs = generateMotifCandidates(
+      input.stylePrior,
+      input.type,
+      key,
+      scale,
+      count,
+      input.seed,
+      input.meter,
+      melodyModel,
+      input.chromatic
+    );
+    return filterByRules(motifs, (motif) => checkMotifRules(motif, constraints));
   },
   {
     name: "workflowGenerateMotifs",
     description:
       "Generate motif candidates of a specific type (melodic, rhythmic, harmonic, textural). " +
-      "Creates musical patterns appropriate for the genre and mood.",
+      "Creates musical patterns in the requested key and scale, appropriate for the genre and mood, leaving out " +
+      "those the brief rules forbid and, unless chromatic is set, any with out-of-scale notes.",
     schema: GenerateMotifsInputSchema,
   }
 );
@@ -147,7 +194,12 @@ const GenerateAllMotifTypesInputSchema = z.object({
     .enum(Object.keys(SCALES) as [string, ...string[]])
     .optional()
     .describe("Scale type (default minor)"),
+  meter: z.string().optional().describe("Time signature of the time base (default 4/4)"),
   countPerType: z.number().optional().describe("Candidates per type (default 3)"),
+  seed: SeedSchema.optional(),
+  rules: ProductionBriefSchema.shape.rules.describe("Brief must / mustNot rules to enforce"),
+  melodyModelPath: MelodyModelPathSchema,
+  chromatic: ChromaticSchema,
 });
 
 /**
@@ -163,12 +215,31 @@ export const workflowGenerateAllMotifTypes = tool(
     const key = input.key || "C";
     const scale = (input.scale || "minor") as keyof typeof SCALES;
     const countPerType = input.countPerType || 3;
+    // Candidate seeds are salted by type, so one seed can drive all four
+    const seed = input.seed ?? randomSeed();
+    const constraints = parseBriefRules(input.rules);
+    const melodyModel = await readMelodyModel(input.melodyModelPath);
+    const generate = (type: MotifSeed["type"]) =>
+      filterByRules(
+        generateMotifCandidates(
+          input.stylePrior,
+          type,
+          key,
+          scale,
+          countPerType,
+          seed,
+          input.meter,
+          melodyModel,
+          input.chromatic
+        ),
+        (motif) => checkMotifRules(motif, constraints)
+      );
 
     return {
-      melodic: generateMotifCandidates(input.stylePrior, "melodic", key, scale, countPerType),
-      rhythmic: generateMotifCandidates(input.stylePrior, "rhythmic", key, scale, countPerType),
-      harmonic: generateMotifCandidates(input.stylePrior, "harmonic", key, scale, countPerType),
-      textural: generateMotifCandidates(input.stylePrior, "textural", key, scale, countPerType),
+      melodic: generate("melodic"),
+      rhythmic: generate("rhythmic"),
+      harmonic: generate("harmonic"),
+      textural: generate("textural"),
     };
   },
   {
@@ -180,10 +251,85 @@ export const workflowGenerateAllMotifTypes = tool(
   }
 );
 
+/**
+ * Tool schema for evolutionary motif search
+ */
+const EvolveMotifsInputSchema = z.object({
+  stylePrior: StylePriorSchema.describe("The style prior for genre fit scoring"),
+  type: z.enum(["melodic", "rhythmic", "harmonic", "textural"]).describe("Type of motif to evolve"),
+  motifs: z
+    .array(MotifSeedSchema)
+    .optional()
+    .describe("Seed population; motifs of other types are ignored (default: freshly generated candidates)"),
+  key: z.string().optional().describe("Musical key for generated seeds (default C)"),
+  scale: z
+    .enum(Object.keys(SCALES) as [string, ...string[]])
+    .optional()
+    .describe("Scale for generated seeds (default minor)"),
+  meter: z.string().optional().describe("Time signature of the time base (default 4/4)"),
+  generations: z.number().int().min(1).max(50).optional().describe("Generations to run (default 12)"),
+  populationSize: z.number().int().min(4).max(64).optional().describe("Motifs per generation (default 16)"),
+  weights: MotifFitnessWeightsSchema.partial()
+    .optional()
+    .describe("Fitness weights for memorability, singability, novelty and genre fit (default: the overall score's)"),
+  seed: SeedSchema.optional(),
+  rules: ProductionBriefSchema.shape.rules.describe("Brief must / mustNot rules to enforce"),
+  melodyModelPath: MelodyModelPathSchema,
+  chromatic: ChromaticSchema,
+});
+
+/**
+ * Tool for evolving motifs with the motif score as fitness
+ */
+export const workflowEvolveMotifs = tool(
+  async (input): Promise<MotifEvolution> => {
+    const seed = input.seed ?? randomSeed();
+    const constraints = parseBriefRules(input.rules);
+    const violations = (motif: MotifSeed) => checkMotifRules(motif, constraints);
+
+    const given = (input.motifs ?? []).filter((motif) => motif.type === input.type);
+    const candidates =
+      given.length > 0
+        ? given
+        : generateMotifCandidates(
+            input.stylePrior,
+            input.type,
+            input.key || "C",
+            (input.scale || "minor") as keyof typeof SCALES,
+            5,
+            deriveSeed(seed, "seedPopulation"),
+            input.meter,
+            await readMelodyModel(input.melodyModelPath),
+            input.chromatic
+          );
+
+    return evolveMotifs(filterByRules(candidates, violations), input.stylePrior, {
+      generations: input.generations,
+      populationSize: input.populationSize,
+      weights: input.weights,
+      seed,
+      beatsPerBar: getBeatsPerBar(input.meter ?? "4/4"),
+      accept: (motif) =>
+        violations(motif).length === 0 && (input.chromatic || outOfScaleNotes(motif).length === 0),
+    });
+  },
+  {
+    name: "workflowEvolveMotifs",
+    description:
+      "Evolutionary search over motifs of one type: breeds a population with crossover of note sequences and " +
+      "mutations (scale-step and rhythm nudges, transposition, inversion, retrograde), selecting parents by " +
+      "tournament with the weighted motif score as fitness. Returns the Pareto front over memorability, " +
+      "singability, novelty and genre fit plus per-generation fitness history. The front joins the motif " +
+      "candidates for workflowSelectTopMotifs.",
+    schema: EvolveMotifsInputSchema,
+  }
+);
+
 // Export all stage 5 tools
 export const stage5Tools = [
   workflowGenerateMotifs,
   workflowScoreMotifs,
   workflowSelectTopMotifs,
   workflowGenerateAllMotifTypes,
+  workflowEvolveMotifs,
 ];
@@ -8,6 +8,7 @@ import { z } from "zod";
 import { tool } from "@langchain/core/tools";
 import {
   StylePriorSchema,
+  ProductionBriefSchema,
   ProductionSpecSchema,
   PaletteEntrySchema,
   type StylePrior,
@@ -15,6 +16,12 @@ import {
   type SoundPalette,
   type PaletteEntry,
 } from "../types";
+import {
+  checkPaletteEntryRules,
+  paletteEntryMentions,
+  parseBriefRules,
+  type BriefConstraint,
+} from "../utils/briefRules";
 
 /**
  * Frequency band definitions
@@ -29,12 +36,41 @@ const FREQUENCY_BANDS = {
   air: { low: 8000, high: 20000, name: "Air" },
 };
 
+// Frequency role of an element the brief requires, guessed from its name
+const REQUIRED_ELEMENT_ROLES: Array<{ pattern: RegExp; role: PaletteEntry["role"] }> = [
+  { pattern: /808|sub/, role: "sub" },
+  { pattern: /bass/, role: "bass" },
+  { pattern: /pad|string|organ|piano|key/, role: "lowMid" },
+  { pattern: /hat|cymbal|shaker|ride/, role: "highMid" },
+  { pattern: /vocal|vox|voice|lead|guitar/, role: "presence" },
+  { pattern: /shimmer|air|noise/, role: "air" },
+];
+
+/**
+ * Palette entry standing in for an element the brief requires
+ */
+function requiredPaletteEntry(element: string): PaletteEntry {
+  const role = REQUIRED_ELEMENT_ROLES.find(({ pattern }) => pattern.test(element))?.role ?? "mid";
+  return {
+    id: `required-${element.replace(/[^a-z0-9]+/g, "-")}`,
+    name: element.replace(/\b\w/g, (c) => c.toUpperCase()),
+    role,
+    type: /vocal|vox|voice|guitar|field/.test(element) ? "recording" : "synth",
+    frequencyRange: FREQUENCY_BANDS[role],
+    characteristics: ["required by the brief"],
+    processingHints: [],
+  };
+}
+
 /**
  * Generate sound palette entries based on style and spec
+ * Entries the brief rules forbid are left out; elements they require that no entry
+ * covers are added first, so the element cap never drops them
  */
 export function generatePaletteEntries(
   stylePrior: StylePrior,
-  spec: ProductionSpec
+  spec: ProductionSpec,
+  constraints: BriefConstraint[] = []
 ): PaletteEntry[] {
   const entries: PaletteEntry[] = [];
   const genreKeywords = stylePrior.guardrails.energyProfile.toLowerCase();
@@ -161,7 +197,13 @@ export function generatePaletteEntries(
     processingHints: ["high-pass", "reverb"],
   });
 
-  return entries;
+  const allowed = entries.filter((entry) => checkPaletteEntryRules(entry, constraints).length === 0);
+  const required = constraints.flatMap((c) =>
+    c.kind === "requireElement" && !allowed.some((entry) => paletteEntryMentions(entry, c.element))
+      ? [requiredPaletteEntry(c.element)]
+      : []
+  );
+  return [...required, ...allowed];
 }
 
 /**
@@ -222,6 +264,13 @@ export function validatePaletteCoverage(palette: SoundPalette): {
     }
   }
 
+  // Check the entries against the forbidden list
+  for (const entry of palette.entries) {
+    for (const violation of checkPaletteEntryRules(entry, parseBriefRules(undefined, palette.forbidden))) {
+      warnings.push(`${violation.message}, which the palette forbids ("${violation.rule}")`);
+    }
+  }
+
   // Check max elements
   if (palette.entries.length > palette.maxElements) {
     warnings.push(`Palette has ${palette.entries.length} elements, exceeding max of ${palette.maxElements}`);
@@ -241,6 +290,7 @@ const AssemblePaletteInputSchema = z.object({
   stylePrior: StylePriorSchema.describe("The style prior"),
   spec: ProductionSpecSchema.describe("The production spec"),
   maxElements: z.number().optional().describe("Maximum palette elements (default 12)"),
+  rules: ProductionBriefSchema.shape.rules.describe("Brief must / mustNot rules to enforce"),
 });
 
 /**
@@ -248,13 +298,13 @@ const AssemblePaletteInputSchema = z.object({
  */
 export const workflowAssemblePalette = tool(
   async (input): Promise<SoundPalette> => {
-    const entries = generatePaletteEntries(input.stylePrior, input.spec);
-    const maxElements = input.maxElements || 12;
-    const coverage = calculateCoverage(entries);
-
     // Collect forbidden elements from style prior
     const forbidden = input.stylePrior.guardrails.avoidCliches || [];
 
+    const entries = generatePaletteEntries(input.stylePrior, input.spec, parseBriefRules(input.rules, forbidden));
+    const maxElements = input.maxElements || 12;
+    const coverage = calculateCoverage(entries);
+
     return {
       maxElements,
       entries: entries.slice(0, maxElements),
@@ -266,7 +316,8 @@ export const workflowAssemblePalette = tool(
     name: "workflowAssemblePalette",
     description:
       "Assemble a sound palette based on the style prior and production spec. " +
-      "Creates a collection of sound design elements covering the frequency spectrum.",
+      "Creates a collection of sound design elements covering the frequency spectrum, " +
+      "leaving out what the brief rules forbid and adding what they require.",
     schema: AssemblePaletteInputSchema,
   }
 );
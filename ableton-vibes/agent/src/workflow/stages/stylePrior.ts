@@ -15,13 +15,20 @@ import {
   type StylePrior,
 } from "../types";
 import { GENRE_TEMPO_RANGES } from "../utils/rhythmUtils";
+import { summarizeReferences } from "../utils/referenceAnalysis";
 
 /**
  * Build a style prior from production brief and spec
+ * Analyzed reference audio supplies the typical tempo, sound design traits heard in its
+ * spectrum and loudness, and the intro / drop / breakdown lengths of its sections
  */
 export function buildStylePrior(brief: ProductionBrief, spec: ProductionSpec): StylePrior {
+  const references = summarizeReferences(brief.referenceAnalyses);
+
   // Determine BPM signature
-  const typicalTempo = Math.round((spec.tempoRange.min + spec.tempoRange.max) / 2);
+  const typicalTempo = references
+    ? Math.round(Math.min(Math.max(references.tempo, spec.tempoRange.min), spec.tempoRange.max))
+    : Math.round((spec.tempoRange.min + spec.tempoRange.max) / 2);
   const variance = Math.round((spec.tempoRange.max - spec.tempoRange.min) / 4);
 
   // Determine swing profile based on genre
@@ -73,6 +80,15 @@ export function buildStylePrior(brief: ProductionBrief, spec: ProductionSpec): S
     soundDesignTraits.push("euphoric", "layered", "resonant");
   }
 
+  // Add traits heard in the references
+  if (references) {
+    const band = (name: string) => references.spectralBalance[name] ?? 0;
+    if (band("sub") >= 30) soundDesignTraits.push("sub-heavy");
+    if (band("highMid") + band("presence") + band("air") >= 12) soundDesignTraits.push("bright", "crisp");
+    if (references.integratedLoudness >= -9) soundDesignTraits.push("compressed", "dense");
+    if (references.loudnessRange >= 10) soundDesignTraits.push("dynamic");
+  }
+
   // Determine arrangement norms
   let typicalIntroLength = 16;
   let typicalDropLength = 32;
@@ -101,6 +117,12 @@ export function buildStylePrior(brief: ProductionBrief, spec: ProductionSpec): S
     transitionStyle.push("reese bass", "amen break");
   }
 
+  if (references?.sectionLengths) {
+    typicalIntroLength = references.sectionLengths.intro;
+    typicalDropLength = references.sectionLengths.drop;
+    typicalBreakdownLength = references.sectionLengths.breakdown;
+  }
+
   // Determine energy profile and cliches to avoid
   let energyProfile = "balanced";
   const avoidCliches: string[] = [...(brief.rules?.mustNot || [])];
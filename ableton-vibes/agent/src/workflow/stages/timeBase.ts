@@ -9,6 +9,8 @@ import { tool } from "@langchain/core/tools";
 import {
   StylePriorSchema,
   GrooveCandidateSchema,
+  ProductionBriefSchema,
+  SeedSchema,
   type StylePrior,
   type GrooveCandidate,
   type GrooveScore,
@@ -16,6 +18,7 @@ import {
 } from "../types";
 import { generateGrooveCandidates } from "../generators/groove";
 import { calculateGrooveScore, rankGrooves } from "../scoring/groove";
+import { applyGrooveRules, checkGrooveRules, filterByRules, parseBriefRules, requiredMeter } from "../utils/briefRules";
 
 /**
  * Tool schema for generating grooves
@@ -23,6 +26,12 @@ import { calculateGrooveScore, rankGrooves } from "../scoring/groove";
 const GenerateGroovesInputSchema = z.object({
   stylePrior: StylePriorSchema.describe("The style prior to guide groove generation"),
   count: z.number().optional().describe("Number of candidates to generate (default 5)"),
+  meter: z
+    .string()
+    .optional()
+    .describe("Time signature such as 3/4, 6/8, 7/8 or 5/4 (default: the brief's meter rule, else 4/4)"),
+  seed: SeedSchema.optional(),
+  rules: ProductionBriefSchema.shape.rules.describe("Brief must / mustNot rules to enforce"),
 });
 
 /**
@@ -31,13 +40,21 @@ const GenerateGroovesInputSchema = z.object({
 export const workflowGenerateGrooves = tool(
   async (input): Promise<GrooveCandidate[]> => {
     const count = input.count || 5;
-    return generateGrooveCandidates(input.stylePrior, count);
+    const constraints = parseBriefRules(input.rules);
+    const meter = input.meter ?? requiredMeter(constraints);
+
+    // Clamp tempo, swing and forbidden lanes first, then drop grooves that still break a rule
+    const grooves = generateGrooveCandidates(input.stylePrior, count, input.seed, meter).map((groove) =>
+      applyGrooveRules(groove, constraints)
+    );
+    return filterByRules(grooves, (groove) => checkGrooveRules(groove, constraints));
   },
   {
     name: "workflowGenerateGrooves",
     description:
       "Generate groove candidates based on the style prior. " +
-      "This creates kick, snare, and hi-hat patterns appropriate for the genre.",
+      "This creates kick, snare, and hi-hat patterns appropriate for the genre, one bar of the given meter long, " +
+      "within the brief's tempo, swing and instrument rules.",
     schema: GenerateGroovesInputSchema,
   }
 );
@@ -9,6 +9,7 @@ import { tool } from "@langchain/core/tools";
 import {
   MotifSeedSchema,
   SectionCompositionSchema,
+  SeedSchema,
   type MotifSeed,
   type MotifNote,
   type SectionComposition,
@@ -18,6 +19,7 @@ import {
 } from "../types";
 import { varyMotif, createMotifSeed } from "../generators/motif";
 import { calculateMotifScore } from "../scoring/motif";
+import { createRng, deriveSeed, pickRandom, randomInt, randomSeed, seedTag } from "../utils/random";
 
 /**
  * Variation operators available
@@ -41,8 +43,10 @@ type VariationOperator = (typeof VARIATION_OPERATORS)[number];
 function applyVariationOperator(
   motif: MotifSeed,
   operator: VariationOperator,
-  param?: number
+  param: number | undefined,
+  seed: number
 ): MotifSeed {
+  const rng = createRng(seed);
   let variedNotes: MotifNote[];
 
   switch (operator) {
@@ -76,7 +80,7 @@ function applyVariationOperator(
       // Randomly shift pitches within scale
       variedNotes = motif.notes.map((n) => ({
         ...n,
-        pitch: n.pitch + Math.floor(Math.random() * 5) - 2,
+        pitch: n.pitch + randomInt(rng, -2, 2),
       }));
       break;
     default:
@@ -88,7 +92,8 @@ function applyVariationOperator(
     motif.type,
     motif.key,
     motif.scale,
-    `${motif.name} (${operator})`
+    `${motif.name} (${operator})`,
+    seed
   );
 }
 
@@ -114,10 +119,11 @@ type EarCandyType = (typeof EAR_CANDY_TYPES)[number];
 function generateEarCandy(
   type: EarCandyType,
   position: number,
-  duration: number
+  duration: number,
+  seed: number
 ): EarCandy {
   return {
-    id: `ear-candy-${type}-${position}-${Date.now()}`,
+    id: `ear-candy-${type}-${position}-${seedTag(seed)}`,
     type,
     position,
     duration,
@@ -131,6 +137,7 @@ const ApplyVariationInputSchema = z.object({
   motif: MotifSeedSchema.describe("The source motif to vary"),
   operator: z.enum(VARIATION_OPERATORS).describe("Variation operator to apply"),
   param: z.number().optional().describe("Optional parameter for the operator"),
+  seed: SeedSchema.optional(),
 });
 
 /**
@@ -138,7 +145,8 @@ const ApplyVariationInputSchema = z.object({
  */
 export const workflowApplyVariation = tool(
   async (input): Promise<Variation> => {
-    const result = applyVariationOperator(input.motif, input.operator, input.param);
+    const seed = input.seed ?? randomSeed();
+    const result = applyVariationOperator(input.motif, input.operator, input.param, seed);
 
     // Calculate coherence (using motif score as proxy)
     const dummyStylePrior = {
@@ -158,12 +166,13 @@ export const workflowApplyVariation = tool(
     const variedScore = calculateMotifScore(result, dummyStylePrior);
 
     return {
-      id: `variation-${Date.now()}`,
+      id: `variation-${seedTag(seed)}`,
       sourceId: input.motif.id,
       operator: input.operator,
       result,
       coherenceScore: variedScore.overall,
       improvementDelta: variedScore.overall - originalScore.overall,
+      seed,
     };
   },
   {
@@ -182,6 +191,7 @@ const GenerateEarCandyInputSchema = z.object({
   type: z.enum(EAR_CANDY_TYPES).describe("Type of ear candy to generate"),
   position: z.number().describe("Position in bars where the ear candy should occur"),
   duration: z.number().optional().describe("Duration in bars (default depends on type)"),
+  seed: SeedSchema.optional(),
 });
 
 /**
@@ -202,7 +212,7 @@ export const workflowGenerateEarCandy = tool(
     };
 
     const duration = input.duration || defaultDurations[input.type];
-    return generateEarCandy(input.type, input.position, duration);
+    return generateEarCandy(input.type, input.position, duration, input.seed ?? randomSeed());
   },
   {
     name: "workflowGenerateEarCandy",
@@ -221,6 +231,7 @@ const RunVariationPassInputSchema = z.object({
   motifs: z.array(MotifSeedSchema).describe("Available motifs"),
   passNumber: z.number().optional().describe("Current pass number (for tracking)"),
   transitionBars: z.array(z.number()).describe("Bar positions of transitions"),
+  seed: SeedSchema.optional(),
 });
 
 /**
@@ -229,6 +240,8 @@ const RunVariationPassInputSchema = z.object({
 export const workflowRunVariationPass = tool(
   async (input): Promise<VariationPass> => {
     const passNumber = input.passNumber || 1;
+    const seed = input.seed ?? randomSeed();
+    const rng = createRng(seed);
     const variations: Variation[] = [];
     const earCandy: EarCandy[] = [];
     const transitionEnhancements: Array<{
@@ -238,15 +251,16 @@ export const workflowRunVariationPass = tool(
     }> = [];
 
     // Apply variations to motifs
-    for (const motif of input.motifs) {
+    for (const [index, motif] of input.motifs.entries()) {
       // Select random operators for variety
       const operators: VariationOperator[] = ["transpose", "invert", "thin"];
-      const selectedOperator = operators[Math.floor(Math.random() * operators.length)]!;
+      const selectedOperator = pickRandom(rng, operators);
 
       const variation = await workflowApplyVariation.invoke({
         motif,
         operator: selectedOperator,
         param: selectedOperator === "transpose" ? 5 : undefined,
+        seed: deriveSeed(seed, "variation", index),
       });
 
       // Only keep if it improves or maintains quality
@@ -258,11 +272,11 @@ export const workflowRunVariationPass = tool(
     // Generate ear candy for transitions
     for (const bar of input.transitionBars) {
       // Add riser before transition
-      const riser = generateEarCandy("riser", bar - 4, 4);
+      const riser = generateEarCandy("riser", bar - 4, 4, deriveSeed(seed, "riser", bar));
       earCandy.push(riser);
 
       // Add impact at transition
-      const impact = generateEarCandy("impact", bar, 0.25);
+      const impact = generateEarCandy("impact", bar, 0.25, deriveSeed(seed, "impact", bar));
       earCandy.push(impact);
 
       // Create transition enhancement
@@ -295,6 +309,7 @@ const GenerateTransitionFillInputSchema = z.object({
   fromSection: z.object({ energyLevel: z.number() }).describe("The section before transition"),
   toSection: z.object({ energyLevel: z.number() }).describe("The section after transition"),
   duration: z.number().optional().describe("Fill duration in bars (default 1)"),
+  seed: SeedSchema.optional(),
 });
 
 /**
@@ -306,13 +321,14 @@ export const workflowGenerateTransitionFill = tool(
     fillNotes: MotifNote[];
   }> => {
     const duration = input.duration || 1;
+    const seed = input.seed ?? randomSeed();
     const isBuilding = input.toSection.energyLevel > input.fromSection.energyLevel;
     const earCandy: EarCandy[] = [];
     const fillNotes: MotifNote[] = [];
 
     if (isBuilding) {
       // Building transition - use riser and snare roll
-      earCandy.push(generateEarCandy("riser", 0, duration));
+      earCandy.push(generateEarCandy("riser", 0, duration, deriveSeed(seed, "riser")));
 
       // Generate snare roll
       const rollSteps = duration * 16; // 16th notes
@@ -326,8 +342,8 @@ export const workflowGenerateTransitionFill = tool(
       }
     } else {
       // Releasing transition - use downlifter
-      earCandy.push(generateEarCandy("downlifter", 0, duration));
-      earCandy.push(generateEarCandy("reverse", duration - 0.5, 0.5));
+      earCandy.push(generateEarCandy("downlifter", 0, duration, deriveSeed(seed, "downlifter")));
+      earCandy.push(generateEarCandy("reverse", duration - 0.5, 0.5, deriveSeed(seed, "reverse")));
     }
 
     return { earCandy, fillNotes };
@@ -11,35 +11,63 @@ export const defaultWorkflowState: WorkflowState = {
 };
 
 /**
- * Workflow state annotation for LangGraph integration.
- * Uses a reducer that properly merges workflow progress.
+ * Stages in workflow order
  */
-export const WorkflowStateAnnotation = Annotation<WorkflowState>({
-  reducer: (current, update) => {
-    if (!current) return update ?? defaultWorkflowState;
-    if (!update) return current;
+export const WORKFLOW_STAGE_ORDER: WorkflowStage[] = [
+  "briefIngestion",
+  "stylePrior",
+  "timeBase",
+  "palette",
+  "motifSeed",
+  "macroStructure",
+  "composeOrchestrate",
+  "variationOperators",
+  "mixSpatial",
+];
 
-    // Merge completed stages (unique set)
-    const stagesCompleted = [
-      ...new Set([
-        ...(current.stagesCompleted ?? []),
-        ...(update.stagesCompleted ?? []),
-      ]),
-    ] as WorkflowStage[];
+/**
+ * Merge a partial workflow update into the current state.
+ * Completed stages are a unique set; revision history is appended, skipping
+ * entries the current state already has (clients may echo the full history back).
+ */
+export function mergeWorkflowState(
+  current: WorkflowState | undefined,
+  update: Partial<WorkflowState> | undefined
+): WorkflowState {
+  if (!current) return { ...defaultWorkflowState, ...update };
+  if (!update) return current;
 
-    // Append revision history
-    const revisionHistory = [
-      ...(current.revisionHistory ?? []),
-      ...(update.revisionHistory ?? []),
-    ] as RevisionHistoryEntry[];
+  // Merge completed stages (unique set)
+  const stagesCompleted = [
+    ...new Set([
+      ...(current.stagesCompleted ?? []),
+      ...(update.stagesCompleted ?? []),
+    ]),
+  ] as WorkflowStage[];
+
+  // Append revision history
+  const revisionKey = (entry: RevisionHistoryEntry) =>
+    `${entry.stage}|${entry.timestamp}|${entry.action}`;
+  const existingRevisions = new Set((current.revisionHistory ?? []).map(revisionKey));
+  const revisionHistory = [
+    ...(current.revisionHistory ?? []),
+    ...(update.revisionHistory ?? []).filter((entry) => !existingRevisions.has(revisionKey(entry))),
+  ] as RevisionHistoryEntry[];
+
+  return {
+    ...current,
+    ...update,
+    stagesCompleted,
+    revisionHistory,
+  };
+}
 
-    return {
-      ...current,
-      ...update,
-      stagesCompleted,
-      revisionHistory,
-    };
-  },
+/**
+ * Workflow state annotation for LangGraph integration.
+ * Uses a reducer that properly merges workflow progress.
+ */
+export const WorkflowStateAnnotation = Annotation<WorkflowState, Partial<WorkflowState>>({
+  reducer: mergeWorkflowState,
   default: () => defaultWorkflowState,
 });
 
@@ -73,19 +101,7 @@ export function isStageCompleted(
  * Get the next recommended stage based on current progress
  */
 export function getNextStage(state: WorkflowState): WorkflowStage | null {
-  const stageOrder: WorkflowStage[] = [
-    "briefIngestion",
-    "stylePrior",
-    "timeBase",
-    "palette",
-    "motifSeed",
-    "macroStructure",
-    "composeOrchestrate",
-    "variationOperators",
-    "mixSpatial",
-  ];
-
-  for (const stage of stageOrder) {
+  for (const stage of WORKFLOW_STAGE_ORDER) {
     if (!state.stagesCompleted.includes(stage)) {
       return stage;
     }
@@ -98,6 +114,6 @@ export function getNextStage(state: WorkflowState): WorkflowStage | null {
  * Calculate workflow completion percentage
  */
 export function getWorkflowProgress(state: WorkflowState): number {
-  const totalStages = 9;
+  const totalStages = WORKFLOW_STAGE_ORDER.length;
   return Math.round((state.stagesCompleted.length / totalStages) * 100);
 }
@@ -0,0 +1,614 @@
+/**
+ * Workflow State Sync
+ *
+ * Connects the stage tools to the WorkflowState persisted in the agent graph:
+ * - inputs that are artifacts of earlier stages become optional and are filled
+ *   from state when the model omits them
+ * - seeded tools draw their seed from the run seed when the model omits it
+ * - tool results are mapped back into workflow state updates
+ */
+
+import { z } from "zod";
+import { tool, type StructuredToolInterface } from "@langchain/core/tools";
+import type {
+  GrooveCandidate,
+  GrooveScore,
+  MacroStructure,
+  MotifScore,
+  MotifSeed,
+  MotifSeedSet,
+  MotifEvolution,
+  MixDesign,
+  ProductionBrief,
+  ProductionSpec,
+  RuleCompliance,
+  SectionComposition,
+  SoundPalette,
+  StylePrior,
+  TimeBase,
+  VariationPass,
+  WorkflowStage,
+  WorkflowState,
+} from "./types";
+import {
+  WORKFLOW_STAGE_ORDER,
+  createRevisionEntry,
+  getNextStage,
+  getWorkflowProgress,
+  mergeWorkflowState,
+} from "./state";
+import { deriveSeed } from "./utils/random";
+
+// ============================================================================
+// Artifact inputs
+// ============================================================================
+
+type ArtifactInput = {
+  resolve: (state: WorkflowState) => unknown;
+  /** Tool that produces the artifact, named in the error when it is missing */
+  producer: string;
+  /** Leave the argument empty instead of failing when the artifact is missing */
+  optional?: boolean;
+};
+
+const optional = (input: ArtifactInput): ArtifactInput => ({ ...input, optional: true });
+
+const zip = <A, B, KA extends string, KB extends string>(
+  left: A[] | undefined,
+  right: B[] | undefined,
+  leftKey: KA,
+  rightKey: KB
+) => {
+  if (!left?.length || !right?.length || left.length !== right.length) return undefined;
+  return left.map((value, i) => ({ [leftKey]: value, [rightKey]: right[i] }) as Record<KA, A> & Record<KB, B>);
+};
+
+const ARTIFACTS = {
+  brief: { resolve: (s) => s.brief, producer: "workflowIngestBrief" },
+  rules: { resolve: (s) => s.brief?.rules, producer: "workflowIngestBrief" },
+  spec: { resolve: (s) => s.spec, producer: "workflowIngestBrief" },
+  key: { resolve: (s) => s.spec?.key, producer: "workflowIngestBrief" },
+  scale: { resolve: (s) => s.spec?.scale, producer: "workflowIngestBrief" },
+  stylePrior: { resolve: (s) => s.stylePrior, producer: "workflowBuildStylePrior" },
+  grooveCandidates: { resolve: (s) => s.grooveCandidates, producer: "workflowGenerateGrooves" },
+  rankedGrooves: {
+    resolve: (s) => zip(s.grooveCandidates, s.grooveScores, "groove", "score"),
+    producer: "workflowScoreGrooves",
+  },
+  timeBase: { resolve: (s) => s.timeBase, producer: "workflowSelectTimeBase" },
+  palette: { resolve: (s) => s.palette, producer: "workflowAssemblePalette" },
+  paletteEntries: { resolve: (s) => s.palette?.entries, producer: "workflowAssemblePalette" },
+  forbidden: { resolve: (s) => s.palette?.forbidden, producer: "workflowAssemblePalette" },
+  motifCandidates: { resolve: (s) => s.motifCandidates, producer: "workflowGenerateMotifs" },
+  rankedMotifs: {
+    resolve: (s) => zip(s.motifCandidates, s.motifScores, "motif", "score"),
+    producer: "workflowScoreMotifs",
+  },
+  selectedMotifs: { resolve: (s) => s.motifSeedSet?.seeds, producer: "workflowSelectTopMotifs" },
+  melodyModelPath: { resolve: (s) => s.melodyModelPath, producer: "workflowTrainMelodyModel" },
+  macroStructure: { resolve: (s) => s.macroStructure, producer: "workflowDraftMacroStructure" },
+  sections: { resolve: (s) => s.macroStructure?.sections, producer: "workflowDraftMacroStructure" },
+  totalBars: { resolve: (s) => s.macroStructure?.totalBars, producer: "workflowDraftMacroStructure" },
+  transitionBars: {
+    resolve: (s) =>
+      s.macroStructure?.sections.map((section) => section.startBar).filter((bar) => bar > 0),
+    producer: "workflowDraftMacroStructure",
+  },
+  compositions: { resolve: (s) => s.compositions, producer: "workflowComposeAllSections" },
+  earCandy: {
+    resolve: (s) => s.variationPasses?.[s.variationPasses.length - 1]?.earCandy,
+    producer: "workflowRunVariationPass",
+  },
+  tempo: { resolve: (s) => s.timeBase?.finalTempo, producer: "workflowSelectTimeBase" },
+  meter: { resolve: (s) => s.timeBase?.finalMeter, producer: "workflowSelectTimeBase" },
+  mixDesign: { resolve: (s) => s.mixDesign, producer: "workflowAssembleMixDesign" },
+  automationPasses: { resolve: (s) => s.mixDesign?.automationPasses, producer: "workflowAssembleMixDesign" },
+} satisfies Record<string, ArtifactInput>;
+
+/**
+ * Tool inputs that can be filled from workflow state, keyed by tool name then argument name
+ */
+export const WORKFLOW_ARTIFACT_INPUTS: Record<string, Record<string, ArtifactInput>> = {
+  workflowLockIntent: { brief: ARTIFACTS.brief, spec: ARTIFACTS.spec },
+  workflowBuildStylePrior: { brief: ARTIFACTS.brief, spec: ARTIFACTS.spec },
+  workflowGenerateGrooves: { stylePrior: ARTIFACTS.stylePrior, rules: optional(ARTIFACTS.rules) },
+  workflowScoreGrooves: { grooves: ARTIFACTS.grooveCandidates, stylePrior: ARTIFACTS.stylePrior },
+  workflowSelectTimeBase: { rankedGrooves: ARTIFACTS.rankedGrooves },
+  workflowAssemblePalette: {
+    stylePrior: ARTIFACTS.stylePrior,
+    spec: ARTIFACTS.spec,
+    rules: optional(ARTIFACTS.rules),
+  },
+  workflowValidatePaletteCoverage: { palette: ARTIFACTS.palette },
+  workflowGenerateMotifs: {
+    stylePrior: ARTIFACTS.stylePrior,
+    key: optional(ARTIFACTS.key),
+    scale: optional(ARTIFACTS.scale),
+    meter: optional(ARTIFACTS.meter),
+    rules: optional(ARTIFACTS.rules),
+    melodyModelPath: optional(ARTIFACTS.melodyModelPath),
+  },
+  workflowGenerateAllMotifTypes: {
+    stylePrior: ARTIFACTS.stylePrior,
+    key: optional(ARTIFACTS.key),
+    scale: optional(ARTIFACTS.scale),
+    meter: optional(ARTIFACTS.meter),
+    rules: optional(ARTIFACTS.rules),
+    melodyModelPath: optional(ARTIFACTS.melodyModelPath),
+  },
+  workflowEvolveMotifs: {
+    stylePrior: ARTIFACTS.stylePrior,
+    motifs: optional(ARTIFACTS.motifCandidates),
+    key: optional(ARTIFACTS.key),
+    scale: optional(ARTIFACTS.scale),
+    meter: optional(ARTIFACTS.meter),
+    rules: optional(ARTIFACTS.rules),
+    melodyModelPath: optional(ARTIFACTS.melodyModelPath),
+  },
+  workflowScoreMotifs: { motifs: ARTIFACTS.motifCandidates, stylePrior: ARTIFACTS.stylePrior },
+  workflowSelectTopMotifs: { rankedMotifs: ARTIFACTS.rankedMotifs },
+  workflowImportClipAsMotif: { stylePrior: ARTIFACTS.stylePrior },
+  workflowImportMidiMotifs: { stylePrior: ARTIFACTS.stylePrior },
+  workflowTrainMelodyModel: { motifs: optional(ARTIFACTS.selectedMotifs) },
+  workflowDraftMacroStructure: {
+    brief: ARTIFACTS.brief,
+    spec: ARTIFACTS.spec,
+    stylePrior: ARTIFACTS.stylePrior,
+  },
+  workflowValidateEnergyCurve: { structure: ARTIFACTS.macroStructure },
+  workflowAdjustSection: { structure: ARTIFACTS.macroStructure },
+  workflowPlanModulations: {
+    structure: ARTIFACTS.macroStructure,
+    key: optional(ARTIFACTS.key),
+    scale: optional(ARTIFACTS.scale),
+  },
+  workflowComposeSection: {
+    motifs: ARTIFACTS.selectedMotifs,
+    key: optional(ARTIFACTS.key),
+    scale: optional(ARTIFACTS.scale),
+    meter: optional(ARTIFACTS.meter),
+    rules: optional(ARTIFACTS.rules),
+  },
+  workflowComposeAllSections: {
+    sections: ARTIFACTS.sections,
+    motifs: ARTIFACTS.selectedMotifs,
+    key: optional(ARTIFACTS.key),
+    scale: optional(ARTIFACTS.scale),
+    meter: optional(ARTIFACTS.meter),
+    rules: optional(ARTIFACTS.rules),
+  },
+  workflowAnalyzeHarmony: {
+    key: optional(ARTIFACTS.key),
+    scale: optional(ARTIFACTS.scale),
+    meter: optional(ARTIFACTS.meter),
+  },
+  workflowReharmonize: {
+    key: optional(ARTIFACTS.key),
+    scale: optional(ARTIFACTS.scale),
+    meter: optional(ARTIFACTS.meter),
+  },
+  workflowRunVariationPass: {
+    compositions: ARTIFACTS.compositions,
+    motifs: ARTIFACTS.selectedMotifs,
+    transitionBars: ARTIFACTS.transitionBars,
+  },
+  workflowRealizeEarCandy: {
+    earCandy: ARTIFACTS.earCandy,
+    tempo: optional(ARTIFACTS.tempo),
+    timeSignature: optional(ARTIFACTS.meter),
+  },
+  workflowCheckRuleCompliance: {
+    rules: ARTIFACTS.rules,
+    forbidden: optional(ARTIFACTS.forbidden),
+    timeBase: optional(ARTIFACTS.timeBase),
+    palette: optional(ARTIFACTS.paletteEntries),
+    motifs: optional(ARTIFACTS.selectedMotifs),
+    sections: optional(ARTIFACTS.sections),
+    compositions: optional(ARTIFACTS.compositions),
+  },
+  workflowCreateLevelingPlan: { compositions: ARTIFACTS.compositions, palette: ARTIFACTS.palette },
+  workflowGenerateEqCompSuggestions: { palette: ARTIFACTS.palette },
+  workflowAssembleMixDesign: {
+    compositions: ARTIFACTS.compositions,
+    palette: ARTIFACTS.palette,
+    totalBars: ARTIFACTS.totalBars,
+  },
+  workflowRenderArrangement: {
+    compositions: ARTIFACTS.compositions,
+    sections: ARTIFACTS.sections,
+    tempo: optional(ARTIFACTS.tempo),
+    timeSignature: optional(ARTIFACTS.meter),
+  },
+  workflowApplyMixDesign: { mixDesign: ARTIFACTS.mixDesign },
+  workflowApplyAutomation: { automationPasses: ARTIFACTS.automationPasses },
+  workflowRenderAudio: {
+    grooves: optional(ARTIFACTS.grooveCandidates),
+    motifs: optional(ARTIFACTS.motifCandidates),
+    compositions: optional(ARTIFACTS.compositions),
+    palette: optional(ARTIFACTS.palette),
+    tempo: optional(ARTIFACTS.tempo),
+    meter: optional(ARTIFACTS.meter),
+  },
+};
+
+// ============================================================================
+// Seeds
+// ============================================================================
+
+/**
+ * Tools that take a `seed` input. Once the run has a seed, the nth call of each
+ * tool gets deriveSeed(runSeed, toolName, n), so replaying the same calls from
+ * the same run seed reproduces every result.
+ */
+export const SEEDED_WORKFLOW_TOOLS = new Set([
+  "workflowIngestBrief",
+  "workflowGenerateGrooves",
+  "workflowGenerateMotifs",
+  "workflowGenerateAllMotifTypes",
+  "workflowEvolveMotifs",
+  "workflowApplyVariation",
+  "workflowGenerateEarCandy",
+  "workflowRunVariationPass",
+  "workflowGenerateTransitionFill",
+  "workflowRealizeEarCandy",
+]);
+
+/**
+ * Seed for a tool call that did not pass one, or undefined to let the tool pick
+ */
+function drawWorkflowSeed(
+  toolName: string,
+  args: Record<string, unknown>,
+  state: WorkflowState
+): number | undefined {
+  if (!SEEDED_WORKFLOW_TOOLS.has(toolName) || state.seed === undefined) return undefined;
+  if (args.seed !== undefined && args.seed !== null) return undefined;
+
+  // Re-ingesting a brief refines the current run rather than starting a new one
+  if (toolName === "workflowIngestBrief") return state.seed;
+  return deriveSeed(state.seed, toolName, state.seedDraws?.[toolName] ?? 0);
+}
+
+/**
+ * Fill omitted artifact arguments (and the seed) of a workflow tool call from state.
+ * Arguments the model passed explicitly always win.
+ */
+export function hydrateWorkflowToolArgs(
+  toolName: string,
+  args: Record<string, unknown>,
+  state: WorkflowState
+): Record<string, unknown> {
+  const inputs = WORKFLOW_ARTIFACT_INPUTS[toolName];
+  const seed = drawWorkflowSeed(toolName, args, state);
+  if (!inputs && seed === undefined) return args;
+
+  const hydrated: Record<string, unknown> = seed === undefined ? { ...args } : { ...args, seed };
+  for (const [argName, input] of Object.entries(inputs ?? {})) {
+    if (hydrated[argName] !== undefined && hydrated[argName] !== null) continue;
+
+    const value = input.resolve(state);
+    if (value === undefined && input.optional) continue;
+    if (value === undefined) {
+      throw new Error(
+        `No ${argName} in the workflow state yet. Run ${input.producer} first or pass ${argName} explicitly.`
+      );
+    }
+    hydrated[argName] = value;
+  }
+
+  return hydrated;
+}
+
+/**
+ * Wrap workflow tools so their artifact inputs are optional and read from state.
+ * Tools without artifact or seed inputs are returned unchanged.
+ */
+export function withWorkflowState(
+  tools: StructuredToolInterface[],
+  getState: () => WorkflowState
+): StructuredToolInterface[] {
+  return tools.map((original) => {
+    const inputs = WORKFLOW_ARTIFACT_INPUTS[original.name];
+    const seeded = SEEDED_WORKFLOW_TOOLS.has(original.name);
+    if ((!inputs && !seeded) || !(original.schema instanceof z.ZodObject)) return original;
+
+    const optionalKeys = Object.fromEntries(Object.keys(inputs ?? {}).map((key) => [key, true as const]));
+    const schema = original.schema.partial(optionalKeys);
+
+    const hints = [
+      inputs && `Omit ${Object.keys(inputs).join(", ")} to use the current workflow state.`,
+      seeded && "Omit seed to derive it from the run seed.",
+    ].filter(Boolean);
+
+    return tool(
+      async (args: Record<string, unknown>) =>
+        original.invoke(hydrateWorkflowToolArgs(original.name, args, getState())),
+      {
+        name: original.name,
+        description: [original.description, ...hints].join(" "),
+        schema,
+      }
+    );
+  });
+}
+
+// ============================================================================
+// Result writers
+// ============================================================================
+
+const completeStage = (
+  stage: WorkflowStage,
+  action: string,
+  summary: string
+): Partial<WorkflowState> => {
+  const nextStage = WORKFLOW_STAGE_ORDER[WORKFLOW_STAGE_ORDER.indexOf(stage) + 1];
+  return {
+    stagesCompleted: [stage],
+    currentStage: nextStage ?? stage,
+    revisionHistory: [createRevisionEntry(stage, action, summary)],
+  };
+};
+
+/**
+ * State update for one tool's result; each writer names the result type of its tool,
+ * which `never` admits when they are collected in one table
+ */
+type ResultWriter<Result = never> = (result: Result, state: WorkflowState) => Partial<WorkflowState> | null;
+
+type ImportedMotif = { motif: MotifSeed; score: MotifScore };
+
+/**
+ * Upsert scored motifs (imported from Live or a MIDI file, or evolved) into the candidates by id
+ */
+const addImportedMotifs = (imported: ImportedMotif[], state: WorkflowState): Partial<WorkflowState> => {
+  const candidates = [...(state.motifCandidates ?? [])];
+  // Scores pair with candidates by position, so only extend them while they are in step
+  const scores =
+    candidates.length === 0 || state.motifScores?.length === candidates.length
+      ? [...(state.motifScores ?? [])]
+      : undefined;
+
+  for (const { motif, score } of imported) {
+    const index = candidates.findIndex((m) => m.id === motif.id);
+    const slot = index === -1 ? candidates.length : index;
+    candidates[slot] = motif;
+    if (scores) scores[slot] = score;
+  }
+
+  return { motifCandidates: candidates, motifScores: scores, currentStage: "motifSeed" };
+};
+
+const WORKFLOW_RESULT_WRITERS: Record<string, ResultWriter> = {
+  workflowIngestBrief: (result: { brief: ProductionBrief; spec: ProductionSpec; seed: number }, state) => ({
+    brief: result.brief,
+    spec: result.spec,
+    seed: result.seed,
+    // A new run seed starts a new replay sequence
+    seedDraws: result.seed === state.seed ? state.seedDraws : {},
+    currentStage: "briefIngestion",
+  }),
+
+  workflowLockIntent: (result: { locked: boolean; summary: string }) =>
+    result.locked ? completeStage("briefIngestion", "lockIntent", result.summary) : null,
+
+  workflowBuildStylePrior: (stylePrior: StylePrior) => ({
+    stylePrior,
+    ...completeStage(
+      "stylePrior",
+      "buildStylePrior",
+      `${stylePrior.bpmSignature.typical} BPM, swing ${stylePrior.swingProfile.amount}`
+    ),
+  }),
+
+  workflowGenerateGrooves: (grooveCandidates: GrooveCandidate[]) => ({
+    grooveCandidates,
+    grooveScores: undefined,
+    currentStage: "timeBase",
+  }),
+
+  workflowScoreGrooves: (ranked: Array<{ groove: GrooveCandidate; score: GrooveScore }>) => ({
+    grooveCandidates: ranked.map((r) => r.groove),
+    grooveScores: ranked.map((r) => r.score),
+  }),
+
+  workflowSelectTimeBase: (timeBase: TimeBase) => ({
+    timeBase,
+    ...completeStage(
+      "timeBase",
+      "selectTimeBase",
+      `${timeBase.finalTempo} BPM in ${timeBase.finalMeter} (${timeBase.selectedGroove.id})`
+    ),
+  }),
+
+  workflowAssemblePalette: (palette: SoundPalette) => ({
+    palette,
+    ...completeStage("palette", "assemblePalette", `${palette.entries.length} palette entries`),
+  }),
+
+  workflowGenerateMotifs: (motifCandidates: MotifSeed[]) => ({
+    motifCandidates,
+    motifScores: undefined,
+    currentStage: "motifSeed",
+  }),
+
+  workflowGenerateAllMotifTypes: (byType: Record<string, MotifSeed[]>) => ({
+    motifCandidates: Object.values(byType).flat(),
+    motifScores: undefined,
+    currentStage: "motifSeed",
+  }),
+
+  workflowScoreMotifs: (ranked: Array<{ motif: MotifSeed; score: MotifScore }>) => ({
+    motifCandidates: ranked.map((r) => r.motif),
+    motifScores: ranked.map((r) => r.score),
+  }),
+
+  workflowEvolveMotifs: (motifEvolution: MotifEvolution, state) => ({
+    ...addImportedMotifs(motifEvolution.paretoFront, state),
+    motifEvolution,
+  }),
+
+  workflowImportClipAsMotif: (imported: ImportedMotif, state) => addImportedMotifs([imported], state),
+
+  workflowImportMidiMotifs: (result: { imported: ImportedMotif[] }, state) => addImportedMotifs(result.imported, state),
+
+  workflowTrainMelodyModel: (result: { path: string }) => ({ melodyModelPath: result.path }),
+
+  workflowSelectTopMotifs: (motifSeedSet: MotifSeedSet) => ({
+    motifSeedSet,
+    ...completeStage(
+      "motifSeed",
+      "selectTopMotifs",
+      `Selected ${motifSeedSet.topN} of ${motifSeedSet.totalGenerated} motifs`
+    ),
+  }),
+
+  workflowDraftMacroStructure: (macroStructure: MacroStructure) => ({
+    macroStructure,
+    ...completeStage(
+      "macroStructure",
+      "draftMacroStructure",
+      `${macroStructure.archetype}: ${macroStructure.sections.length} sections, ${macroStructure.totalBars} bars`
+    ),
+  }),
+
+  workflowAdjustSection: (macroStructure: MacroStructure) => ({ macroStructure }),
+
+  workflowPlanModulations: (result: { structure: MacroStructure }) => ({ macroStructure: result.structure }),
+
+  workflowComposeSection: (composition: SectionComposition, state) => {
+    const others = (state.compositions ?? []).filter((c) => c.sectionId !== composition.sectionId);
+    return { compositions: [...others, composition], currentStage: "composeOrchestrate" };
+  },
+
+  workflowImportMidiSection: (result: { composition: SectionComposition }, state) => {
+    const others = (state.compositions ?? []).filter((c) => c.sectionId !== result.composition.sectionId);
+    return { compositions: [...others, result.composition], currentStage: "composeOrchestrate" };
+  },
+
+  workflowComposeAllSections: (result: { compositions: SectionComposition[]; overallCoherence: number }) => ({
+    compositions: result.compositions,
+    ...completeStage(
+      "composeOrchestrate",
+      "composeAllSections",
+      `${result.compositions.length} sections, coherence ${result.overallCoherence}`
+    ),
+  }),
+
+  workflowRunVariationPass: (pass: VariationPass, state) => ({
+    variationPasses: [...(state.variationPasses ?? []), pass],
+    ...completeStage(
+      "variationOperators",
+      "runVariationPass",
+      `Pass ${pass.passNumber}: ${pass.variations.length} variations, ${pass.earCandy.length} ear candy`
+    ),
+  }),
+
+  workflowCheckRuleCompliance: (ruleCompliance: RuleCompliance) => ({ ruleCompliance }),
+
+  workflowAssembleMixDesign: (result: { mixDesign: MixDesign; score: { overall: number } }) => ({
+    mixDesign: result.mixDesign,
+    ...completeStage("mixSpatial", "assembleMixDesign", `Mix score ${result.score.overall}`),
+  }),
+};
+
+/**
+ * Map a workflow tool result to a workflow state update.
+ * Returns null for tools that do not produce persisted artifacts.
+ */
+export function workflowUpdateFromToolResult(
+  toolName: string,
+  result: unknown,
+  state: WorkflowState
+): Partial<WorkflowState> | null {
+  const writer = WORKFLOW_RESULT_WRITERS[toolName];
+  if (!writer || result === null || typeof result !== "object") return null;
+  // Writers are keyed by the tool whose result they take
+  return (writer as ResultWriter<unknown>)(result, state);
+}
+
+/**
+ * Apply a batch of tool results to the workflow state, in order, so later
+ * results see the artifacts written by earlier ones. Successful calls of
+ * seeded tools also advance that tool's seed draw counter.
+ * Returns the updated state, or null when no result touched it.
+ */
+export function collectWorkflowUpdates(
+  results: Array<{ toolName: string; content: string }>,
+  state: WorkflowState
+): WorkflowState | null {
+  let working = state;
+  let changed = false;
+
+  for (const { toolName, content } of results) {
+    const seeded = SEEDED_WORKFLOW_TOOLS.has(toolName) && toolName !== "workflowIngestBrief";
+    if (!WORKFLOW_RESULT_WRITERS[toolName] && !seeded) continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      continue; // Tool errors come back as plain text
+    }
+
+    if (seeded && working.seed !== undefined) {
+      const seedDraws = { ...working.seedDraws, [toolName]: (working.seedDraws?.[toolName] ?? 0) + 1 };
+      working = mergeWorkflowState(working, { seedDraws });
+      changed = true;
+    }
+
+    const update = workflowUpdateFromToolResult(toolName, parsed, working);
+    if (!update) continue;
+
+    working = mergeWorkflowState(working, update);
+    changed = true;
+  }
+
+  return changed ? working : null;
+}
+
+/**
+ * Compact description of the workflow state for the system prompt
+ */
+export function summarizeWorkflowState(state: WorkflowState): string {
+  const artifacts: string[] = [];
+  if (state.brief) artifacts.push(`brief (${state.brief.genres.join("/")})`);
+  if (state.brief?.referenceAnalyses?.length) {
+    artifacts.push(`${state.brief.referenceAnalyses.length} analyzed reference(s)`);
+  }
+  if (state.spec) artifacts.push(state.spec.key ? `spec (${state.spec.key} ${state.spec.scale})` : "spec");
+  if (state.stylePrior) artifacts.push(`stylePrior (${state.stylePrior.bpmSignature.typical} BPM)`);
+  if (state.grooveCandidates?.length) {
+    artifacts.push(`${state.grooveCandidates.length} groove candidates${state.grooveScores ? " (scored)" : ""}`);
+  }
+  if (state.timeBase) artifacts.push(`timeBase (${state.timeBase.finalTempo} BPM ${state.timeBase.finalMeter})`);
+  if (state.palette) artifacts.push(`palette (${state.palette.entries.length} entries)`);
+  if (state.motifCandidates?.length) {
+    artifacts.push(`${state.motifCandidates.length} motif candidates${state.motifScores ? " (scored)" : ""}`);
+  }
+  if (state.motifEvolution) {
+    const { generations, paretoFront, history } = state.motifEvolution;
+    const best = history[history.length - 1]?.bestFitness;
+    artifacts.push(
+      `motifEvolution (${generations} generations, front of ${paretoFront.length}, best fitness ${best})`
+    );
+  }
+  if (state.motifSeedSet) artifacts.push(`motifSeedSet (${state.motifSeedSet.seeds.length} seeds)`);
+  if (state.macroStructure) {
+    artifacts.push(`macroStructure (${state.macroStructure.sections.length} sections, ${state.macroStructure.totalBars} bars)`);
+  }
+  if (state.compositions?.length) artifacts.push(`${state.compositions.length} compositions`);
+  if (state.variationPasses?.length) artifacts.push(`${state.variationPasses.length} variation passes`);
+  if (state.ruleCompliance) {
+    artifacts.push(`ruleCompliance (${state.ruleCompliance.violations.length} violations)`);
+  }
+  if (state.mixDesign) artifacts.push("mixDesign");
+
+  const nextStage = getNextStage(state);
+  const lines = [
+    `Current stage: ${state.currentStage} (${getWorkflowProgress(state)}% complete, next: ${nextStage ?? "done"})`,
+    `Completed: ${state.stagesCompleted.length ? state.stagesCompleted.join(", ") : "none"}`,
+    `Artifacts: ${artifacts.length ? artifacts.join("; ") : "none"}`,
+  ];
+  if (state.seed !== undefined) lines.push(`Run seed: ${state.seed}`);
+  return lines.join("\n");
+}
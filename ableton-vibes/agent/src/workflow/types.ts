@@ -1,12 +1,53 @@
 import { z } from "zod";
 
+// ============================================================================
+// Shared
+// ============================================================================
+
+export const SeedSchema = z
+  .number()
+  .int()
+  .describe("Random seed; passing the same seed again reproduces the result exactly");
+
 // ============================================================================
 // Stage 1: Brief Ingestion & Intent Lock
 // ============================================================================
 
+export const ReferenceSectionSchema = z.object({
+  startBar: z.number(),
+  lengthBars: z.number(),
+  energy: z.number().describe("Mean energy 0-100"),
+});
+export type ReferenceSection = z.infer<typeof ReferenceSectionSchema>;
+
+export const ReferenceAnalysisSchema = z.object({
+  source: z.string().describe("Path of the analyzed audio file"),
+  durationSeconds: z.number(),
+  tempo: z.number().describe("Estimated tempo in BPM"),
+  tempoConfidence: z.number().describe("0-1"),
+  key: z.string(),
+  scale: z.enum(["major", "minor"]),
+  keyConfidence: z.number().describe("Key profile correlation, -1 to 1"),
+  loudness: z.object({
+    integrated: z.number().describe("Gated integrated loudness in LUFS"),
+    shortTermMax: z.number().describe("Loudest 3 s window in LUFS"),
+    range: z.number().describe("Loudness range in LU"),
+    peak: z.number().describe("Sample peak in dBFS"),
+  }),
+  spectralBalance: z.record(z.number()).describe("Share of spectral energy per frequency band, in percent"),
+  energyCurve: z.array(z.number()).describe("Energy per bar, 0-100"),
+  sections: z.array(ReferenceSectionSchema).describe("Sections found from changes in bar energy"),
+  totalBars: z.number().describe("Length in 4/4 bars at the estimated tempo"),
+});
+export type ReferenceAnalysis = z.infer<typeof ReferenceAnalysisSchema>;
+
 export const ProductionBriefSchema = z.object({
   genres: z.array(z.string()).min(1).describe("Primary and secondary genres"),
-  references: z.array(z.string()).optional().describe("Reference tracks or artists"),
+  references: z.array(z.string()).optional().describe("Reference tracks or artists, or paths to WAV / AIFF files"),
+  referenceAnalyses: z
+    .array(ReferenceAnalysisSchema)
+    .optional()
+    .describe("Analyses of the references that point at audio files"),
   mood: z.array(z.string()).describe("Emotional descriptors: dark, euphoric, melancholic"),
   useCase: z.string().optional().describe("Use case: club, listening, sync, live, ambient, workout"),
   targetDurationBars: z.number().optional().describe("Target duration in bars"),
@@ -19,6 +60,22 @@ export const ProductionBriefSchema = z.object({
 });
 export type ProductionBrief = z.infer<typeof ProductionBriefSchema>;
 
+export const RuleViolationSchema = z.object({
+  stage: z.string().describe("Workflow stage whose artifact breaks the rule"),
+  rule: z.string().describe("The brief rule as written"),
+  subject: z.string().describe("Id or name of the offending artifact"),
+  message: z.string(),
+});
+export type RuleViolation = z.infer<typeof RuleViolationSchema>;
+
+export const RuleComplianceSchema = z.object({
+  compliant: z.boolean(),
+  violations: z.array(RuleViolationSchema),
+  unenforced: z.array(z.string()).describe("Rules that map to no checkable constraint"),
+  summary: z.string(),
+});
+export type RuleCompliance = z.infer<typeof RuleComplianceSchema>;
+
 export const ProductionSpecSchema = z.object({
   tempoRange: z.object({
     min: z.number(),
@@ -32,6 +89,8 @@ export const ProductionSpecSchema = z.object({
   ),
   instrumentation: z.array(z.string()).describe("Suggested instruments"),
   mixAesthetic: z.string().describe("Mix aesthetic description"),
+  key: z.string().optional().describe("Key taken from the reference audio"),
+  scale: z.string().optional().describe("Scale of the reference key"),
   structuralConstraints: z.object({
     minSections: z.number(),
     maxSections: z.number(),
@@ -72,20 +131,34 @@ export type StylePrior = z.infer<typeof StylePriorSchema>;
 // Stage 3: Create Time Base
 // ============================================================================
 
+// Per-step values for each drum lane, indexed by step
+export const GrooveLaneValuesSchema = z.object({
+  kick: z.array(z.number()).optional(),
+  snare: z.array(z.number()).optional(),
+  hat: z.array(z.number()).optional(),
+  perc: z.array(z.number()).optional(),
+});
+export type GrooveLaneValues = z.infer<typeof GrooveLaneValuesSchema>;
+
 export const GrooveCandidateSchema = z.object({
   id: z.string(),
   tempo: z.number(),
   meter: z.string().describe("Time signature like 4/4, 6/8"),
   swingAmount: z.number().min(0).max(100),
-  kickPattern: z.array(z.number()).describe("Beat positions 0-15 for 16th notes"),
+  kickPattern: z.array(z.number()).describe("Step positions in 16th notes, 0 to steps - 1"),
   snarePattern: z.array(z.number()),
   hatPattern: z.array(z.number()),
+  percPattern: z.array(z.number()).optional().describe("Extra percussion lane"),
+  steps: z.number().int().min(1).max(64).optional().describe("Pattern length in 16th steps (default 16)"),
+  stepVelocities: GrooveLaneValuesSchema.optional().describe("Per-step velocity 1-127 (0 keeps the lane default); accents are high values"),
+  stepProbabilities: GrooveLaneValuesSchema.optional().describe("Per-step trigger chance 0-100 (missing steps always play)"),
   velocityVariance: z.number().min(0).max(30),
   humanization: z.object({
     timingJitter: z.number(),
     velocityJitter: z.number(),
   }),
   description: z.string(),
+  seed: z.number().optional().describe("PRNG seed that regenerates this candidate"),
 });
 export type GrooveCandidate = z.infer<typeof GrooveCandidateSchema>;
 
@@ -162,6 +235,7 @@ export const MotifSeedSchema = z.object({
   key: z.string(),
   scale: z.string(),
   description: z.string().optional(),
+  seed: z.number().optional().describe("PRNG seed that regenerates this motif"),
 });
 export type MotifSeed = z.infer<typeof MotifSeedSchema>;
 
@@ -193,6 +267,58 @@ export const MotifSeedSetSchema = z.object({
 });
 export type MotifSeedSet = z.infer<typeof MotifSeedSetSchema>;
 
+export const MotifFitnessWeightsSchema = z.object({
+  memorability: z.number().min(0),
+  singability: z.number().min(0),
+  novelty: z.number().min(0),
+  genreFit: z.number().min(0),
+});
+export type MotifFitnessWeights = z.infer<typeof MotifFitnessWeightsSchema>;
+
+export const EvolvedMotifSchema = z.object({
+  motif: MotifSeedSchema,
+  score: MotifScoreSchema,
+  fitness: z.number().describe("Weighted fitness 0-100"),
+  generation: z.number().describe("Generation the motif first appeared in (0 = seed population)"),
+});
+export type EvolvedMotif = z.infer<typeof EvolvedMotifSchema>;
+
+export const MotifGenerationStatsSchema = z.object({
+  generation: z.number(),
+  bestFitness: z.number(),
+  meanFitness: z.number(),
+  bestMotifId: z.string(),
+  frontSize: z.number().describe("Non-dominated motifs in this generation's population"),
+  diversity: z.number().describe("Share of distinct note sequences in the population, 0-1"),
+});
+export type MotifGenerationStats = z.infer<typeof MotifGenerationStatsSchema>;
+
+export const MotifEvolutionSchema = z.object({
+  type: z.enum(["melodic", "rhythmic", "harmonic", "textural"]),
+  weights: MotifFitnessWeightsSchema,
+  populationSize: z.number(),
+  generations: z.number(),
+  evaluated: z.number().describe("Distinct motifs scored over the whole search"),
+  paretoFront: z.array(EvolvedMotifSchema).describe("Motifs no other motif beats on every objective, fittest first"),
+  history: z.array(MotifGenerationStatsSchema),
+});
+export type MotifEvolution = z.infer<typeof MotifEvolutionSchema>;
+
+export const MelodyModelSchema = z.object({
+  version: z.literal(1),
+  order: z.number().int().min(1).max(4).describe("N-gram length: predictions look back on order - 1 previous steps"),
+  motifs: z.number().describe("Melodies trained on"),
+  notes: z.number().describe("Notes trained on"),
+  starts: z.record(z.number()).describe("First-note counts keyed by scale degree and onset, e.g. '0@0'"),
+  intervals: z
+    .record(z.record(z.number()))
+    .describe("Next-interval counts keyed by the current scale degree and the previous intervals"),
+  rhythms: z
+    .record(z.record(z.number()))
+    .describe("Next 'beats to next onset/duration' counts keyed by bar position and the previous rhythms"),
+});
+export type MelodyModel = z.infer<typeof MelodyModelSchema>;
+
 // ============================================================================
 // Stage 6: Draft Macro-Structure
 // ============================================================================
@@ -200,6 +326,14 @@ export type MotifSeedSet = z.infer<typeof MotifSeedSetSchema>;
 export type StructuralArchetype = "verse-chorus" | "build-drop" | "aba" | "through-composed" | "rondo" | "verseChorus" | "buildDrop" | "throughComposed" | "aaba" | "binary" | "ternary";
 export type SectionType = "intro" | "verse" | "buildup" | "drop" | "breakdown" | "bridge" | "outro" | "chorus" | "preChorus" | "build" | "transition";
 
+export const ModulationSchema = z.object({
+  type: z.enum(["relative", "parallel", "step-up", "pivot"]).describe(
+    "Relation to the previous section's key: relative major/minor, parallel mode, a whole step up, or the dominant key"
+  ),
+  pivotChord: z.string().optional().describe("Chord in both keys that ends the previous section"),
+});
+export type Modulation = z.infer<typeof ModulationSchema>;
+
 export const ArrangementSectionSchema = z.object({
   id: z.string(),
   type: z.enum(["intro", "verse", "buildup", "drop", "breakdown", "bridge", "outro", "chorus", "preChorus", "build", "transition"]),
@@ -212,6 +346,14 @@ export const ArrangementSectionSchema = z.object({
     in: z.string().optional(),
     out: z.string().optional(),
   }).optional(),
+  tempo: z.number().optional().describe("Tempo override in BPM; the time base tempo when absent"),
+  meter: z.string().optional().describe("Time signature override, e.g. 3/4; the time base meter when absent"),
+  tempoRamp: z.object({
+    to: z.number().describe("Tempo in BPM reached at the end of the section"),
+  }).optional().describe("Ramp linearly from the section tempo over its length, e.g. an accelerating build"),
+  key: z.string().optional().describe("Key override, e.g. D; the track key when absent"),
+  scale: z.string().optional().describe("Scale of the section key (default: the track scale)"),
+  modulation: ModulationSchema.optional().describe("How the section moves into its key"),
 });
 export type ArrangementSection = z.infer<typeof ArrangementSectionSchema>;
 
@@ -284,6 +426,7 @@ export const VariationSchema = z.object({
   result: MotifSeedSchema,
   coherenceScore: z.number(),
   improvementDelta: z.number(),
+  seed: z.number().optional().describe("PRNG seed that regenerates this variation"),
 });
 export type Variation = z.infer<typeof VariationSchema>;
 
@@ -482,13 +625,25 @@ export const WorkflowStateSchema = z.object({
   brief: ProductionBriefSchema.optional(),
   spec: ProductionSpecSchema.optional(),
   stylePrior: StylePriorSchema.optional(),
+  grooveCandidates: z.array(GrooveCandidateSchema).optional(),
+  grooveScores: z.array(GrooveScoreSchema).optional(),
   timeBase: TimeBaseSchema.optional(),
   palette: SoundPaletteSchema.optional(),
+  motifCandidates: z.array(MotifSeedSchema).optional(),
+  motifScores: z.array(MotifScoreSchema).optional(),
   motifSeedSet: MotifSeedSetSchema.optional(),
+  motifEvolution: MotifEvolutionSchema.optional(),
   macroStructure: MacroStructureSchema.optional(),
   compositions: z.array(SectionCompositionSchema).optional(),
   variationPasses: z.array(VariationPassSchema).optional(),
   mixDesign: MixDesignSchema.optional(),
+  ruleCompliance: RuleComplianceSchema.optional(),
+  melodyModelPath: z
+    .string()
+    .optional()
+    .describe("Melody model trained this run; the motif tools draw house-style melodies from it"),
+  seed: z.number().optional().describe("Run seed; seeded stage tools derive their seeds from it"),
+  seedDraws: z.record(z.number()).optional().describe("How many times each seeded tool has drawn from the run seed"),
   revisionHistory: z.array(
     z.object({
       stage: z.enum([
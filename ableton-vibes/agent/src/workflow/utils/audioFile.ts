@@ -0,0 +1,172 @@
+/**
+ * WAV and AIFF reader
+ * Decodes PCM and float audio files into per-channel samples (-1..1), so reference
+ * tracks on disk can be analyzed without a native decoder
+ */
+
+import path from "path";
+
+export type DecodedAudio = {
+  sampleRate: number;
+  /** One array of samples per channel */
+  channels: Float32Array[];
+  durationSeconds: number;
+};
+
+type SampleFormat = { bits: number; float: boolean; littleEndian: boolean };
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Resolve a path from a tool argument, expanding ~ to the home directory
+ */
+export function resolveLocalPath(filePath: string): string {
+  const expanded = filePath.startsWith("~") ? path.join(process.env.HOME || "", filePath.slice(1)) : filePath;
+  return path.resolve(expanded);
+}
+
+const ascii = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+function readSample(view: DataView, offset: number, format: SampleFormat): number {
+  const { bits, float, littleEndian } = format;
+  if (float) return bits === 64 ? view.getFloat64(offset, littleEndian) : view.getFloat32(offset, littleEndian);
+
+  switch (bits) {
+    case 8:
+      // 8-bit WAV is unsigned, 8-bit AIFF is signed
+      return littleEndian ? (view.getUint8(offset) - 128) / 128 : view.getInt8(offset) / 128;
+    case 16:
+      return view.getInt16(offset, littleEndian) / 32768;
+    case 24: {
+      const [b0, b1, b2] = [view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2)];
+      const value = littleEndian ? b0 | (b1 << 8) | (b2 << 16) : (b0 << 16) | (b1 << 8) | b2;
+      return ((value << 8) >> 8) / 8388608;
+    }
+    case 32:
+      return view.getInt32(offset, littleEndian) / 2147483648;
+    default:
+      throw new Error(`Unsupported sample size: ${bits} bits.`);
+  }
+}
+
+function deinterleave(
+  bytes: Uint8Array,
+  offset: number,
+  length: number,
+  channelCount: number,
+  format: SampleFormat
+): Float32Array[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const bytesPerSample = format.bits / 8;
+  const frames = Math.floor(Math.min(length, bytes.length - offset) / (bytesPerSample * channelCount));
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frames));
+
+  for (let frame = 0; frame < frames; frame++) {
+    const frameOffset = offset + frame * bytesPerSample * channelCount;
+    for (let ch = 0; ch < channelCount; ch++) {
+      channels[ch]![frame] = readSample(view, frameOffset + ch * bytesPerSample, format);
+    }
+  }
+  return channels;
+}
+
+function decodeWav(bytes: Uint8Array): DecodedAudio {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format: (SampleFormat & { channels: number; sampleRate: number }) | undefined;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      let tag = view.getUint16(body, true);
+      // Extensible files keep the real format in the first two bytes of the sub-format GUID
+      if (tag === WAVE_FORMAT_EXTENSIBLE && size >= 26) tag = view.getUint16(body + 24, true);
+      if (tag !== WAVE_FORMAT_PCM && tag !== WAVE_FORMAT_FLOAT) {
+        throw new Error(`Unsupported WAV encoding (format tag ${tag}); export as PCM or float.`);
+      }
+      format = {
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bits: view.getUint16(body + 14, true),
+        float: tag === WAVE_FORMAT_FLOAT,
+        littleEndian: true,
+      };
+    } else if (id === "data") {
+      if (!format) throw new Error("WAV data chunk comes before its fmt chunk.");
+      const channels = deinterleave(bytes, body, size, format.channels, format);
+      return { sampleRate: format.sampleRate, channels, durationSeconds: channels[0]!.length / format.sampleRate };
+    }
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error("WAV file has no audio data.");
+}
+
+/**
+ * 80-bit IEEE extended float, as AIFF stores its sample rate
+ */
+function readExtended(view: DataView, offset: number): number {
+  const exponent = view.getUint16(offset) & 0x7fff;
+  const mantissa = view.getUint32(offset + 2) * 2 ** 32 + view.getUint32(offset + 6);
+  return mantissa === 0 ? 0 : mantissa * 2 ** (exponent - 16383 - 63);
+}
+
+function decodeAiff(bytes: Uint8Array): DecodedAudio {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const compressed = ascii(bytes, 8) === "AIFC";
+  let format: (SampleFormat & { channels: number; sampleRate: number }) | undefined;
+  let sound: { offset: number; length: number } | undefined;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset);
+    const size = view.getUint32(offset + 4);
+    const body = offset + 8;
+
+    if (id === "COMM") {
+      const compression = compressed ? ascii(bytes, body + 18) : "NONE";
+      const bits = view.getUint16(body + 6);
+      const codecs: Record<string, SampleFormat> = {
+        NONE: { bits, float: false, littleEndian: false },
+        twos: { bits, float: false, littleEndian: false },
+        sowt: { bits, float: false, littleEndian: true },
+        fl32: { bits: 32, float: true, littleEndian: false },
+        FL32: { bits: 32, float: true, littleEndian: false },
+        fl64: { bits: 64, float: true, littleEndian: false },
+        FL64: { bits: 64, float: true, littleEndian: false },
+      };
+      const codec = codecs[compression];
+      if (!codec) throw new Error(`Unsupported AIFF-C compression "${compression}".`);
+      format = { ...codec, channels: view.getUint16(body), sampleRate: readExtended(view, body + 8) };
+    } else if (id === "SSND") {
+      const dataOffset = view.getUint32(body);
+      sound = { offset: body + 8 + dataOffset, length: size - 8 - dataOffset };
+    }
+    offset = body + size + (size % 2);
+  }
+
+  if (!format) throw new Error("AIFF file has no COMM chunk.");
+  if (!sound) throw new Error("AIFF file has no audio data.");
+  const channels = deinterleave(bytes, sound.offset, sound.length, format.channels, format);
+  return { sampleRate: format.sampleRate, channels, durationSeconds: channels[0]!.length / format.sampleRate };
+}
+
+/**
+ * Decode a WAV (PCM or float, including WAVE_FORMAT_EXTENSIBLE) or AIFF / AIFF-C file
+ * @throws for other containers and compressed encodings
+ */
+export function decodeAudioFile(data: Uint8Array | ArrayBuffer): DecodedAudio {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.length < 12) throw new Error("Audio file is too short.");
+
+  const container = ascii(bytes, 0);
+  if (container === "RIFF" && ascii(bytes, 8) === "WAVE") return decodeWav(bytes);
+  if (container === "FORM" && ["AIFF", "AIFC"].includes(ascii(bytes, 8))) return decodeAiff(bytes);
+  throw new Error("Not a WAV or AIFF file.");
+}
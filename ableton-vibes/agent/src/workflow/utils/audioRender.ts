@@ -0,0 +1,486 @@
+/**
+ * Offline audio rendering
+ * A small synth (oscillators plus drum synthesis) that turns grooves, motifs and
+ * section compositions into PCM so candidates can be auditioned without Live
+ */
+
+import type {
+  EarCandy,
+  GrooveCandidate,
+  GrooveLaneValues,
+  MotifSeed,
+  PaletteEntry,
+  SectionComposition,
+  Voice,
+} from "../types";
+import { accentVelocity, applySwing, humanizeTiming, humanizeVelocity } from "./rhythmUtils";
+import { createRng, type Rng } from "./random";
+
+export type RenderInstrument =
+  | "kick"
+  | "snare"
+  | "hat"
+  | "perc"
+  | "bass"
+  | "lead"
+  | "pluck"
+  | "keys"
+  | "pad"
+  | "noise";
+
+export type Waveform = "sine" | "triangle" | "saw" | "square";
+
+/**
+ * One note to synthesize; times are in beats
+ */
+export type RenderEvent = {
+  time: number;
+  duration: number;
+  pitch: number;
+  velocity: number;
+  instrument: RenderInstrument;
+  /** Oscillator override for tonal instruments (from the palette entry) */
+  waveform?: Waveform;
+};
+
+export type RenderOptions = {
+  tempo: number;
+  sampleRate?: number;
+  /** Render length in beats; defaults to the end of the last note */
+  lengthBeats?: number;
+  /** Seconds of release tail after the last beat */
+  tailSeconds?: number;
+  /** Seed for noise and humanization */
+  seed?: number;
+};
+
+export type RenderedAudio = {
+  samples: Float32Array;
+  sampleRate: number;
+  durationSeconds: number;
+  /** Peak level before normalization, in dBFS */
+  peakDb: number;
+};
+
+const DEFAULT_SAMPLE_RATE = 44100;
+
+export type Envelope = { attack: number; decay: number; sustain: number; release: number };
+
+export const TONAL_VOICES: Record<
+  Exclude<RenderInstrument, "kick" | "snare" | "hat" | "perc" | "noise">,
+  { waveform: Waveform; envelope: Envelope; cutoff: number; gain: number }
+> = {
+  bass: {
+    waveform: "saw",
+    envelope: { attack: 0.005, decay: 0.2, sustain: 0.7, release: 0.08 },
+    cutoff: 600,
+    gain: 0.5,
+  },
+  lead: {
+    waveform: "square",
+    envelope: { attack: 0.01, decay: 0.15, sustain: 0.6, release: 0.15 },
+    cutoff: 3500,
+    gain: 0.28,
+  },
+  pluck: {
+    waveform: "saw",
+    envelope: { attack: 0.002, decay: 0.25, sustain: 0, release: 0.1 },
+    cutoff: 2500,
+    gain: 0.3,
+  },
+  keys: {
+    waveform: "triangle",
+    envelope: { attack: 0.005, decay: 0.6, sustain: 0.4, release: 0.3 },
+    cutoff: 5000,
+    gain: 0.25,
+  },
+  pad: {
+    waveform: "saw",
+    envelope: { attack: 0.4, decay: 0.5, sustain: 0.8, release: 0.8 },
+    cutoff: 1800,
+    gain: 0.16,
+  },
+};
+
+const ROLE_INSTRUMENTS: Record<Voice["role"], RenderInstrument> = {
+  bass: "bass",
+  harmony: "keys",
+  topline: "lead",
+  lead: "lead",
+  counterline: "pluck",
+  rhythm: "pluck",
+  pad: "pad",
+  texture: "pad",
+  fx: "noise",
+};
+
+const PALETTE_WAVEFORMS: Record<PaletteEntry["type"], Waveform> = {
+  synth: "saw",
+  sample: "square",
+  recording: "triangle",
+};
+
+const MOTIF_INSTRUMENTS: Record<MotifSeed["type"], RenderInstrument> = {
+  melodic: "lead",
+  rhythmic: "pluck",
+  harmonic: "keys",
+  textural: "pad",
+};
+
+/**
+ * General MIDI drum pitches, for rhythm voices that carry a drum kit
+ */
+function drumForPitch(pitch: number): RenderInstrument | null {
+  if (pitch === 35 || pitch === 36) return "kick";
+  if (pitch >= 37 && pitch <= 40) return "snare";
+  if (pitch === 42 || pitch === 44 || pitch === 46 || pitch === 51) return "hat";
+  if ((pitch >= 41 && pitch <= 50) || (pitch >= 60 && pitch <= 64)) return "perc";
+  return null;
+}
+
+export const midiToFrequency = (pitch: number) => 440 * 2 ** ((pitch - 69) / 12);
+
+function oscillator(waveform: Waveform, phase: number): number {
+  const cycle = phase - Math.floor(phase);
+  switch (waveform) {
+    case "sine":
+      return Math.sin(2 * Math.PI * cycle);
+    case "triangle":
+      return 1 - 4 * Math.abs(cycle - 0.5);
+    case "square":
+      return cycle < 0.5 ? 1 : -1;
+    case "saw":
+      return 2 * cycle - 1;
+  }
+}
+
+function envelopeAt(env: Envelope, t: number, held: number): number {
+  const level = (time: number) => {
+    if (time < env.attack) return time / env.attack;
+    const sinceAttack = time - env.attack;
+    if (sinceAttack < env.decay) return 1 - (1 - env.sustain) * (sinceAttack / env.decay);
+    return env.sustain;
+  };
+  if (t < held) return level(t);
+  const releaseTime = t - held;
+  return releaseTime >= env.release ? 0 : level(held) * (1 - releaseTime / env.release);
+}
+
+/**
+ * Add one synthesized event into the mix buffer
+ */
+function renderEvent(
+  out: Float32Array,
+  event: RenderEvent,
+  startSeconds: number,
+  durationSeconds: number,
+  sampleRate: number,
+  rng: Rng
+): void {
+  const start = Math.max(0, Math.round(startSeconds * sampleRate));
+  const amp = Math.max(0, Math.min(127, event.velocity)) / 127;
+
+  const write = (lengthSeconds: number, sample: (t: number) => number) => {
+    const end = Math.min(out.length, start + Math.round(lengthSeconds * sampleRate));
+    for (let i = start; i < end; i++) out[i]! += sample((i - start) / sampleRate) * amp;
+  };
+
+  switch (event.instrument) {
+    case "kick": {
+      // Sine with a fast downward pitch sweep
+      let phase = 0;
+      write(0.45, (t) => {
+        phase += (45 + 105 * Math.exp(-t * 30)) / sampleRate;
+        return Math.sin(2 * Math.PI * phase) * Math.exp(-t * 8) * 0.9;
+      });
+      return;
+    }
+    case "snare":
+      // Noise burst over a short tonal body
+      write(0.25, (t) => {
+        const body = Math.sin(2 * Math.PI * 185 * t) * Math.exp(-t * 30) * 0.3;
+        return (rng() * 2 - 1) * Math.exp(-t * 18) * 0.45 + body;
+      });
+      return;
+    case "hat": {
+      // Differenced noise is a cheap high-pass
+      let previous = 0;
+      write(0.08, (t) => {
+        const noise = rng() * 2 - 1;
+        const high = noise - previous;
+        previous = noise;
+        return high * Math.exp(-t * 60) * 0.2;
+      });
+      return;
+    }
+    case "perc": {
+      // Tuned sine knock for toms and congas
+      const frequency = midiToFrequency(event.pitch);
+      write(0.2, (t) => Math.sin(2 * Math.PI * frequency * t) * Math.exp(-t * 25) * 0.45);
+      return;
+    }
+    case "noise": {
+      const { envelope } = TONAL_VOICES.pad;
+      write(durationSeconds + envelope.release, (t) => (rng() * 2 - 1) * envelopeAt(envelope, t, durationSeconds) * 0.12);
+      return;
+    }
+    default: {
+      const voice = TONAL_VOICES[event.instrument];
+      const waveform = event.waveform ?? voice.waveform;
+      const frequency = midiToFrequency(event.pitch);
+      // One-pole low-pass to tame the raw oscillators
+      const alpha = 1 - Math.exp((-2 * Math.PI * voice.cutoff) / sampleRate);
+      let filtered = 0;
+      write(durationSeconds + voice.envelope.release, (t) => {
+        filtered += alpha * (oscillator(waveform, frequency * t) - filtered);
+        return filtered * envelopeAt(voice.envelope, t, durationSeconds) * voice.gain;
+      });
+    }
+  }
+}
+
+/**
+ * Mix events into a mono buffer, normalizing only when the mix would clip
+ */
+export function renderEvents(events: RenderEvent[], options: RenderOptions): RenderedAudio {
+  const sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  const secondsPerBeat = 60 / options.tempo;
+  const lengthBeats = options.lengthBeats ?? events.reduce((end, e) => Math.max(end, e.time + e.duration), 0);
+  const durationSeconds = lengthBeats * secondsPerBeat + (options.tailSeconds ?? 1);
+  const samples = new Float32Array(Math.ceil(durationSeconds * sampleRate));
+  const rng = createRng(options.seed ?? 1);
+
+  for (const event of events) {
+    if (event.time >= lengthBeats) continue;
+    renderEvent(samples, event, event.time * secondsPerBeat, event.duration * secondsPerBeat, sampleRate, rng);
+  }
+
+  return limitPeak(samples, sampleRate, durationSeconds);
+}
+
+/**
+ * Scale the buffer down only when it would clip, reporting the peak before scaling
+ */
+function limitPeak(samples: Float32Array, sampleRate: number, durationSeconds: number): RenderedAudio {
+  let peak = 0;
+  for (const sample of samples) peak = Math.max(peak, Math.abs(sample));
+  if (peak > 0.99) {
+    const gain = 0.89 / peak;
+    for (let i = 0; i < samples.length; i++) samples[i]! *= gain;
+  }
+
+  return {
+    samples,
+    sampleRate,
+    durationSeconds,
+    peakDb: peak > 0 ? Math.round(20 * Math.log10(peak) * 10) / 10 : -Infinity,
+  };
+}
+
+/**
+ * State-variable band-pass; the centre is capped where the filter stays stable
+ */
+function createBandPass(sampleRate: number) {
+  let low = 0;
+  let band = 0;
+  return (input: number, centre: number, damping: number) => {
+    const f = 2 * Math.sin((Math.PI * Math.min(centre, sampleRate / 6)) / sampleRate);
+    low += f * band;
+    const high = input - low - damping * band;
+    band += f * high;
+    return band;
+  };
+}
+
+/** Exponential glide from one frequency to another over progress 0-1 */
+const glide = (from: number, to: number, progress: number) => from * (to / from) ** progress;
+
+// Vowel "ah" formants that turn a buzzy saw into something voice-like
+const CHOP_FORMANTS = [800, 1200];
+const CHOP_PITCHES = [220, 262, 330, 262];
+
+/**
+ * Render an ear candy event: band-passed noise glides for risers and downlifters,
+ * an oscillator glide for sweeps, a sub drop over a noise burst for impacts, a
+ * reversed cymbal swell, a noise swell, a 32nd-note gated stutter and
+ * formant-filtered 16th-note vocal chops. Impacts ring on past their duration
+ */
+export function renderEarCandy(candy: EarCandy, options: RenderOptions & { beatsPerBar?: number }): RenderedAudio {
+  const sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  const secondsPerBeat = 60 / options.tempo;
+  const lengthSeconds = Math.max(candy.duration * (options.beatsPerBar ?? 4) * secondsPerBeat, 1 / sampleRate);
+  const durationSeconds = lengthSeconds + (options.tailSeconds ?? (candy.type === "impact" ? 1.5 : 0));
+  const samples = new Float32Array(Math.ceil(durationSeconds * sampleRate));
+  const rng = createRng(options.seed ?? 1);
+  const noise = () => rng() * 2 - 1;
+  const filters = [createBandPass(sampleRate), createBandPass(sampleRate)] as const;
+  let phase = 0;
+  let previousNoise = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    const progress = Math.min(t / lengthSeconds, 1);
+
+    switch (candy.type) {
+      case "riser":
+        phase += glide(110, 880, progress) / sampleRate;
+        samples[i] =
+          filters[0](noise(), glide(300, 8000, progress), 0.5) * progress ** 2 * 0.6 +
+          oscillator("saw", phase) * progress * 0.12;
+        break;
+      case "downlifter":
+        phase += glide(880, 110, progress) / sampleRate;
+        samples[i] =
+          filters[0](noise(), glide(8000, 200, progress), 0.5) * (1 - progress) ** 2 * 0.6 +
+          oscillator("sine", phase) * (1 - progress) * 0.15;
+        break;
+      case "sweep":
+        phase += glide(200, 3200, progress) / sampleRate;
+        samples[i] =
+          (oscillator("saw", phase) * 0.5 + oscillator("sine", phase) * 0.5) * Math.sin(Math.PI * progress) * 0.3;
+        break;
+      case "impact":
+        phase += glide(60, 30, Math.min(t / 1.5, 1)) / sampleRate;
+        samples[i] = Math.sin(2 * Math.PI * phase) * Math.exp(-t * 2.5) * 0.9 + noise() * Math.exp(-t * 12) * 0.5;
+        break;
+      case "reverse": {
+        // A cymbal (differenced noise decaying over ~1 s) played backwards into the end
+        const fresh = noise();
+        samples[i] = t < lengthSeconds ? (fresh - previousNoise) * Math.exp(-(lengthSeconds - t) * 3) * 0.3 : 0;
+        previousNoise = fresh;
+        break;
+      }
+      case "white-noise":
+        samples[i] = noise() * Math.sin(Math.PI * progress) * 0.25;
+        break;
+      case "stutter": {
+        const slice = secondsPerBeat / 8;
+        phase += 220 / sampleRate;
+        const open = t < lengthSeconds && t % slice < slice * 0.6;
+        samples[i] = open ? (oscillator("saw", phase) * 0.7 + noise() * 0.3) * (0.5 + 0.5 * progress) * 0.35 : 0;
+        break;
+      }
+      case "vocal-chop": {
+        const slice = secondsPerBeat / 4;
+        const step = Math.floor(t / slice);
+        phase += CHOP_PITCHES[step % CHOP_PITCHES.length]! / sampleRate;
+        const source = oscillator("saw", phase);
+        const voiced = filters[0](source, CHOP_FORMANTS[0]!, 0.2) + filters[1](source, CHOP_FORMANTS[1]!, 0.2) * 0.6;
+        // Every fourth 16th rests
+        const open = t < lengthSeconds && step % 4 !== 3 && t % slice < slice * 0.7;
+        samples[i] = open ? voiced * 0.4 : 0;
+        break;
+      }
+    }
+  }
+
+  return limitPeak(samples, sampleRate, durationSeconds);
+}
+
+/**
+ * Events for a groove pattern looped `loops` times (one loop is `steps` 16ths, 16 by
+ * default), with its swing, its meter's accents, per-step velocities and chances, and humanization
+ */
+export function grooveToEvents(groove: GrooveCandidate, loops = 2, seed = groove.seed ?? 1): RenderEvent[] {
+  const rng = createRng(seed);
+  const steps = groove.steps ?? 16;
+  const events: RenderEvent[] = [];
+  const parts: Array<[keyof GrooveLaneValues, number[], RenderInstrument, number, number]> = [
+    ["kick", groove.kickPattern, "kick", 36, 112],
+    ["snare", groove.snarePattern, "snare", 38, 100],
+    ["hat", groove.hatPattern, "hat", 42, 80],
+    ["perc", groove.percPattern ?? [], "perc", 63, 90],
+  ];
+
+  for (let loop = 0; loop < loops; loop++) {
+    for (const [lane, pattern, instrument, pitch, baseVelocity] of parts) {
+      for (const step of pattern) {
+        if (step >= steps) continue;
+        const beat = (loop * steps + step) / 4;
+        // Groove swing runs 0 (straight) to 100; applySwing treats 50 as straight
+        const swung = applySwing(beat, 50 + groove.swingAmount / 2, "16th");
+        const time = Math.max(0, humanizeTiming(swung, groove.humanization.timingJitter, groove.tempo, rng));
+        const velocity = humanizeVelocity(
+          groove.stepVelocities?.[lane]?.[step] || accentVelocity(baseVelocity, beat, groove.meter),
+          groove.velocityVariance + groove.humanization.velocityJitter,
+          rng
+        );
+        // Only uncertain steps draw, so grooves without chances keep their seeded feel
+        const chance = groove.stepProbabilities?.[lane]?.[step] ?? 100;
+        if (chance < 100 && rng() * 100 >= chance) continue;
+        events.push({ time, duration: 0.25, pitch, velocity, instrument });
+      }
+    }
+  }
+
+  return events.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Events for a motif, played back to back `repeats` times
+ */
+export function motifToEvents(motif: MotifSeed, repeats = 1, beatsPerBar = 4): RenderEvent[] {
+  const instrument = MOTIF_INSTRUMENTS[motif.type];
+  const loopBeats = motif.lengthBars * beatsPerBar;
+  return Array.from({ length: repeats }, (_, i) =>
+    motif.notes.map((note) => ({ ...note, time: note.time + i * loopBeats, instrument }))
+  ).flat();
+}
+
+/**
+ * Events for a section composition, choosing an instrument per voice role and
+ * an oscillator per palette entry type when the voice names one
+ */
+export function compositionToEvents(composition: SectionComposition, palette: PaletteEntry[] = []): RenderEvent[] {
+  return composition.voices.flatMap((voice) => {
+    const entry = palette.find((p) => p.id === voice.paletteEntryId);
+    const waveform = entry ? PALETTE_WAVEFORMS[entry.type] : undefined;
+    return voice.notes.map((note) => ({
+      ...note,
+      instrument: (voice.role === "rhythm" && drumForPitch(note.pitch)) || ROLE_INSTRUMENTS[voice.role],
+      ...(waveform ? { waveform } : {}),
+    }));
+  });
+}
+
+/**
+ * Encode mono float samples as a PCM WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number, bitDepth: 16 | 24 = 16): Uint8Array<ArrayBuffer> {
+  const bytesPerSample = bitDepth / 8;
+  const dataLength = samples.length * bytesPerSample;
+  const buffer = new Uint8Array(44 + dataLength);
+  const view = new DataView(buffer.buffer);
+  const ascii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  ascii(0, "RIFF");
+  view.setUint32(4, 36 + dataLength, true);
+  ascii(8, "WAVE");
+  ascii(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, bitDepth, true);
+  ascii(36, "data");
+  view.setUint32(40, dataLength, true);
+
+  const fullScale = 2 ** (bitDepth - 1) - 1;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.round(Math.max(-1, Math.min(1, samples[i]!)) * fullScale);
+    const offset = 44 + i * bytesPerSample;
+    if (bitDepth === 16) {
+      view.setInt16(offset, value, true);
+    } else {
+      view.setUint8(offset, value & 0xff);
+      view.setUint8(offset + 1, (value >> 8) & 0xff);
+      view.setUint8(offset + 2, (value >> 16) & 0xff);
+    }
+  }
+
+  return buffer;
+}
@@ -0,0 +1,342 @@
+/**
+ * Brief rules engine
+ *
+ * Turns the free-text must / mustNot rules of a production brief (and the palette's
+ * forbidden list) into structured constraints, and checks workflow artifacts against them
+ */
+
+import type {
+  ArrangementSection,
+  GrooveCandidate,
+  MotifSeed,
+  PaletteEntry,
+  ProductionBrief,
+  RuleCompliance,
+  RuleViolation,
+  SectionComposition,
+  TimeBase,
+  Voice,
+  WorkflowStage,
+} from "../types";
+
+export type BriefConstraint =
+  | { kind: "forbidElement"; element: string; rule: string }
+  | { kind: "requireElement"; element: string; rule: string }
+  | { kind: "tempo"; min?: number; max?: number; rule: string }
+  | { kind: "swing"; required: boolean; rule: string }
+  | { kind: "meter"; meter: string; allowed: boolean; rule: string };
+
+// Leading words that turn a rule around: "no 808s" in must means the same as "808s" in mustNot
+const NEGATION = /^(?:no|not|never|avoid|without|exclude|don'?t use|do not use)\s+/;
+const FILLER =
+  /\b(?:must|should|always|include|includes|including|use|using|have|has|feature|featuring|any|a|an|the|some|with|sounds?|elements?)\b/g;
+const UPPER_BOUND = /under|below|less|slower|most|max|up to/;
+
+// Other names the same element goes by in palette entries, motifs and voices
+const ELEMENT_ALIASES: Record<string, string[]> = {
+  hihat: ["hat"],
+  vocal: ["vox", "voice"],
+  arpeggio: ["arp"],
+  percussion: ["perc"],
+  chord: ["harmonic"],
+};
+
+// Drum lanes of a groove and the names rules use for them
+const GROOVE_LANES = [
+  { pattern: "kickPattern", label: "kick drum" },
+  { pattern: "snarePattern", label: "snare clap" },
+  { pattern: "hatPattern", label: "hi-hat" },
+  { pattern: "percPattern", label: "percussion" },
+] as const;
+
+const compact = (text: string) => text.toLowerCase().replace(/[^a-z0-9#]/g, "");
+
+const singular = (phrase: string) =>
+  phrase
+    .split(" ")
+    .map((word) => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word))
+    .join(" ");
+
+function parseRule(rule: string, required: boolean): BriefConstraint[] {
+  let text = rule.toLowerCase().trim();
+  const negated = NEGATION.test(text);
+  if (negated) text = text.replace(NEGATION, "");
+  const positive = required && !negated;
+
+  const range = text.match(/(\d+)\s*(?:-|–|to)\s*(\d+)\s*bpm/);
+  if (range) {
+    const [low, high] = [Number(range[1]), Number(range[2])].sort((a, b) => a - b);
+    return positive ? [{ kind: "tempo", min: low, max: high, rule }] : [];
+  }
+
+  const bound = text.match(/(under|below|less than|slower than|at most|max(?:imum)?|up to|over|above|more than|faster than|at least|min(?:imum)?)\s*(\d+)\s*bpm/);
+  if (bound) {
+    const bpm = Number(bound[2]);
+    // "under 130 BPM" as a must and "over 130 BPM" as a mustNot both cap the tempo
+    const isMax = UPPER_BOUND.test(bound[1]!) === positive;
+    return [{ kind: "tempo", ...(isMax ? { max: bpm } : { min: bpm }), rule }];
+  }
+
+  const exact = text.match(/(\d+)\s*bpm/);
+  if (exact) return positive ? [{ kind: "tempo", min: Number(exact[1]), max: Number(exact[1]), rule }] : [];
+
+  if (/\b(?:swing|swung|shuffle)/.test(text)) return [{ kind: "swing", required: positive, rule }];
+  if (/\b(?:straight|quantized|quantised)\b/.test(text)) return [{ kind: "swing", required: !positive, rule }];
+
+  const meter = text.match(/\b(\d{1,2})\s*\/\s*(\d{1,2})\b/);
+  if (meter) return [{ kind: "meter", meter: `${meter[1]}/${meter[2]}`, allowed: positive, rule }];
+
+  const element = singular(
+    text
+      .replace(FILLER, " ")
+      .replace(/[^a-z0-9#\s-]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+  if (!element) return [];
+  return [{ kind: positive ? "requireElement" : "forbidElement", element, rule }];
+}
+
+/**
+ * Parse brief rules into constraints
+ * @param forbidden - Extra things to avoid, such as the palette's forbidden list
+ */
+export function parseBriefRules(rules?: ProductionBrief["rules"], forbidden: string[] = []): BriefConstraint[] {
+  const constraints = [
+    ...(rules?.must ?? []).flatMap((rule) => parseRule(rule, true)),
+    ...[...(rules?.mustNot ?? []), ...forbidden].flatMap((rule) => parseRule(rule, false)),
+  ];
+
+  // The palette's forbidden list repeats the brief's mustNot rules, so keep one of each
+  const seen = new Set<string>();
+  return constraints.filter((c) => {
+    const key = `${c.kind}:${c.rule.toLowerCase().trim()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Rules the engine cannot check, such as a tempo range to avoid
+ */
+export function unenforcedRules(rules?: ProductionBrief["rules"]): string[] {
+  return [
+    ...(rules?.must ?? []).filter((rule) => parseRule(rule, true).length === 0),
+    ...(rules?.mustNot ?? []).filter((rule) => parseRule(rule, false).length === 0),
+  ];
+}
+
+/**
+ * Whether a name or description mentions an element, ignoring case, spacing and hyphens
+ */
+export function mentionsElement(text: string, element: string): boolean {
+  const haystack = compact(text);
+  const needle = compact(element);
+  return [needle, ...(ELEMENT_ALIASES[needle] ?? [])].some((term) => term.length > 0 && haystack.includes(term));
+}
+
+const forbiddenIn = (text: string, constraints: BriefConstraint[]) =>
+  constraints.filter(
+    (c): c is Extract<BriefConstraint, { kind: "forbidElement" }> =>
+      c.kind === "forbidElement" && mentionsElement(text, c.element)
+  );
+
+const violation = (stage: WorkflowStage, rule: string, subject: string, message: string): RuleViolation => ({
+  stage,
+  rule,
+  subject,
+  message,
+});
+
+/**
+ * Narrow a tempo range to the brief's tempo rules; a rule outside the range wins over it
+ */
+export function applyTempoRules(
+  range: { min: number; max: number },
+  constraints: BriefConstraint[]
+): { min: number; max: number } {
+  let { min, max } = range;
+  for (const c of constraints) {
+    if (c.kind !== "tempo") continue;
+    if (c.max !== undefined) {
+      max = Math.min(max, c.max);
+      min = Math.min(min, c.max);
+    }
+    if (c.min !== undefined) {
+      min = Math.max(min, c.min);
+      max = Math.max(max, c.min);
+    }
+  }
+  return { min, max };
+}
+
+/**
+ * Meter the brief asks for, if any
+ */
+export function requiredMeter(constraints: BriefConstraint[]): string | undefined {
+  for (const c of constraints) {
+    if (c.kind === "meter" && c.allowed) return c.meter;
+  }
+  return undefined;
+}
+
+/**
+ * Violations of the tempo and meter rules by a tempo and meter
+ */
+export function checkTimingRules(
+  stage: WorkflowStage,
+  subject: string,
+  timing: { tempo?: number; meter?: string },
+  constraints: BriefConstraint[]
+): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  for (const c of constraints) {
+    if (c.kind === "tempo" && timing.tempo !== undefined) {
+      if ((c.min !== undefined && timing.tempo < c.min) || (c.max !== undefined && timing.tempo > c.max)) {
+        violations.push(violation(stage, c.rule, subject, `${subject} runs at ${timing.tempo} BPM`));
+      }
+    }
+    if (c.kind === "meter" && timing.meter !== undefined && (timing.meter === c.meter) !== c.allowed) {
+      violations.push(violation(stage, c.rule, subject, `${subject} is in ${timing.meter}`));
+    }
+  }
+  return violations;
+}
+
+/**
+ * Fix what can be fixed in a groove: clamp its tempo, straighten or keep its swing, and
+ * empty the drum lanes the brief forbids
+ */
+export function applyGrooveRules(groove: GrooveCandidate, constraints: BriefConstraint[]): GrooveCandidate {
+  const { min: tempo } = applyTempoRules({ min: groove.tempo, max: groove.tempo }, constraints);
+  const fixed: GrooveCandidate = { ...groove, tempo };
+
+  for (const c of constraints) {
+    if (c.kind === "swing" && !c.required) fixed.swingAmount = 0;
+  }
+  for (const { pattern, label } of GROOVE_LANES) {
+    if (fixed[pattern] && forbiddenIn(label, constraints).length > 0) fixed[pattern] = [];
+  }
+  return fixed;
+}
+
+export function checkGrooveRules(groove: GrooveCandidate, constraints: BriefConstraint[]): RuleViolation[] {
+  const violations = checkTimingRules("timeBase", groove.id, groove, constraints);
+
+  for (const { pattern, label } of GROOVE_LANES) {
+    if (!groove[pattern]?.length) continue;
+    for (const c of forbiddenIn(label, constraints)) {
+      violations.push(violation("timeBase", c.rule, groove.id, `${groove.id} plays a ${label} pattern`));
+    }
+  }
+  for (const c of forbiddenIn(groove.description, constraints)) {
+    violations.push(violation("timeBase", c.rule, groove.id, `${groove.id} is a ${groove.description}`));
+  }
+  for (const c of constraints) {
+    if (c.kind === "swing" && c.required !== groove.swingAmount > 0) {
+      const feel = groove.swingAmount > 0 ? `swings ${groove.swingAmount}%` : "is straight";
+      violations.push(violation("timeBase", c.rule, groove.id, `${groove.id} ${feel}`));
+    }
+  }
+  return violations;
+}
+
+/**
+ * Whether a palette entry's name, id or characteristics mention an element
+ */
+export function paletteEntryMentions(entry: PaletteEntry, element: string): boolean {
+  return mentionsElement([entry.name, entry.id, ...entry.characteristics].join(" "), element);
+}
+
+export function checkPaletteEntryRules(entry: PaletteEntry, constraints: BriefConstraint[]): RuleViolation[] {
+  return forbiddenIn([entry.name, entry.id, ...entry.characteristics].join(" "), constraints).map((c) =>
+    violation("palette", c.rule, entry.id, `Palette entry ${entry.name} is ${c.element}`)
+  );
+}
+
+export function checkMotifRules(motif: MotifSeed, constraints: BriefConstraint[]): RuleViolation[] {
+  const text = [motif.name, motif.type, motif.description ?? ""].join(" ");
+  return forbiddenIn(text, constraints).map((c) =>
+    violation("motifSeed", c.rule, motif.id, `Motif ${motif.name} is ${c.element}`)
+  );
+}
+
+export function checkVoiceRules(voice: Voice, constraints: BriefConstraint[]): RuleViolation[] {
+  return forbiddenIn(`${voice.role} ${voice.trackName}`, constraints).map((c) =>
+    violation("composeOrchestrate", c.rule, voice.clipName, `${voice.clipName} plays a ${voice.role} voice`)
+  );
+}
+
+/**
+ * Drop the items that break a rule. When every item does, all are kept so the stage
+ * still has something to work with and the compliance check reports them
+ */
+export function filterByRules<T>(items: T[], check: (item: T) => RuleViolation[]): T[] {
+  const allowed = items.filter((item) => check(item).length === 0);
+  return allowed.length > 0 ? allowed : items;
+}
+
+/**
+ * Check the chosen artifacts of a run against the brief's rules
+ * Every required element must appear somewhere in the palette, motifs, compositions or groove
+ */
+export function checkRuleCompliance(
+  rules: ProductionBrief["rules"],
+  artifacts: {
+    forbidden?: string[];
+    timeBase?: TimeBase;
+    palette?: PaletteEntry[];
+    motifs?: MotifSeed[];
+    sections?: ArrangementSection[];
+    compositions?: SectionComposition[];
+  }
+): RuleCompliance {
+  const constraints = parseBriefRules(rules, artifacts.forbidden);
+  const voices = (artifacts.compositions ?? []).flatMap((c) => c.voices);
+  const violations: RuleViolation[] = [];
+
+  if (artifacts.timeBase) {
+    const { selectedGroove, finalTempo, finalMeter } = artifacts.timeBase;
+    violations.push(...checkGrooveRules({ ...selectedGroove, tempo: finalTempo, meter: finalMeter }, constraints));
+  }
+  for (const section of artifacts.sections ?? []) {
+    violations.push(
+      ...checkTimingRules("macroStructure", section.name, { tempo: section.tempo, meter: section.meter }, constraints)
+    );
+    if (section.tempoRamp) {
+      violations.push(...checkTimingRules("macroStructure", section.name, { tempo: section.tempoRamp.to }, constraints));
+    }
+  }
+  violations.push(
+    ...(artifacts.palette ?? []).flatMap((entry) => checkPaletteEntryRules(entry, constraints)),
+    ...(artifacts.motifs ?? []).flatMap((motif) => checkMotifRules(motif, constraints)),
+    ...voices.flatMap((voice) => checkVoiceRules(voice, constraints))
+  );
+
+  const present = [
+    ...(artifacts.motifs ?? []).map((motif) => `${motif.name} ${motif.type}`),
+    ...voices.map((voice) => `${voice.role} ${voice.trackName}`),
+    ...GROOVE_LANES.filter(({ pattern }) => artifacts.timeBase?.selectedGroove[pattern]?.length).map((l) => l.label),
+  ];
+  for (const c of constraints) {
+    if (c.kind !== "requireElement") continue;
+    const found =
+      (artifacts.palette ?? []).some((entry) => paletteEntryMentions(entry, c.element)) ||
+      present.some((text) => mentionsElement(text, c.element));
+    if (!found) {
+      violations.push(violation("palette", c.rule, c.element, `No ${c.element} in the palette, motifs or compositions`));
+    }
+  }
+
+  const unenforced = unenforcedRules(rules);
+  const ruleCount = new Set(constraints.map((c) => c.rule)).size + unenforced.length;
+  const broken = new Set(violations.map((v) => v.rule)).size;
+  const summary =
+    (violations.length === 0
+      ? `All ${ruleCount} brief rules respected`
+      : `${broken} of ${ruleCount} brief rules broken: ${violations.map((v) => v.message).join("; ")}`) +
+    (unenforced.length > 0 ? ` (not checked: ${unenforced.join(", ")})` : "");
+
+  return { compliant: violations.length === 0, violations, unenforced, summary };
+}
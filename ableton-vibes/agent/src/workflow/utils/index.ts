@@ -1,3 +1,9 @@
 export * from "./musicTheory";
 export * from "./rhythmUtils";
 export * from "./structureTemplates";
+export * from "./random";
+export * from "./midiFile";
+export * from "./audioRender";
+export * from "./briefRules";
+export * from "./audioFile";
+export * from "./referenceAnalysis";
@@ -0,0 +1,272 @@
+/**
+ * Standard MIDI File reader
+ * Parses format 0/1 files into note lists in beats (quarter notes), so MIDI
+ * sketched in another DAW can feed motifs and section compositions
+ */
+
+import type { MotifNote } from "../types";
+
+export type MidiFileNote = MotifNote & { channel: number };
+
+export type MidiFileTrack = {
+  name: string;
+  /** Channel of the first note (0-15; 9 is General MIDI drums) */
+  channel: number;
+  notes: MidiFileNote[];
+};
+
+export type MidiFile = {
+  format: number;
+  /** Ticks per quarter note */
+  ppq: number;
+  /** First tempo in BPM (120 when the file sets none) */
+  tempo: number;
+  /** First time signature, e.g. "6/8" ("4/4" when the file sets none) */
+  timeSignature: string;
+  tempoChanges: Array<{ time: number; bpm: number }>;
+  timeSignatures: Array<{ time: number; numerator: number; denominator: number }>;
+  /** Length in beats up to the last event */
+  lengthBeats: number;
+  /** Tracks holding notes; format 0 files are split per channel */
+  tracks: MidiFileTrack[];
+};
+
+const DRUM_CHANNEL = 9;
+
+/**
+ * Byte reader over a Uint8Array with MIDI variable-length quantities
+ */
+function createReader(bytes: Uint8Array, start = 0, end = bytes.length) {
+  let offset = start;
+  const need = (count: number) => {
+    if (offset + count > end) throw new Error("Unexpected end of MIDI data.");
+  };
+
+  return {
+    get offset() {
+      return offset;
+    },
+    done: () => offset >= end,
+    uint8: () => {
+      need(1);
+      return bytes[offset++]!;
+    },
+    uint16: () => {
+      need(2);
+      const value = (bytes[offset]! << 8) | bytes[offset + 1]!;
+      offset += 2;
+      return value;
+    },
+    uint32: () => {
+      need(4);
+      const high = bytes[offset]! * 0x1000000;
+      const value = high + ((bytes[offset + 1]! << 16) | (bytes[offset + 2]! << 8) | bytes[offset + 3]!);
+      offset += 4;
+      return value;
+    },
+    ascii: (length: number) => {
+      need(length);
+      const text = String.fromCharCode(...bytes.subarray(offset, offset + length));
+      offset += length;
+      return text;
+    },
+    bytes: (length: number) => {
+      need(length);
+      const data = bytes.subarray(offset, offset + length);
+      offset += length;
+      return data;
+    },
+    varInt: () => {
+      let value = 0;
+      for (let i = 0; i < 4; i++) {
+        need(1);
+        const byte = bytes[offset++]!;
+        value = (value << 7) | (byte & 0x7f);
+        if ((byte & 0x80) === 0) return value;
+      }
+      throw new Error("Invalid variable-length quantity in MIDI data.");
+    },
+  };
+}
+
+type RawTrack = {
+  name?: string;
+  notes: MidiFileNote[];
+  endTick: number;
+};
+
+/**
+ * Read one MTrk chunk, pairing note-ons with note-offs per channel and pitch
+ */
+function parseTrackChunk(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  ppq: number,
+  tempoChanges: MidiFile["tempoChanges"],
+  timeSignatures: MidiFile["timeSignatures"]
+): RawTrack {
+  const reader = createReader(bytes, start, end);
+  const track: RawTrack = { notes: [], endTick: 0 };
+  const open = new Map<number, Array<{ tick: number; velocity: number }>>();
+  let tick = 0;
+  let runningStatus = 0;
+
+  const closeNote = (channel: number, pitch: number, offTick: number) => {
+    const pending = open.get(channel * 128 + pitch);
+    const onset = pending?.shift();
+    if (!onset) return;
+    track.notes.push({
+      pitch,
+      time: onset.tick / ppq,
+      duration: Math.max(offTick - onset.tick, 1) / ppq,
+      velocity: onset.velocity,
+      channel,
+    });
+  };
+
+  while (!reader.done()) {
+    tick += reader.varInt();
+    let status = reader.uint8();
+
+    if (status === 0xff) {
+      const type = reader.uint8();
+      const data = reader.bytes(reader.varInt());
+      if (type === 0x03 && track.name === undefined) {
+        track.name = String.fromCharCode(...data).trim();
+      } else if (type === 0x51 && data.length >= 3) {
+        const microsPerBeat = (data[0]! << 16) | (data[1]! << 8) | data[2]!;
+        tempoChanges.push({ time: tick / ppq, bpm: Math.round((60_000_000 / microsPerBeat) * 100) / 100 });
+      } else if (type === 0x58 && data.length >= 2) {
+        timeSignatures.push({ time: tick / ppq, numerator: data[0]!, denominator: 2 ** data[1]! });
+      } else if (type === 0x2f) {
+        break;
+      }
+      continue;
+    }
+
+    if (status === 0xf0 || status === 0xf7) {
+      reader.bytes(reader.varInt());
+      continue;
+    }
+
+    // Running status: a data byte reuses the previous channel status
+    let firstData: number;
+    if (status < 0x80) {
+      if (!runningStatus) throw new Error("MIDI data byte found without a preceding status byte.");
+      firstData = status;
+      status = runningStatus;
+    } else {
+      runningStatus = status;
+      firstData = reader.uint8();
+    }
+
+    const kind = status & 0xf0;
+    const channel = status & 0x0f;
+    // Program change and channel pressure carry a single data byte
+    const secondData = kind === 0xc0 || kind === 0xd0 ? 0 : reader.uint8();
+
+    if (kind === 0x90 && secondData > 0) {
+      const key = channel * 128 + firstData;
+      open.set(key, [...(open.get(key) ?? []), { tick, velocity: secondData }]);
+    } else if (kind === 0x80 || kind === 0x90) {
+      closeNote(channel, firstData, tick);
+    }
+  }
+
+  // Notes still held at the end of the track stop with it
+  for (const [key, pending] of open) {
+    for (let i = pending.length; i > 0; i--) closeNote(Math.floor(key / 128), key % 128, tick);
+  }
+
+  track.endTick = tick;
+  track.notes.sort((a, b) => a.time - b.time || a.pitch - b.pitch);
+  return track;
+}
+
+/**
+ * Parse a Standard MIDI File
+ * @throws when the data is not an SMF, or uses SMPTE time division
+ */
+export function parseMidiFile(data: Uint8Array | ArrayBuffer): MidiFile {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const reader = createReader(bytes);
+
+  if (bytes.length < 14 || reader.ascii(4) !== "MThd") {
+    throw new Error("Not a Standard MIDI File (missing MThd header).");
+  }
+  const headerLength = reader.uint32();
+  const format = reader.uint16();
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  reader.bytes(headerLength - 6);
+
+  if (division & 0x8000) {
+    throw new Error("MIDI files with SMPTE time division are not supported; re-export with ticks per quarter note.");
+  }
+  if (format > 2) {
+    throw new Error(`Unsupported MIDI file format ${format}.`);
+  }
+  const ppq = division || 480;
+
+  const tempoChanges: MidiFile["tempoChanges"] = [];
+  const timeSignatures: MidiFile["timeSignatures"] = [];
+  const rawTracks: RawTrack[] = [];
+
+  while (rawTracks.length < trackCount && reader.offset + 8 <= bytes.length) {
+    const chunkType = reader.ascii(4);
+    const length = reader.uint32();
+    const start = reader.offset;
+    const end = Math.min(start + length, bytes.length);
+    if (chunkType === "MTrk") {
+      rawTracks.push(parseTrackChunk(bytes, start, end, ppq, tempoChanges, timeSignatures));
+    }
+    reader.bytes(end - start);
+  }
+
+  tempoChanges.sort((a, b) => a.time - b.time);
+  timeSignatures.sort((a, b) => a.time - b.time);
+
+  const tracks: MidiFileTrack[] = [];
+  rawTracks.forEach((raw, index) => {
+    if (raw.notes.length === 0) return;
+    const channels = [...new Set(raw.notes.map((n) => n.channel))];
+    // A format 0 file keeps every part in one track, so separate the parts by channel
+    const split = format === 0 && channels.length > 1;
+    for (const channel of split ? channels : [channels[0]!]) {
+      const baseName = raw.name || `Track ${index + 1}`;
+      tracks.push({
+        name: split ? `${baseName} ${channel === DRUM_CHANNEL ? "Drums" : `Ch ${channel + 1}`}` : baseName,
+        channel,
+        notes: split ? raw.notes.filter((n) => n.channel === channel) : raw.notes,
+      });
+    }
+  });
+
+  const firstSignature = timeSignatures[0];
+  return {
+    format,
+    ppq,
+    tempo: tempoChanges[0]?.bpm ?? 120,
+    timeSignature: firstSignature ? `${firstSignature.numerator}/${firstSignature.denominator}` : "4/4",
+    tempoChanges,
+    timeSignatures,
+    lengthBeats: Math.max(0, ...rawTracks.map((t) => t.endTick / ppq)),
+    tracks,
+  };
+}
+
+/**
+ * Quarter-note beats per bar of the file's first time signature
+ */
+export function midiBeatsPerBar(file: MidiFile): number {
+  const signature = file.timeSignatures[0];
+  return signature ? signature.numerator * (4 / signature.denominator) : 4;
+}
+
+/**
+ * Whether a parsed track is a percussion part (General MIDI channel 10)
+ */
+export function isDrumTrack(track: MidiFileTrack): boolean {
+  return track.channel === DRUM_CHANNEL;
+}
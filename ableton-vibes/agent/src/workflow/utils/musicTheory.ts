@@ -40,6 +40,54 @@ export const CHORDS: Record<string, number[]> = {
   sus2: [0, 2, 7],
   sus4: [0, 5, 7],
   power: [0, 7],
+  dominant7sus4: [0, 5, 7, 10],
+  majorAdd11: [0, 4, 7, 17],
+  major9: [0, 4, 7, 11, 14],
+  minor9: [0, 3, 7, 10, 14],
+  dominant9: [0, 4, 7, 10, 14],
+  minor11: [0, 3, 7, 10, 14, 17],
+  dominant11: [0, 4, 7, 10, 14, 17],
+  major13: [0, 4, 7, 11, 14, 21],
+  minor13: [0, 3, 7, 10, 14, 21],
+  dominant13: [0, 4, 7, 10, 14, 21],
+};
+
+// Suffix each chord type is written with in chord symbols ("Cmaj", "Dm7", "G13")
+export const CHORD_SUFFIXES: Record<string, string> = {
+  major: "maj",
+  minor: "min",
+  diminished: "dim",
+  augmented: "aug",
+  major7: "maj7",
+  minor7: "m7",
+  dominant7: "7",
+  diminished7: "dim7",
+  halfDiminished7: "m7b5",
+  majorAdd9: "add9",
+  minorAdd9: "madd9",
+  sus2: "sus2",
+  sus4: "sus4",
+  power: "5",
+  dominant7sus4: "7sus4",
+  majorAdd11: "add11",
+  major9: "maj9",
+  minor9: "m9",
+  dominant9: "9",
+  minor11: "m11",
+  dominant11: "11",
+  major13: "maj13",
+  minor13: "m13",
+  dominant13: "13",
+};
+
+// Chord types by lower-cased symbol suffix, including common alternative spellings
+const CHORD_SYMBOL_TYPES: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(CHORD_SUFFIXES).map(([type, suffix]) => [suffix, type])),
+  "": "major",
+  m: "minor",
+  min7: "minor7",
+  ø: "halfDiminished7",
+  ø7: "halfDiminished7",
 };
 
 // Interval names
@@ -217,49 +265,97 @@ export function quantizeToScale(
 ): number {
   const scalePitchClasses = getScalePitchClasses(root, scale);
   const pitchClass = getPitchClass(pitch);
-  const octave = Math.floor(pitch / 12);
 
-  // Find nearest scale pitch class
+  // Find nearest scale pitch class, moving across the octave boundary when that is closer
+  let nearestOffset = 0;
   let minDistance = Infinity;
-  let nearestPitchClass = pitchClass;
 
   for (const scalePc of scalePitchClasses) {
-    const distance = Math.min(
-      Math.abs(pitchClass - scalePc),
-      Math.abs(pitchClass - scalePc + 12),
-      Math.abs(pitchClass - scalePc - 12)
-    );
-    if (distance < minDistance) {
-      minDistance = distance;
-      nearestPitchClass = scalePc;
+    for (const offset of [scalePc - pitchClass, scalePc - pitchClass + 12, scalePc - pitchClass - 12]) {
+      if (Math.abs(offset) < minDistance) {
+        minDistance = Math.abs(offset);
+        nearestOffset = offset;
+      }
     }
   }
 
-  return octave * 12 + nearestPitchClass;
+  return pitch + nearestOffset;
+}
+
+/**
+ * Pitch of a 1-based scale degree; degrees past the end of the scale climb into
+ * the next octave (8 is the octave in a seven-note scale) and degrees below 1 descend
+ */
+export function scaleDegreeToPitch(
+  degree: number,
+  root: string,
+  scale: keyof typeof SCALES,
+  octave = 4
+): number {
+  const intervals = SCALES[scale];
+  if (!intervals) {
+    throw new Error(`Unknown scale: ${scale}`);
+  }
+  const index = degree - 1;
+  const octaves = Math.floor(index / intervals.length);
+  return noteNameToPitch(`${root}${octave}`) + 12 * octaves + intervals[index - octaves * intervals.length]!;
 }
 
 /**
- * Parse a chord symbol (e.g., "Cmaj7", "F#m", "Bb7")
+ * Move a pitch by a number of scale steps; an out-of-scale pitch lands on the nearest
+ * scale tone in that direction first
  */
-export function parseChordSymbol(symbol: string): { root: string; type: string } | null {
-  const match = symbol.match(/^([A-G][#b]?)(m|maj|min|dim|aug|7|maj7|m7|dim7)?$/i);
+export function stepInScale(pitch: number, steps: number, scalePitchClasses: number[]): number {
+  const direction = Math.sign(steps);
+  let result = pitch;
+  for (let remaining = Math.abs(steps); remaining > 0; remaining--) {
+    do {
+      result += direction;
+    } while (!scalePitchClasses.includes(getPitchClass(result)));
+  }
+  return result;
+}
+
+/**
+ * Parse a chord symbol (e.g., "Cmaj7", "F#m", "Bb7", "G13", "C/E")
+ * A slash names the bass note of an inversion or slash chord
+ */
+export function parseChordSymbol(symbol: string): { root: string; type: string; bass?: string } | null {
+  const match = symbol.match(/^([A-G][#b]?)([^/]*)(?:\/([A-G][#b]?))?$/i);
   if (!match) return null;
 
-  const [, root, quality] = match;
-  let type = "major";
+  const [, root, quality = "", bass] = match;
+  const type = CHORD_SYMBOL_TYPES[quality.toLowerCase()];
+  if (!type) return null;
 
-  if (quality) {
-    const q = quality.toLowerCase();
-    if (q === "m" || q === "min") type = "minor";
-    else if (q === "dim") type = "diminished";
-    else if (q === "aug") type = "augmented";
-    else if (q === "7") type = "dominant7";
-    else if (q === "maj7") type = "major7";
-    else if (q === "m7") type = "minor7";
-    else if (q === "dim7") type = "diminished7";
-  }
+  return bass ? { root: root!, type, bass } : { root: root!, type };
+}
 
-  return { root: root!, type };
+/**
+ * Chord symbol for a root pitch class and chord type, with an optional bass pitch class
+ */
+export function formatChordSymbol(root: number, type: string, bass?: number): string {
+  const name = `${NOTE_NAMES[getPitchClass(root)]}${CHORD_SUFFIXES[type] ?? ""}`;
+  return bass === undefined || getPitchClass(bass) === getPitchClass(root)
+    ? name
+    : `${name}/${NOTE_NAMES[getPitchClass(bass)]}`;
+}
+
+/**
+ * Pitches of a chord symbol such as "Amin" or "F#maj" with the root in the given octave
+ * A slash chord's bass sounds below the root, and that pitch class is not repeated above it
+ * Returns an empty array for symbols that cannot be parsed
+ */
+export function chordSymbolToPitches(symbol: string, octave = 4): number[] {
+  const parsed = parseChordSymbol(symbol);
+  if (!parsed || !CHORDS[parsed.type]) return [];
+
+  const pitches = getChordPitches(parsed.root, parsed.type, octave);
+  if (!parsed.bass) return pitches;
+
+  const bassClass = getPitchClass(noteNameToPitch(parsed.bass));
+  const bass = pitches[0]! - 12 + getPitchClass(bassClass - pitches[0]!);
+  return [bass, ...pitches.filter((p) => getPitchClass(p) !== bassClass)];
 }
 
 /**
@@ -350,3 +446,120 @@ export function romanToChord(
 
   return { root: rootName!, type };
 }
+
+// Krumhansl-Kessler key profiles (C major / C minor), indexed by pitch class
+const MAJOR_KEY_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_KEY_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+function correlation(a: number[], b: number[]): number {
+  const meanA = a.reduce((sum, v) => sum + v, 0) / a.length;
+  const meanB = b.reduce((sum, v) => sum + v, 0) / b.length;
+  let numerator = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    numerator += (a[i]! - meanA) * (b[i]! - meanB);
+    varianceA += (a[i]! - meanA) ** 2;
+    varianceB += (b[i]! - meanB) ** 2;
+  }
+  const denominator = Math.sqrt(varianceA * varianceB);
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+/**
+ * Estimate the key of a note collection (Krumhansl-Schmuckler, duration weighted)
+ * Confidence is the winning profile correlation (-1..1)
+ */
+export function detectKey(
+  notes: Array<{ pitch: number; duration: number }>
+): { key: string; scale: "major" | "minor"; confidence: number } {
+  const histogram = new Array<number>(12).fill(0);
+  for (const note of notes) {
+    histogram[getPitchClass(note.pitch)]! += Math.max(note.duration, 0.01);
+  }
+
+  let best = { key: "C", scale: "minor" as "major" | "minor", confidence: 0 };
+  if (!notes.length) return best;
+
+  for (let root = 0; root < 12; root++) {
+    const rotated = histogram.map((_, i) => histogram[(i + root) % 12]!);
+    for (const [scale, profile] of [
+      ["major", MAJOR_KEY_PROFILE],
+      ["minor", MINOR_KEY_PROFILE],
+    ] as const) {
+      const r = correlation(rotated, profile);
+      if (r > best.confidence) {
+        best = { key: NOTE_NAMES[root]!, scale, confidence: r };
+      }
+    }
+  }
+
+  return { ...best, confidence: Math.round(best.confidence * 100) / 100 };
+}
+
+const TRIAD_SUFFIXES: Record<string, string> = {
+  major: "maj",
+  minor: "min",
+  diminished: "dim",
+  augmented: "aug",
+};
+
+/**
+ * Whether a scale sounds minor: a minor third and no major third above the tonic
+ * (dorian, phrygian, the pentatonic minor). Unknown scales go by their name
+ */
+export function isMinorScale(scale: string): boolean {
+  const intervals = SCALES[scale];
+  return intervals ? intervals.includes(3) && !intervals.includes(4) : scale.toLowerCase().includes("minor");
+}
+
+/**
+ * Pitch class of the major key with the same notes as the scale: C for D dorian or
+ * A minor. Scales that are no mode of a major scale count as their major or minor parent
+ */
+export function relativeMajorTonic(key: string, scale: string): number {
+  const tonic = getPitchClass(noteNameToPitch(key));
+  const intervals = SCALES[scale];
+  if (intervals?.length === 7) {
+    const pitchClasses = intervals.map((i) => (tonic + i) % 12);
+    const major = SCALES.major!;
+    const parent = pitchClasses.find((root) => major.every((i) => pitchClasses.includes((root + i) % 12)));
+    if (parent !== undefined) return parent;
+  }
+  return isMinorScale(scale) ? (tonic + 3) % 12 : tonic;
+}
+
+/**
+ * Diatonic triads of a key as chord symbols ("Cmaj", "Dmin", "Bdim"), one per scale
+ * degree. Seven-note scales stack their own triads; other scales count as their major
+ * or minor parent
+ */
+export function getDiatonicTriads(key: string, scale: string): string[] {
+  const parent = SCALES[scale]?.length === 7 ? scale : isMinorScale(scale) ? "minor" : "major";
+  return Array.from({ length: 7 }, (_, i) => {
+    const chord = getDiatonicChord(key, parent, i + 1);
+    return `${chord.root}${TRIAD_SUFFIXES[chord.type]}`;
+  });
+}
+
+/**
+ * Position of a key on the circle of fifths: C major and A minor are 0, G major 1, F major -1.
+ * Modes sit with their parent major, so D dorian is 0
+ */
+export function circleOfFifthsPosition(key: string, scale: string): number {
+  const position = (relativeMajorTonic(key, scale) * 7) % 12;
+  return position > 6 ? position - 12 : position;
+}
+
+/**
+ * Keys a modulation can reach without preparation: the same tonic, the relative key,
+ * or a key one step around the circle of fifths
+ */
+export function areKeysCloselyRelated(
+  a: { key: string; scale: string },
+  b: { key: string; scale: string }
+): boolean {
+  if (getPitchClass(noteNameToPitch(a.key)) === getPitchClass(noteNameToPitch(b.key))) return true;
+  const distance = Math.abs(circleOfFifthsPosition(a.key, a.scale) - circleOfFifthsPosition(b.key, b.scale)) % 12;
+  return Math.min(distance, 12 - distance) <= 1;
+}
@@ -0,0 +1,78 @@
+/**
+ * Seedable randomness
+ * Every generator draws from an Rng so a candidate (or a whole workflow run)
+ * can be regenerated exactly from its seed
+ */
+
+/**
+ * A random source returning floats in [0, 1), like Math.random
+ */
+export type Rng = () => number;
+
+/**
+ * Create a deterministic random source (mulberry32) from a 32-bit seed
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a fresh seed when the caller did not supply one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Derive a child seed from a parent seed and one or more salts (FNV-1a)
+ * @example deriveSeed(runSeed, "workflowGenerateGrooves", 0)
+ */
+export function deriveSeed(seed: number, ...salt: Array<string | number>): number {
+  const input = [seed >>> 0, ...salt].join(":");
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Random integer in [min, max]
+ */
+export function randomInt(rng: Rng, min: number, max: number): number {
+  return min + Math.floor(rng() * (max - min + 1));
+}
+
+/**
+ * Random element of a non-empty array
+ */
+export function pickRandom<T>(rng: Rng, items: readonly T[]): T {
+  return items[Math.floor(rng() * items.length)]!;
+}
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+export function shuffle<T>(rng: Rng, items: readonly T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result;
+}
+
+/**
+ * Short, stable id suffix for a seed (used in candidate ids)
+ */
+export function seedTag(seed: number): string {
+  return (seed >>> 0).toString(36).padStart(7, "0");
+}
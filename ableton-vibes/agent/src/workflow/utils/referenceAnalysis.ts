@@ -0,0 +1,464 @@
+/**
+ * Reference track analysis
+ * Estimates tempo, key, loudness, spectral balance and section layout from decoded
+ * audio, and summarizes several references into targets for the spec and style prior
+ */
+
+import { readFile } from "fs/promises";
+import { FREQUENCY_BANDS } from "../scoring/mix";
+import type { ReferenceAnalysis, ReferenceSection } from "../types";
+import { decodeAudioFile, resolveLocalPath, type DecodedAudio } from "./audioFile";
+import { detectKey } from "./musicTheory";
+
+const FFT_SIZE = 4096;
+const MAX_SPECTRUM_FRAMES = 256;
+const ONSET_HOP = 256;
+const TEMPO_RANGE = { min: 60, max: 200 };
+/** Tempo prior: log-normal around 120 BPM, one octave wide, to settle half / double tempo */
+const TEMPO_PRIOR = { center: 120, octaves: 1 };
+/** Bar energy maps this many dB below the loudest bar onto 0-100 */
+const ENERGY_RANGE_DB = 30;
+const PHRASE_BARS = 4;
+const SECTION_ENERGY_JUMP = 15;
+const MIN_SECTION_BARS = 8;
+const ABSOLUTE_GATE_LUFS = -70;
+/** BS.1770 pre-filter: a high shelf for the head, then the RLB high-pass */
+const K_WEIGHTING = {
+  shelf: { f0: 1681.974450955533, gainDb: 3.999843853973347, q: 0.7071752369554196 },
+  highPass: { f0: 38.13547087602444, q: 0.5003270373238773 },
+};
+
+const AUDIO_EXTENSIONS = /\.(wav|wave|aif|aiff|aifc)$/i;
+
+const round = (value: number, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits;
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const mean = (values: ArrayLike<number>) => {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i]!;
+  return values.length ? sum / values.length : 0;
+};
+const toLufs = (power: number) => -0.691 + 10 * Math.log10(Math.max(power, 1e-12));
+
+/**
+ * Whether a brief reference names a WAV or AIFF file rather than a track or artist
+ */
+export const isAudioReference = (reference: string) => AUDIO_EXTENSIONS.test(reference.trim());
+
+function mixdown(audio: DecodedAudio): Float32Array {
+  if (audio.channels.length === 1) return audio.channels[0]!;
+  const mono = new Float32Array(audio.channels[0]?.length ?? 0);
+  for (const channel of audio.channels) {
+    for (let i = 0; i < mono.length; i++) mono[i]! += channel[i]! / audio.channels.length;
+  }
+  return mono;
+}
+
+// ============================================================================
+// Loudness (ITU-R BS.1770 / EBU R128)
+// ============================================================================
+
+type Biquad = { b0: number; b1: number; b2: number; a1: number; a2: number };
+
+function highShelf(f0: number, gainDb: number, q: number, sampleRate: number): Biquad {
+  const a = 10 ** (gainDb / 40);
+  const w0 = (2 * Math.PI * f0) / sampleRate;
+  const cos = Math.cos(w0);
+  const s = 2 * Math.sqrt(a) * (Math.sin(w0) / (2 * q));
+  const a0 = a + 1 - (a - 1) * cos + s;
+  return {
+    b0: (a * (a + 1 + (a - 1) * cos + s)) / a0,
+    b1: (-2 * a * (a - 1 + (a + 1) * cos)) / a0,
+    b2: (a * (a + 1 + (a - 1) * cos - s)) / a0,
+    a1: (2 * (a - 1 - (a + 1) * cos)) / a0,
+    a2: (a + 1 - (a - 1) * cos - s) / a0,
+  };
+}
+
+function highPass(f0: number, q: number, sampleRate: number): Biquad {
+  const w0 = (2 * Math.PI * f0) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const a0 = 1 + alpha;
+  return {
+    b0: (1 + cos) / 2 / a0,
+    b1: -(1 + cos) / a0,
+    b2: (1 + cos) / 2 / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha) / a0,
+  };
+}
+
+function applyBiquad(input: Float32Array, { b0, b1, b2, a1, a2 }: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let [x1, x2, y1, y2] = [0, 0, 0, 0];
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i]!;
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    [x2, x1, y2, y1] = [x1, x, y1, y];
+    output[i] = y;
+  }
+  return output;
+}
+
+/**
+ * Mean power of every `size`-long run of 100 ms segments
+ */
+function windowPowers(segments: Float64Array, size: number): number[] {
+  const powers: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < segments.length; i++) {
+    sum += segments[i]!;
+    if (i >= size) sum -= segments[i - size]!;
+    if (i >= size - 1) powers.push(sum / size);
+  }
+  return powers;
+}
+
+/**
+ * Windows that pass the absolute gate and a gate `relativeGate` LU below their own mean
+ */
+function gate(powers: number[], relativeGate: number): number[] {
+  const audible = powers.filter((p) => toLufs(p) > ABSOLUTE_GATE_LUFS);
+  const threshold = toLufs(mean(audible)) + relativeGate;
+  return audible.filter((p) => toLufs(p) > threshold);
+}
+
+/**
+ * K-weighted loudness: gated integrated (400 ms blocks, 75% overlap), loudest
+ * short-term (3 s) window, loudness range (10th to 95th percentile of gated
+ * short-term values) and sample peak
+ */
+function measureLoudness(audio: DecodedAudio): ReferenceAnalysis["loudness"] {
+  const { sampleRate } = audio;
+  const { shelf, highPass: rlb } = K_WEIGHTING;
+  const filters = [highShelf(shelf.f0, shelf.gainDb, shelf.q, sampleRate), highPass(rlb.f0, rlb.q, sampleRate)];
+  const segmentLength = Math.round(sampleRate / 10);
+  const segments = new Float64Array(Math.floor((audio.channels[0]?.length ?? 0) / segmentLength));
+  let peak = 0;
+
+  for (const channel of audio.channels) {
+    for (const sample of channel) peak = Math.max(peak, Math.abs(sample));
+    const weighted = filters.reduce(applyBiquad, channel);
+    for (let s = 0; s < segments.length; s++) {
+      let sum = 0;
+      for (let i = s * segmentLength; i < (s + 1) * segmentLength; i++) sum += weighted[i]! ** 2;
+      segments[s]! += sum / segmentLength;
+    }
+  }
+
+  const blocks = gate(windowPowers(segments, 4), -10);
+  const integrated = blocks.length ? toLufs(mean(blocks)) : ABSOLUTE_GATE_LUFS;
+  const shortTerm = windowPowers(segments, 30);
+  const ranged = gate(shortTerm, -20)
+    .map(toLufs)
+    .sort((a, b) => a - b);
+  const percentile = (p: number) => ranged[Math.round((p / 100) * (ranged.length - 1))]!;
+
+  return {
+    integrated: round(integrated, 1),
+    shortTermMax: round(shortTerm.length ? Math.max(...shortTerm.map(toLufs)) : integrated, 1),
+    range: round(ranged.length > 1 ? percentile(95) - percentile(10) : 0, 1),
+    peak: round(Math.max(20 * Math.log10(peak), -120), 1),
+  };
+}
+
+// ============================================================================
+// Spectrum and key
+// ============================================================================
+
+/**
+ * In-place radix-2 FFT
+ */
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j]!, re[i]!];
+      [im[i], im[j]] = [im[j]!, im[i]!];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const [wr, wi] = [Math.cos(angle * k), Math.sin(angle * k)];
+        const [a, b] = [start + k, start + k + size / 2];
+        const tr = re[b]! * wr - im[b]! * wi;
+        const ti = re[b]! * wi + im[b]! * wr;
+        re[b] = re[a]! - tr;
+        im[b] = im[a]! - ti;
+        re[a]! += tr;
+        im[a]! += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Power spectrum averaged over up to MAX_SPECTRUM_FRAMES Hann-windowed frames
+ * spread evenly through the track
+ */
+function averageSpectrum(mono: Float32Array): Float64Array {
+  const spectrum = new Float64Array(FFT_SIZE / 2);
+  const window = Float64Array.from({ length: FFT_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FFT_SIZE));
+  const span = Math.max(mono.length - FFT_SIZE, 0);
+  const frames = Math.min(MAX_SPECTRUM_FRAMES, Math.floor(span / (FFT_SIZE / 2)) + 1);
+
+  for (let frame = 0; frame < frames; frame++) {
+    const offset = frames > 1 ? Math.round((frame * span) / (frames - 1)) : 0;
+    const re = new Float64Array(FFT_SIZE);
+    const im = new Float64Array(FFT_SIZE);
+    for (let i = 0; i < FFT_SIZE && offset + i < mono.length; i++) re[i] = mono[offset + i]! * window[i]!;
+    fft(re, im);
+    for (let bin = 0; bin < spectrum.length; bin++) spectrum[bin]! += (re[bin]! ** 2 + im[bin]! ** 2) / frames;
+  }
+  return spectrum;
+}
+
+/**
+ * Share of audible (20 Hz - 20 kHz) spectral energy in each mix band, in percent.
+ * The transient band overlaps highMid and presence, as it does in mix scoring
+ */
+function spectralBalance(spectrum: Float64Array, sampleRate: number): Record<string, number> {
+  const binHz = sampleRate / FFT_SIZE;
+  const energyBetween = (low: number, high: number) => {
+    let sum = 0;
+    for (let bin = Math.ceil(low / binHz); bin < Math.min(high / binHz, spectrum.length); bin++) sum += spectrum[bin]!;
+    return sum;
+  };
+  const total = energyBetween(20, 20000);
+
+  return Object.fromEntries(
+    Object.entries(FREQUENCY_BANDS).map(([band, { low, high }]) => [
+      band,
+      total > 0 ? round((energyBetween(low, high) / total) * 100, 1) : 0,
+    ])
+  );
+}
+
+/**
+ * Key from a chroma profile of the spectrum between A1 and about D#8
+ */
+function estimateKey(spectrum: Float64Array, sampleRate: number): ReturnType<typeof detectKey> {
+  const binHz = sampleRate / FFT_SIZE;
+  const chroma = new Array<number>(12).fill(0);
+  for (let bin = Math.ceil(55 / binHz); bin < Math.min(5000 / binHz, spectrum.length); bin++) {
+    const pitch = Math.round(69 + 12 * Math.log2((bin * binHz) / 440));
+    chroma[((pitch % 12) + 12) % 12]! += Math.sqrt(spectrum[bin]!);
+  }
+  const total = chroma.reduce((sum, value) => sum + value, 0) || 1;
+  return detectKey(chroma.map((value, pitchClass) => ({ pitch: 60 + pitchClass, duration: (value / total) * 100 })));
+}
+
+// ============================================================================
+// Tempo, energy and sections
+// ============================================================================
+
+/**
+ * Positive change in log energy per hop, with its mean removed
+ */
+function onsetEnvelope(mono: Float32Array): number[] {
+  const energies = Array.from({ length: Math.floor(mono.length / ONSET_HOP) }, (_, frame) => {
+    let sum = 0;
+    for (let i = frame * ONSET_HOP; i < (frame + 1) * ONSET_HOP; i++) sum += mono[i]! ** 2;
+    return Math.log(sum + 1e-10);
+  });
+  const flux = energies.map((energy, i) => (i ? Math.max(0, energy - energies[i - 1]!) : 0));
+  const average = mean(flux);
+  return flux.map((value) => value - average);
+}
+
+/**
+ * Tempo from the onset envelope's autocorrelation: each candidate BPM scores the
+ * correlation at one to four beat periods, weighted by a prior around 120 BPM.
+ * Confidence is how close the winner comes to perfectly periodic onsets
+ */
+function estimateTempo(mono: Float32Array, sampleRate: number): { tempo: number; confidence: number } {
+  const envelope = onsetEnvelope(mono);
+  const frameRate = sampleRate / ONSET_HOP;
+  const maxLag = Math.min(Math.ceil((4 * 60 * frameRate) / TEMPO_RANGE.min) + 1, envelope.length - 1);
+  const correlation = Array.from({ length: Math.max(maxLag + 1, 0) }, (_, lag) => {
+    let sum = 0;
+    for (let i = 0; i + lag < envelope.length; i++) sum += envelope[i]! * envelope[i + lag]!;
+    return sum / (envelope.length - lag);
+  });
+  const at = (lag: number) => {
+    const i = Math.floor(lag);
+    if (i + 1 >= correlation.length) return 0;
+    return correlation[i]! + (correlation[i + 1]! - correlation[i]!) * (lag - i);
+  };
+
+  // A perfectly periodic envelope correlates at every multiple as strongly as at lag 0
+  const harmonics = [1, 2, 3, 4];
+  const ceiling = (correlation[0] ?? 0) * harmonics.reduce((sum, m) => sum + 1 / m, 0);
+  let best = { tempo: TEMPO_PRIOR.center, score: 0, periodicity: 0 };
+  for (let tenths = TEMPO_RANGE.min * 10; tenths <= TEMPO_RANGE.max * 10; tenths++) {
+    const tempo = tenths / 10;
+    const period = (60 * frameRate) / tempo;
+    const prior = Math.exp(-0.5 * (Math.log2(tempo / TEMPO_PRIOR.center) / TEMPO_PRIOR.octaves) ** 2);
+    const periodicity = harmonics.reduce((sum, m) => sum + at(m * period) / m, 0);
+    if (periodicity * prior > best.score) best = { tempo, score: periodicity * prior, periodicity };
+  }
+
+  const confidence = ceiling > 0 ? clamp(best.periodicity / ceiling, 0, 1) : 0;
+  return { tempo: round(best.tempo, 1), confidence: round(confidence, 2) };
+}
+
+/**
+ * RMS per 4/4 bar at the given tempo, mapped onto 0-100 below the loudest bar
+ */
+function barEnergies(mono: Float32Array, sampleRate: number, tempo: number): number[] {
+  const barLength = Math.round((sampleRate * 4 * 60) / tempo);
+  const bars = Math.max(1, Math.floor(mono.length / barLength));
+  const levels = Array.from({ length: bars }, (_, bar) => {
+    const end = Math.min((bar + 1) * barLength, mono.length);
+    let sum = 0;
+    for (let i = bar * barLength; i < end; i++) sum += mono[i]! ** 2;
+    return 10 * Math.log10(Math.max(sum / Math.max(end - bar * barLength, 1), 1e-12));
+  });
+  const loudest = Math.max(...levels);
+  return levels.map((level) => round(clamp(100 + ((level - loudest) * 100) / ENERGY_RANGE_DB, 0, 100)));
+}
+
+/**
+ * Split the energy curve at 4-bar phrases whose energy jumps from the previous
+ * phrase, then fold sections shorter than MIN_SECTION_BARS into a neighbour
+ */
+export function findReferenceSections(energyCurve: number[]): ReferenceSection[] {
+  const sections: Array<{ startBar: number; bars: number[] }> = [];
+  let previous: number | undefined;
+
+  for (let startBar = 0; startBar < energyCurve.length; startBar += PHRASE_BARS) {
+    const phrase = energyCurve.slice(startBar, startBar + PHRASE_BARS);
+    const energy = mean(phrase);
+    const current = sections[sections.length - 1];
+    if (!current || previous === undefined || Math.abs(energy - previous) >= SECTION_ENERGY_JUMP) {
+      sections.push({ startBar, bars: phrase });
+    } else {
+      current.bars.push(...phrase);
+    }
+    previous = energy;
+  }
+
+  for (let i = 0; i < sections.length && sections.length > 1; ) {
+    if (sections[i]!.bars.length >= MIN_SECTION_BARS) {
+      i++;
+      continue;
+    }
+    const into = i > 0 ? i - 1 : i;
+    const [first, second] = [sections[into]!, sections[into + 1]!];
+    sections.splice(into, 2, { startBar: first.startBar, bars: [...first.bars, ...second.bars] });
+    i = into;
+  }
+
+  return sections.map(({ startBar, bars }) => ({ startBar, lengthBars: bars.length, energy: round(mean(bars)) }));
+}
+
+/**
+ * Analyze decoded reference audio. Bars and sections assume 4/4
+ */
+export function analyzeReferenceAudio(audio: DecodedAudio, source: string): ReferenceAnalysis {
+  const mono = mixdown(audio);
+  if (!mono.length) throw new Error(`${source} contains no audio.`);
+
+  const { tempo, confidence } = estimateTempo(mono, audio.sampleRate);
+  const spectrum = averageSpectrum(mono);
+  const key = estimateKey(spectrum, audio.sampleRate);
+  const energyCurve = barEnergies(mono, audio.sampleRate, tempo);
+
+  return {
+    source,
+    durationSeconds: round(audio.durationSeconds, 2),
+    tempo,
+    tempoConfidence: confidence,
+    key: key.key,
+    scale: key.scale,
+    keyConfidence: key.confidence,
+    loudness: measureLoudness(audio),
+    spectralBalance: spectralBalance(spectrum, audio.sampleRate),
+    energyCurve,
+    sections: findReferenceSections(energyCurve),
+    totalBars: energyCurve.length,
+  };
+}
+
+/**
+ * Read, decode and analyze a local WAV or AIFF reference
+ */
+export async function analyzeReferenceFile(filePath: string): Promise<ReferenceAnalysis> {
+  try {
+    return analyzeReferenceAudio(decodeAudioFile(await readFile(resolveLocalPath(filePath))), filePath);
+  } catch (error) {
+    throw new Error(`Could not analyze reference ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+export type ReferenceSummary = {
+  tempo: number;
+  tempoRange: { min: number; max: number };
+  key: string;
+  scale: string;
+  integratedLoudness: number;
+  loudnessRange: number;
+  spectralBalance: Record<string, number>;
+  /** Mean energy at the start, quarter points and end of the references */
+  energyArc: Array<{ position: number; energy: number }>;
+  sectionCount: { min: number; max: number };
+  /** Typical section lengths in bars, when the references have enough sections to tell */
+  sectionLengths?: { intro: number; drop: number; breakdown: number };
+};
+
+const energyAt = (curve: number[], position: number) =>
+  curve[Math.min(Math.round(position * (curve.length - 1)), curve.length - 1)] ?? 0;
+
+const toPhrase = (bars: number) => Math.max(PHRASE_BARS, Math.round(bars / PHRASE_BARS) * PHRASE_BARS);
+
+/**
+ * Combine reference analyses into the targets deriveProductionSpec and buildStylePrior
+ * draw on; the key comes from the reference with the clearest key
+ */
+export function summarizeReferences(analyses: ReferenceAnalysis[] = []): ReferenceSummary | undefined {
+  if (!analyses.length) return undefined;
+
+  const tempos = analyses.map((a) => a.tempo);
+  const keyed = analyses.reduce((best, a) => (a.keyConfidence > best.keyConfidence ? a : best));
+  const counts = analyses.map((a) => a.sections.length);
+  const arranged = analyses.filter((a) => a.sections.length >= 3);
+
+  return {
+    tempo: round(mean(tempos), 1),
+    tempoRange: { min: Math.min(...tempos), max: Math.max(...tempos) },
+    key: keyed.key,
+    scale: keyed.scale,
+    integratedLoudness: round(mean(analyses.map((a) => a.loudness.integrated)), 1),
+    loudnessRange: round(mean(analyses.map((a) => a.loudness.range)), 1),
+    spectralBalance: Object.fromEntries(
+      Object.keys(FREQUENCY_BANDS).map((band) => [band, round(mean(analyses.map((a) => a.spectralBalance[band] ?? 0)), 1)])
+    ),
+    energyArc: [0, 0.25, 0.5, 0.75, 1].map((position) => ({
+      position,
+      energy: round(mean(analyses.map((a) => energyAt(a.energyCurve, position)))),
+    })),
+    sectionCount: { min: Math.min(...counts), max: Math.max(...counts) },
+    sectionLengths: arranged.length
+      ? {
+          intro: toPhrase(mean(arranged.map((a) => a.sections[0]!.lengthBars))),
+          drop: toPhrase(
+            mean(arranged.map((a) => a.sections.reduce((top, s) => (s.energy > top.energy ? s : top)).lengthBars))
+          ),
+          breakdown: toPhrase(
+            mean(
+              arranged.map((a) => a.sections.slice(1).reduce((low, s) => (s.energy < low.energy ? s : low)).lengthBars)
+            )
+          ),
+        }
+      : undefined,
+  };
+}
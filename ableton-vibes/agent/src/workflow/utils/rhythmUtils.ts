@@ -2,6 +2,8 @@
  * Rhythm utilities for beat subdivision, swing, and humanization
  */
 
+import type { Rng } from "./random";
+
 /**
  * Standard subdivisions in beats (assuming 4/4 time)
  */
@@ -48,6 +50,13 @@ export function getBeatsPerBar(timeSig: string | TimeSignature): number {
   return (sig.numerator * 4) / sig.denominator;
 }
 
+/**
+ * Get the number of 16th note steps in one bar
+ */
+export function getStepsPerBar(timeSig: string | TimeSignature): number {
+  return Math.round(getBeatsPerBar(timeSig) * 4);
+}
+
 /**
  * Get the 16th note grid positions for a given number of bars
  */
@@ -105,14 +114,15 @@ export function applySwing(
 export function humanizeTiming(
   beat: number,
   jitterMs: number,
-  tempo: number
+  tempo: number,
+  rng: Rng = Math.random
 ): number {
   // Convert ms to beats
   const msPerBeat = 60000 / tempo;
   const jitterBeats = jitterMs / msPerBeat;
 
   // Random offset within jitter range
-  const offset = (Math.random() - 0.5) * 2 * jitterBeats;
+  const offset = (rng() - 0.5) * 2 * jitterBeats;
   return beat + offset;
 }
 
@@ -121,9 +131,10 @@ export function humanizeTiming(
  */
 export function humanizeVelocity(
   velocity: number,
-  variance: number
+  variance: number,
+  rng: Rng = Math.random
 ): number {
-  const offset = (Math.random() - 0.5) * 2 * variance;
+  const offset = (rng() - 0.5) * 2 * variance;
   return Math.max(1, Math.min(127, Math.round(velocity + offset)));
 }
 
@@ -196,23 +207,61 @@ export function getAccentPattern(timeSig: string): number[] {
   return Array(numerator).fill(0.6).map((v, i) => (i === 0 ? 1.0 : v));
 }
 
+// Accent for positions that fall between the meter's pulses
+const OFF_PULSE_ACCENT = 0.4;
+
+/**
+ * Get the accent multiplier at a beat position, from getAccentPattern
+ * The pattern counts the time signature's own pulse, so 6/8 and 7/8 accent eighth notes
+ */
+export function getAccentAt(beat: number, timeSig: string): number {
+  const { denominator } = parseTimeSignature(timeSig);
+  const pattern = getAccentPattern(timeSig);
+  const pulse = 4 / denominator;
+  const barLength = pattern.length * pulse;
+  const position = (((beat % barLength) + barLength) % barLength) / pulse;
+  const index = Math.round(position);
+
+  if (Math.abs(position - index) > 0.001) return OFF_PULSE_ACCENT;
+  return pattern[index % pattern.length]!;
+}
+
+/**
+ * Get the 16th note steps of the pulses accented at least as strongly as the threshold
+ */
+export function getAccentedSteps(timeSig: string, threshold = 0.8): number[] {
+  const { denominator } = parseTimeSignature(timeSig);
+  const pulseSteps = 16 / denominator;
+  return getAccentPattern(timeSig).flatMap((accent, i) => (accent >= threshold ? [i * pulseSteps] : []));
+}
+
+/**
+ * Shape a velocity by the meter's accent: full on the strongest pulse, softer off the pulse
+ */
+export function accentVelocity(velocity: number, beat: number, timeSig: string): number {
+  const shaped = velocity * (0.7 + 0.3 * getAccentAt(beat, timeSig));
+  return Math.max(1, Math.min(127, Math.round(shaped)));
+}
+
 /**
  * Generate a basic rhythm pattern
  * @param bars - Number of bars
  * @param density - Note density (0-1, where 1 is every 16th note)
  * @param timeSig - Time signature
+ * @param rng - Random source (pass a seeded one for reproducible patterns)
  */
 export function generateBasicPattern(
   bars: number,
   density: number,
-  timeSig = "4/4"
+  timeSig = "4/4",
+  rng: Rng = Math.random
 ): number[] {
   const beatsPerBar = getBeatsPerBar(timeSig);
   const totalSixteenths = Math.round(bars * beatsPerBar * 4);
   const pattern: number[] = [];
 
   for (let i = 0; i < totalSixteenths; i++) {
-    if (Math.random() < density) {
+    if (rng() < density) {
       pattern.push(i);
     }
   }
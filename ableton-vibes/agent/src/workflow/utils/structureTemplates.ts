@@ -8,6 +8,7 @@ import type {
   ArrangementSection,
   MacroStructure,
 } from "../types";
+import { getBeatsPerBar } from "./rhythmUtils";
 
 /**
  * Section template with relative energy and typical length
@@ -405,6 +406,85 @@ export function scoreEnergyCurveSmoothness(
   return Math.max(0, 100 - totalJump);
 }
 
+// Tempo range Live accepts, in BPM
+const MIN_TEMPO = 20;
+const MAX_TEMPO = 999;
+
+// Live's time signature denominators
+const METER_DENOMINATORS = [1, 2, 4, 8, 16];
+
+const isValidTempo = (tempo: number) => Number.isFinite(tempo) && tempo >= MIN_TEMPO && tempo <= MAX_TEMPO;
+
+function isValidMeter(meter: string): boolean {
+  const match = meter.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+  if (!match) return false;
+  const numerator = Number(match[1]);
+  return numerator >= 1 && numerator <= 99 && METER_DENOMINATORS.includes(Number(match[2]));
+}
+
+/**
+ * Timing of a section once its tempo and meter overrides are applied
+ */
+export interface SectionTiming {
+  sectionId: string;
+  name: string;
+  startBar: number;
+  lengthBars: number;
+  /** Arrangement position in quarter-note beats */
+  startBeat: number;
+  lengthBeats: number;
+  meter: string;
+  beatsPerBar: number;
+  tempo: number;
+  /** Tempo at the end of the section; differs from tempo when it ramps */
+  endTempo: number;
+}
+
+/**
+ * Whether any section overrides the time base tempo or meter
+ */
+export function hasTimingOverrides(sections: ArrangementSection[]): boolean {
+  return sections.some((s) => s.tempo !== undefined || s.meter !== undefined || s.tempoRamp !== undefined);
+}
+
+/**
+ * Resolve the tempo, meter and beat position of each section, in arrangement order
+ * Sections without overrides take the time base values. Bars change length with the
+ * meter, so beat positions accumulate section by section
+ */
+export function resolveSectionTimings(
+  sections: ArrangementSection[],
+  base: { tempo: number; meter: string }
+): SectionTiming[] {
+  const timings: SectionTiming[] = [];
+
+  for (const section of [...sections].sort((a, b) => a.startBar - b.startBar)) {
+    const previous = timings[timings.length - 1];
+    const meter = section.meter ?? base.meter;
+    const beatsPerBar = getBeatsPerBar(meter);
+    // A gap before the section keeps the previous section's bar length
+    const startBeat = previous
+      ? previous.startBeat + (section.startBar - previous.startBar) * previous.beatsPerBar
+      : section.startBar * beatsPerBar;
+    const tempo = section.tempo ?? base.tempo;
+
+    timings.push({
+      sectionId: section.id,
+      name: section.name,
+      startBar: section.startBar,
+      lengthBars: section.lengthBars,
+      startBeat,
+      lengthBeats: section.lengthBars * beatsPerBar,
+      meter,
+      beatsPerBar,
+      tempo,
+      endTempo: section.tempoRamp?.to ?? tempo,
+    });
+  }
+
+  return timings;
+}
+
 /**
  * Validate that structure meets production spec constraints
  */
@@ -435,6 +515,18 @@ export function validateStructure(
     issues.push("Structure must have a breakdown section");
   }
 
+  for (const section of structure.sections) {
+    if (section.tempo !== undefined && !isValidTempo(section.tempo)) {
+      issues.push(`${section.name} tempo ${section.tempo} BPM is outside ${MIN_TEMPO}-${MAX_TEMPO} BPM`);
+    }
+    if (section.tempoRamp && !isValidTempo(section.tempoRamp.to)) {
+      issues.push(`${section.name} ramps to ${section.tempoRamp.to} BPM, outside ${MIN_TEMPO}-${MAX_TEMPO} BPM`);
+    }
+    if (section.meter !== undefined && !isValidMeter(section.meter)) {
+      issues.push(`${section.name} has an invalid meter "${section.meter}"`);
+    }
+  }
+
   return {
     valid: issues.length === 0,
     issues,
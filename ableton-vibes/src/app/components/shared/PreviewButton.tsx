@@ -0,0 +1,74 @@
+"use client";
+
+import { RenderEvent, renderEvents, toWavBlob } from "../../lib/audioRender";
+import { useTransport } from "./Transport";
+
+type PreviewButtonProps = {
+  /** Transport id of the item, shared with its playhead */
+  id: string;
+  /** Built lazily so nothing is rendered until the user asks to hear it */
+  getEvents: () => RenderEvent[];
+  /** Defaults to the transport tempo */
+  tempo?: number;
+  /** Loop length; defaults to the last note rounded up to a bar */
+  lengthBeats?: number;
+  /** Download name without extension; defaults to the id */
+  fileName?: string;
+  className?: string;
+};
+
+export function PreviewButton({ id, getEvents, tempo, lengthBeats, fileName = id, className = "" }: PreviewButtonProps) {
+  const transport = useTransport();
+  const isPlaying = transport.playingId === id;
+
+  // Build on every request so edits are always heard
+  const source = () => {
+    const events = getEvents();
+    const end = events.reduce((max, e) => Math.max(max, e.time + e.duration), 0);
+    const bar = transport.beatsPerBar;
+    return { events, lengthBeats: lengthBeats ?? Math.max(bar, Math.ceil(end / bar) * bar) };
+  };
+
+  const togglePlayback = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    if (isPlaying) {
+      transport.stop();
+    } else {
+      transport.play({ id, tempo, ...source() });
+    }
+  };
+
+  const download = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    const { events, lengthBeats: length } = source();
+    const blob = toWavBlob(renderEvents(events, { tempo: tempo ?? transport.tempo, lengthBeats: length }));
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${fileName}.wav`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={`flex items-center gap-1 ${className}`}>
+      <button
+        onClick={togglePlayback}
+        className={`rounded-lg px-2.5 py-1 text-[11px] font-medium transition-colors ${
+          isPlaying
+            ? "bg-violet-500 text-white hover:bg-violet-400"
+            : "bg-white/10 text-white/70 hover:bg-white/20 hover:text-white"
+        }`}
+      >
+        {isPlaying ? "Stop" : "Play"}
+      </button>
+      <button
+        onClick={download}
+        title="Download WAV"
+        className="rounded-lg bg-white/5 px-2 py-1 text-[11px] text-white/50 transition-colors hover:bg-white/20 hover:text-white"
+      >
+        WAV
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { PlaybackEngine, PlaybackSource } from "../../lib/playback";
+
+type TransportPlayRequest = Omit<PlaybackSource, "tempo"> & {
+  /** Overrides the transport tempo, e.g. to hear a candidate at its own tempo */
+  tempo?: number;
+};
+
+type TransportState = {
+  tempo: number;
+  beatsPerBar: number;
+  loop: boolean;
+  playingId: string | null;
+  /** Playhead in beats, quantized to 16ths; null when stopped */
+  beat: number | null;
+  play: (request: TransportPlayRequest) => void;
+  stop: () => void;
+  setLoop: (loop: boolean) => void;
+};
+
+const TransportContext = createContext<TransportState | null>(null);
+
+type TransportProviderProps = {
+  /** Default playback tempo, normally TimeBase.finalTempo */
+  tempo: number;
+  /** Quarter-note beats per bar of TimeBase.finalMeter, for bar positions and loop lengths */
+  beatsPerBar?: number;
+  children: ReactNode;
+};
+
+export function TransportProvider({ tempo, beatsPerBar = 4, children }: TransportProviderProps) {
+  const engineRef = useRef<PlaybackEngine | null>(null);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [beat, setBeat] = useState<number | null>(null);
+  const [loop, setLoopState] = useState(true);
+
+  useEffect(() => () => engineRef.current?.dispose(), []);
+
+  // Follow the audio clock while something is playing; only 16th changes re-render
+  useEffect(() => {
+    if (!playingId) return;
+    let frame = 0;
+    const tick = () => {
+      const position = engineRef.current?.position() ?? null;
+      if (position === null) {
+        setPlayingId(null);
+        setBeat(null);
+        return;
+      }
+      setBeat(Math.floor(position * 4) / 4);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playingId]);
+
+  const play = useCallback(
+    (request: TransportPlayRequest) => {
+      const engine = (engineRef.current ??= new PlaybackEngine());
+      engine.loop = loop;
+      engine.play({ ...request, tempo: request.tempo ?? tempo });
+      setBeat(0);
+      setPlayingId(request.id);
+    },
+    [loop, tempo]
+  );
+
+  const stop = useCallback(() => {
+    engineRef.current?.stop();
+    setPlayingId(null);
+    setBeat(null);
+  }, []);
+
+  const setLoop = useCallback((next: boolean) => {
+    if (engineRef.current) engineRef.current.loop = next;
+    setLoopState(next);
+  }, []);
+
+  const value = useMemo(
+    () => ({ tempo, beatsPerBar, loop, playingId, beat, play, stop, setLoop }),
+    [tempo, beatsPerBar, loop, playingId, beat, play, stop, setLoop]
+  );
+
+  return <TransportContext.Provider value={value}>{children}</TransportContext.Provider>;
+}
+
+export function useTransport(): TransportState {
+  const transport = useContext(TransportContext);
+  if (!transport) throw new Error("useTransport must be used inside a TransportProvider.");
+  return transport;
+}
+
+/**
+ * Lookup for per-item playheads: the beat position for the item that is playing,
+ * undefined for every other item
+ */
+export function usePlayhead(): (id: string) => number | undefined {
+  const { playingId, beat } = useTransport();
+  return (id) => (playingId === id && beat !== null ? beat : undefined);
+}
+
+type TransportBarProps = {
+  className?: string;
+};
+
+export function TransportBar({ className = "" }: TransportBarProps) {
+  const { tempo, beatsPerBar, loop, playingId, beat, stop, setLoop } = useTransport();
+
+  return (
+    <div className={`flex items-center gap-3 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs ${className}`}>
+      <button
+        onClick={stop}
+        disabled={!playingId}
+        className="rounded-lg bg-white/10 px-2.5 py-1 font-medium text-white/70 transition-colors hover:bg-white/20 hover:text-white disabled:opacity-40 disabled:hover:bg-white/10"
+      >
+        Stop
+      </button>
+      <button
+        onClick={() => setLoop(!loop)}
+        className={`rounded-lg px-2.5 py-1 font-medium transition-colors ${
+          loop ? "bg-violet-500 text-white" : "bg-white/10 text-white/60 hover:bg-white/20"
+        }`}
+      >
+        Loop
+      </button>
+      <span className="text-white/60">
+        <span className="font-medium text-white">{tempo}</span> BPM
+      </span>
+      <span className="ml-auto truncate text-white/50">
+        {playingId && beat !== null
+          ? `${playingId} · ${Math.floor(beat / beatsPerBar) + 1}.${Math.floor(beat % beatsPerBar) + 1}`
+          : "Stopped"}
+      </span>
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
 export { QuickActionBar } from "./QuickActionBar";
 export { ScoreIndicator, MultiScore } from "./ScoreIndicator";
 export { DataCard, TagList, EmptyState } from "./DataCard";
+export { PreviewButton } from "./PreviewButton";
+export { TransportProvider, TransportBar, useTransport, usePlayhead } from "./Transport";
@@ -394,6 +394,7 @@ export function BriefWizard({
               <DataCard
                 title="Tempo Range"
                 value={`${spec.tempoRange.min}-${spec.tempoRange.max} BPM`}
+                subtitle={spec.key && `${spec.key} ${spec.scale}`}
                 color="#8b5cf6"
               />
               <DataCard
@@ -415,6 +416,27 @@ export function BriefWizard({
             </div>
           </div>
         )}
+
+        {/* Analyzed Reference Audio */}
+        {(brief?.referenceAnalyses?.length ?? 0) > 0 && (
+          <div className="rounded-xl border border-orange-500/30 bg-orange-500/10 p-4">
+            <h3 className="text-sm font-medium text-orange-400 mb-3">Reference Analysis</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {brief?.referenceAnalyses?.map((analysis) => (
+                <DataCard
+                  key={analysis.source}
+                  title={analysis.source.split(/[\\/]/).pop() ?? analysis.source}
+                  value={`${analysis.tempo} BPM · ${analysis.key} ${analysis.scale}`}
+                  subtitle={
+                    `${analysis.loudness.integrated} LUFS · ${analysis.loudness.range} LU range · ` +
+                    `${analysis.sections.length} sections over ${analysis.totalBars} bars`
+                  }
+                  color="#f97316"
+                />
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </StagePanel>
   );
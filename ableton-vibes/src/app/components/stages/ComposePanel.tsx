@@ -2,9 +2,11 @@
 
 import { useState } from "react";
 import { StagePanel } from "../workflow/StagePanel";
-import { QuickActionBar } from "../shared";
-import { PianoRoll } from "../visualizations";
-import { SectionComposition, Voice, ArrangementSection } from "../types";
+import { PreviewButton, QuickActionBar, useTransport } from "../shared";
+import { PianoRoll, PianoRollEditor } from "../visualizations";
+import { SectionComposition, Voice, ArrangementSection, SoundPalette } from "../types";
+import { compositionToEvents } from "../../lib/audioRender";
+import { getBeatsPerBar } from "../../lib/meter";
 
 const VOICE_ROLES = [
   { role: "bass", label: "Bass", color: "#ef4444" },
@@ -22,6 +24,12 @@ type ComposePanelProps = {
   compositions?: SectionComposition[];
   sections?: ArrangementSection[];
   isLocked?: boolean;
+  /** Preview tempo, normally the locked time base */
+  tempo?: number;
+  palette?: SoundPalette;
+  /** Key and scale for the note editor's row highlighting */
+  keyRoot?: string;
+  scale?: string;
   onGenerateComposition?: (sectionId: string) => void;
   onScoreComposition?: (sectionId: string) => void;
   onUpdateVoice?: (sectionId: string, voice: Voice) => void;
@@ -32,6 +40,10 @@ export function ComposePanel({
   compositions = [],
   sections = [],
   isLocked = false,
+  tempo = 120,
+  palette,
+  keyRoot,
+  scale,
   onGenerateComposition,
   onScoreComposition,
   onUpdateVoice,
@@ -41,9 +53,12 @@ export function ComposePanel({
     sections[0]?.id || null
   );
   const [expandedVoices, setExpandedVoices] = useState<Set<string>>(new Set());
+  const transport = useTransport();
 
   const selectedComposition = compositions.find((c) => c.sectionId === selectedSectionId);
   const selectedSection = sections.find((s) => s.id === selectedSectionId);
+  // Sections with their own meter are composed in it
+  const beatsPerBar = selectedSection?.meter ? getBeatsPerBar(selectedSection.meter) : transport.beatsPerBar;
 
   const toggleVoiceExpanded = (voiceRole: string) => {
     const newExpanded = new Set(expandedVoices);
@@ -131,13 +146,27 @@ export function ComposePanel({
                   <span>{selectedSection.lengthBars} bars</span>
                   <span>Energy: {selectedSection.energyLevel}%</span>
                   <span>Bar {selectedSection.startBar}</span>
+                  {selectedSection.key && (
+                    <span>
+                      {selectedSection.key} {selectedSection.scale}
+                    </span>
+                  )}
                 </div>
               </div>
               {selectedComposition && (
-                <div className="text-right">
-                  <div className="text-sm text-white/60">Density</div>
-                  <div className="text-xl font-bold text-white">
-                    {selectedComposition.densityLevel}/10
+                <div className="flex items-center gap-4">
+                  <PreviewButton
+                    id={`composition-${selectedComposition.sectionId}`}
+                    getEvents={() => compositionToEvents(selectedComposition, palette?.entries)}
+                    tempo={tempo}
+                    lengthBeats={selectedSection.lengthBars * beatsPerBar}
+                    fileName={selectedComposition.sectionId}
+                  />
+                  <div className="text-right">
+                    <div className="text-sm text-white/60">Density</div>
+                    <div className="text-xl font-bold text-white">
+                      {selectedComposition.densityLevel}/10
+                    </div>
                   </div>
                 </div>
               )}
@@ -198,15 +227,31 @@ export function ComposePanel({
                   </button>
 
                   {/* Piano roll */}
-                  {isExpanded && voice.notes.length > 0 && (
+                  {isExpanded && onUpdateVoice && !isLocked ? (
                     <div className="px-4 pb-4">
-                      <PianoRoll
+                      <PianoRollEditor
                         notes={voice.notes}
+                        onNotesChange={(notes) => onUpdateVoice(selectedComposition.sectionId, { ...voice, notes })}
                         lengthBars={selectedSection?.lengthBars || 4}
+                        beatsPerBar={beatsPerBar}
+                        keyRoot={selectedSection?.key ?? keyRoot}
+                        scale={selectedSection?.scale ?? scale}
                         color={color}
-                        height={100}
                       />
                     </div>
+                  ) : (
+                    isExpanded &&
+                    voice.notes.length > 0 && (
+                      <div className="px-4 pb-4">
+                        <PianoRoll
+                          notes={voice.notes}
+                          lengthBars={selectedSection?.lengthBars || 4}
+                          beatsPerBar={beatsPerBar}
+                          color={color}
+                          height={100}
+                        />
+                      </div>
+                    )
                   )}
                 </div>
               );
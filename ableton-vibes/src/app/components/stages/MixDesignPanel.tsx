@@ -3,7 +3,7 @@
 import { useState } from "react";
 import { StagePanel } from "../workflow/StagePanel";
 import { QuickActionBar } from "../shared";
-import { MixDesign, TrackLevel } from "../types";
+import { MixDesign, RuleCompliance, TrackLevel } from "../types";
 
 const STEM_GROUPS = [
   { group: "drums", label: "Drums", color: "#f97316" },
@@ -16,6 +16,8 @@ const STEM_GROUPS = [
 
 type MixDesignPanelProps = {
   mixDesign?: MixDesign;
+  /** Brief rule check run before the mix */
+  compliance?: RuleCompliance;
   isLocked?: boolean;
   onGenerateMix?: () => void;
   onUpdateLevel?: (trackName: string, level: Partial<TrackLevel>) => void;
@@ -24,6 +26,7 @@ type MixDesignPanelProps = {
 
 export function MixDesignPanel({
   mixDesign,
+  compliance,
   isLocked = false,
   onGenerateMix,
   onUpdateLevel,
@@ -77,6 +80,37 @@ export function MixDesignPanel({
       }
     >
       <div className="space-y-6">
+        {/* Brief rule compliance */}
+        {compliance && (
+          <div
+            className={`rounded-xl border p-4 ${
+              compliance.compliant ? "border-green-500/30 bg-green-500/10" : "border-red-500/30 bg-red-500/10"
+            }`}
+          >
+            <label
+              className={`text-sm font-medium mb-2 block ${compliance.compliant ? "text-green-400" : "text-red-400"}`}
+            >
+              Brief Rules
+            </label>
+            {compliance.violations.length === 0 ? (
+              <p className="text-sm text-white/70">{compliance.summary}</p>
+            ) : (
+              <div className="space-y-1">
+                {compliance.violations.map((violation, idx) => (
+                  <div key={idx} className="flex items-center gap-2 text-sm text-red-300">
+                    <span className="text-red-500">-</span>
+                    <span>{violation.message}</span>
+                    <span className="ml-auto text-xs text-white/40">&ldquo;{violation.rule}&rdquo;</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {compliance.unenforced.length > 0 && (
+              <p className="mt-2 text-xs text-white/40">Not checked: {compliance.unenforced.join(", ")}</p>
+            )}
+          </div>
+        )}
+
         {/* Leveling meters by stem group */}
         {tracks.length > 0 && (
           <div>
@@ -2,9 +2,10 @@
 
 import { useState } from "react";
 import { StagePanel } from "../workflow/StagePanel";
-import { QuickActionBar } from "../shared";
-import { MotifCard } from "../visualizations";
-import { MotifSeedSet, MotifSeed, MotifScore } from "../types";
+import { PreviewButton, QuickActionBar, TransportBar, usePlayhead, useTransport } from "../shared";
+import { MotifCard, PianoRollEditor } from "../visualizations";
+import { MotifSeedSet, MotifSeed, MotifScore, MotifEvolution } from "../types";
+import { motifToEvents } from "../../lib/audioRender";
 
 const MOTIF_TYPES = [
   { type: "melodic", label: "Melodic", color: "#ec4899" },
@@ -15,29 +16,73 @@ const MOTIF_TYPES = [
 
 type MotifSeedsPanelProps = {
   motifSeedSet?: MotifSeedSet;
+  /** Latest evolutionary search: its Pareto front and fitness per generation */
+  motifEvolution?: MotifEvolution;
   isLocked?: boolean;
+  /** Preview tempo, normally the locked time base */
+  tempo?: number;
   onGenerateMotifs?: (type?: string) => void;
   onScoreMotifs?: () => void;
   onSelectMotif?: (motif: MotifSeed) => void;
+  /** Receives a motif with hand-edited notes */
+  onUpdateMotif?: (motif: MotifSeed) => void;
   onLock?: () => void;
 };
 
+/**
+ * Best and mean fitness per generation as two lines on a 0-100 scale
+ */
+function FitnessHistoryChart({ history }: { history: MotifEvolution["history"] }) {
+  const x = (i: number) => (history.length > 1 ? (i / (history.length - 1)) * 100 : 50);
+  const y = (fitness: number) => 40 - (fitness / 100) * 40;
+  const line = (key: "bestFitness" | "meanFitness") =>
+    history.map((h, i) => `${x(i).toFixed(2)},${y(h[key]).toFixed(2)}`).join(" ");
+
+  return (
+    <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="h-20 w-full">
+      <polyline
+        points={line("meanFitness")}
+        fill="none"
+        stroke="#ffffff66"
+        strokeWidth={1}
+        vectorEffect="non-scaling-stroke"
+      />
+      <polyline
+        points={line("bestFitness")}
+        fill="none"
+        stroke="#ec4899"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
+
 export function MotifSeedsPanel({
   motifSeedSet,
+  motifEvolution,
   isLocked = false,
+  tempo = 120,
   onGenerateMotifs,
   onScoreMotifs,
   onSelectMotif,
+  onUpdateMotif,
   onLock,
 }: MotifSeedsPanelProps) {
   const [selectedType, setSelectedType] = useState<string | null>("melodic");
   const [selectedMotifIds, setSelectedMotifIds] = useState<Set<string>>(new Set());
+  const [editingMotifId, setEditingMotifId] = useState<string | null>(null);
+
+  const playhead = usePlayhead();
+  const { beatsPerBar } = useTransport();
 
   const seeds = motifSeedSet?.seeds || [];
   const scores = motifSeedSet?.scores || [];
 
   const getMotifsByType = (type: string) => seeds.filter((s) => s.type === type);
   const getScoreForMotif = (motifId: string) => scores.find((s) => s.motifId === motifId);
+  const canEdit = Boolean(onUpdateMotif) && !isLocked;
+  const editingMotif = canEdit ? seeds.find((s) => s.id === editingMotifId) : undefined;
 
   const toggleMotifSelection = (motif: MotifSeed) => {
     const newSelected = new Set(selectedMotifIds);
@@ -142,6 +187,89 @@ export function MotifSeedsPanel({
           </div>
         )}
 
+        {(seeds.length > 0 || motifEvolution) && <TransportBar />}
+
+        {/* Evolutionary search */}
+        {motifEvolution && motifEvolution.history.length > 0 && (
+          <div className="rounded-xl border border-pink-500/30 bg-pink-500/5 p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-pink-400">
+                Evolved {motifEvolution.type} motifs
+              </h3>
+              <span className="text-xs text-white/50">
+                {motifEvolution.generations} generations × {motifEvolution.populationSize} ·{" "}
+                {motifEvolution.evaluated} scored
+              </span>
+            </div>
+            <div>
+              <FitnessHistoryChart history={motifEvolution.history} />
+              <div className="mt-1 flex items-center justify-between text-xs text-white/50">
+                <span>
+                  <span className="text-pink-400">Best</span> / mean fitness per generation
+                </span>
+                <span>
+                  {motifEvolution.history[0]!.bestFitness} →{" "}
+                  {motifEvolution.history[motifEvolution.history.length - 1]!.bestFitness}
+                </span>
+              </div>
+            </div>
+            <div>
+              <p className="text-xs uppercase tracking-widest text-white/50 mb-2">
+                Pareto front ({motifEvolution.paretoFront.length})
+              </p>
+              <div className="grid gap-4 md:grid-cols-2">
+                {motifEvolution.paretoFront.map(({ motif, score, fitness, generation }) => (
+                  <MotifCard
+                    key={motif.id}
+                    motif={motif}
+                    score={score}
+                    beatsPerBar={beatsPerBar}
+                    actions={
+                      <div className="flex items-center gap-2">
+                        <span className="text-[11px] text-white/50">
+                          Fitness {fitness} · gen {generation}
+                        </span>
+                        <PreviewButton
+                          id={motif.id}
+                          getEvents={() => motifToEvents(motif, 1, beatsPerBar)}
+                          tempo={tempo}
+                          lengthBeats={motif.lengthBars * beatsPerBar}
+                        />
+                      </div>
+                    }
+                    playheadBeat={playhead(motif.id)}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Note editor */}
+        {editingMotif && (
+          <div className="rounded-xl border border-violet-500/40 bg-violet-500/5 p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-white">Editing {editingMotif.name}</h3>
+              <button
+                onClick={() => setEditingMotifId(null)}
+                className="rounded-lg bg-white/10 px-3 py-1 text-xs text-white/70 hover:bg-white/20 hover:text-white"
+              >
+                Done
+              </button>
+            </div>
+            <PianoRollEditor
+              notes={editingMotif.notes}
+              onNotesChange={(notes) => onUpdateMotif?.({ ...editingMotif, notes })}
+              lengthBars={editingMotif.lengthBars}
+              beatsPerBar={beatsPerBar}
+              keyRoot={editingMotif.key}
+              scale={editingMotif.scale}
+              color={MOTIF_TYPES.find((t) => t.type === editingMotif.type)?.color}
+              playheadBeat={playhead(editingMotif.id)}
+            />
+          </div>
+        )}
+
         {/* Motif grid */}
         {sortedMotifs.length > 0 ? (
           <div className="grid gap-4 md:grid-cols-2">
@@ -153,7 +281,30 @@ export function MotifSeedsPanel({
                   motif={motif}
                   score={score}
                   isSelected={selectedMotifIds.has(motif.id)}
+                  beatsPerBar={beatsPerBar}
                   onSelect={isLocked ? undefined : () => toggleMotifSelection(motif)}
+                  actions={
+                    <div className="flex items-center gap-2">
+                      <PreviewButton
+                        id={motif.id}
+                        getEvents={() => motifToEvents(motif, 1, beatsPerBar)}
+                        tempo={tempo}
+                        lengthBeats={motif.lengthBars * beatsPerBar}
+                      />
+                      {canEdit && (
+                        <button
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            setEditingMotifId(motif.id);
+                          }}
+                          className="rounded-lg bg-white/10 px-2.5 py-1 text-[11px] font-medium text-white/70 transition-colors hover:bg-white/20 hover:text-white"
+                        >
+                          Edit notes
+                        </button>
+                      )}
+                    </div>
+                  }
+                  playheadBeat={playhead(motif.id)}
                 />
               );
             })}
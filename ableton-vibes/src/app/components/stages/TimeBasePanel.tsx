@@ -2,9 +2,11 @@
 
 import { useState } from "react";
 import { StagePanel } from "../workflow/StagePanel";
-import { QuickActionBar } from "../shared";
-import { GrooveGrid, GrooveCandidateCard } from "../visualizations";
+import { PreviewButton, QuickActionBar, TransportBar, usePlayhead } from "../shared";
+import { GrooveGrid, GrooveCandidateCard, GrooveSequencer } from "../visualizations";
 import { GrooveCandidate, GrooveScore, TimeBase } from "../types";
+import { grooveToEvents } from "../../lib/audioRender";
+import { grooveSteps } from "../../lib/grooveEditing";
 
 type TimeBasePanelProps = {
   timeBase?: TimeBase;
@@ -14,6 +16,8 @@ type TimeBasePanelProps = {
   onGenerateCandidates?: () => void;
   onSelectGroove?: (candidate: GrooveCandidate) => void;
   onScoreCandidates?: () => void;
+  /** Receives a hand-edited groove; the caller re-scores it */
+  onUpdateGroove?: (candidate: GrooveCandidate) => void;
   onLock?: () => void;
 };
 
@@ -25,12 +29,25 @@ export function TimeBasePanel({
   onGenerateCandidates,
   onSelectGroove,
   onScoreCandidates,
+  onUpdateGroove,
   onLock,
 }: TimeBasePanelProps) {
   const [selectedId, setSelectedId] = useState<string | undefined>(
     timeBase?.selectedGroove?.id
   );
 
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const selectedGroove = timeBase?.selectedGroove;
+  const canEdit = Boolean(onUpdateGroove) && !isLocked;
+  const editingGroove = canEdit ? grooveCandidates.find((c) => c.id === editingId) : undefined;
+  const playhead = usePlayhead();
+  const stepAt = (groove: GrooveCandidate) => {
+    const beat = playhead(groove.id);
+    return beat === undefined ? undefined : Math.floor(beat * 4) % grooveSteps(groove);
+  };
+  const loopBeats = (groove: GrooveCandidate) => (grooveSteps(groove) / 4) * 2;
+
   const getScoreForCandidate = (candidateId: string) => {
     return grooveScores.find((s) => s.candidateId === candidateId);
   };
@@ -75,8 +92,10 @@ export function TimeBasePanel({
       }
     >
       <div className="space-y-6">
+        {(selectedGroove || grooveCandidates.length > 0) && <TransportBar />}
+
         {/* Current selection / locked groove */}
-        {timeBase?.selectedGroove && (
+        {timeBase && selectedGroove && (
           <div className="rounded-xl border-2 border-violet-500 bg-violet-500/10 p-4">
             <div className="flex items-center justify-between mb-3">
               <div>
@@ -84,7 +103,7 @@ export function TimeBasePanel({
                   {isLocked ? "Locked Groove" : "Selected Groove"}
                 </span>
                 <h3 className="text-lg font-semibold text-white">
-                  {timeBase.selectedGroove.description}
+                  {selectedGroove.description}
                 </h3>
               </div>
               <div className="text-right">
@@ -94,11 +113,56 @@ export function TimeBasePanel({
                 <div className="text-sm text-white/60">{timeBase.finalMeter}</div>
               </div>
             </div>
+            <PreviewButton
+              className="mb-3"
+              id={selectedGroove.id}
+              getEvents={() => grooveToEvents(selectedGroove, 2)}
+              tempo={timeBase.finalTempo}
+              lengthBeats={loopBeats(selectedGroove)}
+            />
             <GrooveGrid
-              kickPattern={timeBase.selectedGroove.kickPattern}
-              snarePattern={timeBase.selectedGroove.snarePattern}
-              hatPattern={timeBase.selectedGroove.hatPattern}
-              swingAmount={timeBase.selectedGroove.swingAmount}
+              kickPattern={selectedGroove.kickPattern}
+              snarePattern={selectedGroove.snarePattern}
+              hatPattern={selectedGroove.hatPattern}
+              percPattern={selectedGroove.percPattern}
+              steps={grooveSteps(selectedGroove)}
+              velocities={selectedGroove.stepVelocities}
+              probabilities={selectedGroove.stepProbabilities}
+              swingAmount={selectedGroove.swingAmount}
+              highlightStep={stepAt(selectedGroove)}
+            />
+          </div>
+        )}
+
+        {/* Step sequencer */}
+        {editingGroove && (
+          <div className="rounded-xl border border-violet-500/40 bg-violet-500/5 p-4">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h3 className="text-sm font-medium text-white">Editing {editingGroove.description}</h3>
+                <span className="text-xs text-white/50">
+                  Score {getScoreForCandidate(editingGroove.id)?.overall ?? "–"}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <PreviewButton
+                  id={editingGroove.id}
+                  getEvents={() => grooveToEvents(editingGroove, 2)}
+                  tempo={editingGroove.tempo}
+                  lengthBeats={loopBeats(editingGroove)}
+                />
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="rounded-lg bg-white/10 px-3 py-1 text-xs text-white/70 hover:bg-white/20 hover:text-white"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+            <GrooveSequencer
+              groove={editingGroove}
+              onChange={(groove) => onUpdateGroove?.(groove)}
+              highlightStep={stepAt(editingGroove)}
             />
           </div>
         )}
@@ -119,6 +183,28 @@ export function TimeBasePanel({
                     score={score}
                     isSelected={selectedId === candidate.id}
                     onSelect={isLocked ? undefined : () => handleSelect(candidate)}
+                    actions={
+                      <div className="flex items-center gap-2">
+                        <PreviewButton
+                          id={candidate.id}
+                          getEvents={() => grooveToEvents(candidate, 2)}
+                          tempo={candidate.tempo}
+                          lengthBeats={loopBeats(candidate)}
+                        />
+                        {canEdit && (
+                          <button
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              setEditingId(candidate.id);
+                            }}
+                            className="rounded-lg bg-white/10 px-2.5 py-1 text-[11px] font-medium text-white/70 transition-colors hover:bg-white/20 hover:text-white"
+                          >
+                            Edit pattern
+                          </button>
+                        )}
+                      </div>
+                    }
+                    highlightStep={stepAt(candidate)}
                   />
                 );
               })}
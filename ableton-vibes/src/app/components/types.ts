@@ -85,9 +85,26 @@ export const STAGE_CONFIG: Record<
 };
 
 // Brief types
+// Measurements of a reference track read from a local WAV / AIFF file
+export type ReferenceAnalysis = {
+  source: string;
+  durationSeconds: number;
+  tempo: number;
+  tempoConfidence: number;
+  key: string;
+  scale: "major" | "minor";
+  keyConfidence: number;
+  loudness: { integrated: number; shortTermMax: number; range: number; peak: number };
+  spectralBalance: Record<string, number>;
+  energyCurve: number[];
+  sections: { startBar: number; lengthBars: number; energy: number }[];
+  totalBars: number;
+};
+
 export type ProductionBrief = {
   genres: string[];
   references?: string[];
+  referenceAnalyses?: ReferenceAnalysis[];
   mood: string[];
   useCase?: string;
   targetDurationBars?: number;
@@ -97,11 +114,22 @@ export type ProductionBrief = {
   };
 };
 
+// Result of checking a run against the brief's must / mustNot rules
+export type RuleCompliance = {
+  compliant: boolean;
+  violations: { stage: string; rule: string; subject: string; message: string }[];
+  /** Rules that map to no checkable constraint */
+  unenforced: string[];
+  summary: string;
+};
+
 export type ProductionSpec = {
   tempoRange: { min: number; max: number };
   energyArc: { position: number; energy: number }[];
   instrumentation: string[];
   mixAesthetic: string;
+  key?: string;
+  scale?: string;
   structuralConstraints: {
     minSections: number;
     maxSections: number;
@@ -128,6 +156,8 @@ export type StylePrior = {
 };
 
 // Time Base types
+export type GrooveLane = "kick" | "snare" | "hat" | "perc";
+
 export type GrooveCandidate = {
   id: string;
   tempo: number;
@@ -136,9 +166,17 @@ export type GrooveCandidate = {
   kickPattern: number[];
   snarePattern: number[];
   hatPattern: number[];
+  percPattern?: number[];
+  /** Pattern length in 16th steps (default 16) */
+  steps?: number;
+  /** Per-step velocity 1-127; 0 keeps the lane default */
+  stepVelocities?: Partial<Record<GrooveLane, number[]>>;
+  /** Per-step trigger chance 0-100 */
+  stepProbabilities?: Partial<Record<GrooveLane, number[]>>;
   velocityVariance: number;
   humanization: { timingJitter: number; velocityJitter: number };
   description: string;
+  seed?: number;
 };
 
 export type GrooveScore = {
@@ -192,6 +230,7 @@ export type MotifSeed = {
   key: string;
   scale: string;
   description?: string;
+  seed?: number;
 };
 
 export type MotifScore = {
@@ -217,6 +256,39 @@ export type MotifSeedSet = {
   topN: number;
 };
 
+export type MotifFitnessWeights = {
+  memorability: number;
+  singability: number;
+  novelty: number;
+  genreFit: number;
+};
+
+export type EvolvedMotif = {
+  motif: MotifSeed;
+  score: MotifScore;
+  fitness: number;
+  generation: number;
+};
+
+export type MotifGenerationStats = {
+  generation: number;
+  bestFitness: number;
+  meanFitness: number;
+  bestMotifId: string;
+  frontSize: number;
+  diversity: number;
+};
+
+export type MotifEvolution = {
+  type: MotifSeed["type"];
+  weights: MotifFitnessWeights;
+  populationSize: number;
+  generations: number;
+  evaluated: number;
+  paretoFront: EvolvedMotif[];
+  history: MotifGenerationStats[];
+};
+
 // Structure types
 export type SectionType =
   | "intro"
@@ -240,6 +312,15 @@ export type ArrangementSection = {
   energyLevel: number;
   elements: string[];
   transitions?: { in?: string; out?: string };
+  /** Overrides of the time base tempo and meter */
+  tempo?: number;
+  meter?: string;
+  /** Ramp from the section tempo to this BPM by the section end */
+  tempoRamp?: { to: number };
+  /** Overrides of the track key, and how the section modulates into it */
+  key?: string;
+  scale?: string;
+  modulation?: { type: "relative" | "parallel" | "step-up" | "pivot"; pivotChord?: string };
 };
 
 export type MacroStructure = {
@@ -284,6 +365,7 @@ export type VariationPass = {
     result: MotifSeed;
     coherenceScore: number;
     improvementDelta: number;
+    seed?: number;
   }[];
   earCandy: EarCandy[];
   transitionEnhancements: {
@@ -359,11 +441,24 @@ export type WorkflowUIState = {
   grooveScores?: GrooveScore[];
   timeBase?: TimeBase;
   palette?: SoundPalette;
+  motifCandidates?: MotifSeed[];
+  motifScores?: MotifScore[];
   motifSeedSet?: MotifSeedSet;
+  motifEvolution?: MotifEvolution;
   macroStructure?: MacroStructure;
   compositions?: SectionComposition[];
   variationPasses?: VariationPass[];
   mixDesign?: MixDesign;
+  ruleCompliance?: RuleCompliance;
+  melodyModelPath?: string;
+  seed?: number;
+  seedDraws?: Record<string, number>;
+  revisionHistory?: {
+    stage: WorkflowStage;
+    timestamp: string;
+    action: string;
+    summary: string;
+  }[];
 };
 
 // Existing Ableton types from page.tsx
@@ -373,12 +468,26 @@ export type AbletonDevice = {
   notes?: string;
 };
 
+export type AbletonClipNote = MotifNote & {
+  muted?: boolean;
+};
+
 export type AbletonClip = {
   name: string;
   length: string;
   clipType: "MIDI" | "Audio" | "Automation" | string;
   description?: string;
-  notes?: MotifNote[];
+  /** Clip-relative notes as read back from Live */
+  notes?: AbletonClipNote[];
+  /** Session scene index; null for arrangement clips */
+  slotIndex?: number | null;
+  /** Arrangement position in beats */
+  startTime?: number;
+  loopStart?: number;
+  loopEnd?: number;
+  colorIndex?: number;
+  /** The agent capped the note list to keep the payload small */
+  notesTruncated?: boolean;
 };
 
 export type MaxPatchIdea = {
@@ -239,6 +239,30 @@ export function SectionCard({ section, onEdit, onDelete }: SectionCardProps) {
               <span>{section.lengthBars} bars</span>
               <span>|</span>
               <span>Energy: {section.energyLevel}%</span>
+              {(section.tempo !== undefined || section.tempoRamp) && (
+                <>
+                  <span>|</span>
+                  <span>
+                    {section.tempo ?? "Base"}
+                    {section.tempoRamp ? ` → ${section.tempoRamp.to}` : ""} BPM
+                  </span>
+                </>
+              )}
+              {section.meter && (
+                <>
+                  <span>|</span>
+                  <span>{section.meter}</span>
+                </>
+              )}
+              {section.key && (
+                <>
+                  <span>|</span>
+                  <span>
+                    {section.key} {section.scale}
+                    {section.modulation?.pivotChord ? ` via ${section.modulation.pivotChord}` : ""}
+                  </span>
+                </>
+              )}
             </div>
           </div>
         </div>
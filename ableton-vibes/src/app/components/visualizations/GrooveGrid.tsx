@@ -1,13 +1,21 @@
 "use client";
 
+import { getAccentedSteps, getPulseSteps, getStepsPerBar } from "../../lib/meter";
+
 type GrooveGridProps = {
   kickPattern: number[];
   snarePattern: number[];
   hatPattern: number[];
   percPattern?: number[];
   steps?: number;
+  /** Time signature; beat markers follow its pulses and accents */
+  meter?: string;
   swingAmount?: number;
   highlightStep?: number;
+  /** Per-lane step velocities (0 = lane default) */
+  velocities?: Partial<Record<string, number[]>>;
+  /** Per-lane step chances 0-100 */
+  probabilities?: Partial<Record<string, number[]>>;
   onCellClick?: (row: string, step: number) => void;
 };
 
@@ -24,8 +32,11 @@ export function GrooveGrid({
   hatPattern,
   percPattern = [],
   steps = 16,
+  meter = "4/4",
   swingAmount = 0,
   highlightStep,
+  velocities,
+  probabilities,
   onCellClick,
 }: GrooveGridProps) {
   const patterns: Record<string, number[]> = {
@@ -35,33 +46,41 @@ export function GrooveGrid({
     perc: percPattern,
   };
 
-  const getVelocityOpacity = (step: number, pattern: number[]) => {
+  const pulseSteps = getPulseSteps(meter);
+  const barSteps = getStepsPerBar(meter);
+  const accented = getAccentedSteps(meter);
+
+  const getVelocityOpacity = (row: string, step: number, pattern: number[]) => {
     if (!pattern.includes(step)) return 0;
-    // Default velocity, could be enhanced with actual velocity data
-    return 0.9;
+    const velocity = velocities?.[row]?.[step];
+    return velocity ? 0.3 + (velocity / 127) * 0.7 : 0.9;
   };
 
   return (
     <div className="rounded-xl bg-black/40 p-4">
       {/* Beat markers */}
       <div className="flex mb-2 ml-12">
-        {Array.from({ length: steps }).map((_, i) => (
-          <div
-            key={i}
-            className={`flex-1 text-center text-xs ${
-              i % 4 === 0 ? "text-white/60 font-semibold" : "text-white/30"
-            }`}
-          >
-            {i % 4 === 0 ? Math.floor(i / 4) + 1 : ""}
-          </div>
-        ))}
+        {Array.from({ length: steps }).map((_, i) => {
+          const inBar = i % barSteps;
+          return (
+            <div
+              key={i}
+              className={`flex-1 text-center text-xs ${
+                accented.includes(inBar) ? "text-white/60 font-semibold" : "text-white/30"
+              }`}
+            >
+              {inBar % pulseSteps === 0 ? inBar / pulseSteps + 1 : ""}
+            </div>
+          );
+        })}
       </div>
 
       {/* Grid rows */}
       <div className="space-y-1">
         {ROWS.map((row) => {
           const pattern = patterns[row.id] || [];
-          if (row.id === "perc" && percPattern.length === 0) return null;
+          // An empty perc lane only shows when it can be edited
+          if (row.id === "perc" && percPattern.length === 0 && !onCellClick) return null;
 
           return (
             <div key={row.id} className="flex items-center gap-2">
@@ -72,24 +91,36 @@ export function GrooveGrid({
               <div className="flex flex-1 gap-0.5">
                 {Array.from({ length: steps }).map((_, step) => {
                   const isActive = pattern.includes(step);
-                  const isBeatStart = step % 4 === 0;
+                  const isBarStart = step % barSteps === 0;
+                  const isBeatStart = step % pulseSteps === 0;
                   const isHighlighted = highlightStep === step;
+                  const chance = probabilities?.[row.id]?.[step] ?? 100;
 
                   return (
                     <button
                       key={step}
-                      onClick={() => onCellClick?.(row.id, step)}
+                      onClick={(event) => {
+                        if (!onCellClick) return;
+                        event.stopPropagation();
+                        onCellClick(row.id, step);
+                      }}
+                      title={
+                        isActive && (velocities?.[row.id]?.[step] || chance < 100)
+                          ? `vel ${velocities?.[row.id]?.[step] || "default"} · ${chance}%`
+                          : undefined
+                      }
                       className={`
                         flex-1 aspect-square rounded-sm transition-all duration-100
-                        ${isBeatStart ? "border-l border-white/10" : ""}
+                        ${isBarStart ? "border-l border-white/30" : isBeatStart ? "border-l border-white/10" : ""}
                         ${isHighlighted ? "ring-2 ring-white/50" : ""}
+                        ${isActive && chance < 100 ? "outline-dashed outline-1 outline-white/70" : ""}
                         ${onCellClick ? "hover:scale-110 cursor-pointer" : ""}
                       `}
                       style={{
                         backgroundColor: isActive
                           ? row.color
                           : "rgba(255,255,255,0.05)",
-                        opacity: isActive ? getVelocityOpacity(step, pattern) : 1,
+                        opacity: isActive ? getVelocityOpacity(row.id, step, pattern) : 1,
                       }}
                     />
                   );
@@ -126,6 +157,10 @@ type GrooveCandidateCardProps = {
     kickPattern: number[];
     snarePattern: number[];
     hatPattern: number[];
+    percPattern?: number[];
+    steps?: number;
+    stepVelocities?: Partial<Record<string, number[]>>;
+    stepProbabilities?: Partial<Record<string, number[]>>;
     description: string;
   };
   score?: {
@@ -136,6 +171,9 @@ type GrooveCandidateCardProps = {
   };
   isSelected?: boolean;
   onSelect?: () => void;
+  /** Extra controls shown under the header, e.g. audio preview */
+  actions?: React.ReactNode;
+  highlightStep?: number;
 };
 
 export function GrooveCandidateCard({
@@ -143,6 +181,8 @@ export function GrooveCandidateCard({
   score,
   isSelected,
   onSelect,
+  actions,
+  highlightStep,
 }: GrooveCandidateCardProps) {
   return (
     <div
@@ -175,12 +215,20 @@ export function GrooveCandidateCard({
         )}
       </div>
 
+      {actions && <div className="mb-3">{actions}</div>}
+
       {/* Mini grid */}
       <GrooveGrid
         kickPattern={candidate.kickPattern}
         snarePattern={candidate.snarePattern}
         hatPattern={candidate.hatPattern}
+        percPattern={candidate.percPattern}
+        steps={candidate.steps}
+        meter={candidate.meter}
+        velocities={candidate.stepVelocities}
+        probabilities={candidate.stepProbabilities}
         swingAmount={candidate.swingAmount}
+        highlightStep={highlightStep}
       />
 
       {/* Score breakdown */}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { GrooveGrid } from "./GrooveGrid";
+import { GrooveCandidate, GrooveLane } from "../types";
+import {
+  grooveSteps,
+  lanePattern,
+  PATTERN_LENGTHS,
+  resizeGroove,
+  setGrooveMeter,
+  setStepValue,
+  toggleStep,
+} from "../../lib/grooveEditing";
+import { getStepsPerBar, METERS } from "../../lib/meter";
+
+type GrooveSequencerProps = {
+  groove: GrooveCandidate;
+  /** Called with the whole edited groove after every change */
+  onChange: (groove: GrooveCandidate) => void;
+  highlightStep?: number;
+};
+
+type EditMode = "toggle" | "velocity" | "chance";
+
+const MODES: Array<{ mode: EditMode; label: string; hint: string }> = [
+  { mode: "toggle", label: "Steps", hint: "Click to add or remove hits" },
+  { mode: "velocity", label: "Velocity", hint: "Click a hit to cycle accent, medium, soft, ghost and default" },
+  { mode: "chance", label: "Chance", hint: "Click a hit to cycle 75%, 50%, 25% and always" },
+];
+
+// Cycles end on the default (0 velocity = lane default, 100% chance = always plays)
+const VELOCITY_CYCLE = [127, 90, 60, 30, 0];
+const CHANCE_CYCLE = [75, 50, 25, 100];
+
+const nextInCycle = (cycle: number[], current: number) => cycle[(cycle.indexOf(current) + 1) % cycle.length];
+
+export function GrooveSequencer({ groove, onChange, highlightStep }: GrooveSequencerProps) {
+  const [mode, setMode] = useState<EditMode>("toggle");
+  const steps = grooveSteps(groove);
+  // One and two bars of the meter are always on offer
+  const barSteps = getStepsPerBar(groove.meter);
+  const lengths = [...new Set([...PATTERN_LENGTHS, barSteps, barSteps * 2, steps])].sort((a, b) => a - b);
+
+  const handleCellClick = (row: string, step: number) => {
+    const lane = row as GrooveLane;
+    const isActive = lanePattern(groove, lane).includes(step);
+
+    if (mode === "toggle" || !isActive) {
+      onChange(toggleStep(groove, lane, step));
+    } else if (mode === "velocity") {
+      const current = groove.stepVelocities?.[lane]?.[step] ?? 0;
+      onChange(setStepValue(groove, "stepVelocities", lane, step, nextInCycle(VELOCITY_CYCLE, current)));
+    } else {
+      const current = groove.stepProbabilities?.[lane]?.[step] ?? 100;
+      onChange(setStepValue(groove, "stepProbabilities", lane, step, nextInCycle(CHANCE_CYCLE, current)));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-[11px]">
+        <div className="flex rounded-lg bg-white/5 p-0.5">
+          {MODES.map((option) => (
+            <button
+              key={option.mode}
+              onClick={() => setMode(option.mode)}
+              title={option.hint}
+              className={`rounded-md px-2 py-0.5 transition-colors ${
+                mode === option.mode ? "bg-violet-500 text-white" : "text-white/60 hover:text-white"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1 text-white/60">
+          Meter
+          <select
+            value={groove.meter}
+            onChange={(event) => onChange(setGrooveMeter(groove, event.target.value))}
+            className="rounded-md bg-white/10 px-1.5 py-0.5 text-white"
+          >
+            {[...new Set([...METERS, groove.meter])].map((meter) => (
+              <option key={meter} value={meter}>
+                {meter}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1 text-white/60">
+          Length
+          <select
+            value={steps}
+            onChange={(event) => onChange(resizeGroove(groove, Number(event.target.value)))}
+            className="rounded-md bg-white/10 px-1.5 py-0.5 text-white"
+          >
+            {lengths.map((length) => (
+              <option key={length} value={length}>
+                {length} steps
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="ml-auto text-white/40">{MODES.find((m) => m.mode === mode)?.hint}</span>
+      </div>
+
+      <GrooveGrid
+        kickPattern={groove.kickPattern}
+        snarePattern={groove.snarePattern}
+        hatPattern={groove.hatPattern}
+        percPattern={groove.percPattern}
+        steps={steps}
+        meter={groove.meter}
+        swingAmount={groove.swingAmount}
+        velocities={groove.stepVelocities}
+        probabilities={groove.stepProbabilities}
+        highlightStep={highlightStep}
+        onCellClick={handleCellClick}
+      />
+    </div>
+  );
+}
@@ -5,11 +5,15 @@ import { MotifNote } from "../types";
 type PianoRollProps = {
   notes: MotifNote[];
   lengthBars?: number;
+  /** Quarter-note beats per bar of the time base */
+  beatsPerBar?: number;
   startPitch?: number;
   endPitch?: number;
   color?: string;
   showVelocity?: boolean;
   height?: number;
+  /** Playback position in beats */
+  playheadBeat?: number;
 };
 
 const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
@@ -17,11 +21,13 @@ const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#",
 export function PianoRoll({
   notes,
   lengthBars = 2,
+  beatsPerBar = 4,
   startPitch,
   endPitch,
   color = "#8b5cf6",
   showVelocity = true,
   height = 120,
+  playheadBeat,
 }: PianoRollProps) {
   // Calculate pitch range from notes or use defaults
   const pitches = notes.map((n) => n.pitch);
@@ -29,8 +35,9 @@ export function PianoRoll({
   const maxPitch = endPitch ?? Math.max(...pitches, 72) + 2;
   const pitchRange = maxPitch - minPitch;
 
-  const totalBeats = lengthBars * 4;
-  const gridCols = totalBeats * 4; // 16th note resolution
+  const totalBeats = lengthBars * beatsPerBar;
+  const gridCols = Math.round(totalBeats * 4); // 16th note resolution
+  const stepsPerBar = Math.round(beatsPerBar * 4);
 
   const isBlackKey = (pitch: number) => {
     const noteIndex = pitch % 12;
@@ -71,7 +78,7 @@ export function PianoRoll({
               <div
                 key={col}
                 className={`flex-1 border-r ${
-                  col % 16 === 0
+                  col % stepsPerBar === 0
                     ? "border-white/20"
                     : col % 4 === 0
                     ? "border-white/10"
@@ -118,16 +125,23 @@ export function PianoRoll({
             );
           })}
 
-          {/* Beat markers */}
-          <div className="absolute bottom-0 left-0 right-0 flex h-4 border-t border-white/10 bg-black/40">
-            {Array.from({ length: totalBeats }).map((_, beat) => (
+          {/* Playhead */}
+          {playheadBeat !== undefined && (
+            <div
+              className="absolute top-0 bottom-0 w-px bg-white/80 pointer-events-none"
+              style={{ left: `${((playheadBeat % totalBeats) / totalBeats) * 100}%` }}
+            />
+          )}
+
+          {/* Bar markers, over the first beat of each bar (bars may not start on a beat, e.g. 7/8) */}
+          <div className="absolute bottom-0 left-0 right-0 h-4 border-t border-white/10 bg-black/40">
+            {Array.from({ length: lengthBars }).map((_, bar) => (
               <div
-                key={beat}
-                className={`flex-1 text-center text-[8px] ${
-                  beat % 4 === 0 ? "text-white/60" : "text-white/30"
-                }`}
+                key={bar}
+                className="absolute text-center text-[8px] text-white/60"
+                style={{ left: `${((bar * beatsPerBar) / totalBeats) * 100}%`, width: `${100 / totalBeats}%` }}
               >
-                {beat % 4 === 0 ? Math.floor(beat / 4) + 1 : ""}
+                {bar + 1}
               </div>
             ))}
           </div>
@@ -156,7 +170,11 @@ type MotifCardProps = {
   };
   isSelected?: boolean;
   onSelect?: () => void;
+  /** Extra controls shown under the header, e.g. audio preview */
+  actions?: React.ReactNode;
   color?: string;
+  playheadBeat?: number;
+  beatsPerBar?: number;
 };
 
 const TYPE_COLORS: Record<string, string> = {
@@ -172,6 +190,9 @@ export function MotifCard({
   isSelected,
   onSelect,
   color,
+  actions,
+  playheadBeat,
+  beatsPerBar,
 }: MotifCardProps) {
   const typeColor = color || TYPE_COLORS[motif.type] || "#8b5cf6";
 
@@ -214,12 +235,16 @@ export function MotifCard({
         )}
       </div>
 
+      {actions && <div className="mb-3">{actions}</div>}
+
       {/* Piano roll */}
       <PianoRoll
         notes={motif.notes}
         lengthBars={motif.lengthBars}
+        beatsPerBar={beatsPerBar}
         color={typeColor}
         height={80}
+        playheadBeat={playheadBeat}
       />
 
       {/* Description */}
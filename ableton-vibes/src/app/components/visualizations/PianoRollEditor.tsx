@@ -0,0 +1,341 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { MotifNote } from "../types";
+import {
+  emptyHistory,
+  GRID_RESOLUTIONS,
+  GridResolution,
+  gridStep,
+  NoteHistory,
+  normalizeNotes,
+  recordEdit,
+  redoEdit,
+  scalePitchClasses,
+  snapToGrid,
+  undoEdit,
+} from "../../lib/noteEditing";
+
+type PianoRollEditorProps = {
+  notes: MotifNote[];
+  /** Called once per finished edit (draw, erase, drag, velocity, undo, redo) with the full note list */
+  onNotesChange: (notes: MotifNote[]) => void;
+  lengthBars?: number;
+  beatsPerBar?: number;
+  /** Key and scale for row highlighting, e.g. MotifSeed.key / MotifSeed.scale */
+  keyRoot?: string;
+  scale?: string;
+  color?: string;
+  height?: number;
+  playheadBeat?: number;
+};
+
+type Drag =
+  | { mode: "move"; index: number; startBeat: number; startPitch: number; origin: MotifNote }
+  | { mode: "resize"; index: number; startBeat: number; origin: MotifNote }
+  | { mode: "velocity"; index: number };
+
+const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+const RESIZE_HANDLE_PX = 6;
+const MIN_DURATION = 1 / 16;
+const DEFAULT_VELOCITY = 100;
+
+export function PianoRollEditor({
+  notes,
+  onNotesChange,
+  lengthBars = 2,
+  beatsPerBar = 4,
+  keyRoot,
+  scale,
+  color = "#8b5cf6",
+  height = 240,
+  playheadBeat,
+}: PianoRollEditorProps) {
+  const [resolution, setResolution] = useState<GridResolution>("1/16");
+  const [triplet, setTriplet] = useState(false);
+  const [history, setHistory] = useState<NoteHistory>(emptyHistory);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [draft, setDraft] = useState<MotifNote[] | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  const totalBeats = lengthBars * beatsPerBar;
+  const step = gridStep(resolution, triplet);
+  const shown = draft ?? notes;
+
+  // The range follows committed notes only, so rows stay put mid-drag
+  const { minPitch, maxPitch } = useMemo(() => {
+    const pitches = notes.map((n) => n.pitch);
+    return { minPitch: Math.min(...pitches, 60) - 4, maxPitch: Math.max(...pitches, 72) + 4 };
+  }, [notes]);
+  const pitchRange = maxPitch - minPitch + 1;
+  const inScale = useMemo(() => scalePitchClasses(keyRoot, scale), [keyRoot, scale]);
+
+  const commit = (next: MotifNote[]) => {
+    setHistory((h) => recordEdit(h, notes));
+    onNotesChange(normalizeNotes(next, totalBeats, MIN_DURATION));
+  };
+
+  const restore = (result: { history: NoteHistory; notes: MotifNote[] } | null) => {
+    if (!result) return;
+    setHistory(result.history);
+    setSelected(null);
+    onNotesChange(result.notes);
+  };
+
+  const gridPosition = (event: React.PointerEvent, grid: Element) => {
+    const rect = grid.getBoundingClientRect();
+    return {
+      beat: ((event.clientX - rect.left) / rect.width) * totalBeats,
+      pitch: maxPitch - Math.floor(((event.clientY - rect.top) / rect.height) * pitchRange),
+    };
+  };
+
+  const drawNote = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    const { beat, pitch } = gridPosition(event, event.currentTarget);
+    const time = Math.floor(beat / step) * step;
+    commit([...notes, { pitch, time, duration: step, velocity: DEFAULT_VELOCITY }]);
+    setSelected(notes.length);
+  };
+
+  const grabNote = (event: React.PointerEvent<HTMLDivElement>, index: number) => {
+    event.stopPropagation();
+    if (event.button === 2 || event.altKey) {
+      commit(notes.filter((_, i) => i !== index));
+      setSelected(null);
+      return;
+    }
+
+    const grid = event.currentTarget.parentElement!;
+    const { beat, pitch } = gridPosition(event, grid);
+    const resize = event.currentTarget.getBoundingClientRect().right - event.clientX <= RESIZE_HANDLE_PX;
+    const origin = notes[index];
+    setDrag(
+      resize
+        ? { mode: "resize", index, startBeat: beat, origin }
+        : { mode: "move", index, startBeat: beat, startPitch: pitch, origin }
+    );
+    setSelected(index);
+    setDraft(notes);
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const dragNote = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag || drag.mode === "velocity" || !draft) return;
+    const { beat, pitch } = gridPosition(event, event.currentTarget.parentElement!);
+    const { origin } = drag;
+    const moved =
+      drag.mode === "move"
+        ? {
+            ...origin,
+            time: snapToGrid(origin.time + beat - drag.startBeat, step),
+            pitch: origin.pitch + pitch - drag.startPitch,
+          }
+        : {
+            ...origin,
+            duration: Math.max(step, snapToGrid(origin.time + origin.duration + beat - drag.startBeat, step) - origin.time),
+          };
+    setDraft(draft.map((note, i) => (i === drag.index ? moved : note)));
+  };
+
+  const setVelocity = (event: React.PointerEvent<HTMLDivElement>, index: number, lane: Element) => {
+    const rect = lane.getBoundingClientRect();
+    const velocity = Math.round(127 * (1 - (event.clientY - rect.top) / rect.height));
+    setDraft((current) =>
+      (current ?? notes).map((note, i) => (i === index ? { ...note, velocity: Math.min(127, Math.max(1, velocity)) } : note))
+    );
+  };
+
+  const grabVelocity = (event: React.PointerEvent<HTMLDivElement>, index: number) => {
+    event.stopPropagation();
+    setDrag({ mode: "velocity", index });
+    setSelected(index);
+    setVelocity(event, index, event.currentTarget.parentElement!);
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const release = () => {
+    if (draft && draft.some((note, i) => note !== notes[i])) commit(draft);
+    setDraft(null);
+    setDrag(null);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const mod = event.metaKey || event.ctrlKey;
+    if (mod && event.key.toLowerCase() === "z") {
+      event.preventDefault();
+      restore(event.shiftKey ? redoEdit(history, notes) : undoEdit(history, notes));
+    } else if (mod && event.key.toLowerCase() === "y") {
+      event.preventDefault();
+      restore(redoEdit(history, notes));
+    } else if ((event.key === "Delete" || event.key === "Backspace") && selected !== null) {
+      event.preventDefault();
+      commit(notes.filter((_, i) => i !== selected));
+      setSelected(null);
+    }
+  };
+
+  const rowClass = (pitch: number) => {
+    const pitchClass = pitch % 12;
+    if (inScale) return inScale.has(pitchClass) ? "bg-white/[0.06]" : "bg-black/30";
+    return [1, 3, 6, 8, 10].includes(pitchClass) ? "bg-black/30" : "";
+  };
+
+  const gridCols = Math.round(totalBeats / step);
+
+  return (
+    <div
+      className="rounded-xl bg-black/40 p-3 outline-none focus:ring-1 focus:ring-violet-500/50"
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      onClick={(event) => event.stopPropagation()}
+      onContextMenu={(event) => event.preventDefault()}
+    >
+      {/* Toolbar */}
+      <div className="mb-2 flex flex-wrap items-center gap-2 text-[11px]">
+        <div className="flex rounded-lg bg-white/5 p-0.5">
+          {GRID_RESOLUTIONS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setResolution(option)}
+              className={`rounded-md px-2 py-0.5 transition-colors ${
+                resolution === option ? "bg-violet-500 text-white" : "text-white/60 hover:text-white"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setTriplet(!triplet)}
+          className={`rounded-lg px-2 py-1 transition-colors ${
+            triplet ? "bg-violet-500 text-white" : "bg-white/5 text-white/60 hover:text-white"
+          }`}
+        >
+          Triplet
+        </button>
+        <button
+          onClick={() => restore(undoEdit(history, notes))}
+          disabled={history.past.length === 0}
+          className="rounded-lg bg-white/5 px-2 py-1 text-white/60 hover:text-white disabled:opacity-40"
+        >
+          Undo
+        </button>
+        <button
+          onClick={() => restore(redoEdit(history, notes))}
+          disabled={history.future.length === 0}
+          className="rounded-lg bg-white/5 px-2 py-1 text-white/60 hover:text-white disabled:opacity-40"
+        >
+          Redo
+        </button>
+        {inScale && (
+          <span className="text-white/50">
+            {keyRoot} {scale}
+          </span>
+        )}
+        <span className="ml-auto text-white/40">
+          Click to draw · drag to move · drag the right edge to resize · Alt-click or right-click to erase
+        </span>
+      </div>
+
+      <div className="flex">
+        {/* Piano keys */}
+        <div className="w-8 flex flex-col border-r border-white/10" style={{ height }}>
+          {Array.from({ length: pitchRange }).map((_, i) => {
+            const pitch = maxPitch - i;
+            return (
+              <div
+                key={pitch}
+                className={`flex-1 text-[8px] flex items-center justify-center ${
+                  [1, 3, 6, 8, 10].includes(pitch % 12) ? "bg-slate-800 text-white/40" : "bg-slate-700 text-white/60"
+                }`}
+                title={NOTE_NAMES[pitch % 12] + Math.floor(pitch / 12 - 1)}
+              >
+                {pitch % 12 === 0 ? `C${Math.floor(pitch / 12 - 1)}` : ""}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Note grid */}
+        <div
+          className="relative flex-1 cursor-crosshair select-none overflow-hidden"
+          style={{ height }}
+          onPointerDown={drawNote}
+        >
+          <div className="absolute inset-0 flex flex-col pointer-events-none">
+            {Array.from({ length: pitchRange }).map((_, i) => (
+              <div key={i} className={`flex-1 border-b border-white/5 ${rowClass(maxPitch - i)}`} />
+            ))}
+          </div>
+          <div className="absolute inset-0 flex pointer-events-none">
+            {Array.from({ length: gridCols }).map((_, col) => {
+              const beat = col * step;
+              return (
+                <div
+                  key={col}
+                  className={`flex-1 border-l ${
+                    beat % beatsPerBar === 0 ? "border-white/20" : Number.isInteger(beat) ? "border-white/10" : "border-white/[0.03]"
+                  }`}
+                />
+              );
+            })}
+          </div>
+
+          {shown.map((note, idx) => (
+            <div
+              key={idx}
+              className={`absolute rounded-sm cursor-move ${selected === idx ? "ring-1 ring-white" : ""}`}
+              style={{
+                left: `${(note.time / totalBeats) * 100}%`,
+                width: `${(note.duration / totalBeats) * 100}%`,
+                top: `${((maxPitch - note.pitch) / pitchRange) * 100}%`,
+                height: `${100 / pitchRange}%`,
+                backgroundColor: color,
+                opacity: 0.5 + (note.velocity / 127) * 0.5,
+              }}
+              title={`${NOTE_NAMES[note.pitch % 12]}${Math.floor(note.pitch / 12 - 1)} - vel: ${note.velocity}`}
+              onPointerDown={(event) => grabNote(event, idx)}
+              onPointerMove={dragNote}
+              onPointerUp={release}
+            >
+              <div className="absolute right-0 top-0 bottom-0 cursor-ew-resize" style={{ width: RESIZE_HANDLE_PX }} />
+            </div>
+          ))}
+
+          {playheadBeat !== undefined && (
+            <div
+              className="absolute top-0 bottom-0 w-px bg-white/80 pointer-events-none"
+              style={{ left: `${((playheadBeat % totalBeats) / totalBeats) * 100}%` }}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Velocity lane */}
+      <div className="mt-1 flex">
+        <div className="w-8 text-[8px] text-white/40 flex items-end justify-center pb-1">Vel</div>
+        <div className="relative h-12 flex-1 rounded-sm bg-white/5">
+          {shown.map((note, idx) => (
+            <div
+              key={idx}
+              className="absolute bottom-0 cursor-ns-resize rounded-t-sm"
+              style={{
+                left: `${(note.time / totalBeats) * 100}%`,
+                width: `max(3px, ${(Math.min(note.duration, step) / totalBeats) * 100}%)`,
+                height: `${(note.velocity / 127) * 100}%`,
+                backgroundColor: color,
+                opacity: selected === idx ? 1 : 0.6,
+              }}
+              onPointerDown={(event) => grabVelocity(event, idx)}
+              onPointerMove={(event) =>
+                drag?.mode === "velocity" && drag.index === idx && setVelocity(event, idx, event.currentTarget.parentElement!)
+              }
+              onPointerUp={release}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,3 +3,5 @@ export { PianoRoll, MotifCard } from "./PianoRoll";
 export { EnergyCurve } from "./EnergyCurve";
 export { FrequencyCoverage, PaletteEntryCard } from "./FrequencyCoverage";
 export { ArrangementTimeline, SectionCard } from "./ArrangementTimeline";
+export { PianoRollEditor } from "./PianoRollEditor";
+export { GrooveSequencer } from "./GrooveSequencer";
@@ -0,0 +1,27 @@
+import { encodeWav, type RenderedAudio } from "../../../agent/src/workflow/utils/audioRender";
+
+// The agent's renderer, so the UI auditions candidates exactly as the agent renders them
+export {
+  compositionToEvents,
+  encodeWav,
+  grooveToEvents,
+  midiToFrequency,
+  motifToEvents,
+  renderEvents,
+  TONAL_VOICES,
+} from "../../../agent/src/workflow/utils/audioRender";
+export type {
+  Envelope,
+  RenderedAudio,
+  RenderEvent,
+  RenderInstrument,
+  RenderOptions,
+  Waveform,
+} from "../../../agent/src/workflow/utils/audioRender";
+
+/**
+ * Wrap rendered audio as a WAV blob for an <audio> element or a download
+ */
+export function toWavBlob(audio: RenderedAudio, bitDepth: 16 | 24 = 16): Blob {
+  return new Blob([encodeWav(audio.samples, audio.sampleRate, bitDepth)], { type: "audio/wav" });
+}
@@ -0,0 +1,92 @@
+import type { GrooveCandidate, GrooveLane } from "../components/types";
+import { getAccentedSteps, getStepsPerBar } from "./meter";
+
+export const GROOVE_LANES: GrooveLane[] = ["kick", "snare", "hat", "perc"];
+
+/** Pattern lengths offered by the step sequencer, in 16th steps */
+export const PATTERN_LENGTHS = [12, 16, 24, 32];
+
+type LaneValues = "stepVelocities" | "stepProbabilities";
+
+// Stored for steps without their own value
+const DEFAULT_VALUES: Record<LaneValues, number> = { stepVelocities: 0, stepProbabilities: 100 };
+
+const PATTERN_FIELDS = {
+  kick: "kickPattern",
+  snare: "snarePattern",
+  hat: "hatPattern",
+  perc: "percPattern",
+} as const satisfies Record<GrooveLane, keyof GrooveCandidate>;
+
+export const grooveSteps = (groove: GrooveCandidate) => groove.steps ?? 16;
+
+export function lanePattern(groove: GrooveCandidate, lane: GrooveLane): number[] {
+  return groove[PATTERN_FIELDS[lane]] ?? [];
+}
+
+/**
+ * Turn a step on or off in one lane
+ */
+export function toggleStep(groove: GrooveCandidate, lane: GrooveLane, step: number): GrooveCandidate {
+  const pattern = lanePattern(groove, lane);
+  const next = pattern.includes(step) ? pattern.filter((s) => s !== step) : [...pattern, step].sort((a, b) => a - b);
+  return { ...groove, [PATTERN_FIELDS[lane]]: next };
+}
+
+/**
+ * Set a per-step velocity or chance. Arrays are kept dense (0 for velocity and 100 for
+ * chance mean "default") so they survive the trip through JSON state
+ */
+export function setStepValue(
+  groove: GrooveCandidate,
+  field: LaneValues,
+  lane: GrooveLane,
+  step: number,
+  value: number
+): GrooveCandidate {
+  const values = Array.from(
+    { length: grooveSteps(groove) },
+    (_, i) => groove[field]?.[lane]?.[i] ?? DEFAULT_VALUES[field]
+  );
+  values[step] = value;
+  return { ...groove, [field]: { ...groove[field], [lane]: values } };
+}
+
+/**
+ * Change the pattern length. Growing repeats the existing pattern to fill the new
+ * steps; shrinking drops the steps past the end
+ */
+export function resizeGroove(groove: GrooveCandidate, steps: number): GrooveCandidate {
+  const current = grooveSteps(groove);
+  const resized: GrooveCandidate = { ...groove, steps };
+  for (const lane of GROOVE_LANES) {
+    if (lane === "perc" && !groove.percPattern) continue;
+    const pattern = lanePattern(groove, lane);
+    const expanded: number[] = [];
+    for (let offset = 0; offset < steps; offset += current) {
+      expanded.push(...pattern.map((step) => step + offset));
+    }
+    resized[PATTERN_FIELDS[lane]] = expanded.filter((step) => step < steps);
+  }
+  for (const field of ["stepVelocities", "stepProbabilities"] as const) {
+    const values = groove[field];
+    if (!values) continue;
+    resized[field] = Object.fromEntries(
+      Object.entries(values).map(([lane, laneValues]) => [
+        lane,
+        Array.from({ length: steps }, (_, i) => laneValues?.[i % current] ?? DEFAULT_VALUES[field]),
+      ])
+    );
+  }
+  return resized;
+}
+
+/**
+ * Switch the groove to another meter, one bar long. Mirrors fitGrooveToMeter in the
+ * agent's groove generator: kicks land on the new meter's strong pulses
+ */
+export function setGrooveMeter(groove: GrooveCandidate, meter: string): GrooveCandidate {
+  const resized = resizeGroove(groove, getStepsPerBar(meter));
+  const kicks = new Set([...resized.kickPattern, ...getAccentedSteps(meter)]);
+  return { ...resized, meter, kickPattern: [...kicks].sort((a, b) => a - b) };
+}
@@ -0,0 +1,3 @@
+// The agent's scorer, so hand-edited grooves are re-scored in place with the same
+// numbers the agent would produce
+export { calculateGrooveScore } from "../../../agent/src/workflow/scoring/groove";
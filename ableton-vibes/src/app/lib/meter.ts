@@ -0,0 +1,46 @@
+import {
+  getAccentedSteps as agentAccentedSteps,
+  getBeatsPerBar as agentBeatsPerBar,
+  getStepsPerBar as agentStepsPerBar,
+  parseTimeSignature,
+} from "../../../agent/src/workflow/utils/rhythmUtils";
+
+// The agent's meter helpers, so bars, grids and accents in the browser line up with
+// what the agent generates. Signatures typed by hand may be half-finished, so anything
+// the agent can't parse counts as 4/4 here instead of throwing
+
+/** Meters offered when editing a groove */
+export const METERS = ["4/4", "3/4", "6/8", "7/8", "5/4"];
+
+function lenient(timeSig?: string): string {
+  const [numerator, denominator] = (timeSig ?? "").split("/").map(Number);
+  return numerator && denominator ? `${numerator}/${denominator}` : "4/4";
+}
+
+/**
+ * Quarter-note beats in one bar; unknown signatures count as 4/4
+ */
+export function getBeatsPerBar(timeSig?: string): number {
+  return agentBeatsPerBar(lenient(timeSig));
+}
+
+/**
+ * 16th steps in one bar
+ */
+export function getStepsPerBar(timeSig?: string): number {
+  return agentStepsPerBar(lenient(timeSig));
+}
+
+/**
+ * 16th steps per pulse of the meter: 4 for quarter-note meters, 2 for eighth-note ones
+ */
+export function getPulseSteps(timeSig?: string): number {
+  return 16 / parseTimeSignature(lenient(timeSig)).denominator;
+}
+
+/**
+ * 16th steps of the pulses accented at least as strongly as the threshold
+ */
+export function getAccentedSteps(timeSig?: string, threshold = 0.8): number[] {
+  return agentAccentedSteps(lenient(timeSig), threshold);
+}
@@ -1,5 +1,5 @@
 import MidiWriter from "midi-writer-js";
-import type { AbletonProjectState, MotifNote } from "../components/types";
+import type { AbletonClip, AbletonProjectState, MotifNote } from "../components/types";
 
 const TICKS_PER_BEAT = 128; // midi-writer-js default PPQ
 
@@ -22,6 +22,12 @@ function velocityToMidi(velocity: number): number {
   return Math.max(1, Math.min(100, Math.round((velocity / 127) * 100)));
 }
 
+// Arrangement clips mirror the timeline, so they win over session clips when a track has both
+function clipsForExport(clips: AbletonClip[]): AbletonClip[] {
+  const arrangement = clips.filter((clip) => typeof clip.startTime === "number");
+  return arrangement.length > 0 ? arrangement : clips;
+}
+
 export function projectHasMidiNotes(project: AbletonProjectState): boolean {
   return project.tracks.some(
     (track) =>
@@ -42,9 +48,10 @@ export function exportProjectAsMidi(project: AbletonProjectState): void {
     if (track.type !== "MIDI") continue;
 
     const allNotes: MotifNote[] = [];
-    for (const clip of track.clips) {
-      if (clip.notes && clip.notes.length > 0) {
-        allNotes.push(...clip.notes);
+    for (const clip of clipsForExport(track.clips)) {
+      const offset = clip.startTime ?? 0;
+      for (const { muted, ...note } of clip.notes ?? []) {
+        if (!muted) allNotes.push({ ...note, time: note.time + offset });
       }
     }
     if (allNotes.length === 0) continue;
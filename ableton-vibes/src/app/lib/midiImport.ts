@@ -0,0 +1,60 @@
+import type { AbletonClip, AbletonProjectState, AbletonTrack } from "../components/types";
+import {
+  isDrumTrack,
+  midiBeatsPerBar,
+  parseMidiFile,
+  type MidiFile,
+} from "../../../agent/src/workflow/utils/midiFile";
+
+// The agent's parser, so files dropped in the browser need no round trip through the agent
+export { parseMidiFile };
+export type { MidiFile };
+
+function formatLength(lengthBeats: number, beatsPerBar: number): string {
+  const bars = Math.ceil(lengthBeats / beatsPerBar);
+  return `${bars} ${bars === 1 ? "bar" : "bars"}`;
+}
+
+/**
+ * Convert a parsed file into project tracks, one arrangement clip per part starting at beat 0
+ */
+export function midiFileToTracks(file: MidiFile, fileName: string): AbletonTrack[] {
+  const baseName = fileName.replace(/\.midi?$/i, "");
+  return file.tracks.map((track, index) => {
+    const clip: AbletonClip = {
+      name: baseName,
+      length: formatLength(file.lengthBeats, midiBeatsPerBar(file)),
+      clipType: "MIDI",
+      slotIndex: null,
+      startTime: 0,
+      notes: track.notes.map(({ pitch, time, duration, velocity }) => ({ pitch, time, duration, velocity })),
+    };
+    return {
+      id: `midi-${baseName}-${index}-${track.name}`,
+      name: track.name,
+      type: "MIDI",
+      role: isDrumTrack(track) ? "drums" : undefined,
+      notes: `Imported from ${fileName}`,
+      devices: [],
+      clips: [clip],
+    };
+  });
+}
+
+/**
+ * Project update for an imported file. Re-importing the same file replaces its tracks;
+ * an empty project also takes the file's tempo and time signature
+ */
+export function importMidiIntoProject(
+  project: AbletonProjectState,
+  file: MidiFile,
+  fileName: string
+): Partial<AbletonProjectState> {
+  const imported = midiFileToTracks(file, fileName);
+  const importedIds = new Set(imported.map((track) => track.id));
+  const tracks = [...project.tracks.filter((track) => !importedIds.has(track.id)), ...imported];
+
+  return project.tracks.length === 0
+    ? { tracks, tempo: Math.round(file.tempo), timeSignature: file.timeSignature }
+    : { tracks };
+}
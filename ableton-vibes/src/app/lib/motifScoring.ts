@@ -0,0 +1,3 @@
+// The agent's scorer, so hand-edited motifs are re-scored in place with the same
+// numbers the agent would produce
+export { calculateMotifScore } from "../../../agent/src/workflow/scoring/motif";
@@ -0,0 +1,90 @@
+import type { MotifNote } from "../components/types";
+import { SCALES } from "../../../agent/src/workflow/utils/musicTheory";
+
+const PITCH_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+export type GridResolution = "1/4" | "1/8" | "1/16" | "1/32";
+
+export const GRID_RESOLUTIONS: GridResolution[] = ["1/4", "1/8", "1/16", "1/32"];
+
+/**
+ * Grid step in beats; triplets fit three steps where two straight ones go
+ */
+export function gridStep(resolution: GridResolution, triplet = false): number {
+  const step = 4 / Number(resolution.split("/")[1]);
+  return triplet ? (step * 2) / 3 : step;
+}
+
+export function snapToGrid(beat: number, step: number): number {
+  return Math.round(beat / step) * step;
+}
+
+/**
+ * Pitch classes of a key and scale such as "F#" / "minor"; null when either is unknown
+ */
+export function scalePitchClasses(key?: string, scale?: string): Set<number> | null {
+  const match = key?.trim().match(/^([A-G])([#b]?)/i);
+  const intervals = scale ? SCALES[scale] : undefined;
+  if (!match || !intervals) return null;
+
+  const [, letter, accidental] = match;
+  const root = PITCH_CLASSES[letter.toUpperCase()] + (accidental === "#" ? 1 : accidental === "b" ? -1 : 0);
+  return new Set(intervals.map((interval) => (((root + interval) % 12) + 12) % 12));
+}
+
+export type NoteHistory = {
+  past: MotifNote[][];
+  future: MotifNote[][];
+};
+
+const HISTORY_LIMIT = 100;
+
+export const emptyHistory = (): NoteHistory => ({ past: [], future: [] });
+
+/**
+ * Record the notes an edit is about to replace; a new edit clears the redo stack
+ */
+export function recordEdit(history: NoteHistory, previous: MotifNote[]): NoteHistory {
+  return { past: [...history.past, previous].slice(-HISTORY_LIMIT), future: [] };
+}
+
+/**
+ * Step back one edit; null when there is nothing to undo
+ */
+export function undoEdit(
+  history: NoteHistory,
+  current: MotifNote[]
+): { history: NoteHistory; notes: MotifNote[] } | null {
+  const notes = history.past[history.past.length - 1];
+  if (!notes) return null;
+  return { history: { past: history.past.slice(0, -1), future: [current, ...history.future] }, notes };
+}
+
+/**
+ * Re-apply the last undone edit; null when there is nothing to redo
+ */
+export function redoEdit(
+  history: NoteHistory,
+  current: MotifNote[]
+): { history: NoteHistory; notes: MotifNote[] } | null {
+  const [notes, ...future] = history.future;
+  if (!notes) return null;
+  return { history: { past: [...history.past, current], future }, notes };
+}
+
+/**
+ * Clamp notes into the clip and the MIDI ranges, so edits never leave invalid notes behind.
+ * Order is kept so callers can hold on to note indexes
+ */
+export function normalizeNotes(notes: MotifNote[], lengthBeats: number, minDuration: number): MotifNote[] {
+  return notes.map((note) => {
+    const time = Math.min(Math.max(0, note.time), lengthBeats - minDuration);
+    return {
+      ...note,
+      time,
+      duration: Math.min(Math.max(minDuration, note.duration), lengthBeats - time),
+      pitch: Math.min(127, Math.max(0, Math.round(note.pitch))),
+      velocity: Math.min(127, Math.max(1, Math.round(note.velocity))),
+    };
+  });
+}
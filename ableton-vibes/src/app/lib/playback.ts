@@ -0,0 +1,239 @@
+import { Envelope, midiToFrequency, RenderEvent, TONAL_VOICES, Waveform } from "./audioRender";
+
+// Real-time counterpart to renderEvents: the same events and voice settings,
+// scheduled on a Web Audio clock so they can loop while the UI follows along
+
+export type PlaybackSource = {
+  /** Identifies what is playing, e.g. a groove or motif id */
+  id: string;
+  events: RenderEvent[];
+  /** Loop length in beats */
+  lengthBeats: number;
+  tempo: number;
+};
+
+// Look-ahead scheduling: a coarse timer queues notes slightly ahead of the audio clock
+const LOOKAHEAD_SECONDS = 0.1;
+const SCHEDULE_INTERVAL_MS = 25;
+
+const OSCILLATOR_TYPES: Record<Waveform, OscillatorType> = {
+  sine: "sine",
+  triangle: "triangle",
+  saw: "sawtooth",
+  square: "square",
+};
+
+/**
+ * One shared player: starting a source stops the previous one
+ */
+export class PlaybackEngine {
+  loop = true;
+
+  private context: AudioContext | null = null;
+  private output: GainNode | null = null;
+  private noise: AudioBuffer | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private source: PlaybackSource | null = null;
+  /** Audio clock time of beat 0 of the first pass */
+  private playStart = 0;
+  /** Audio clock time of beat 0 of the pass being scheduled, which runs ahead of the playhead */
+  private passStart = 0;
+  private nextIndex = 0;
+
+  get playingId(): string | null {
+    return this.source?.id ?? null;
+  }
+
+  /**
+   * Start a source from its first beat, replacing whatever is playing.
+   * Call from a user gesture so the browser lets the audio context start
+   */
+  play(source: PlaybackSource): void {
+    this.stop();
+    const context = this.ensureContext();
+    void context.resume();
+
+    this.output = context.createGain();
+    this.output.connect(context.destination);
+    this.source = {
+      ...source,
+      events: source.events.filter((e) => e.time < source.lengthBeats).sort((a, b) => a.time - b.time),
+    };
+    this.playStart = context.currentTime + 0.05;
+    this.passStart = this.playStart;
+    this.nextIndex = 0;
+    this.schedule();
+    this.timer = setInterval(() => this.schedule(), SCHEDULE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.source = null;
+    if (this.output && this.context) {
+      // Short fade so cut-off notes do not click
+      const output = this.output;
+      output.gain.setTargetAtTime(0, this.context.currentTime, 0.01);
+      setTimeout(() => output.disconnect(), 100);
+    }
+    this.output = null;
+  }
+
+  /**
+   * Beats since the start of the current pass, or null when stopped
+   */
+  position(): number | null {
+    if (!this.source || !this.context) return null;
+    const { tempo, lengthBeats } = this.source;
+    const beats = Math.max(0, (this.context.currentTime - this.playStart) * (tempo / 60));
+    return lengthBeats > 0 ? beats % lengthBeats : beats;
+  }
+
+  dispose(): void {
+    this.stop();
+    void this.context?.close();
+    this.context = null;
+  }
+
+  private ensureContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+      const noise = this.context.createBuffer(1, this.context.sampleRate, this.context.sampleRate);
+      const channel = noise.getChannelData(0);
+      for (let i = 0; i < channel.length; i++) channel[i] = Math.random() * 2 - 1;
+      this.noise = noise;
+    }
+    return this.context;
+  }
+
+  private schedule(): void {
+    const { source, context } = this;
+    if (!source || !context) return;
+    const secondsPerBeat = 60 / source.tempo;
+    const passSeconds = source.lengthBeats * secondsPerBeat;
+    const horizon = context.currentTime + LOOKAHEAD_SECONDS;
+
+    while (this.source) {
+      const event = source.events[this.nextIndex];
+      if (event) {
+        const when = this.passStart + event.time * secondsPerBeat;
+        if (when > horizon) return;
+        this.voice(event, Math.max(when, context.currentTime), event.duration * secondsPerBeat);
+        this.nextIndex++;
+        continue;
+      }
+
+      const passEnd = this.passStart + passSeconds;
+      if (this.loop && passSeconds > 0) {
+        if (passEnd > horizon) return;
+        this.passStart = passEnd;
+        this.nextIndex = 0;
+      } else {
+        if (context.currentTime >= passEnd) this.stop();
+        return;
+      }
+    }
+  }
+
+  private voice(event: RenderEvent, when: number, seconds: number): void {
+    const context = this.context!;
+    const amp = Math.max(0, Math.min(127, event.velocity)) / 127;
+    const gain = context.createGain();
+    gain.connect(this.output!);
+
+    switch (event.instrument) {
+      case "kick": {
+        // Sine with a fast downward pitch sweep
+        const osc = context.createOscillator();
+        osc.frequency.setValueAtTime(150, when);
+        osc.frequency.exponentialRampToValueAtTime(45, when + 0.15);
+        decay(gain.gain, when, amp * 0.9, 0.45);
+        osc.connect(gain);
+        osc.start(when);
+        osc.stop(when + 0.45);
+        return;
+      }
+      case "snare": {
+        const body = context.createOscillator();
+        body.frequency.value = 185;
+        const bodyGain = context.createGain();
+        decay(bodyGain.gain, when, amp * 0.3, 0.12);
+        body.connect(bodyGain).connect(this.output!);
+        body.start(when);
+        body.stop(when + 0.12);
+        decay(gain.gain, when, amp * 0.45, 0.25);
+        this.noiseBurst(gain, when, 0.25, "highpass", 1000);
+        return;
+      }
+      case "hat":
+        decay(gain.gain, when, amp * 0.25, 0.08);
+        this.noiseBurst(gain, when, 0.08, "highpass", 7000);
+        return;
+      case "perc": {
+        const osc = context.createOscillator();
+        osc.frequency.value = midiToFrequency(event.pitch);
+        decay(gain.gain, when, amp * 0.45, 0.2);
+        osc.connect(gain);
+        osc.start(when);
+        osc.stop(when + 0.2);
+        return;
+      }
+      case "noise": {
+        const { envelope } = TONAL_VOICES.pad;
+        const end = applyEnvelope(gain.gain, when, seconds, envelope, amp * 0.12);
+        this.noiseBurst(gain, when, end - when, "lowpass", 4000);
+        return;
+      }
+      default: {
+        const settings = TONAL_VOICES[event.instrument];
+        const osc = context.createOscillator();
+        osc.type = OSCILLATOR_TYPES[event.waveform ?? settings.waveform];
+        osc.frequency.value = midiToFrequency(event.pitch);
+        const filter = context.createBiquadFilter();
+        filter.type = "lowpass";
+        filter.frequency.value = settings.cutoff;
+        const end = applyEnvelope(gain.gain, when, seconds, settings.envelope, amp * settings.gain);
+        osc.connect(filter).connect(gain);
+        osc.start(when);
+        osc.stop(end);
+      }
+    }
+  }
+
+  private noiseBurst(
+    gain: GainNode,
+    when: number,
+    seconds: number,
+    filterType: BiquadFilterType,
+    frequency: number
+  ): void {
+    const context = this.context!;
+    const noise = context.createBufferSource();
+    noise.buffer = this.noise;
+    noise.loop = true;
+    const filter = context.createBiquadFilter();
+    filter.type = filterType;
+    filter.frequency.value = frequency;
+    noise.connect(filter).connect(gain);
+    noise.start(when);
+    noise.stop(when + seconds);
+  }
+}
+
+// Percussive hit: jump to the level, then fall away exponentially
+function decay(param: AudioParam, when: number, level: number, seconds: number): void {
+  param.setValueAtTime(Math.max(level, 0.001), when);
+  param.exponentialRampToValueAtTime(0.001, when + seconds);
+}
+
+/**
+ * Schedule an ADSR on a gain parameter; returns when the release has finished
+ */
+function applyEnvelope(param: AudioParam, when: number, held: number, env: Envelope, peak: number): number {
+  const releaseAt = when + Math.max(held, env.attack);
+  param.setValueAtTime(0, when);
+  param.linearRampToValueAtTime(peak, when + env.attack);
+  param.setTargetAtTime(peak * env.sustain, when + env.attack, env.decay / 3);
+  param.setTargetAtTime(0, releaseAt, env.release / 3);
+  return releaseAt + env.release;
+}
@@ -17,10 +17,13 @@ import {
   GrooveScore,
   TimeBase,
   SoundPalette,
+  MotifScore,
+  MotifSeed,
   MotifSeedSet,
   MacroStructure,
   ArrangementSection,
   SectionComposition,
+  Voice,
   VariationPass,
   MixDesign,
   AbletonTrack,
@@ -31,9 +34,14 @@ import {
 
 // Utilities
 import { exportProjectAsMidi, projectHasMidiNotes } from "./lib/midiExport";
+import { importMidiIntoProject, parseMidiFile } from "./lib/midiImport";
+import { calculateGrooveScore } from "./lib/grooveScoring";
+import { calculateMotifScore } from "./lib/motifScoring";
+import { getBeatsPerBar } from "./lib/meter";
 
 // Components
 import { WorkflowStepper } from "./components/workflow";
+import { TransportProvider } from "./components/shared";
 import {
   BriefWizard,
   StylePriorPanel,
@@ -133,10 +141,82 @@ function AbletonWorkflowBuilder({ themeColor }: { themeColor: string }) {
     });
   };
 
+  const [midiImportError, setMidiImportError] = useState<string | null>(null);
+
+  const importMidi = async (file: File) => {
+    try {
+      const parsed = parseMidiFile(await file.arrayBuffer());
+      if (parsed.tracks.length === 0) throw new Error(`${file.name} has no notes.`);
+      updateProject(importMidiIntoProject(project, parsed, file.name));
+      setMidiImportError(null);
+    } catch (error) {
+      setMidiImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
   const setCurrentStage = (stage: WorkflowStage) => {
     updateWorkflow({ currentStage: stage });
   };
 
+  // A hand-edited groove replaces the candidate (and the time base copy) and is re-scored
+  // when the candidates have scores, keeping them aligned for the agent
+  const updateGroove = (groove: GrooveCandidate) => {
+    const replace = (grooves: GrooveCandidate[]) => grooves.map((g) => (g.id === groove.id ? groove : g));
+    const timeBase = workflow.timeBase && {
+      ...workflow.timeBase,
+      selectedGroove: workflow.timeBase.selectedGroove.id === groove.id ? groove : workflow.timeBase.selectedGroove,
+      alternateGrooves: replace(workflow.timeBase.alternateGrooves),
+    };
+    const { stylePrior, grooveScores } = workflow;
+    updateWorkflow({
+      grooveCandidates: replace(workflow.grooveCandidates ?? []),
+      grooveScores:
+        stylePrior && grooveScores
+          ? grooveScores.map((score) =>
+              score.candidateId === groove.id ? calculateGrooveScore(groove, stylePrior) : score
+            )
+          : grooveScores,
+      timeBase,
+    });
+  };
+
+  // Hand edits replace the motif everywhere the agent reads it (candidates and selected seeds).
+  // Its score is recomputed from the style prior; without one the candidate scores are
+  // dropped, since they pair with candidates by position, so the agent scores them again
+  const updateMotif = (motif: MotifSeed) => {
+    const replace = (seeds: MotifSeed[]) => seeds.map((seed) => (seed.id === motif.id ? motif : seed));
+    const { stylePrior, motifSeedSet } = workflow;
+    const rescore = (scores: MotifScore[]) =>
+      stylePrior
+        ? scores.map((score) => (score.motifId === motif.id ? calculateMotifScore(motif, stylePrior) : score))
+        : undefined;
+    updateWorkflow({
+      motifCandidates: workflow.motifCandidates && replace(workflow.motifCandidates),
+      motifScores: workflow.motifScores && rescore(workflow.motifScores),
+      motifSeedSet: motifSeedSet && {
+        ...motifSeedSet,
+        seeds: replace(motifSeedSet.seeds),
+        scores:
+          rescore(motifSeedSet.scores) ?? motifSeedSet.scores.filter((score) => score.motifId !== motif.id),
+      },
+    });
+  };
+
+  const updateVoice = (sectionId: string, voice: Voice) => {
+    updateWorkflow({
+      compositions: workflow.compositions?.map((composition) =>
+        composition.sectionId === sectionId
+          ? {
+              ...composition,
+              voices: composition.voices.map((v) =>
+                v.trackName === voice.trackName && v.clipName === voice.clipName ? voice : v
+              ),
+            }
+          : composition
+      ),
+    });
+  };
+
   const markStageComplete = (stage: WorkflowStage) => {
     const completed = workflow.stagesCompleted.includes(stage)
       ? workflow.stagesCompleted
@@ -423,6 +503,7 @@ function AbletonWorkflowBuilder({ themeColor }: { themeColor: string }) {
             grooveCandidates={workflow.grooveCandidates}
             grooveScores={workflow.grooveScores}
             isLocked={workflow.stagesCompleted.includes("timeBase")}
+            onUpdateGroove={updateGroove}
             onSelectGroove={(groove) => {
               const timeBase: TimeBase = {
                 finalTempo: groove.tempo,
@@ -450,7 +531,10 @@ function AbletonWorkflowBuilder({ themeColor }: { themeColor: string }) {
         return (
           <MotifSeedsPanel
             motifSeedSet={workflow.motifSeedSet}
+            motifEvolution={workflow.motifEvolution}
+            tempo={workflow.timeBase?.finalTempo ?? project.tempo}
             isLocked={workflow.stagesCompleted.includes("motifSeed")}
+            onUpdateMotif={updateMotif}
             onLock={() => markStageComplete("motifSeed")}
           />
         );
@@ -467,7 +551,12 @@ function AbletonWorkflowBuilder({ themeColor }: { themeColor: string }) {
           <ComposePanel
             compositions={workflow.compositions}
             sections={workflow.macroStructure?.sections}
+            tempo={workflow.timeBase?.finalTempo ?? project.tempo}
+            palette={workflow.palette}
+            keyRoot={workflow.motifSeedSet?.seeds[0]?.key}
+            scale={workflow.motifSeedSet?.seeds[0]?.scale}
             isLocked={workflow.stagesCompleted.includes("composeOrchestrate")}
+            onUpdateVoice={updateVoice}
             onLock={() => markStageComplete("composeOrchestrate")}
           />
         );
@@ -485,6 +574,7 @@ function AbletonWorkflowBuilder({ themeColor }: { themeColor: string }) {
         return (
           <MixDesignPanel
             mixDesign={workflow.mixDesign}
+            compliance={workflow.ruleCompliance}
             isLocked={workflow.stagesCompleted.includes("mixSpatial")}
             onLock={() => markStageComplete("mixSpatial")}
           />
@@ -522,7 +612,23 @@ function AbletonWorkflowBuilder({ themeColor }: { themeColor: string }) {
                 >
                   Export MIDI
                 </button>
+                <label className="cursor-pointer rounded-lg bg-white/10 px-2.5 py-1 text-[11px] font-medium text-white/70 transition-colors hover:bg-white/20 hover:text-white">
+                  Import MIDI
+                  <input
+                    type="file"
+                    accept=".mid,.midi,audio/midi"
+                    className="hidden"
+                    onChange={(event) => {
+                      const file = event.target.files?.[0];
+                      if (file) void importMidi(file);
+                      event.target.value = "";
+                    }}
+                  />
+                </label>
               </div>
+              {midiImportError && (
+                <p className="text-xs text-red-400 mb-2">{midiImportError}</p>
+              )}
               {project.vibe && (
                 <p className="text-sm text-white/60 mb-3">{project.vibe}</p>
               )}
@@ -643,7 +749,14 @@ function AbletonWorkflowBuilder({ themeColor }: { themeColor: string }) {
           </div>
 
           {/* Main stage panel */}
-          <div className="min-w-0">{renderStagePanel()}</div>
+          <div className="min-w-0">
+            <TransportProvider
+              tempo={workflow.timeBase?.finalTempo ?? project.tempo}
+              beatsPerBar={getBeatsPerBar(workflow.timeBase?.finalMeter ?? project.timeSignature)}
+            >
+              {renderStagePanel()}
+            </TransportProvider>
+          </div>
         </div>
       </div>
     </div>